@@ -0,0 +1,54 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { AgentsService } from './agents.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('Agents')
+@Controller('agents')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class AgentsController {
+  constructor(private agentsService: AgentsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all agents' })
+  @ApiResponse({ status: 200, description: 'Agents retrieved successfully' })
+  async findAll(@Request() req) {
+    return this.agentsService.findAll(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get agent by ID' })
+  @ApiResponse({ status: 200, description: 'Agent retrieved successfully' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.agentsService.findOne(id, req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create new agent' })
+  @ApiResponse({ status: 201, description: 'Agent created successfully' })
+  async create(@Body() agentData: any, @Request() req) {
+    return this.agentsService.create(agentData, req.user.id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update agent' })
+  @ApiResponse({ status: 200, description: 'Agent updated successfully' })
+  async update(@Param('id') id: string, @Body() agentData: any, @Request() req) {
+    return this.agentsService.update(id, agentData, req.user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete agent' })
+  @ApiResponse({ status: 200, description: 'Agent deleted successfully' })
+  async delete(@Param('id') id: string, @Request() req) {
+    return this.agentsService.delete(id, req.user.id);
+  }
+
+  @Post(':id/test')
+  @ApiOperation({ summary: 'Send a test message to an agent' })
+  @ApiResponse({ status: 200, description: 'Agent responded' })
+  async test(@Param('id') id: string, @Body('message') message: string, @Request() req) {
+    return this.agentsService.test(id, message, req.user.id);
+  }
+}
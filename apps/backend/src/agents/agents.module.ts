@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AgentsController } from './agents.controller';
+import { AgentsService } from './agents.service';
+import { AiModule } from '../ai/ai.module';
+import { Agent } from '../database/entities/agent.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Agent]), AiModule],
+  controllers: [AgentsController],
+  providers: [AgentsService],
+  exports: [AgentsService],
+})
+export class AgentsModule {}
@@ -0,0 +1,68 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { buildAgentRequest, completeAgent, formatTokens } from '@shared/ai';
+import { Agent } from '../database/entities/agent.entity';
+import { AI_ROUTER, AIRouter } from '../ai/ai-providers';
+
+@Injectable()
+export class AgentsService {
+  constructor(
+    @InjectRepository(Agent)
+    private agentRepository: Repository<Agent>,
+    @Inject(AI_ROUTER)
+    private aiRouter: AIRouter,
+  ) {}
+
+  async findAll(userId: string): Promise<Agent[]> {
+    return this.agentRepository.find({
+      where: { createdBy: { id: userId } },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<Agent> {
+    return this.agentRepository.findOne({
+      where: { id, createdBy: { id: userId } },
+    });
+  }
+
+  async create(agentData: Partial<Agent>, userId: string): Promise<Agent> {
+    const agent = this.agentRepository.create({
+      ...agentData,
+      createdBy: { id: userId } as any,
+    });
+    return this.agentRepository.save(agent);
+  }
+
+  async update(id: string, agentData: Partial<Agent>, userId: string): Promise<Agent> {
+    await this.agentRepository.update({ id, createdBy: { id: userId } }, agentData);
+    return this.findOne(id, userId);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    await this.agentRepository.delete({ id, createdBy: { id: userId } });
+  }
+
+  /** Sends one message to the agent, as an agent node with that prompt would. */
+  async test(id: string, message: string, userId: string) {
+    const agent = await this.findOne(id, userId);
+    if (!agent) {
+      throw new NotFoundException('Agent not found');
+    }
+
+    const request = buildAgentRequest(
+      { prompt: message },
+      { input: {}, nodeOutputs: {}, variables: {} },
+      agent,
+      {},
+    );
+    const completion = await completeAgent(this.aiRouter, request, agent.provider);
+    return {
+      response: completion.text,
+      tokens: formatTokens(completion.usage),
+      model: request.model,
+      provider: agent.provider,
+    };
+  }
+}
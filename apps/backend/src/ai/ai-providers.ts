@@ -0,0 +1,890 @@
+import { Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { Mistral } from '@mistralai/mistralai';
+import {
+  ChatCompletionOptions,
+  ChatCompletionResponse,
+  ChatMessage,
+  ChatRouter,
+  StreamingResponse,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+  normalizeUsage,
+} from '@shared/ai';
+
+export const AI_ROUTER = Symbol('AI_ROUTER');
+
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'mistral';
+
+export interface AIProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  organization?: string;
+  project?: string;
+}
+
+function parseToolArguments(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return { input: raw };
+  }
+}
+
+function generateToolCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// OpenAI and Mistral share the same wire format for tools and tool messages
+function toOpenAIMessages(messages: ChatMessage[]): any[] {
+  return messages.map(({ toolCalls, toolCallId, ...message }) => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: toolCallId, name: message.name, content: message.content };
+    }
+    if (toolCalls?.length) {
+      return {
+        ...message,
+        content: message.content || null,
+        tool_calls: toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return message;
+  });
+}
+
+// The Mistral SDK takes the same messages with camelCase keys
+function toMistralMessages(messages: ChatMessage[]): any[] {
+  return toOpenAIMessages(messages).map(({ tool_call_id, tool_calls, function_call, ...message }) => ({
+    ...message,
+    ...(tool_call_id !== undefined && { toolCallId: tool_call_id }),
+    ...(tool_calls !== undefined && { toolCalls: tool_calls }),
+  }));
+}
+
+function toOpenAITools(tools?: ToolDefinition[]): any[] | undefined {
+  return tools?.length ? tools.map(tool => ({ type: 'function', function: tool })) : undefined;
+}
+
+function fromOpenAIToolCalls(calls?: any[]): ToolCall[] | undefined {
+  return calls?.length
+    ? calls.map(call => ({
+        id: call.id || generateToolCallId(),
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      }))
+    : undefined;
+}
+
+function toAnthropicMessages(messages: ChatMessage[]): any[] {
+  const result: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      // Results of calls made in the same turn go back in a single user turn
+      if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content[0]?.type === 'tool_result') {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: message.role === 'assistant' ? 'assistant' : 'user', content: message.content });
+  }
+
+  return result;
+}
+
+function toGoogleContents(messages: ChatMessage[]): any[] {
+  const result: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const part = {
+        functionResponse: { name: message.name, response: { result: parseToolArguments(message.content) } },
+      };
+      const previous = result[result.length - 1];
+      if (previous?.role === 'function') {
+        previous.parts.push(part);
+      } else {
+        result.push({ role: 'function', parts: [part] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: message.role === 'assistant' ? 'model' : 'user', parts: [{ text: message.content }] });
+  }
+
+  return result;
+}
+
+function streamError(error: unknown): StreamingResponse {
+  return {
+    id: 'error',
+    type: 'error',
+    content: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+export abstract class BaseAIProvider {
+  protected readonly logger = new Logger(this.constructor.name);
+  protected config: AIProviderConfig;
+
+  constructor(config: AIProviderConfig) {
+    this.config = config;
+  }
+
+  abstract getProvider(): AIProvider;
+  abstract chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse>;
+  abstract streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+  ): Promise<void>;
+  abstract getAvailableModels(): Promise<string[]>;
+  abstract validateConfig(): Promise<boolean>;
+}
+
+export class OpenAIProvider extends BaseAIProvider {
+  private client: OpenAI;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+    this.client = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      organization: config.organization,
+      project: config.project,
+    });
+  }
+
+  getProvider(): AIProvider {
+    return 'openai';
+  }
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+    try {
+      const response: any = await this.client.chat.completions.create({
+        model: options.model,
+        messages: toOpenAIMessages(options.messages),
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        frequency_penalty: options.frequencyPenalty,
+        presence_penalty: options.presencePenalty,
+        stop: options.stop,
+        functions: options.functions,
+        function_call: options.functionCall,
+        tools: toOpenAITools(options.tools),
+        response_format: options.responseFormat,
+      } as any, { signal: options.signal });
+
+      return {
+        id: response.id,
+        object: response.object,
+        created: response.created,
+        model: response.model,
+        choices: response.choices.map((choice: any) => ({
+          index: choice.index,
+          message: {
+            role: 'assistant',
+            content: choice.message.content || '',
+            function_call: choice.message.function_call,
+            toolCalls: fromOpenAIToolCalls(choice.message.tool_calls),
+          },
+          finishReason: choice.finish_reason,
+        })),
+        usage: normalizeUsage(response.usage) || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      };
+    } catch (error) {
+      this.logger.error(`OpenAI API error: ${error}`);
+      throw error;
+    }
+  }
+
+  async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+  ): Promise<void> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: options.model,
+        messages: toOpenAIMessages(options.messages),
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        top_p: options.topP,
+        frequency_penalty: options.frequencyPenalty,
+        presence_penalty: options.presencePenalty,
+        stop: options.stop,
+        response_format: options.responseFormat,
+        stream: true,
+        // Usage arrives in a final chunk after the one carrying finish_reason
+        stream_options: { include_usage: true },
+      } as any, { signal: options.signal });
+
+      let id = '';
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+
+      for await (const chunk of stream as any) {
+        id = chunk.id || id;
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          onChunk({
+            id: chunk.id,
+            type: 'text',
+            content: delta.content,
+            delta: delta.content,
+          });
+        }
+
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = normalizeUsage(chunk.usage) || usage;
+      }
+
+      onChunk({
+        id,
+        type: 'complete',
+        content: '',
+        metadata: { finishReason: finishReason || 'stop', usage },
+      });
+    } catch (error) {
+      this.logger.error(`OpenAI streaming error: ${error}`);
+      onChunk(streamError(error));
+      throw error;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const models = await this.client.models.list();
+      return models.data
+        .filter(model => model.id.includes('gpt'))
+        .map(model => model.id)
+        .sort();
+    } catch (error) {
+      this.logger.error(`Error fetching OpenAI models: ${error}`);
+      return ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'];
+    }
+  }
+
+  async validateConfig(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export class AnthropicProvider extends BaseAIProvider {
+  private client: Anthropic;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+    });
+  }
+
+  getProvider(): AIProvider {
+    return 'anthropic';
+  }
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+    try {
+      const systemMessage = options.messages.find(m => m.role === 'system');
+
+      const response: any = await this.client.messages.create({
+        model: options.model,
+        max_tokens: options.maxTokens || 1000,
+        temperature: options.temperature,
+        system: systemMessage?.content,
+        messages: toAnthropicMessages(options.messages),
+        tools: options.tools?.length
+          ? options.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters,
+            }))
+          : undefined,
+      } as any, { signal: options.signal });
+
+      const toolCalls: ToolCall[] = response.content
+        .filter((block: any) => block.type === 'tool_use')
+        .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input || {} }));
+
+      // Convert response to OpenAI format
+      return {
+        id: response.id,
+        object: 'chat.completion',
+        created: Date.now(),
+        model: options.model,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: response.content
+              .filter((block: any) => block.type === 'text')
+              .map((block: any) => block.text)
+              .join(''),
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+          },
+          finishReason: response.stop_reason === 'tool_use' ? 'tool_calls' : response.stop_reason || 'stop',
+        }],
+        usage: {
+          promptTokens: response.usage.input_tokens,
+          completionTokens: response.usage.output_tokens,
+          totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Anthropic API error: ${error}`);
+      throw error;
+    }
+  }
+
+  async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+  ): Promise<void> {
+    try {
+      const systemMessage = options.messages.find(m => m.role === 'system');
+
+      const stream = await this.client.messages.create({
+        model: options.model,
+        max_tokens: options.maxTokens || 1000,
+        temperature: options.temperature,
+        system: systemMessage?.content,
+        messages: toAnthropicMessages(options.messages),
+        stream: true,
+      }, { signal: options.signal });
+
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const chunk of stream) {
+        if (chunk.type === 'message_start') {
+          inputTokens = chunk.message.usage?.input_tokens || 0;
+        }
+
+        if (chunk.type === 'message_delta') {
+          outputTokens = chunk.usage?.output_tokens || outputTokens;
+        }
+
+        if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+          onChunk({
+            id: 'anthropic-stream',
+            type: 'text',
+            content: chunk.delta.text,
+            delta: chunk.delta.text,
+          });
+        }
+
+        if (chunk.type === 'message_stop') {
+          onChunk({
+            id: 'anthropic-stream',
+            type: 'complete',
+            content: '',
+            metadata: {
+              finishReason: 'stop',
+              usage: normalizeUsage({ input_tokens: inputTokens, output_tokens: outputTokens }),
+            },
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Anthropic streaming error: ${error}`);
+      onChunk(streamError(error));
+      throw error;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [
+      'claude-3-opus-20240229',
+      'claude-3-sonnet-20240229',
+      'claude-3-haiku-20240307',
+      'claude-2.1',
+      'claude-2.0',
+      'claude-instant-1.2',
+    ];
+  }
+
+  async validateConfig(): Promise<boolean> {
+    try {
+      await this.client.messages.create({
+        model: 'claude-3-haiku-20240307',
+        max_tokens: 10,
+        messages: [{ role: 'user', content: 'test' }],
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export class GoogleProvider extends BaseAIProvider {
+  private client: GoogleGenerativeAI;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+    this.client = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  getProvider(): AIProvider {
+    return 'google';
+  }
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+    try {
+      const model = this.client.getGenerativeModel({ model: options.model });
+
+      const contents = toGoogleContents(options.messages);
+      const systemMessage = options.messages.find(m => m.role === 'system');
+
+      const chat = model.startChat({
+        history: contents.slice(0, -1),
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens,
+          topP: options.topP,
+          stopSequences: options.stop,
+        },
+        systemInstruction: systemMessage?.content,
+        tools: options.tools?.length ? [{ functionDeclarations: options.tools }] : undefined,
+      } as any);
+
+      const result = await chat.sendMessage(contents[contents.length - 1].parts, { signal: options.signal });
+      const response: any = await result.response;
+
+      // Gemini doesn't id its function calls, so they get one here
+      const toolCalls: ToolCall[] = (response.functionCalls?.() || []).map((call: any) => ({
+        id: generateToolCallId(),
+        name: call.name,
+        arguments: call.args || {},
+      }));
+      const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+      const text = parts.map(part => part.text || '').join('');
+
+      return {
+        id: `google-${Date.now()}`,
+        object: 'chat.completion',
+        created: Date.now(),
+        model: options.model,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: text,
+            toolCalls: toolCalls.length ? toolCalls : undefined,
+          },
+          finishReason: toolCalls.length ? 'tool_calls' : 'stop',
+        }],
+        usage: {
+          promptTokens: response.usageMetadata?.promptTokenCount || 0,
+          completionTokens: response.usageMetadata?.candidatesTokenCount || 0,
+          totalTokens: response.usageMetadata?.totalTokenCount || 0,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Google AI API error: ${error}`);
+      throw error;
+    }
+  }
+
+  async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+  ): Promise<void> {
+    try {
+      const model = this.client.getGenerativeModel({ model: options.model });
+
+      const contents = toGoogleContents(options.messages);
+      const systemMessage = options.messages.find(m => m.role === 'system');
+
+      const chat = model.startChat({
+        history: contents.slice(0, -1),
+        generationConfig: {
+          temperature: options.temperature,
+          maxOutputTokens: options.maxTokens,
+          topP: options.topP,
+          stopSequences: options.stop,
+        },
+        systemInstruction: systemMessage?.content,
+      });
+
+      const result = await chat.sendMessageStream(contents[contents.length - 1].parts, { signal: options.signal });
+      let usage: TokenUsage | undefined;
+
+      for await (const chunk of result.stream) {
+        usage = normalizeUsage(chunk.usageMetadata) || usage;
+        const chunkText = chunk.text();
+        if (chunkText) {
+          onChunk({
+            id: `google-${Date.now()}`,
+            type: 'text',
+            content: chunkText,
+            delta: chunkText,
+          });
+        }
+      }
+
+      onChunk({
+        id: `google-${Date.now()}`,
+        type: 'complete',
+        content: '',
+        metadata: {
+          finishReason: 'stop',
+          usage,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Google AI streaming error: ${error}`);
+      onChunk(streamError(error));
+      throw error;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [
+      'gemini-1.5-pro',
+      'gemini-1.5-flash',
+      'gemini-1.0-pro',
+      'gemini-pro-vision',
+    ];
+  }
+
+  async validateConfig(): Promise<boolean> {
+    try {
+      const model = this.client.getGenerativeModel({ model: 'gemini-1.5-flash' });
+      await model.generateContent('test');
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export class MistralProvider extends BaseAIProvider {
+  private client: Mistral;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+    this.client = new Mistral({ apiKey: config.apiKey, serverURL: config.baseURL });
+  }
+
+  getProvider(): AIProvider {
+    return 'mistral';
+  }
+
+  async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+    try {
+      const response: any = await this.client.chat.complete({
+        model: options.model,
+        messages: toMistralMessages(options.messages),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        topP: options.topP,
+        stop: options.stop,
+        tools: toOpenAITools(options.tools),
+        toolChoice: options.tools?.length ? 'auto' : undefined,
+      } as any, { signal: options.signal });
+
+      return {
+        id: response.id || `mistral-${Date.now()}`,
+        object: 'chat.completion',
+        created: response.created || Date.now(),
+        model: response.model || options.model,
+        choices: response.choices.map((choice: any) => ({
+          index: choice.index,
+          message: {
+            role: 'assistant',
+            content: choice.message.content || '',
+            toolCalls: fromOpenAIToolCalls(choice.message.toolCalls),
+          },
+          finishReason: choice.finishReason,
+        })),
+        usage: normalizeUsage(response.usage) || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      };
+    } catch (error) {
+      this.logger.error(`Mistral API error: ${error}`);
+      throw error;
+    }
+  }
+
+  async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+  ): Promise<void> {
+    try {
+      const stream = await this.client.chat.stream({
+        model: options.model,
+        messages: toMistralMessages(options.messages),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        topP: options.topP,
+        stop: options.stop,
+      } as any, { signal: options.signal });
+
+      for await (const event of stream) {
+        const chunk = event.data;
+        const content = chunk.choices[0]?.delta?.content;
+        if (typeof content === 'string' && content) {
+          onChunk({
+            id: chunk.id || `mistral-${Date.now()}`,
+            type: 'text',
+            content,
+            delta: content,
+          });
+        }
+
+        if (chunk.choices[0]?.finishReason) {
+          onChunk({
+            id: chunk.id || `mistral-${Date.now()}`,
+            type: 'complete',
+            content: '',
+            metadata: {
+              finishReason: chunk.choices[0].finishReason,
+              usage: normalizeUsage(chunk.usage),
+            },
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Mistral streaming error: ${error}`);
+      onChunk(streamError(error));
+      throw error;
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const models = await this.client.models.list();
+      return (models.data || []).map(model => model.id).sort();
+    } catch (error) {
+      this.logger.error(`Error fetching Mistral models: ${error}`);
+      return [
+        'mistral-large-latest',
+        'mistral-medium-latest',
+        'mistral-small-latest',
+        'open-mistral-7b',
+        'open-mixtral-8x7b',
+        'open-mixtral-8x22b',
+      ];
+    }
+  }
+
+  async validateConfig(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+// AI Provider Factory
+export class AIProviderFactory {
+  private static providers: Map<string, BaseAIProvider> = new Map();
+
+  static createProvider(provider: AIProvider, config: AIProviderConfig): BaseAIProvider {
+    const key = `${provider}-${config.apiKey.slice(-8)}`;
+
+    if (this.providers.has(key)) {
+      return this.providers.get(key);
+    }
+
+    let providerInstance: BaseAIProvider;
+
+    switch (provider) {
+      case 'openai':
+        providerInstance = new OpenAIProvider(config);
+        break;
+      case 'anthropic':
+        providerInstance = new AnthropicProvider(config);
+        break;
+      case 'google':
+        providerInstance = new GoogleProvider(config);
+        break;
+      case 'mistral':
+        providerInstance = new MistralProvider(config);
+        break;
+      default:
+        throw new Error(`Unsupported AI provider: ${provider}`);
+    }
+
+    this.providers.set(key, providerInstance);
+    return providerInstance;
+  }
+
+  static async validateProvider(provider: AIProvider, config: AIProviderConfig): Promise<boolean> {
+    try {
+      const providerInstance = this.createProvider(provider, config);
+      return await providerInstance.validateConfig();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static async getAvailableModels(provider: AIProvider, config: AIProviderConfig): Promise<string[]> {
+    try {
+      const providerInstance = this.createProvider(provider, config);
+      return await providerInstance.getAvailableModels();
+    } catch (error) {
+      return [];
+    }
+  }
+
+  static clearCache(): void {
+    this.providers.clear();
+  }
+}
+
+/**
+ * Sends completions to the preferred provider and falls back through the
+ * others that are configured, in `fallbackOrder`, when it fails.
+ */
+export class AIRouter implements ChatRouter {
+  private readonly logger = new Logger(AIRouter.name);
+  private providers: Map<AIProvider, BaseAIProvider> = new Map();
+  private fallbackOrder: AIProvider[] = [];
+
+  constructor(
+    providerConfigs: Partial<Record<AIProvider, AIProviderConfig>>,
+    fallbackOrder: AIProvider[] = ['openai', 'anthropic', 'google', 'mistral'],
+  ) {
+    Object.entries(providerConfigs).forEach(([provider, config]) => {
+      try {
+        const providerInstance = AIProviderFactory.createProvider(provider as AIProvider, config);
+        this.providers.set(provider as AIProvider, providerInstance);
+      } catch (error) {
+        this.logger.error(`Failed to initialize ${provider} provider: ${error}`);
+      }
+    });
+
+    this.fallbackOrder = fallbackOrder.filter(provider => this.providers.has(provider));
+  }
+
+  async chatCompletion(
+    options: ChatCompletionOptions,
+    preferredProvider?: string,
+  ): Promise<ChatCompletionResponse> {
+    let lastError: Error | null = null;
+
+    for (const provider of this.candidates(preferredProvider)) {
+      try {
+        const startTime = Date.now();
+        const response = await this.providers.get(provider).chatCompletion(options);
+        this.logger.debug(`${provider} completion took ${Date.now() - startTime}ms`);
+        return response;
+      } catch (error) {
+        this.logger.warn(`${provider} provider failed: ${error}`);
+        lastError = error as Error;
+        // An aborted request is not a provider failure worth falling back from
+        if (options.signal?.aborted) break;
+      }
+    }
+
+    throw lastError || new Error('No AI provider is configured');
+  }
+
+  async streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+    preferredProvider?: string,
+  ): Promise<void> {
+    let lastError: Error | null = null;
+
+    for (const provider of this.candidates(preferredProvider)) {
+      try {
+        await this.providers.get(provider).streamChatCompletion(options, onChunk);
+        return;
+      } catch (error) {
+        this.logger.warn(`${provider} streaming failed: ${error}`);
+        lastError = error as Error;
+        if (options.signal?.aborted) break;
+      }
+    }
+
+    throw lastError || new Error('No AI provider is configured');
+  }
+
+  getAvailableProviders(): AIProvider[] {
+    return Array.from(this.providers.keys());
+  }
+
+  async validateAllProviders(): Promise<Record<AIProvider, boolean>> {
+    const results: Partial<Record<AIProvider, boolean>> = {};
+
+    for (const [provider, instance] of this.providers) {
+      try {
+        results[provider] = await instance.validateConfig();
+      } catch (error) {
+        results[provider] = false;
+      }
+    }
+
+    return results as Record<AIProvider, boolean>;
+  }
+
+  private candidates(preferredProvider?: string): AIProvider[] {
+    const preferred = this.providers.has(preferredProvider as AIProvider)
+      ? [preferredProvider as AIProvider]
+      : [];
+    return [...preferred, ...this.fallbackOrder.filter(provider => provider !== preferredProvider)];
+  }
+}
+
+/** Router over every provider that has an API key configured. */
+export function createAIRouter(apiKeys: Partial<Record<AIProvider, string>>): AIRouter {
+  const configs: Partial<Record<AIProvider, AIProviderConfig>> = {};
+
+  Object.entries(apiKeys).forEach(([provider, apiKey]) => {
+    if (apiKey) {
+      configs[provider as AIProvider] = { apiKey };
+    }
+  });
+
+  return new AIRouter(configs);
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AI_ROUTER, createAIRouter } from './ai-providers';
+import { aiConfig } from '../config/ai.config';
+
+@Module({
+  providers: [
+    {
+      provide: AI_ROUTER,
+      useFactory: () => createAIRouter(aiConfig.apiKeys),
+    },
+  ],
+  exports: [AI_ROUTER],
+})
+export class AiModule {}
@@ -5,6 +5,9 @@ import { ThrottlerModule } from '@nestjs/throttler';
 import { AuthModule } from './auth/auth.module';
 import { WorkflowsModule } from './workflows/workflows.module';
 import { WebsocketsModule } from './websockets/websockets.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { AgentsModule } from './agents/agents.module';
+import { ToolsModule } from './tools/tools.module';
 import { DatabaseModule } from './database/database.module';
 import { databaseConfig } from './config/database.config';
 
@@ -25,6 +28,9 @@ import { databaseConfig } from './config/database.config';
     AuthModule,
     WorkflowsModule,
     WebsocketsModule,
+    NotificationsModule,
+    AgentsModule,
+    ToolsModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
@@ -20,6 +20,6 @@ import { Organization } from '../database/entities/organization.entity';
   ],
   controllers: [AuthController],
   providers: [AuthService, JwtStrategy, LocalStrategy],
-  exports: [AuthService],
+  exports: [AuthService, JwtModule],
 })
 export class AuthModule {}
\ No newline at end of file
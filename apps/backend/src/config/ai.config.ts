@@ -0,0 +1,9 @@
+export const aiConfig = {
+  // Provider keys are only ever read here, on the server
+  apiKeys: {
+    openai: process.env.OPENAI_API_KEY,
+    anthropic: process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY,
+    google: process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY,
+    mistral: process.env.MISTRAL_API_KEY,
+  },
+};
@@ -0,0 +1,15 @@
+export const notificationsConfig = {
+  enabled: process.env.NOTIFICATIONS_ENABLED !== 'false',
+  maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS, 10) || 3,
+  retryBaseDelayMs: parseInt(process.env.NOTIFICATION_RETRY_BASE_DELAY_MS, 10) || 1000,
+  timeoutMs: parseInt(process.env.NOTIFICATION_TIMEOUT_MS, 10) || 10000,
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT, 10) || 25,
+    // Implicit TLS, usually on port 465; otherwise STARTTLS is used when offered
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM || 'notifications@axonstream.local',
+  },
+};
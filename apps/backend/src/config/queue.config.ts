@@ -0,0 +1,9 @@
+export const queueConfig = {
+  driver: (process.env.EXECUTION_QUEUE_DRIVER || 'redis') as 'redis' | 'memory',
+  keyPrefix: process.env.EXECUTION_QUEUE_PREFIX || 'axon:executions',
+  workerEnabled: process.env.EXECUTION_WORKER_ENABLED !== 'false',
+  concurrency: parseInt(process.env.EXECUTION_WORKER_CONCURRENCY, 10) || 4,
+  leaseMs: parseInt(process.env.EXECUTION_LEASE_MS, 10) || 30000,
+  pollIntervalMs: parseInt(process.env.EXECUTION_POLL_INTERVAL_MS, 10) || 1000,
+  maxAttempts: parseInt(process.env.EXECUTION_MAX_ATTEMPTS, 10) || 3,
+};
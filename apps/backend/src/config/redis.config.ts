@@ -5,6 +5,5 @@ export const redisConfig: RedisOptions = {
   port: parseInt(process.env.REDIS_PORT, 10) || 6379,
   password: process.env.REDIS_PASSWORD,
   db: parseInt(process.env.REDIS_DB, 10) || 0,
-  retryDelayOnFailover: 100,
   maxRetriesPerRequest: 3,
 };
\ No newline at end of file
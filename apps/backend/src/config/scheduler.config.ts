@@ -0,0 +1,5 @@
+export const schedulerConfig = {
+  enabled: process.env.SCHEDULER_ENABLED !== 'false',
+  refreshIntervalMs: parseInt(process.env.SCHEDULER_REFRESH_INTERVAL_MS, 10) || 30000,
+  missedRunGraceMs: parseInt(process.env.SCHEDULER_MISSED_RUN_GRACE_MS, 10) || 60000,
+};
@@ -0,0 +1,4 @@
+export const timerConfig = {
+  enabled: process.env.TIMERS_ENABLED !== 'false',
+  pollIntervalMs: parseInt(process.env.TIMER_POLL_INTERVAL_MS, 10) || 5000,
+};
@@ -4,8 +4,13 @@ import { User } from './entities/user.entity';
 import { Workflow } from './entities/workflow.entity';
 import { WorkflowNode } from './entities/workflow-node.entity';
 import { WorkflowExecution } from './entities/workflow-execution.entity';
+import { WorkflowSchedule } from './entities/workflow-schedule.entity';
 import { AIProvider } from './entities/ai-provider.entity';
 import { Organization } from './entities/organization.entity';
+import { NotificationDelivery } from './entities/notification-delivery.entity';
+import { Agent } from './entities/agent.entity';
+import { Tool } from './entities/tool.entity';
+import { Integration } from './entities/integration.entity';
 
 @Module({
   imports: [
@@ -14,8 +19,13 @@ import { Organization } from './entities/organization.entity';
       Workflow,
       WorkflowNode,
       WorkflowExecution,
+      WorkflowSchedule,
       AIProvider,
       Organization,
+      NotificationDelivery,
+      Agent,
+      Tool,
+      Integration,
     ]),
   ],
   exports: [TypeOrmModule],
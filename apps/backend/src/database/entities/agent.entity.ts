@@ -0,0 +1,45 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne } from 'typeorm';
+import { AgentSettings } from '@shared/ai';
+import { User } from './user.entity';
+
+/** A model, provider and prompt that agent and hybrid nodes run with. */
+@Entity('agents')
+export class Agent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  // openai, anthropic, google or mistral
+  @Column()
+  provider: string;
+
+  @Column()
+  model: string;
+
+  @Column({ type: 'text', nullable: true })
+  systemPrompt: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  config: AgentSettings;
+
+  // Ids of the tools hybrid nodes may offer the agent
+  @Column({ type: 'jsonb', nullable: true })
+  tools: string[];
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  createdBy: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
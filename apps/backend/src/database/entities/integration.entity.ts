@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne } from 'typeorm';
+import { User } from './user.entity';
+
+export interface IntegrationConfig {
+  credentials: Record<string, string>;
+  settings: Record<string, any>;
+}
+
+/**
+ * A connection to an outside service. API call nodes refer to one by id for
+ * their credentials, so secrets stay out of workflow definitions.
+ */
+@Entity('integrations')
+export class Integration {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  // slack, discord, teams, email, webhook, database, api, file_storage, crm or analytics
+  @Column()
+  type: string;
+
+  @Column({ type: 'jsonb' })
+  config: IntegrationConfig;
+
+  @Column({ default: 'active' })
+  status: 'active' | 'inactive' | 'error';
+
+  @Column({ nullable: true })
+  lastSync: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  createdBy: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
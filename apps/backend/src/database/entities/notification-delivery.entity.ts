@@ -0,0 +1,57 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne } from 'typeorm';
+import { NotificationChannelType, NotificationEvent } from '@shared/engine';
+import { Workflow } from './workflow.entity';
+
+export enum NotificationDeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+/**
+ * One notification sent to one channel of a workflow's notification
+ * settings, with every attempt made to deliver it.
+ */
+@Entity('notification_deliveries')
+export class NotificationDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar' })
+  event: NotificationEvent;
+
+  @Column({ type: 'varchar' })
+  channel: NotificationChannelType;
+
+  // Recipients or host the notification went to, without credentials
+  @Column()
+  target: string;
+
+  @Column({ nullable: true })
+  executionId: string;
+
+  @Column({
+    type: 'enum',
+    enum: NotificationDeliveryStatus,
+    default: NotificationDeliveryStatus.PENDING,
+  })
+  status: NotificationDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ nullable: true })
+  error: string;
+
+  @Column({ nullable: true })
+  deliveredAt: Date;
+
+  @ManyToOne(() => Workflow, { onDelete: 'CASCADE' })
+  workflow: Workflow;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
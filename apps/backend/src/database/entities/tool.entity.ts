@@ -0,0 +1,59 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne } from 'typeorm';
+import { ParameterSchema } from '@shared/engine';
+import { User } from './user.entity';
+
+export interface AuthConfig {
+  type: 'none' | 'bearer' | 'basic' | 'api_key' | 'oauth2';
+  credentials: Record<string, string>;
+}
+
+/** How an API or webhook tool is called over HTTP. */
+export interface ToolConfig {
+  endpoint?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  authentication?: AuthConfig;
+  // Milliseconds before a request is abandoned
+  timeout?: number;
+  retries?: number;
+}
+
+export interface ToolSchema {
+  input: Record<string, ParameterSchema>;
+  output: Record<string, ParameterSchema>;
+}
+
+/** An HTTP endpoint that tool and hybrid nodes can call. */
+@Entity('tools')
+export class Tool {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  // api, webhook, database, file, email, custom or builtin
+  @Column({ default: 'api' })
+  type: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  config: ToolConfig;
+
+  @Column({ type: 'jsonb', nullable: true })
+  schema: ToolSchema;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  createdBy: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -1,15 +1,53 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import {
+  DagSchedulerSnapshot,
+  DelayTimer,
+  ExecutionTrigger,
+  HumanInputRequest,
+  HumanInputResponse,
+} from '@shared/engine';
 import { Workflow } from './workflow.entity';
 import { User } from './user.entity';
 
 export enum ExecutionStatus {
   PENDING = 'pending',
   RUNNING = 'running',
+  WAITING = 'waiting',
+  PAUSED = 'paused',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
 }
 
+export interface ExecutionCheckpoint {
+  scheduler: DagSchedulerSnapshot;
+  nodeOutputs: Record<string, any>;
+  variables: Record<string, any>;
+  lastOutput?: any;
+  // Human input nodes the run is suspended on, and the answers received so far
+  waitingFor?: HumanInputRequest[];
+  humanInputs?: Record<string, HumanInputResponse>;
+  // Timers delay nodes are suspended on, keyed by node id
+  timers?: Record<string, DelayTimer>;
+}
+
+export interface NodeExecutionRecord {
+  id: string;
+  nodeId: string;
+  nodeType: string;
+  status: 'running' | 'waiting' | 'success' | 'error' | 'skipped' | 'timeout' | 'cancelled';
+  startedAt: Date;
+  completedAt?: Date;
+  duration?: number;
+  input?: Record<string, any>;
+  output?: any;
+  error?: string;
+  retryCount: number;
+  // Set on nodes that ran inside a loop's body
+  loopNodeId?: string;
+  iteration?: number;
+}
+
 @Entity('workflow_executions')
 export class WorkflowExecution {
   @PrimaryGeneratedColumn('uuid')
@@ -34,6 +72,19 @@ export class WorkflowExecution {
   @Column({ nullable: true })
   error: string;
 
+  @Column({ type: 'jsonb', nullable: true })
+  trigger: ExecutionTrigger;
+
+  @Column({ type: 'jsonb', nullable: true })
+  checkpoint: ExecutionCheckpoint;
+
+  @Column({ type: 'jsonb', nullable: true })
+  nodeExecutions: NodeExecutionRecord[];
+
+  // When a run suspended on delay nodes is due to be woken
+  @Column({ nullable: true })
+  wakeAt: Date;
+
   @Column({ nullable: true })
   startedAt: Date;
 
@@ -49,6 +100,14 @@ export class WorkflowExecution {
   @ManyToOne(() => User)
   triggeredBy: User;
 
+  // Set on runs started by a sub-workflow node; the trigger names the node
+  @ManyToOne(() => WorkflowExecution, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parentExecutionId' })
+  parentExecution: WorkflowExecution;
+
+  @Column({ nullable: true })
+  parentExecutionId: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,68 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne } from 'typeorm';
+import { MissedScheduleRun, ScheduleType } from '@shared/engine';
+import { Workflow } from './workflow.entity';
+
+/**
+ * Scheduler state for a workflow's schedule trigger node. The trigger's
+ * settings are copied from the workflow definition whenever it is saved;
+ * `nextRunAt` is advanced by whichever scheduler instance claims a run.
+ */
+@Entity('workflow_schedules')
+export class WorkflowSchedule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  nodeId: string;
+
+  @Column({ type: 'varchar' })
+  scheduleType: ScheduleType;
+
+  @Column({ nullable: true })
+  cron: string;
+
+  @Column({ nullable: true })
+  timezone: string;
+
+  // Milliseconds between interval runs
+  @Column({
+    type: 'bigint',
+    nullable: true,
+    transformer: { to: value => value, from: value => (value === null ? null : Number(value)) },
+  })
+  intervalMs: number;
+
+  // Interval slots are counted from here
+  @Column({ nullable: true })
+  anchorAt: Date;
+
+  @Column({ default: false })
+  noOverlap: boolean;
+
+  @Column({ default: false })
+  catchUp: boolean;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @Column({ nullable: true })
+  nextRunAt: Date;
+
+  @Column({ nullable: true })
+  lastRunAt: Date;
+
+  @Column({ nullable: true })
+  lastExecutionId: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  missedRuns: MissedScheduleRun[];
+
+  @ManyToOne(() => Workflow, { onDelete: 'CASCADE' })
+  workflow: Workflow;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -9,7 +9,9 @@ import compression from 'compression';
 async function bootstrap() {
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
-    new FastifyAdapter({ logger: true })
+    new FastifyAdapter({ logger: true }),
+    // Webhook signatures are computed over the unparsed body
+    { rawBody: true },
   );
 
   // Security middleware
@@ -0,0 +1,143 @@
+import { createHmac } from 'crypto';
+import {
+  NotificationChannelSettings,
+  NotificationChannelType,
+  NotificationContext,
+  RenderedNotification,
+  WEBHOOK_SIGNATURE_HEADER,
+  parseRecipients,
+} from '@shared/engine';
+import { notificationsConfig } from '../config/notifications.config';
+import { sendMail } from './smtp-client';
+
+/** Delivers a rendered notification to one kind of channel. */
+export interface NotificationSender {
+  // Where the channel sends to, safe to keep in the delivery log
+  describeTarget(config: Record<string, any>): string;
+  send(
+    channel: NotificationChannelSettings,
+    notification: RenderedNotification,
+    context: NotificationContext,
+  ): Promise<void>;
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(
+    message: string,
+    // False when trying again can't help, e.g. a channel missing its address
+    readonly retryable = true,
+  ) {
+    super(message);
+    this.name = 'NotificationDeliveryError';
+  }
+}
+
+/** Sends through the SMTP server from the notifications config. */
+export class EmailNotificationSender implements NotificationSender {
+  describeTarget(config: Record<string, any>): string {
+    return parseRecipients(config.to).join(', ');
+  }
+
+  async send(channel: NotificationChannelSettings, notification: RenderedNotification): Promise<void> {
+    const to = parseRecipients(channel.config?.to);
+    if (to.length === 0) {
+      throw new NotificationDeliveryError('Email channel has no recipients', false);
+    }
+
+    const { smtp, timeoutMs } = notificationsConfig;
+    await sendMail(
+      { ...smtp, timeoutMs },
+      { from: channel.config?.from || smtp.from, to, subject: notification.subject, text: notification.text },
+    );
+  }
+}
+
+/** Posts to a Slack incoming webhook. */
+export class SlackNotificationSender implements NotificationSender {
+  describeTarget(config: Record<string, any>): string {
+    return hostOf(config.webhookUrl);
+  }
+
+  async send(channel: NotificationChannelSettings, notification: RenderedNotification): Promise<void> {
+    if (!channel.config?.webhookUrl) {
+      throw new NotificationDeliveryError('Slack channel has no webhook URL', false);
+    }
+
+    await post(channel.config.webhookUrl, JSON.stringify({
+      text: `*${notification.subject}*\n${notification.text}`,
+      ...(channel.config.channel ? { channel: channel.config.channel } : {}),
+    }));
+  }
+}
+
+/**
+ * Posts the notification and the execution it is about as JSON. With a
+ * secret, the body is signed like inbound webhooks: `sha256=<hex digest>`
+ * in the signature header.
+ */
+export class WebhookNotificationSender implements NotificationSender {
+  describeTarget(config: Record<string, any>): string {
+    return hostOf(config.url);
+  }
+
+  async send(
+    channel: NotificationChannelSettings,
+    notification: RenderedNotification,
+    context: NotificationContext,
+  ): Promise<void> {
+    if (!channel.config?.url) {
+      throw new NotificationDeliveryError('Webhook channel has no URL', false);
+    }
+
+    const body = JSON.stringify({ ...context, ...notification });
+    const headers: Record<string, string> = { ...(channel.config.headers || {}) };
+    if (channel.config.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] =
+        `sha256=${createHmac('sha256', channel.config.secret).update(body).digest('hex')}`;
+    }
+    await post(channel.config.url, body, headers);
+  }
+}
+
+export function createNotificationSenders(): Record<NotificationChannelType, NotificationSender> {
+  return {
+    email: new EmailNotificationSender(),
+    slack: new SlackNotificationSender(),
+    webhook: new WebhookNotificationSender(),
+  };
+}
+
+async function post(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  // Incoming webhook URLs carry their token, so errors only name the host
+  const target = hostOf(url);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), notificationsConfig.timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      // Client errors other than rate limiting won't go away on their own
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new NotificationDeliveryError(`${target} answered ${response.status}`, retryable);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new NotificationDeliveryError(`${target} timed out after ${notificationsConfig.timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function hostOf(url: string | undefined): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url ? 'invalid URL' : '';
+  }
+}
@@ -0,0 +1,241 @@
+import { createHmac } from 'crypto';
+import { IncomingHttpHeaders, Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { NotificationChannelSettings, WEBHOOK_SIGNATURE_HEADER } from '@shared/engine';
+import { AxonPulsEvent, EventType } from '@shared/types/websocket';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationDeliveryStatus } from '../database/entities/notification-delivery.entity';
+import { notificationsConfig } from '../config/notifications.config';
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+  at: number;
+}
+
+/** A local HTTP listener answering with the given statuses in turn, then 200. */
+const startHttpServer = async (statuses: number[] = []) => {
+  const requests: ReceivedRequest[] = [];
+  const server: Server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      requests.push({ path: request.url, headers: request.headers, body, at: Date.now() });
+      response.statusCode = statuses[requests.length - 1] ?? 200;
+      response.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const close = () => new Promise<void>(resolve => server.close(() => resolve()));
+  return { url, requests, close };
+};
+
+const failedEvent: AxonPulsEvent = {
+  id: 'evt-1',
+  type: EventType.WORKFLOW_FAILED,
+  workflowId: 'wf-1',
+  payload: { executionId: 'exec-1', error: 'Tool call failed', duration: 1200 },
+  timestamp: new Date('2024-05-01T10:00:00Z'),
+};
+
+describe('NotificationDispatcherService', () => {
+  const defaults = { ...notificationsConfig };
+  let http: Awaited<ReturnType<typeof startHttpServer>>;
+  let saved: any[];
+
+  const createDispatcher = (channels: NotificationChannelSettings[]) => {
+    saved = [];
+    const workflowRepository = {
+      findOne: jest.fn().mockResolvedValue({
+        id: 'wf-1',
+        name: 'Nightly sync',
+        definition: { nodes: [], edges: [], settings: { notifications: { onError: true, channels } } },
+      }),
+    };
+    const deliveryRepository = {
+      create: jest.fn(data => ({ ...data })),
+      save: jest.fn(async delivery => {
+        saved.push({ ...delivery });
+        return delivery;
+      }),
+    };
+    return new NotificationDispatcherService(
+      workflowRepository as any,
+      deliveryRepository as any,
+      { subscribe: jest.fn() } as any,
+    );
+  };
+
+  beforeEach(() => {
+    Object.assign(notificationsConfig, { maxAttempts: 3, retryBaseDelayMs: 50, timeoutMs: 2000 });
+  });
+
+  afterEach(async () => {
+    Object.assign(notificationsConfig, defaults);
+    await http?.close();
+    http = undefined;
+  });
+
+  describe('webhook channels', () => {
+    it('posts the rendered notification with the execution it is about', async () => {
+      http = await startHttpServer();
+      const dispatcher = createDispatcher([
+        { type: 'webhook', config: { url: `${http.url}/hooks/runs`, headers: { 'x-team': 'data' } } },
+      ]);
+
+      const [delivery] = await dispatcher.handleEvent(failedEvent);
+
+      expect(delivery).toMatchObject({
+        status: NotificationDeliveryStatus.DELIVERED,
+        attempts: 1,
+        channel: 'webhook',
+        target: http.url.replace('http://', ''),
+        executionId: 'exec-1',
+        error: null,
+      });
+      expect(http.requests).toHaveLength(1);
+      expect(http.requests[0].path).toBe('/hooks/runs');
+      expect(http.requests[0].headers).toMatchObject({ 'content-type': 'application/json', 'x-team': 'data' });
+      expect(http.requests[0].headers[WEBHOOK_SIGNATURE_HEADER]).toBeUndefined();
+      expect(JSON.parse(http.requests[0].body)).toEqual({
+        event: 'error',
+        workflow: { id: 'wf-1', name: 'Nightly sync' },
+        execution: { id: 'exec-1', status: 'failed', duration: 1200, error: 'Tool call failed' },
+        timestamp: '2024-05-01T10:00:00.000Z',
+        subject: 'Workflow Nightly sync failed',
+        text: 'Execution exec-1 of Nightly sync failed: Tool call failed',
+      });
+    });
+
+    it('signs the body with the channel secret', async () => {
+      http = await startHttpServer();
+      const dispatcher = createDispatcher([{ type: 'webhook', config: { url: http.url, secret: 'hook-secret' } }]);
+
+      await dispatcher.handleEvent(failedEvent);
+
+      const [request] = http.requests;
+      const expected = createHmac('sha256', 'hook-secret').update(request.body).digest('hex');
+      expect(request.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    });
+  });
+
+  describe('retries', () => {
+    it('backs off exponentially until the delivery goes through', async () => {
+      http = await startHttpServer([503, 502]);
+      const dispatcher = createDispatcher([{ type: 'webhook', config: { url: http.url } }]);
+
+      const [delivery] = await dispatcher.handleEvent(failedEvent);
+
+      expect(delivery).toMatchObject({ status: NotificationDeliveryStatus.DELIVERED, attempts: 3, error: null });
+      expect(http.requests).toHaveLength(3);
+
+      // 50ms then 100ms, give or take the policy's 20% jitter
+      const [first, second, third] = http.requests.map(request => request.at);
+      expect(second - first).toBeGreaterThanOrEqual(50 * 0.8 - 5);
+      expect(third - second).toBeGreaterThanOrEqual(100 * 0.8 - 5);
+
+      // Each failed attempt is recorded before waiting for the next one
+      expect(saved.map(entry => entry.error)).toEqual([
+        undefined,
+        `${http.url.replace('http://', '')} answered 503`,
+        `${http.url.replace('http://', '')} answered 502`,
+        null,
+      ]);
+    });
+
+    it('gives up after the configured number of attempts', async () => {
+      http = await startHttpServer([500, 500, 500, 500]);
+      const dispatcher = createDispatcher([{ type: 'webhook', config: { url: http.url } }]);
+
+      const [delivery] = await dispatcher.handleEvent(failedEvent);
+
+      expect(http.requests).toHaveLength(3);
+      expect(delivery).toMatchObject({
+        status: NotificationDeliveryStatus.FAILED,
+        attempts: 3,
+        error: `${http.url.replace('http://', '')} answered 500`,
+      });
+    });
+
+    it('retries when rate limited', async () => {
+      http = await startHttpServer([429]);
+      const dispatcher = createDispatcher([{ type: 'webhook', config: { url: http.url } }]);
+
+      const [delivery] = await dispatcher.handleEvent(failedEvent);
+
+      expect(delivery).toMatchObject({ status: NotificationDeliveryStatus.DELIVERED, attempts: 2 });
+    });
+
+    it('does not retry a request the endpoint rejected', async () => {
+      http = await startHttpServer([404]);
+      const dispatcher = createDispatcher([{ type: 'webhook', config: { url: http.url } }]);
+
+      const [delivery] = await dispatcher.handleEvent(failedEvent);
+
+      expect(http.requests).toHaveLength(1);
+      expect(delivery).toMatchObject({ status: NotificationDeliveryStatus.FAILED, attempts: 1 });
+    });
+
+    it('does not retry a channel missing its settings', async () => {
+      const dispatcher = createDispatcher([{ type: 'email', config: { to: ' , ' } }]);
+
+      const [delivery] = await dispatcher.handleEvent(failedEvent);
+
+      expect(delivery).toMatchObject({
+        status: NotificationDeliveryStatus.FAILED,
+        attempts: 1,
+        error: 'Email channel has no recipients',
+      });
+    });
+
+    it('times out an endpoint that does not answer', async () => {
+      notificationsConfig.timeoutMs = 100;
+      notificationsConfig.maxAttempts = 1;
+      const server = createServer(() => undefined);
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      const target = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const dispatcher = createDispatcher([{ type: 'webhook', config: { url: `http://${target}` } }]);
+
+      try {
+        const [delivery] = await dispatcher.handleEvent(failedEvent);
+        expect(delivery).toMatchObject({
+          status: NotificationDeliveryStatus.FAILED,
+          error: `${target} timed out after 100ms`,
+        });
+      } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
+  it('delivers to every channel separately', async () => {
+    http = await startHttpServer([400]);
+    const dispatcher = createDispatcher([
+      { type: 'slack', config: { webhookUrl: `${http.url}/slack`, channel: '#alerts' } },
+      { type: 'webhook', config: { url: `${http.url}/hook` } },
+    ]);
+
+    const deliveries = await dispatcher.handleEvent(failedEvent);
+
+    expect(deliveries.map(delivery => delivery.status).sort()).toEqual([
+      NotificationDeliveryStatus.DELIVERED,
+      NotificationDeliveryStatus.FAILED,
+    ]);
+    const slack = http.requests.find(request => request.path === '/slack');
+    expect(JSON.parse(slack.body)).toEqual({
+      text: '*Workflow Nightly sync failed*\nExecution exec-1 of Nightly sync failed: Tool call failed',
+      channel: '#alerts',
+    });
+  });
+
+  it('ignores events the workflow does not notify on', async () => {
+    const dispatcher = createDispatcher([{ type: 'webhook', config: { url: 'http://127.0.0.1:9' } }]);
+
+    expect(await dispatcher.handleEvent({ ...failedEvent, type: EventType.WORKFLOW_COMPLETED })).toEqual([]);
+    expect(saved).toEqual([]);
+  });
+});
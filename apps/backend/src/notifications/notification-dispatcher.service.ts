@@ -0,0 +1,160 @@
+import { Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  DEFAULT_RETRY_POLICY,
+  NotificationChannelSettings,
+  NotificationContext,
+  NotificationEvent,
+  NotificationSettings,
+  RenderedNotification,
+  notificationEnabled,
+  renderNotification,
+  retryDelay,
+  sleep,
+} from '@shared/engine';
+import { WorkflowDefinition } from '@shared/types/workflow';
+import { AxonPulsEvent, EventType } from '@shared/types/websocket';
+import { WebsocketService } from '../websockets/websocket.service';
+import { Workflow } from '../database/entities/workflow.entity';
+import {
+  NotificationDelivery,
+  NotificationDeliveryStatus,
+} from '../database/entities/notification-delivery.entity';
+import { notificationsConfig } from '../config/notifications.config';
+import { NotificationDeliveryError, NotificationSender, createNotificationSenders } from './notification-channels';
+
+const NOTIFIED_EVENTS: Partial<Record<EventType, { event: NotificationEvent; status: string }>> = {
+  [EventType.WORKFLOW_STARTED]: { event: 'start', status: 'running' },
+  [EventType.WORKFLOW_COMPLETED]: { event: 'complete', status: 'completed' },
+  [EventType.WORKFLOW_FAILED]: { event: 'error', status: 'failed' },
+};
+
+/**
+ * Follows the lifecycle events of the runs on this process and sends the
+ * notifications the workflow's `settings.notifications` ask for. Each
+ * channel gets its own delivery record, retried with exponential backoff
+ * until it goes through or runs out of attempts.
+ */
+@Injectable()
+export class NotificationDispatcherService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+  private senders = createNotificationSenders();
+  private unsubscribe?: () => void;
+
+  constructor(
+    @InjectRepository(Workflow)
+    private workflowRepository: Repository<Workflow>,
+    @InjectRepository(NotificationDelivery)
+    private deliveryRepository: Repository<NotificationDelivery>,
+    private websocketService: WebsocketService,
+  ) {}
+
+  onModuleInit() {
+    if (notificationsConfig.enabled) {
+      this.unsubscribe = this.websocketService.subscribe(event => this.handleEvent(event));
+    }
+  }
+
+  onModuleDestroy() {
+    this.unsubscribe?.();
+  }
+
+  async handleEvent(event: AxonPulsEvent): Promise<NotificationDelivery[]> {
+    const notified = NOTIFIED_EVENTS[event.type];
+    if (!notified || !event.workflowId) {
+      return [];
+    }
+
+    const workflow = await this.workflowRepository.findOne({ where: { id: event.workflowId } });
+    const settings: NotificationSettings = (workflow?.definition as WorkflowDefinition)?.settings?.notifications;
+    if (!notificationEnabled(settings, notified.event)) {
+      return [];
+    }
+
+    const context: NotificationContext = {
+      event: notified.event,
+      workflow: { id: workflow.id, name: workflow.name },
+      execution: {
+        id: event.payload?.executionId,
+        status: notified.status,
+        duration: event.payload?.duration,
+        error: event.payload?.error,
+        output: event.payload?.output,
+      },
+      timestamp: new Date(event.timestamp).toISOString(),
+    };
+    return Promise.all(settings.channels.map(channel => this.deliver(workflow, channel, context)));
+  }
+
+  async findDeliveries(workflowId: string, userId: string): Promise<NotificationDelivery[]> {
+    const workflow = await this.workflowRepository.findOne({
+      where: { id: workflowId, createdBy: { id: userId } },
+    });
+    if (!workflow) {
+      throw new NotFoundException('Workflow not found');
+    }
+    return this.deliveryRepository.find({
+      where: { workflow: { id: workflowId } },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+  }
+
+  private async deliver(
+    workflow: Workflow,
+    channel: NotificationChannelSettings,
+    context: NotificationContext,
+  ): Promise<NotificationDelivery> {
+    const sender: NotificationSender | undefined = this.senders[channel.type];
+    const delivery = await this.deliveryRepository.save(
+      this.deliveryRepository.create({
+        workflow,
+        event: context.event,
+        channel: channel.type,
+        target: sender?.describeTarget(channel.config || {}) || '',
+        executionId: context.execution.id,
+      }),
+    );
+
+    if (!sender) {
+      return this.fail(delivery, `Unknown notification channel ${channel.type}`);
+    }
+
+    let notification: RenderedNotification;
+    try {
+      notification = renderNotification(channel, context);
+    } catch (error) {
+      return this.fail(delivery, `Invalid notification template: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: notificationsConfig.retryBaseDelayMs };
+    for (let attempt = 1; ; attempt++) {
+      delivery.attempts = attempt;
+      try {
+        await sender.send(channel, notification, context);
+        delivery.status = NotificationDeliveryStatus.DELIVERED;
+        delivery.deliveredAt = new Date();
+        delivery.error = null;
+        return this.deliveryRepository.save(delivery);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable = !(error instanceof NotificationDeliveryError) || error.retryable;
+        if (!retryable || attempt >= notificationsConfig.maxAttempts) {
+          return this.fail(delivery, message);
+        }
+
+        delivery.error = message;
+        await this.deliveryRepository.save(delivery);
+        await sleep(retryDelay(policy, attempt - 1));
+      }
+    }
+  }
+
+  private async fail(delivery: NotificationDelivery, error: string): Promise<NotificationDelivery> {
+    this.logger.warn(`${delivery.channel} notification for execution ${delivery.executionId} failed: ${error}`);
+    delivery.status = NotificationDeliveryStatus.FAILED;
+    delivery.error = error;
+    return this.deliveryRepository.save(delivery);
+  }
+}
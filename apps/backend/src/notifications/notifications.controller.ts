@@ -0,0 +1,19 @@
+import { Controller, Get, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('Notifications')
+@Controller('workflows/:id/notifications')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class NotificationsController {
+  constructor(private dispatcher: NotificationDispatcherService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the latest notification deliveries of a workflow' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved successfully' })
+  async findDeliveries(@Param('id') id: string, @Request() req) {
+    return this.dispatcher.findDeliveries(id, req.user.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NotificationsController } from './notifications.controller';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { WebsocketsModule } from '../websockets/websockets.module';
+import { Workflow } from '../database/entities/workflow.entity';
+import { NotificationDelivery } from '../database/entities/notification-delivery.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Workflow, NotificationDelivery]), WebsocketsModule],
+  controllers: [NotificationsController],
+  providers: [NotificationDispatcherService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,193 @@
+import { AddressInfo, Server, Socket, createServer } from 'net';
+import { MailMessage, SmtpError, sendMail } from './smtp-client';
+
+interface Session {
+  commands: string[];
+  data?: string;
+}
+
+/**
+ * A local SMTP server that accepts everything unless `reply` says otherwise,
+ * with a reply line, 'close' to hang up or 'silent' to never answer, and
+ * records what each client sent.
+ */
+const startSmtpServer = (reply: (command: string) => string | undefined = () => undefined) => {
+  const sessions: Session[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = createServer(socket => {
+    const session: Session = { commands: [] };
+    sessions.push(session);
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer = '';
+    let inData = false;
+    socket.write('220 localhost ESMTP ready\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 Queued\r\n');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end < 0) return;
+        const command = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        session.commands.push(command);
+
+        const scripted = reply(command);
+        if (scripted === 'close') {
+          socket.destroy();
+          return;
+        }
+        if (scripted === 'silent') {
+          continue;
+        }
+        if (scripted) {
+          socket.write(`${scripted}\r\n`);
+          continue;
+        }
+
+        const verb = command.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write('250-localhost\r\n250-8BITMIME\r\n250 AUTH PLAIN\r\n');
+        } else if (verb === 'AUTH') {
+          socket.write('235 Authenticated\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 Go ahead\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ server: Server; port: number; sessions: Session[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const close = () =>
+        new Promise<void>(done => {
+          sockets.forEach(socket => socket.destroy());
+          server.close(() => done());
+        });
+      resolve({ server, port: (server.address() as AddressInfo).port, sessions, close });
+    });
+  });
+};
+
+const message: MailMessage = {
+  from: 'AxonStream <notifications@axonstream.local>',
+  to: ['ada@example.com', 'Grace <grace@example.com>'],
+  subject: 'Workflow Nightly sync failed',
+  text: 'Execution exec-1 failed.\n.\nSee the run log.',
+};
+
+describe('sendMail', () => {
+  let smtp: Awaited<ReturnType<typeof startSmtpServer>>;
+
+  afterEach(async () => {
+    await smtp?.close();
+  });
+
+  it('sends one envelope for every recipient', async () => {
+    smtp = await startSmtpServer();
+
+    await sendMail({ host: '127.0.0.1', port: smtp.port, timeoutMs: 2000 }, message);
+
+    const [session] = smtp.sessions;
+    expect(session.commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      'MAIL FROM:<notifications@axonstream.local>',
+      'RCPT TO:<ada@example.com>',
+      'RCPT TO:<grace@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(session.data).toContain('To: ada@example.com, Grace <grace@example.com>\r\n');
+    expect(session.data).toContain('Subject: Workflow Nightly sync failed\r\n');
+    expect(session.data).toContain('Content-Transfer-Encoding: 7bit\r\n');
+  });
+
+  it('escapes lines that would end the message early', async () => {
+    smtp = await startSmtpServer();
+
+    await sendMail({ host: '127.0.0.1', port: smtp.port, timeoutMs: 2000 }, message);
+
+    const body = smtp.sessions[0].data.split('\r\n\r\n')[1];
+    expect(body).toBe('Execution exec-1 failed.\r\n..\r\nSee the run log.');
+  });
+
+  it('authenticates with AUTH PLAIN when credentials are set', async () => {
+    smtp = await startSmtpServer();
+
+    await sendMail(
+      { host: '127.0.0.1', port: smtp.port, user: 'mailer', password: 's3cret', timeoutMs: 2000 },
+      message,
+    );
+
+    const token = Buffer.from('\0mailer\0s3cret').toString('base64');
+    expect(smtp.sessions[0].commands[1]).toBe(`AUTH PLAIN ${token}`);
+  });
+
+  it('encodes text that is not plain ASCII', async () => {
+    smtp = await startSmtpServer();
+
+    await sendMail(
+      { host: '127.0.0.1', port: smtp.port, timeoutMs: 2000 },
+      { ...message, subject: 'Läuft nicht', text: 'Fehler: Zeitüberschreitung' },
+    );
+
+    const [headers, body] = smtp.sessions[0].data.split('\r\n\r\n');
+    expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('Läuft nicht').toString('base64')}?=`);
+    expect(headers).toContain('Content-Transfer-Encoding: base64');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Fehler: Zeitüberschreitung');
+  });
+
+  it('fails with the code of a rejected command', async () => {
+    smtp = await startSmtpServer(command =>
+      command === 'RCPT TO:<grace@example.com>' ? '550 No such user' : undefined,
+    );
+
+    const sending = sendMail({ host: '127.0.0.1', port: smtp.port, timeoutMs: 2000 }, message);
+
+    await expect(sending).rejects.toThrow(new SmtpError('SMTP server replied 550 No such user', 550));
+    await expect(sending).rejects.toMatchObject({ code: 550 });
+  });
+
+  it('fails when the server hangs up mid-conversation', async () => {
+    smtp = await startSmtpServer(command => (command.startsWith('MAIL FROM') ? 'close' : undefined));
+
+    await expect(
+      sendMail({ host: '127.0.0.1', port: smtp.port, timeoutMs: 2000 }, message),
+    ).rejects.toThrow('SMTP connection closed unexpectedly');
+  });
+
+  it('fails when the server stops answering', async () => {
+    smtp = await startSmtpServer(command => (command.startsWith('MAIL FROM') ? 'silent' : undefined));
+
+    await expect(
+      sendMail({ host: '127.0.0.1', port: smtp.port, timeoutMs: 200 }, message),
+    ).rejects.toThrow('SMTP server timed out');
+  });
+
+  it('fails when nothing listens on the port', async () => {
+    smtp = await startSmtpServer();
+    const { port } = smtp;
+    await smtp.close();
+    smtp = undefined;
+
+    await expect(sendMail({ host: '127.0.0.1', port, timeoutMs: 2000 }, message)).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
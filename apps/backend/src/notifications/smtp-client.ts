@@ -0,0 +1,217 @@
+import { Socket, connect as connectTcp } from 'net';
+import { connect as connectTls } from 'tls';
+import { hostname } from 'os';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte; otherwise STARTTLS is used when offered
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code?: number,
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Delivers a plain text message over SMTP: EHLO, STARTTLS when the server
+ * offers it, AUTH PLAIN when credentials are set, then one envelope for all
+ * recipients.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const connection = await SmtpConnection.open(options);
+  try {
+    await connection.expect(220);
+    let features = await connection.command(`EHLO ${hostname()}`, 250);
+
+    if (!options.secure && features.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await connection.command('STARTTLS', 220);
+      await connection.upgrade(options.host);
+      features = await connection.command(`EHLO ${hostname()}`, 250);
+    }
+
+    if (options.user) {
+      const token = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${token}`, 235);
+    }
+
+    await connection.command(`MAIL FROM:<${mailbox(message.from)}>`, 250);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${mailbox(recipient)}>`, 250, 251);
+    }
+    await connection.command('DATA', 354);
+    await connection.command(`${formatMessage(message)}\r\n.`, 250);
+    await connection.command('QUIT', 221).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
+
+/** The address part of `Name <address>`, or the value as it is. */
+function mailbox(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match ? match[1] : address).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function formatMessage(message: MailMessage): string {
+  const ascii = /^[\x00-\x7f]*$/.test(message.text);
+  const body = ascii
+    ? message.text.replace(/\r?\n/g, '\r\n')
+    : Buffer.from(message.text).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).substr(2, 9)}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    `Content-Transfer-Encoding: ${ascii ? '7bit' : 'base64'}`,
+  ];
+
+  // Lines starting with a dot are doubled so they can't end the DATA section
+  return `${headers.join('\r\n')}\r\n\r\n${body}`.replace(/^\./gm, '..');
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private failure?: Error;
+  private notify?: () => void;
+
+  private constructor(
+    private socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket);
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    const timeoutMs = options.timeoutMs || 10000;
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host })
+        : connectTcp({ host: options.host, port: options.port });
+      const ready = options.secure ? 'secureConnect' : 'connect';
+      const onTimeout = () => socket.destroy(new SmtpError('SMTP connection timed out'));
+
+      socket.once(ready, () => {
+        // From here on a stalled server is reported by the connection itself
+        socket.removeListener('error', reject);
+        socket.removeListener('timeout', onTimeout);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+      socket.once('error', reject);
+      socket.setTimeout(timeoutMs, onTimeout);
+    });
+  }
+
+  async command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...expected);
+  }
+
+  async expect(...expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP server replied ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /** Switches the connection to TLS after the server accepted STARTTLS. */
+  upgrade(host: string): Promise<void> {
+    this.detach(this.socket);
+    return new Promise((resolve, reject) => {
+      const secure = connectTls({ socket: this.socket, servername: host }, () => {
+        secure.removeListener('error', reject);
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+
+  private read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        // A reply ends with the line whose code is followed by a space
+        const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+        if (last >= 0) {
+          const lines = this.lines.splice(0, last + 1);
+          this.notify = undefined;
+          resolve({ code: parseInt(lines[last].slice(0, 3), 10), lines: lines.map(text => text.slice(4)) });
+        } else if (this.failure) {
+          this.notify = undefined;
+          reject(this.failure);
+        }
+      };
+      this.notify = check;
+      check();
+    });
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    const parts = this.buffer.split('\r\n');
+    this.buffer = parts.pop();
+    this.lines.push(...parts);
+    this.notify?.();
+  };
+
+  private onError = (error: Error) => {
+    this.failure = error;
+    this.notify?.();
+  };
+
+  private onClose = () => {
+    this.failure = this.failure || new SmtpError('SMTP connection closed unexpectedly');
+    this.notify?.();
+  };
+
+  private attach(socket: Socket): void {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError('SMTP server timed out')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: Socket): void {
+    socket.setTimeout(0);
+    socket.removeListener('data', this.onData);
+    socket.removeListener('error', this.onError);
+    socket.removeListener('close', this.onClose);
+  }
+}
@@ -0,0 +1,21 @@
+export const EXECUTION_QUEUE = Symbol('EXECUTION_QUEUE');
+
+export interface ExecutionJob {
+  executionId: string;
+  // Number of times the job has been handed to a worker
+  attempt: number;
+  enqueuedAt: number;
+}
+
+/**
+ * Durable queue of pending workflow executions. A reserved job is leased to
+ * one worker; if the lease is not extended before it expires the job is
+ * handed back to the pending list by `requeueExpired`.
+ */
+export interface ExecutionQueue {
+  enqueue(executionId: string): Promise<void>;
+  reserve(workerId: string, leaseMs: number): Promise<ExecutionJob | null>;
+  extendLease(executionId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  complete(executionId: string, workerId: string): Promise<void>;
+  requeueExpired(): Promise<ExecutionJob[]>;
+}
@@ -0,0 +1,103 @@
+import { InMemoryExecutionQueue } from './in-memory-execution-queue';
+
+describe('InMemoryExecutionQueue', () => {
+  let queue: InMemoryExecutionQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    queue = new InMemoryExecutionQueue();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('hands out jobs in the order they were enqueued', async () => {
+    await queue.enqueue('exec-1');
+    await queue.enqueue('exec-2');
+
+    expect((await queue.reserve('worker-a', 1000)).executionId).toBe('exec-1');
+    expect((await queue.reserve('worker-a', 1000)).executionId).toBe('exec-2');
+    expect(await queue.reserve('worker-a', 1000)).toBeNull();
+  });
+
+  it('ignores an execution that is already queued', async () => {
+    await queue.enqueue('exec-1');
+    await queue.enqueue('exec-1');
+
+    await queue.reserve('worker-a', 1000);
+    expect(await queue.reserve('worker-a', 1000)).toBeNull();
+  });
+
+  it('counts every time a job is handed to a worker', async () => {
+    await queue.enqueue('exec-1');
+
+    const job = await queue.reserve('worker-a', 1000);
+    expect(job).toMatchObject({ executionId: 'exec-1', attempt: 1 });
+  });
+
+  it('only lets the worker holding the lease extend or complete it', async () => {
+    await queue.enqueue('exec-1');
+    await queue.reserve('worker-a', 1000);
+
+    expect(await queue.extendLease('exec-1', 'worker-b', 1000)).toBe(false);
+    await queue.complete('exec-1', 'worker-b');
+    expect(await queue.extendLease('exec-1', 'worker-a', 1000)).toBe(true);
+
+    await queue.complete('exec-1', 'worker-a');
+    expect(await queue.extendLease('exec-1', 'worker-a', 1000)).toBe(false);
+  });
+
+  it('lets a completed execution be queued again', async () => {
+    await queue.enqueue('exec-1');
+    await queue.reserve('worker-a', 1000);
+    await queue.complete('exec-1', 'worker-a');
+
+    await queue.enqueue('exec-1');
+    expect(await queue.reserve('worker-a', 1000)).toMatchObject({ executionId: 'exec-1', attempt: 1 });
+  });
+
+  describe('lease expiry', () => {
+    beforeEach(async () => {
+      await queue.enqueue('exec-1');
+      await queue.reserve('worker-a', 1000);
+    });
+
+    it('leaves live leases alone', async () => {
+      jest.advanceTimersByTime(999);
+
+      expect(await queue.requeueExpired()).toEqual([]);
+      expect(await queue.reserve('worker-b', 1000)).toBeNull();
+    });
+
+    it('returns jobs whose lease lapsed to the front of the queue', async () => {
+      await queue.enqueue('exec-2');
+      jest.advanceTimersByTime(1000);
+
+      const requeued = await queue.requeueExpired();
+      expect(requeued).toEqual([expect.objectContaining({ executionId: 'exec-1', attempt: 1 })]);
+
+      const job = await queue.reserve('worker-b', 1000);
+      expect(job).toMatchObject({ executionId: 'exec-1', attempt: 2 });
+    });
+
+    it('keeps a lease alive while it is extended', async () => {
+      jest.advanceTimersByTime(800);
+      await queue.extendLease('exec-1', 'worker-a', 1000);
+      jest.advanceTimersByTime(800);
+
+      expect(await queue.requeueExpired()).toEqual([]);
+    });
+
+    it('takes the lease away from the worker that let it lapse', async () => {
+      jest.advanceTimersByTime(1000);
+      await queue.requeueExpired();
+      await queue.reserve('worker-b', 1000);
+
+      expect(await queue.extendLease('exec-1', 'worker-a', 1000)).toBe(false);
+      // The stale worker finishing up must not drop the new worker's job
+      await queue.complete('exec-1', 'worker-a');
+      expect(await queue.extendLease('exec-1', 'worker-b', 1000)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { ExecutionJob, ExecutionQueue } from './execution-queue.interface';
+
+interface Lease {
+  workerId: string;
+  expiresAt: number;
+}
+
+// Process-local queue for tests and single-node development setups
+export class InMemoryExecutionQueue implements ExecutionQueue {
+  private pending: string[] = [];
+  private jobs = new Map<string, ExecutionJob>();
+  private leases = new Map<string, Lease>();
+
+  async enqueue(executionId: string): Promise<void> {
+    if (this.jobs.has(executionId)) return;
+
+    this.jobs.set(executionId, { executionId, attempt: 0, enqueuedAt: Date.now() });
+    this.pending.push(executionId);
+  }
+
+  async reserve(workerId: string, leaseMs: number): Promise<ExecutionJob | null> {
+    const executionId = this.pending.shift();
+    if (!executionId) return null;
+
+    const job = this.jobs.get(executionId);
+    job.attempt += 1;
+    this.leases.set(executionId, { workerId, expiresAt: Date.now() + leaseMs });
+
+    return { ...job };
+  }
+
+  async extendLease(executionId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const lease = this.leases.get(executionId);
+    if (!lease || lease.workerId !== workerId) return false;
+
+    lease.expiresAt = Date.now() + leaseMs;
+    return true;
+  }
+
+  async complete(executionId: string, workerId: string): Promise<void> {
+    const lease = this.leases.get(executionId);
+    if (!lease || lease.workerId !== workerId) return;
+
+    this.leases.delete(executionId);
+    this.jobs.delete(executionId);
+  }
+
+  async requeueExpired(): Promise<ExecutionJob[]> {
+    const now = Date.now();
+    const requeued: ExecutionJob[] = [];
+
+    for (const [executionId, lease] of this.leases) {
+      if (lease.expiresAt > now) continue;
+
+      this.leases.delete(executionId);
+      this.pending.unshift(executionId);
+      requeued.push({ ...this.jobs.get(executionId) });
+    }
+
+    return requeued;
+  }
+}
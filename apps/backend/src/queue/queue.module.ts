@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import Redis from 'ioredis';
+import { EXECUTION_QUEUE, ExecutionQueue } from './execution-queue.interface';
+import { InMemoryExecutionQueue } from './in-memory-execution-queue';
+import { RedisExecutionQueue } from './redis-execution-queue';
+import { queueConfig } from '../config/queue.config';
+import { redisConfig } from '../config/redis.config';
+
+@Module({
+  providers: [
+    {
+      provide: EXECUTION_QUEUE,
+      useFactory: (): ExecutionQueue => {
+        if (queueConfig.driver === 'memory') {
+          return new InMemoryExecutionQueue();
+        }
+        return new RedisExecutionQueue(new Redis(redisConfig), queueConfig.keyPrefix);
+      },
+    },
+  ],
+  exports: [EXECUTION_QUEUE],
+})
+export class QueueModule {}
@@ -0,0 +1,112 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { ExecutionJob, ExecutionQueue } from './execution-queue.interface';
+
+// KEYS: pending, jobs, leases, owners | ARGV: executionId, job
+const ENQUEUE_SCRIPT = `
+if redis.call('HSETNX', KEYS[2], ARGV[1], ARGV[2]) == 1 then
+  redis.call('LPUSH', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+// KEYS: pending, jobs, leases, owners | ARGV: workerId, expiresAt
+const RESERVE_SCRIPT = `
+local id = redis.call('RPOP', KEYS[1])
+if not id then return nil end
+local raw = redis.call('HGET', KEYS[2], id)
+if not raw then return nil end
+local job = cjson.decode(raw)
+job.attempt = job.attempt + 1
+raw = cjson.encode(job)
+redis.call('HSET', KEYS[2], id, raw)
+redis.call('ZADD', KEYS[3], ARGV[2], id)
+redis.call('HSET', KEYS[4], id, ARGV[1])
+return raw
+`;
+
+// KEYS: pending, jobs, leases, owners | ARGV: executionId, workerId, expiresAt
+const EXTEND_SCRIPT = `
+if redis.call('HGET', KEYS[4], ARGV[1]) ~= ARGV[2] then return 0 end
+redis.call('ZADD', KEYS[3], 'XX', ARGV[3], ARGV[1])
+return 1
+`;
+
+// KEYS: pending, jobs, leases, owners | ARGV: executionId, workerId
+const COMPLETE_SCRIPT = `
+if redis.call('HGET', KEYS[4], ARGV[1]) ~= ARGV[2] then return 0 end
+redis.call('ZREM', KEYS[3], ARGV[1])
+redis.call('HDEL', KEYS[4], ARGV[1])
+redis.call('HDEL', KEYS[2], ARGV[1])
+return 1
+`;
+
+// KEYS: pending, jobs, leases, owners | ARGV: now
+const REQUEUE_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[3], '-inf', ARGV[1])
+local jobs = {}
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[3], id)
+  redis.call('HDEL', KEYS[4], id)
+  redis.call('RPUSH', KEYS[1], id)
+  local raw = redis.call('HGET', KEYS[2], id)
+  if raw then table.insert(jobs, raw) end
+end
+return jobs
+`;
+
+export class RedisExecutionQueue implements ExecutionQueue, OnModuleDestroy {
+  private readonly keys: string[];
+
+  constructor(private redis: Redis, keyPrefix: string) {
+    this.keys = ['pending', 'jobs', 'leases', 'owners'].map(key => `${keyPrefix}:${key}`);
+  }
+
+  async enqueue(executionId: string): Promise<void> {
+    const job: ExecutionJob = { executionId, attempt: 0, enqueuedAt: Date.now() };
+    await this.redis.eval(ENQUEUE_SCRIPT, this.keys.length, ...this.keys, executionId, JSON.stringify(job));
+  }
+
+  async reserve(workerId: string, leaseMs: number): Promise<ExecutionJob | null> {
+    const raw = (await this.redis.eval(
+      RESERVE_SCRIPT,
+      this.keys.length,
+      ...this.keys,
+      workerId,
+      Date.now() + leaseMs,
+    )) as string | null;
+
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async extendLease(executionId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.redis.eval(
+      EXTEND_SCRIPT,
+      this.keys.length,
+      ...this.keys,
+      executionId,
+      workerId,
+      Date.now() + leaseMs,
+    );
+    return result === 1;
+  }
+
+  async complete(executionId: string, workerId: string): Promise<void> {
+    await this.redis.eval(COMPLETE_SCRIPT, this.keys.length, ...this.keys, executionId, workerId);
+  }
+
+  async requeueExpired(): Promise<ExecutionJob[]> {
+    const raw = (await this.redis.eval(
+      REQUEUE_SCRIPT,
+      this.keys.length,
+      ...this.keys,
+      Date.now(),
+    )) as string[];
+
+    return raw.map(job => JSON.parse(job));
+  }
+
+  async onModuleDestroy() {
+    await this.redis.quit();
+  }
+}
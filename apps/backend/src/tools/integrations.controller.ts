@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { CredentialedRequest, ToolExecutionError } from '@shared/engine';
+import { IntegrationsService } from './integrations.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('Integrations')
+@Controller('integrations')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class IntegrationsController {
+  constructor(private integrationsService: IntegrationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all integrations' })
+  @ApiResponse({ status: 200, description: 'Integrations retrieved successfully' })
+  async findAll(@Request() req) {
+    return this.integrationsService.findAll(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get integration by ID' })
+  @ApiResponse({ status: 200, description: 'Integration retrieved successfully' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.integrationsService.findOne(id, req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create new integration' })
+  @ApiResponse({ status: 201, description: 'Integration created successfully' })
+  async create(@Body() integrationData: any, @Request() req) {
+    return this.integrationsService.create(integrationData, req.user.id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update integration' })
+  @ApiResponse({ status: 200, description: 'Integration updated successfully' })
+  async update(@Param('id') id: string, @Body() integrationData: any, @Request() req) {
+    return this.integrationsService.update(id, integrationData, req.user.id);
+  }
+
+  @Post(':id/request')
+  @ApiOperation({ summary: 'Send an API call authenticated with the integration' })
+  @ApiResponse({ status: 201, description: 'Request sent successfully' })
+  @ApiResponse({ status: 422, description: 'Request failed' })
+  async request(@Param('id') id: string, @Body() request: CredentialedRequest, @Request() req) {
+    try {
+      return await this.integrationsService.send(id, request, req.user.id);
+    } catch (error) {
+      // Not a 5xx, so that clients don't retry a request the runtime already retried
+      if (error instanceof ToolExecutionError) {
+        throw new UnprocessableEntityException(error.toJSON());
+      }
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete integration' })
+  @ApiResponse({ status: 200, description: 'Integration deleted successfully' })
+  async delete(@Param('id') id: string, @Request() req) {
+    return this.integrationsService.delete(id, req.user.id);
+  }
+}
@@ -0,0 +1,77 @@
+import { IntegrationsService } from './integrations.service';
+
+const stored = {
+  id: 'int-1',
+  name: 'Billing API',
+  type: 'api',
+  config: { credentials: { token: 'secret-token' }, settings: { region: 'eu' } },
+};
+
+const createService = () => {
+  const integrationRepository = {
+    find: jest.fn().mockResolvedValue([stored]),
+    findOne: jest.fn().mockResolvedValue(stored),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async integration => ({ id: 'int-2', ...integration })),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const httpToolRuntime = {
+    send: jest.fn().mockResolvedValue({ data: { ok: true }, status: 200, headers: {}, duration: 5, attempts: 1 }),
+  };
+  const service = new IntegrationsService(integrationRepository as any, httpToolRuntime as any);
+  return { service, integrationRepository, httpToolRuntime };
+};
+
+describe('IntegrationsService', () => {
+  it('leaves credentials out of the integrations it returns', async () => {
+    const { service } = createService();
+
+    const [listed] = await service.findAll('user-1');
+    const found = await service.findOne('int-1', 'user-1');
+    const created = await service.create({ name: 'New', config: stored.config }, 'user-1');
+
+    for (const integration of [listed, found, created]) {
+      expect(integration.config).toEqual({ settings: { region: 'eu' } });
+    }
+  });
+
+  it('keeps the stored credentials when an update leaves them out', async () => {
+    const { service, integrationRepository } = createService();
+
+    await service.update('int-1', { config: { settings: { region: 'us' } } as any }, 'user-1');
+
+    expect(integrationRepository.update).toHaveBeenCalledWith(
+      { id: 'int-1', createdBy: { id: 'user-1' } },
+      { config: { settings: { region: 'us' }, credentials: { token: 'secret-token' } } },
+    );
+  });
+
+  it('sends requests with the credentials it holds', async () => {
+    const { service, httpToolRuntime } = createService();
+
+    const result = await service.send(
+      'int-1',
+      { credentialId: 'int-1', authType: 'bearer', method: 'GET', url: 'https://billing.example.com/invoices' },
+      'user-1',
+    );
+
+    expect(result.data).toEqual({ ok: true });
+    expect(httpToolRuntime.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'GET',
+        url: 'https://billing.example.com/invoices',
+        auth: { type: 'bearer', credentials: { token: 'secret-token' } },
+      }),
+    );
+  });
+
+  it('refuses to send with an integration the user does not own', async () => {
+    const { service, integrationRepository, httpToolRuntime } = createService();
+    integrationRepository.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.send('int-1', { credentialId: 'int-1', authType: 'bearer', method: 'GET', url: 'https://x' }, 'user-2'),
+    ).rejects.toThrow('Credential not found: int-1');
+    expect(httpToolRuntime.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CredentialedRequest, HttpToolRuntime, ToolResult, parseStatusRanges } from '@shared/engine';
+import { Integration, IntegrationConfig } from '../database/entities/integration.entity';
+
+// Credentials are only ever read on the server, never sent back to clients
+function withoutCredentials(integration: Integration): Integration {
+  if (!integration?.config) return integration;
+  const { credentials, ...config } = integration.config;
+  return { ...integration, config: config as Integration['config'] };
+}
+
+@Injectable()
+export class IntegrationsService {
+  constructor(
+    @InjectRepository(Integration)
+    private integrationRepository: Repository<Integration>,
+    private httpToolRuntime: HttpToolRuntime,
+  ) {}
+
+  async findAll(userId: string): Promise<Integration[]> {
+    const integrations = await this.integrationRepository.find({
+      where: { createdBy: { id: userId } },
+      order: { createdAt: 'DESC' },
+    });
+    return integrations.map(withoutCredentials);
+  }
+
+  async findOne(id: string, userId: string): Promise<Integration> {
+    return withoutCredentials(await this.findStored(id, userId));
+  }
+
+  async create(integrationData: Partial<Integration>, userId: string): Promise<Integration> {
+    const integration = this.integrationRepository.create({
+      ...integrationData,
+      createdBy: { id: userId } as any,
+    });
+    return withoutCredentials(await this.integrationRepository.save(integration));
+  }
+
+  async update(id: string, integrationData: Partial<Integration>, userId: string): Promise<Integration> {
+    const changes = { ...integrationData };
+    const config: Partial<IntegrationConfig> = changes.config;
+    // A config sent back without credentials keeps the stored ones
+    if (config && !('credentials' in config)) {
+      const stored = await this.findStored(id, userId);
+      changes.config = { ...config, credentials: stored?.config?.credentials || {} } as IntegrationConfig;
+    }
+    await this.integrationRepository.update({ id, createdBy: { id: userId } }, changes);
+    return this.findOne(id, userId);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    await this.integrationRepository.delete({ id, createdBy: { id: userId } });
+  }
+
+  /** Credentials an API call node authenticates with. */
+  async getCredentials(id: string, userId: string): Promise<Record<string, string>> {
+    const integration = await this.findStored(id, userId);
+    if (!integration) {
+      throw new NotFoundException(`Credential not found: ${id}`);
+    }
+    return integration.config?.credentials || {};
+  }
+
+  /**
+   * Sends an API call node's request for the in-browser engine, authenticated
+   * with the integration's credentials.
+   */
+  async send(id: string, request: CredentialedRequest, userId: string): Promise<ToolResult> {
+    const credentials = await this.getCredentials(id, userId);
+    return this.httpToolRuntime.send({
+      method: request.method,
+      url: request.url,
+      query: request.query,
+      headers: request.headers,
+      body: request.body,
+      timeout: request.timeout,
+      retries: request.retries,
+      label: request.label,
+      auth: { type: request.authType, credentials },
+      isSuccess: parseStatusRanges(request.successStatuses),
+    });
+  }
+
+  private findStored(id: string, userId: string): Promise<Integration> {
+    return this.integrationRepository.findOne({
+      where: { id, createdBy: { id: userId } },
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ToolsService } from './tools.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('Tools')
+@Controller('tools')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ToolsController {
+  constructor(private toolsService: ToolsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all tools' })
+  @ApiResponse({ status: 200, description: 'Tools retrieved successfully' })
+  async findAll(@Request() req) {
+    return this.toolsService.findAll(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get tool by ID' })
+  @ApiResponse({ status: 200, description: 'Tool retrieved successfully' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.toolsService.findOne(id, req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create new tool' })
+  @ApiResponse({ status: 201, description: 'Tool created successfully' })
+  async create(@Body() toolData: any, @Request() req) {
+    return this.toolsService.create(toolData, req.user.id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update tool' })
+  @ApiResponse({ status: 200, description: 'Tool updated successfully' })
+  async update(@Param('id') id: string, @Body() toolData: any, @Request() req) {
+    return this.toolsService.update(id, toolData, req.user.id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete tool' })
+  @ApiResponse({ status: 200, description: 'Tool deleted successfully' })
+  async delete(@Param('id') id: string, @Request() req) {
+    return this.toolsService.delete(id, req.user.id);
+  }
+
+  @Post(':id/test')
+  @ApiOperation({ summary: 'Call a tool with test parameters' })
+  @ApiResponse({ status: 200, description: 'Tool responded' })
+  async test(@Param('id') id: string, @Body() params: any, @Request() req) {
+    return this.toolsService.test(id, params, req.user.id);
+  }
+}
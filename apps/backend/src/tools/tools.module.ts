@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpToolRuntime } from '@shared/engine';
+import { ToolsController } from './tools.controller';
+import { IntegrationsController } from './integrations.controller';
+import { ToolsService } from './tools.service';
+import { IntegrationsService } from './integrations.service';
+import { Tool } from '../database/entities/tool.entity';
+import { Integration } from '../database/entities/integration.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Tool, Integration])],
+  controllers: [ToolsController, IntegrationsController],
+  providers: [ToolsService, IntegrationsService, HttpToolRuntime],
+  exports: [ToolsService, IntegrationsService, HttpToolRuntime],
+})
+export class ToolsModule {}
@@ -0,0 +1,53 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { HttpToolRuntime, ToolResult } from '@shared/engine';
+import { Tool } from '../database/entities/tool.entity';
+
+@Injectable()
+export class ToolsService {
+  constructor(
+    @InjectRepository(Tool)
+    private toolRepository: Repository<Tool>,
+    private httpToolRuntime: HttpToolRuntime,
+  ) {}
+
+  async findAll(userId: string): Promise<Tool[]> {
+    return this.toolRepository.find({
+      where: { createdBy: { id: userId } },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<Tool> {
+    return this.toolRepository.findOne({
+      where: { id, createdBy: { id: userId } },
+    });
+  }
+
+  async create(toolData: Partial<Tool>, userId: string): Promise<Tool> {
+    const tool = this.toolRepository.create({
+      ...toolData,
+      createdBy: { id: userId } as any,
+    });
+    return this.toolRepository.save(tool);
+  }
+
+  async update(id: string, toolData: Partial<Tool>, userId: string): Promise<Tool> {
+    await this.toolRepository.update({ id, createdBy: { id: userId } }, toolData);
+    return this.findOne(id, userId);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    await this.toolRepository.delete({ id, createdBy: { id: userId } });
+  }
+
+  /** Calls the tool with the given parameters, as a tool node would. */
+  async test(id: string, params: Record<string, any>, userId: string): Promise<ToolResult> {
+    const tool = await this.findOne(id, userId);
+    if (!tool) {
+      throw new NotFoundException('Tool not found');
+    }
+    return this.httpToolRuntime.execute(tool, params);
+  }
+}
@@ -1,11 +1,26 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { AxonPulsGateway } from './axon-puls.gateway';
 import { AxonPulsEvent, EventType } from '@shared/types/websocket';
 
+export type WorkflowEventListener = (event: AxonPulsEvent) => void | Promise<unknown>;
+
 @Injectable()
 export class WebsocketService {
+  private readonly logger = new Logger(WebsocketService.name);
+  private listeners = new Set<WorkflowEventListener>();
+
   constructor(private axonPulsGateway: AxonPulsGateway) {}
 
+  /**
+   * Calls the listener with every workflow event this process broadcasts,
+   * i.e. the events of the runs its workers execute. Returns an unsubscribe
+   * function.
+   */
+  subscribe(listener: WorkflowEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   emitWorkflowStarted(workflowId: string, userId: string, data: any) {
     const event: AxonPulsEvent = {
       id: `${Date.now()}-workflow-started`,
@@ -16,7 +31,7 @@ export class WebsocketService {
       workflowId,
     };
     
-    this.axonPulsGateway.broadcastWorkflowEvent(event);
+    this.publish(event);
   }
 
   emitWorkflowCompleted(workflowId: string, userId: string, data: any) {
@@ -29,20 +44,59 @@ export class WebsocketService {
       workflowId,
     };
     
-    this.axonPulsGateway.broadcastWorkflowEvent(event);
+    this.publish(event);
   }
 
-  emitWorkflowFailed(workflowId: string, userId: string, error: string) {
+  emitWorkflowFailed(workflowId: string, userId: string, error: string, data: Record<string, any> = {}) {
     const event: AxonPulsEvent = {
       id: `${Date.now()}-workflow-failed`,
       type: EventType.WORKFLOW_FAILED,
-      payload: { error },
+      payload: { ...data, error },
       timestamp: new Date(),
       userId,
       workflowId,
     };
     
-    this.axonPulsGateway.broadcastWorkflowEvent(event);
+    this.publish(event);
+  }
+
+  emitWorkflowCancelled(workflowId: string, userId: string, data: any) {
+    const event: AxonPulsEvent = {
+      id: `${Date.now()}-workflow-cancelled`,
+      type: EventType.WORKFLOW_CANCELLED,
+      payload: data,
+      timestamp: new Date(),
+      userId,
+      workflowId,
+    };
+
+    this.publish(event);
+  }
+
+  emitWorkflowPaused(workflowId: string, userId: string, data: any) {
+    const event: AxonPulsEvent = {
+      id: `${Date.now()}-workflow-paused`,
+      type: EventType.WORKFLOW_PAUSED,
+      payload: data,
+      timestamp: new Date(),
+      userId,
+      workflowId,
+    };
+
+    this.publish(event);
+  }
+
+  emitWorkflowResumed(workflowId: string, userId: string, data: any) {
+    const event: AxonPulsEvent = {
+      id: `${Date.now()}-workflow-resumed`,
+      type: EventType.WORKFLOW_RESUMED,
+      payload: data,
+      timestamp: new Date(),
+      userId,
+      workflowId,
+    };
+
+    this.publish(event);
   }
 
   emitNodeExecuted(workflowId: string, userId: string, nodeData: any) {
@@ -55,10 +109,34 @@ export class WebsocketService {
       workflowId,
     };
     
-    this.axonPulsGateway.broadcastWorkflowEvent(event);
+    this.publish(event);
+  }
+
+  emitNodeWaiting(workflowId: string, userId: string, request: any) {
+    const event: AxonPulsEvent = {
+      id: `${Date.now()}-node-waiting`,
+      type: EventType.NODE_WAITING,
+      payload: request,
+      timestamp: new Date(),
+      userId,
+      workflowId,
+    };
+    
+    this.publish(event);
   }
 
   emitToUser(userId: string, event: string, data: any) {
     this.axonPulsGateway.broadcastToUser(userId, event, data);
   }
+
+  private publish(event: AxonPulsEvent) {
+    this.axonPulsGateway.broadcastWorkflowEvent(event);
+
+    // Listeners must not hold up or break the run that emitted the event
+    this.listeners.forEach(listener => {
+      Promise.resolve()
+        .then(() => listener(event))
+        .catch(error => this.logger.error(`Workflow event listener failed: ${error}`));
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+
+// Headless entrypoint that only runs execution workers, for scaling them
+// separately from the HTTP API (set EXECUTION_WORKER_ENABLED=false there).
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  app.enableShutdownHooks();
+  console.log(`⚙️  AxonStreamAI execution worker running (pid ${process.pid})`);
+}
+
+bootstrap();
@@ -0,0 +1,86 @@
+import { ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { WebsocketService } from '../websockets/websocket.service';
+import {
+  ExecutionStatus,
+  WorkflowExecution,
+} from '../database/entities/workflow-execution.entity';
+import { EXECUTION_QUEUE, ExecutionQueue } from '../queue/execution-queue.interface';
+
+/**
+ * Cancels, pauses and resumes executions. Requests are persisted on the
+ * execution so the worker running it, possibly in another process, picks
+ * them up between nodes; a run on this worker is signalled straight away.
+ * Cancelling aborts in-flight nodes, pausing lets them finish first.
+ */
+@Injectable()
+export class ExecutionControlService {
+  private readonly logger = new Logger(ExecutionControlService.name);
+
+  constructor(
+    private executionService: WorkflowExecutionService,
+    private workflowRunner: WorkflowRunnerService,
+    private websocketService: WebsocketService,
+    @Inject(EXECUTION_QUEUE)
+    private executionQueue: ExecutionQueue,
+  ) {}
+
+  async cancel(executionId: string, userId: string): Promise<WorkflowExecution> {
+    const execution = await this.findOwned(executionId, userId);
+
+    const previous = await this.executionService.cancel(executionId);
+    if (!previous) {
+      throw new ConflictException(`Execution is already ${execution.status}`);
+    }
+
+    this.workflowRunner.control(executionId, 'cancel');
+    this.logger.log(`Execution ${executionId} cancelled while ${previous}`);
+
+    // A running execution reports itself once its nodes have stopped
+    if (previous !== ExecutionStatus.RUNNING) {
+      this.websocketService.emitWorkflowCancelled(execution.workflow.id, userId, { executionId });
+    }
+    return this.executionService.findOne(executionId);
+  }
+
+  async pause(executionId: string, userId: string): Promise<WorkflowExecution> {
+    const execution = await this.findOwned(executionId, userId);
+
+    if (!(await this.executionService.pause(executionId))) {
+      throw new ConflictException(`Execution is ${execution.status} and can't be paused`);
+    }
+
+    this.workflowRunner.control(executionId, 'pause');
+    this.logger.log(`Execution ${executionId} paused`);
+
+    if (execution.status !== ExecutionStatus.RUNNING) {
+      this.websocketService.emitWorkflowPaused(execution.workflow.id, userId, { executionId });
+    }
+    return this.executionService.findOne(executionId);
+  }
+
+  async resume(executionId: string, userId: string): Promise<WorkflowExecution> {
+    const execution = await this.findOwned(executionId, userId);
+
+    if (!(await this.executionService.resumePaused(executionId))) {
+      throw new ConflictException(`Execution is ${execution.status}, not paused`);
+    }
+
+    // Picked up from its checkpoint; a worker still winding the run down
+    // queues it again once it lets go of the job
+    await this.executionQueue.enqueue(executionId);
+    this.logger.log(`Execution ${executionId} resumed`);
+
+    this.websocketService.emitWorkflowResumed(execution.workflow.id, userId, { executionId });
+    return this.executionService.findOne(executionId);
+  }
+
+  private async findOwned(executionId: string, userId: string): Promise<WorkflowExecution> {
+    const execution = await this.executionService.findOne(executionId);
+    if (!execution || execution.triggeredBy?.id !== userId) {
+      throw new NotFoundException('Execution not found');
+    }
+    return execution;
+  }
+}
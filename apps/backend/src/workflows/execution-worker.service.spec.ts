@@ -0,0 +1,136 @@
+import { ExecutionWorkerService } from './execution-worker.service';
+import { InMemoryExecutionQueue } from '../queue/in-memory-execution-queue';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+import { queueConfig } from '../config/queue.config';
+
+const waitFor = async (check: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the worker');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('ExecutionWorkerService', () => {
+  const defaults = { ...queueConfig };
+  let queue: InMemoryExecutionQueue;
+  let runner: { run: jest.Mock; control: jest.Mock };
+  let executionService: { updateStatus: jest.Mock; findOne: jest.Mock; markPending: jest.Mock };
+  let worker: ExecutionWorkerService;
+
+  beforeEach(() => {
+    Object.assign(queueConfig, {
+      workerEnabled: true,
+      concurrency: 1,
+      leaseMs: 60,
+      pollIntervalMs: 5,
+      maxAttempts: 3,
+    });
+
+    queue = new InMemoryExecutionQueue();
+    runner = { run: jest.fn().mockResolvedValue(undefined), control: jest.fn() };
+    executionService = {
+      updateStatus: jest.fn().mockResolvedValue(undefined),
+      findOne: jest.fn().mockResolvedValue({ status: ExecutionStatus.COMPLETED }),
+      markPending: jest.fn().mockResolvedValue(undefined),
+    };
+    const humanInputService = { expireOverdue: jest.fn().mockResolvedValue(undefined) };
+
+    worker = new ExecutionWorkerService(
+      queue,
+      runner as any,
+      executionService as any,
+      humanInputService as any,
+    );
+  });
+
+  afterEach(() => {
+    worker.onModuleDestroy();
+    Object.assign(queueConfig, defaults);
+  });
+
+  it('runs queued executions and completes their jobs', async () => {
+    await queue.enqueue('exec-1');
+    worker.onApplicationBootstrap();
+
+    await waitFor(() => executionService.findOne.mock.calls.length > 0);
+    expect(runner.run).toHaveBeenCalledWith('exec-1');
+    expect(await queue.reserve('other-worker', 1000)).toBeNull();
+  });
+
+  it('keeps the lease alive while a run takes longer than the lease', async () => {
+    let finish: () => void;
+    runner.run.mockReturnValue(new Promise<void>(resolve => (finish = resolve)));
+    await queue.enqueue('exec-1');
+    worker.onApplicationBootstrap();
+
+    await waitFor(() => runner.run.mock.calls.length > 0);
+    await new Promise(resolve => setTimeout(resolve, queueConfig.leaseMs * 3));
+
+    expect(await queue.requeueExpired()).toEqual([]);
+    expect(runner.control).not.toHaveBeenCalled();
+    finish();
+  });
+
+  it('stops the local run when its lease is lost', async () => {
+    let finish: () => void;
+    runner.run.mockReturnValue(new Promise<void>(resolve => (finish = resolve)));
+    runner.control.mockImplementation(() => finish());
+    jest.spyOn(queue, 'extendLease').mockResolvedValue(false);
+    await queue.enqueue('exec-1');
+    worker.onApplicationBootstrap();
+
+    await waitFor(() => runner.control.mock.calls.length > 0);
+    expect(runner.control).toHaveBeenCalledTimes(1);
+    expect(runner.control).toHaveBeenCalledWith('exec-1', 'abandon');
+
+    // Whoever holds the lease now decides what happens to the execution
+    await new Promise(resolve => setTimeout(resolve, queueConfig.leaseMs));
+    expect(executionService.findOne).not.toHaveBeenCalled();
+    expect(executionService.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('returns executions of a worker that went away to the queue', async () => {
+    await queue.enqueue('exec-1');
+    await queue.reserve('dead-worker', 10);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    worker.onApplicationBootstrap();
+
+    // The sweep runs once per lease period and marks the run PENDING again,
+    // so the next worker resumes it from its checkpoint
+    await waitFor(() => runner.run.mock.calls.length > 0);
+    expect(executionService.markPending).toHaveBeenCalledWith('exec-1');
+    expect(runner.run).toHaveBeenCalledWith('exec-1');
+  });
+
+  it('gives up on an execution that keeps losing its worker', async () => {
+    await queue.enqueue('exec-1');
+    for (let attempt = 0; attempt < queueConfig.maxAttempts; attempt++) {
+      await queue.reserve('dead-worker', 0);
+      await queue.requeueExpired();
+    }
+
+    worker.onApplicationBootstrap();
+
+    await waitFor(() => executionService.updateStatus.mock.calls.length > 0);
+    expect(runner.run).not.toHaveBeenCalled();
+    expect(executionService.updateStatus).toHaveBeenCalledWith(
+      'exec-1',
+      ExecutionStatus.FAILED,
+      undefined,
+      `Execution abandoned after ${queueConfig.maxAttempts} worker failures`,
+    );
+  });
+
+  it('queues a run again when it was resumed while suspending', async () => {
+    executionService.findOne.mockResolvedValueOnce({ status: ExecutionStatus.PENDING });
+    await queue.enqueue('exec-1');
+    worker.onApplicationBootstrap();
+
+    await waitFor(() => runner.run.mock.calls.length > 1);
+    expect(runner.run).toHaveBeenNthCalledWith(2, 'exec-1');
+  });
+});
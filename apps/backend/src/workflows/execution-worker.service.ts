@@ -0,0 +1,153 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { hostname } from 'os';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { HumanInputService } from './human-input.service';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+import {
+  EXECUTION_QUEUE,
+  ExecutionJob,
+  ExecutionQueue,
+} from '../queue/execution-queue.interface';
+import { queueConfig } from '../config/queue.config';
+
+/**
+ * Pulls executions off the durable queue and runs them. Each reserved job is
+ * kept alive with a heartbeat; jobs whose worker stopped heartbeating are
+ * swept back to PENDING and resumed from their last checkpoint. The same
+ * sweep times out executions left waiting for human input.
+ */
+@Injectable()
+export class ExecutionWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ExecutionWorkerService.name);
+  private readonly workerId = `${hostname()}-${process.pid}`;
+  private running = false;
+  private recoveryTimer: NodeJS.Timeout;
+
+  constructor(
+    @Inject(EXECUTION_QUEUE)
+    private queue: ExecutionQueue,
+    private workflowRunner: WorkflowRunnerService,
+    private executionService: WorkflowExecutionService,
+    private humanInputService: HumanInputService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!queueConfig.workerEnabled) {
+      this.logger.log('Execution worker disabled');
+      return;
+    }
+
+    this.running = true;
+    for (let slot = 0; slot < queueConfig.concurrency; slot++) {
+      this.poll();
+    }
+
+    this.recoveryTimer = setInterval(() => {
+      this.recoverExpired();
+      this.expireWaitingInputs();
+    }, queueConfig.leaseMs);
+    this.logger.log(`Execution worker ${this.workerId} started with ${queueConfig.concurrency} slots`);
+  }
+
+  onModuleDestroy() {
+    // In-flight jobs are not completed here: their leases lapse and another
+    // worker resumes them from the last checkpoint.
+    this.running = false;
+    clearInterval(this.recoveryTimer);
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running) {
+      try {
+        const job = await this.queue.reserve(this.workerId, queueConfig.leaseMs);
+        if (!job) {
+          await this.sleep(queueConfig.pollIntervalMs);
+          continue;
+        }
+
+        await this.process(job);
+      } catch (error) {
+        this.logger.error(`Worker poll failed: ${error.message}`);
+        await this.sleep(queueConfig.pollIntervalMs);
+      }
+    }
+  }
+
+  private async process(job: ExecutionJob): Promise<void> {
+    if (job.attempt > queueConfig.maxAttempts) {
+      this.logger.error(`Execution ${job.executionId} abandoned after ${job.attempt - 1} attempts`);
+      await this.executionService.updateStatus(
+        job.executionId,
+        ExecutionStatus.FAILED,
+        undefined,
+        `Execution abandoned after ${job.attempt - 1} worker failures`,
+      );
+      await this.queue.complete(job.executionId, this.workerId);
+      return;
+    }
+
+    let leaseLost = false;
+    const heartbeat = setInterval(async () => {
+      const held = await this.queue
+        .extendLease(job.executionId, this.workerId, queueConfig.leaseMs)
+        .catch(() => false);
+      if (!held && !leaseLost) {
+        // The job may already be running on another worker, so the run here
+        // stops rather than racing it for the execution row
+        leaseLost = true;
+        clearInterval(heartbeat);
+        this.logger.warn(`Lost lease on execution ${job.executionId}, stopping the local run`);
+        this.workflowRunner.control(job.executionId, 'abandon');
+      }
+    }, Math.floor(queueConfig.leaseMs / 3));
+
+    try {
+      await this.workflowRunner.run(job.executionId);
+    } finally {
+      clearInterval(heartbeat);
+      await this.queue.complete(job.executionId, this.workerId);
+    }
+
+    if (leaseLost) {
+      return;
+    }
+
+    // An answer that arrived while the run was still suspending couldn't be
+    // queued behind the job that was being completed
+    const execution = await this.executionService.findOne(job.executionId);
+    if (execution?.status === ExecutionStatus.PENDING) {
+      await this.queue.enqueue(job.executionId);
+    }
+  }
+
+  private async recoverExpired(): Promise<void> {
+    try {
+      const jobs = await this.queue.requeueExpired();
+      for (const job of jobs) {
+        this.logger.warn(`Lease expired for execution ${job.executionId}, returning it to the queue`);
+        await this.executionService.markPending(job.executionId);
+      }
+    } catch (error) {
+      this.logger.error(`Lease recovery failed: ${error.message}`);
+    }
+  }
+
+  private async expireWaitingInputs(): Promise<void> {
+    try {
+      await this.humanInputService.expireOverdue();
+    } catch (error) {
+      this.logger.error(`Human input timeout sweep failed: ${error.message}`);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,109 @@
+import { JwtService } from '@nestjs/jwt';
+import { ExecutionGateway } from './execution.gateway';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+
+const jwtService = new JwtService({ secret: 'gateway-secret' });
+
+const socket = (auth: Record<string, any>) => ({ handshake: { auth } }) as any;
+
+const createGateway = () => {
+  const humanInputService = {
+    submitInput: jest.fn().mockResolvedValue({ id: 'exec-1' }),
+    submitInputForNode: jest.fn().mockResolvedValue({ id: 'exec-1' }),
+  };
+  const executionControlService = {
+    cancel: jest.fn().mockResolvedValue({ id: 'exec-1', status: ExecutionStatus.CANCELLED }),
+    pause: jest.fn().mockResolvedValue({ id: 'exec-1', status: ExecutionStatus.PAUSED }),
+    resume: jest.fn().mockResolvedValue({ id: 'exec-1', status: ExecutionStatus.PENDING }),
+  };
+  const gateway = new ExecutionGateway(humanInputService as any, executionControlService as any, jwtService);
+  return { gateway, humanInputService, executionControlService };
+};
+
+describe('ExecutionGateway', () => {
+  describe('run controls', () => {
+    it('acts for the user the access token was issued to', async () => {
+      const { gateway, executionControlService } = createGateway();
+      const token = jwtService.sign({ sub: 'user-1', email: 'ada@example.com' });
+
+      const reply = await gateway.handleCancel({ executionId: 'exec-1', workflowId: 'wf-1' }, socket({ token }));
+
+      expect(executionControlService.cancel).toHaveBeenCalledWith('exec-1', 'user-1');
+      expect(reply).toEqual({
+        event: 'workflow:cancel:accepted',
+        data: { executionId: 'exec-1', workflowId: 'wf-1', status: ExecutionStatus.CANCELLED },
+      });
+    });
+
+    it('ignores a user id the client names without a valid token', async () => {
+      const { gateway, executionControlService } = createGateway();
+
+      const reply = await gateway.handlePause({ executionId: 'exec-1' }, socket({ userId: 'user-2' }));
+
+      expect(executionControlService.pause).not.toHaveBeenCalled();
+      expect(reply).toEqual({
+        event: 'workflow:pause:rejected',
+        data: { executionId: 'exec-1', workflowId: undefined, error: 'Not authenticated' },
+      });
+    });
+
+    it('rejects tokens signed with another secret', async () => {
+      const { gateway, executionControlService } = createGateway();
+      const token = new JwtService({ secret: 'forged' }).sign({ sub: 'user-2' });
+
+      const reply = await gateway.handleResume({ executionId: 'exec-1' }, socket({ token, userId: 'user-2' }));
+
+      expect(executionControlService.resume).not.toHaveBeenCalled();
+      expect(reply.event).toBe('workflow:resume:rejected');
+    });
+
+    it('rejects expired tokens', async () => {
+      const { gateway, executionControlService } = createGateway();
+      const token = jwtService.sign({ sub: 'user-1' }, { expiresIn: -10 });
+
+      const reply = await gateway.handleCancel({ executionId: 'exec-1' }, socket({ token }));
+
+      expect(executionControlService.cancel).not.toHaveBeenCalled();
+      expect(reply.event).toBe('workflow:cancel:rejected');
+    });
+  });
+
+  describe('user input', () => {
+    it('answers as the user the access token was issued to', async () => {
+      const { gateway, humanInputService } = createGateway();
+      const token = jwtService.sign({ sub: 'user-1' });
+
+      const reply = await gateway.handleUserInput(
+        { executionId: 'exec-1', nodeId: 'approve', input: { approved: true } },
+        socket({ token }),
+      );
+
+      expect(humanInputService.submitInput).toHaveBeenCalledWith('exec-1', 'approve', { approved: true }, 'user-1');
+      expect(reply.event).toBe('user:input:accepted');
+    });
+
+    it('answers the pending input of a workflow node for the token user', async () => {
+      const { gateway, humanInputService } = createGateway();
+      const token = jwtService.sign({ sub: 'user-1' });
+
+      await gateway.handleUserInput({ workflowId: 'wf-1', nodeId: 'approve', input: {} }, socket({ token }));
+
+      expect(humanInputService.submitInputForNode).toHaveBeenCalledWith('wf-1', 'approve', {}, 'user-1');
+    });
+
+    it('ignores a user id the client names without a valid token', async () => {
+      const { gateway, humanInputService } = createGateway();
+
+      const reply = await gateway.handleUserInput(
+        { executionId: 'exec-1', nodeId: 'approve', input: { approved: true } },
+        socket({ userId: 'user-2', token: 'not-a-token' }),
+      );
+
+      expect(humanInputService.submitInput).not.toHaveBeenCalled();
+      expect(reply).toEqual({
+        event: 'user:input:rejected',
+        data: { executionId: 'exec-1', workflowId: undefined, nodeId: 'approve', error: 'Not authenticated' },
+      });
+    });
+  });
+});
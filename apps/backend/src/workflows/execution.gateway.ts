@@ -0,0 +1,94 @@
+import {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+} from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { Logger } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { HumanInputService } from './human-input.service';
+import { ExecutionControlService } from './execution-control.service';
+
+/**
+ * Socket handlers that act on running executions. Shares the AxonPuls
+ * socket server; kept with the workflows module so it can reach the runtime
+ * without the websockets module depending on it.
+ */
+@WebSocketGateway({
+  cors: {
+    origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+    credentials: true,
+  },
+})
+export class ExecutionGateway {
+  private readonly logger = new Logger(ExecutionGateway.name);
+
+  constructor(
+    private humanInputService: HumanInputService,
+    private executionControlService: ExecutionControlService,
+    private jwtService: JwtService,
+  ) {}
+
+  @SubscribeMessage('user:input')
+  async handleUserInput(
+    @MessageBody() data: any,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const { executionId, workflowId, nodeId, input } = data || {};
+
+    try {
+      const userId = await this.authenticate(client);
+      const execution = executionId
+        ? await this.humanInputService.submitInput(executionId, nodeId, input, userId)
+        : await this.humanInputService.submitInputForNode(workflowId, nodeId, input, userId);
+
+      return { event: 'user:input:accepted', data: { executionId: execution.id, workflowId, nodeId } };
+    } catch (error) {
+      this.logger.warn(`Rejected input for node ${nodeId}: ${error.message}`);
+      return { event: 'user:input:rejected', data: { executionId, workflowId, nodeId, error: error.message } };
+    }
+  }
+
+  @SubscribeMessage('workflow:cancel')
+  async handleCancel(@MessageBody() data: any, @ConnectedSocket() client: Socket) {
+    return this.control('cancel', data, client);
+  }
+
+  @SubscribeMessage('workflow:pause')
+  async handlePause(@MessageBody() data: any, @ConnectedSocket() client: Socket) {
+    return this.control('pause', data, client);
+  }
+
+  @SubscribeMessage('workflow:resume')
+  async handleResume(@MessageBody() data: any, @ConnectedSocket() client: Socket) {
+    return this.control('resume', data, client);
+  }
+
+  private async control(action: 'cancel' | 'pause' | 'resume', data: any, client: Socket) {
+    const { executionId, workflowId } = data || {};
+
+    try {
+      const userId = await this.authenticate(client);
+      const execution = await this.executionControlService[action](executionId, userId);
+      return { event: `workflow:${action}:accepted`, data: { executionId, workflowId, status: execution.status } };
+    } catch (error) {
+      this.logger.warn(`Rejected ${action} of execution ${executionId}: ${error.message}`);
+      return { event: `workflow:${action}:rejected`, data: { executionId, workflowId, error: error.message } };
+    }
+  }
+
+  /**
+   * The user the socket's access token was issued to. The token is the one
+   * the client sends in its handshake, checked the same way as on HTTP
+   * requests, so a caller can't act for another user by naming them.
+   */
+  private async authenticate(client: Socket): Promise<string> {
+    const token = client.handshake.auth?.token;
+    const payload = token ? await this.jwtService.verifyAsync(token).catch(() => undefined) : undefined;
+    if (!payload?.sub) {
+      throw new Error('Not authenticated');
+    }
+    return payload.sub;
+  }
+}
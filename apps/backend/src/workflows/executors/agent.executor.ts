@@ -0,0 +1,323 @@
+import {
+  AgentDefinition,
+  ChatRouter,
+  StreamingResponse,
+  TokenUsage,
+  ToolCall,
+  addUsage,
+  buildAgentRequest,
+  completeAgent,
+  formatTokens,
+  parseAgentOverrides,
+  toToolDefinition,
+} from '@shared/ai';
+import { WorkflowDefinitionNode } from '@shared/types/workflow';
+import { Tool } from '../../database/entities/tool.entity';
+import {
+  ExecutionContext,
+  ExecutionLog,
+  NodeExecutionResult,
+  NodeExecutor,
+  describeError,
+} from './node-executor';
+import { ToolRuntime } from './tool.executors';
+
+const DEFAULT_MAX_TOOL_CALLS = 10;
+
+/** Where agent nodes find their agents and send completions. */
+export interface AgentRuntime {
+  findAgent(agentId: string, userId: string): Promise<AgentDefinition | null>;
+  router: ChatRouter;
+  // Passes streamed chunks on to whoever is watching the run
+  stream(context: ExecutionContext, node: WorkflowDefinitionNode, agentId: string, chunk: StreamingResponse): void;
+}
+
+/** Loads an agent the run's owner may use and that is switched on. */
+export async function resolveAgent(
+  runtime: AgentRuntime,
+  agentId: string,
+  userId: string,
+): Promise<AgentDefinition> {
+  const agent = await runtime.findAgent(agentId, userId);
+  if (!agent) {
+    throw new Error(`Agent not found: ${agentId}`);
+  }
+  if (agent.isActive === false) {
+    throw new Error(`Agent ${agent.name} is not active`);
+  }
+  return agent;
+}
+
+/**
+ * Sends the node's prompt, rendered against upstream outputs, to the agent's
+ * provider. Streaming agents have their chunks relayed while they arrive;
+ * the node's output is the full response either way.
+ */
+export class AgentNodeExecutor extends NodeExecutor {
+  constructor(private readonly runtime: AgentRuntime) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+
+    try {
+      if (!config.agentId) {
+        throw new Error('Agent ID is required');
+      }
+
+      const agent = await resolveAgent(this.runtime, config.agentId, context.userId);
+      const overrides = parseAgentOverrides(config.agentConfig);
+      const request = { ...buildAgentRequest(config, context, agent, overrides), signal };
+
+      logs.push(this.createLog('info', `Executing agent ${agent.name} with ${agent.provider}/${request.model}`, node.id));
+
+      const streaming = { ...agent.config, ...overrides }.streaming !== false;
+      const completion = await completeAgent(
+        this.runtime.router,
+        request,
+        agent.provider,
+        streaming ? chunk => this.runtime.stream(context, node, agent.id, chunk) : undefined,
+      );
+
+      const output = {
+        response: completion.text,
+        tokens: formatTokens(completion.usage),
+        model: request.model,
+        provider: agent.provider,
+        agentId: agent.id,
+        finishReason: completion.finishReason,
+      };
+
+      logs.push(this.createLog('info', `Agent ${agent.name} responded`, node.id, { tokens: output.tokens }));
+
+      return {
+        success: true,
+        output,
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      logs.push(this.createLog('error', `Agent execution failed: ${error}`, node.id));
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Agent execution failed',
+        errorInfo: describeError(error),
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+interface ToolCallRecord {
+  id: string;
+  toolId?: string;
+  name: string;
+  arguments: Record<string, any>;
+  result?: any;
+  error?: string;
+  duration: number;
+}
+
+/**
+ * Runs an agent that may call the node's tools. Each round the model either
+ * answers or asks for tool calls; the calls are run and their results fed
+ * back until it answers or `maxToolCalls` is used up, after which it has to
+ * answer without tools.
+ */
+export class HybridNodeExecutor extends NodeExecutor {
+  constructor(
+    private readonly agentRuntime: AgentRuntime,
+    private readonly toolRuntime: ToolRuntime,
+  ) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+
+    try {
+      if (!config.agentId) {
+        throw new Error('Base agent ID is required for hybrid node');
+      }
+
+      const agent = await resolveAgent(this.agentRuntime, config.agentId, context.userId);
+
+      // max_tool_calls and auto_fallback in the JSON config predate the dedicated fields
+      const { max_tool_calls, auto_fallback, ...overrides } = parseAgentOverrides(config.hybridConfig);
+      const maxToolCalls = config.maxToolCalls ?? max_tool_calls ?? DEFAULT_MAX_TOOL_CALLS;
+      const autoFallback = config.autoFallback ?? auto_fallback ?? false;
+
+      const tools = await this.resolveTools(config.toolIds || [], context.userId);
+      const definitions = Array.from(tools.entries()).map(([name, tool]) => ({ ...toToolDefinition(tool), name }));
+
+      const request = buildAgentRequest(config, context, agent, overrides);
+      const messages = request.messages;
+      const toolCalls: ToolCallRecord[] = [];
+      let usage: TokenUsage | undefined;
+      let rounds = 0;
+
+      logs.push(this.createLog('info', `Executing hybrid node with agent ${agent.name} and ${tools.size} tools`, node.id));
+
+      for (;;) {
+        rounds++;
+        const canCallTools = definitions.length > 0 && toolCalls.length < maxToolCalls;
+        const response = await this.agentRuntime.router.chatCompletion(
+          { ...request, messages, tools: canCallTools ? definitions : undefined, signal },
+          agent.provider,
+        );
+        usage = addUsage(usage, response.usage);
+
+        const choice = response.choices[0];
+        const requested = canCallTools ? choice?.message.toolCalls || [] : [];
+
+        if (requested.length === 0) {
+          const output = {
+            response: choice?.message.content || '',
+            toolCalls,
+            toolsUsed: Array.from(new Set(toolCalls.map(call => call.toolId).filter(Boolean))),
+            rounds,
+            tokens: formatTokens(usage),
+            model: request.model,
+            provider: agent.provider,
+            agentId: agent.id,
+            finishReason: choice?.finishReason,
+          };
+
+          logs.push(
+            this.createLog('info', `Hybrid agent answered after ${toolCalls.length} tool calls`, node.id, {
+              tokens: output.tokens,
+            }),
+          );
+
+          return {
+            success: true,
+            output,
+            logs,
+            duration: Date.now() - startTime,
+            retryCount: 0,
+          };
+        }
+
+        messages.push({ role: 'assistant', content: choice.message.content || '', toolCalls: requested });
+
+        for (const call of requested) {
+          const record = toolCalls.length < maxToolCalls
+            ? await this.callTool(call, tools, node, context, autoFallback, signal)
+            : { id: call.id, name: call.name, arguments: call.arguments, error: 'Tool call limit reached', duration: 0 };
+
+          toolCalls.push(record);
+          logs.push(record.error
+            ? this.createLog('warn', `Tool ${call.name} failed: ${record.error}`, node.id)
+            : this.createLog('info', `Called tool ${call.name}`, node.id, { duration: record.duration }));
+
+          messages.push({
+            role: 'tool',
+            toolCallId: call.id,
+            name: call.name,
+            content: JSON.stringify(record.error ? { error: record.error } : record.result ?? null),
+          });
+        }
+      }
+    } catch (error) {
+      logs.push(this.createLog('error', `Hybrid execution failed: ${error}`, node.id));
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Hybrid execution failed',
+        errorInfo: describeError(error),
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+
+  // Keyed by the name the model sees, which has to be unique
+  private async resolveTools(toolIds: string[], userId: string): Promise<Map<string, Tool>> {
+    const tools = new Map<string, Tool>();
+
+    for (const toolId of toolIds) {
+      const tool = await this.toolRuntime.findTool(toolId, userId);
+      if (!tool) {
+        throw new Error(`Tool not found: ${toolId}`);
+      }
+      if (tool.isActive === false) continue;
+
+      const base = toToolDefinition(tool).name;
+      let name = base;
+      for (let suffix = 2; tools.has(name); suffix++) {
+        name = `${base}_${suffix}`;
+      }
+      tools.set(name, tool);
+    }
+
+    return tools;
+  }
+
+  /**
+   * Runs one requested call. A failing tool fails the node unless
+   * `autoFallback` is set, in which case the error is handed back to the
+   * model so it can recover or answer without it.
+   */
+  private async callTool(
+    call: ToolCall,
+    tools: Map<string, Tool>,
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    autoFallback: boolean,
+    signal?: AbortSignal,
+  ): Promise<ToolCallRecord> {
+    const startTime = Date.now();
+    const tool = tools.get(call.name);
+    const record: ToolCallRecord = { id: call.id, toolId: tool?.id, name: call.name, arguments: call.arguments, duration: 0 };
+
+    this.toolRuntime.report(context, node, 'tool.called', {
+      callId: call.id,
+      toolId: tool?.id,
+      name: call.name,
+      arguments: call.arguments,
+    });
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+      record.result = (await this.toolRuntime.invoke(tool, call.arguments, signal)).data;
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+    }
+    record.duration = Date.now() - startTime;
+
+    this.toolRuntime.report(context, node, 'tool.response', {
+      callId: call.id,
+      toolId: tool?.id,
+      name: call.name,
+      success: !record.error,
+      result: record.result,
+      error: record.error,
+      duration: record.duration,
+    });
+
+    if (record.error && !autoFallback) {
+      throw new Error(`Tool ${call.name} failed: ${record.error}`);
+    }
+    return record;
+  }
+}
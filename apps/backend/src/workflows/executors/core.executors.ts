@@ -0,0 +1,287 @@
+import { buildWorkflowOutput, createHumanInputRequest, stepDelay } from '@shared/engine';
+import { evaluateCondition } from '@shared/expressions';
+import { runFilter, runTransform } from '@shared/transform';
+import { WorkflowDefinitionNode } from '@shared/types/workflow';
+import { ExecutionContext, NodeExecutionResult, NodeExecutor } from './node-executor';
+
+export class StartNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    return {
+      success: true,
+      output: context.input,
+      logs: [this.createLog('info', 'Workflow started', node.id)],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+}
+
+/**
+ * Entry point of runs started by an inbound webhook call. The request's
+ * method, headers, query and body arrive as the execution input.
+ */
+export class WebhookNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    return {
+      success: true,
+      output: context.input,
+      logs: [this.createLog('info', `Webhook received ${context.input?.method || 'request'}`, node.id)],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+}
+
+/** Entry point of runs started by a schedule; the due time is the input. */
+export class ScheduleNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    return {
+      success: true,
+      output: context.input,
+      logs: [this.createLog('info', `Scheduled run due ${context.input?.scheduledAt || 'now'}`, node.id)],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+}
+
+/**
+ * Shapes what the run returns with the node's output mappings; without them
+ * the run returns every node's output keyed by node id.
+ */
+export class EndNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      const output = buildWorkflowOutput(node.data.config || {}, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      return {
+        success: true,
+        output,
+        logs: [this.createLog('info', 'Workflow completed', node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Output mapping failed: ${error instanceof Error ? error.message : error}`;
+      return {
+        success: false,
+        error: message,
+        logs: [this.createLog('error', message, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+export class ConditionNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const config = node.data.config || {};
+
+    if (!config.condition) {
+      return {
+        success: false,
+        error: 'Condition expression is required',
+        logs: [this.createLog('error', 'Condition expression is required', node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      const result = evaluateCondition(config.condition, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      return {
+        success: true,
+        output: { conditionResult: result, evaluatedExpression: config.condition },
+        logs: [this.createLog('info', `Evaluated condition: ${config.condition}`, node.id, { result })],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Invalid condition expression: ${error instanceof Error ? error.message : error}`;
+      return {
+        success: false,
+        error: message,
+        logs: [this.createLog('error', message, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+export class DataTransformNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const config = node.data.config || {};
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      const output = runTransform(config, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      return {
+        success: true,
+        output,
+        logs: [this.createLog('info', `Transformed ${config.source || 'input'}`, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Data transform failed: ${error instanceof Error ? error.message : error}`;
+      return {
+        success: false,
+        error: message,
+        logs: [this.createLog('error', message, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+export class FilterNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const config = node.data.config || {};
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      const output = runFilter(config, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      return {
+        success: true,
+        output,
+        logs: [
+          this.createLog('info', `Kept ${output.count} items, dropped ${output.dropped}`, node.id),
+        ],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Filter failed: ${error instanceof Error ? error.message : error}`;
+      return {
+        success: false,
+        error: message,
+        logs: [this.createLog('error', message, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+/**
+ * Suspends the run until a user answers the node's prompt. The first time the
+ * node runs it only returns the request; once an answer (or a timeout) has
+ * been recorded on the context it completes with that response.
+ */
+export class HumanInputNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const response = context.humanInputs[node.id];
+
+    if (!response) {
+      const request = createHumanInputRequest(node.id, node.data.config || {});
+      return {
+        success: true,
+        waitingFor: request,
+        logs: [this.createLog('info', 'Waiting for human input', node.id, { expiresAt: request.expiresAt })],
+        duration: 0,
+        retryCount: 0,
+      };
+    }
+
+    const message = response.timedOut
+      ? 'No input received before the timeout, escalating'
+      : `Received ${response.inputType} input`;
+    return {
+      success: true,
+      output: response,
+      logs: [this.createLog(response.timedOut ? 'warn' : 'info', message, node.id)],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+}
+
+/**
+ * Waits for a duration, a date and time, or an expression to become true.
+ * Rather than holding a worker, the node hands back a timer and the run is
+ * suspended until the timer service wakes it; each time the run resumes the
+ * node checks its timer again, and condition waits re-check the expression.
+ */
+export class DelayNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const config = node.data.config || {};
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+    const step = stepDelay(
+      node.id,
+      config,
+      { input: lastOutput, nodeOutputs: context.nodeOutputs, variables: context.variables },
+      context.timers[node.id],
+    );
+
+    if (step.status === 'failed') {
+      return {
+        success: false,
+        error: step.error,
+        logs: [this.createLog('error', step.error, node.id)],
+        duration: 0,
+        retryCount: 0,
+      };
+    }
+
+    if (step.status === 'waiting') {
+      return {
+        success: true,
+        sleepUntil: step.timer,
+        logs: [this.createLog('info', `Sleeping until ${step.timer.wakeAt}`, node.id, { mode: step.timer.mode })],
+        duration: 0,
+        retryCount: 0,
+      };
+    }
+
+    const actualDelay = Date.now() - new Date(step.startedAt).getTime();
+    return {
+      success: true,
+      output: {
+        delayMode: config.delayMode || 'duration',
+        delayTime: config.delayTime,
+        delayUnit: config.delayUnit,
+        polls: step.polls,
+        actualDelay,
+      },
+      logs: [this.createLog('info', `Delayed for ${actualDelay} ms`, node.id)],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+}
@@ -0,0 +1,331 @@
+import { evaluateCondition, evaluateExpression } from '@shared/expressions';
+import { WorkflowDefinitionNode } from '@shared/types/workflow';
+import {
+  ExecutionContext,
+  ExecutionLog,
+  LoopBody,
+  NodeExecutionResult,
+  NodeExecutor,
+  NodeRegion,
+  SubgraphResult,
+} from './node-executor';
+
+// Handle of the edge a switch follows when no case matches
+export const SWITCH_DEFAULT_CASE = 'default';
+
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/**
+ * Runs one branch per outgoing edge and settles once the aggregation is
+ * decided: 'any' needs one branch to succeed, 'majority' more than half and
+ * 'all' every branch. Branches still running by then are cancelled.
+ */
+export class ParallelNodeExecutor extends NodeExecutor {
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+    region?: NodeRegion,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+    const aggregation = config.aggregation || 'all';
+    const branches = region?.branches || [];
+
+    if (branches.length === 0) {
+      logs.push(this.createLog('warn', 'Parallel node has no outgoing branches', node.id));
+      return {
+        success: true,
+        output: { aggregation, branches: {}, succeeded: 0, failed: 0 },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+
+    const required = aggregation === 'any'
+      ? 1
+      : aggregation === 'majority'
+        ? Math.floor(branches.length / 2) + 1
+        : branches.length;
+
+    logs.push(this.createLog('info', `Starting ${branches.length} branches (aggregation: ${aggregation})`, node.id));
+
+    const controllers = branches.map(() => new AbortController());
+    // A parallel node that times out or is cancelled stops starting nodes in its branches
+    signal?.addEventListener('abort', () => controllers.forEach(controller => controller.abort()));
+    const results: Record<string, SubgraphResult> = {};
+    let succeeded = 0;
+    let failed = 0;
+
+    await new Promise<void>(resolve => {
+      branches.forEach((branch, index) => {
+        branch.run(controllers[index].signal).then(result => {
+          results[branch.key] = result;
+          if (result.success) {
+            succeeded++;
+          } else {
+            failed++;
+            logs.push(this.createLog('warn', `Branch ${branch.label} failed: ${result.error}`, node.id));
+          }
+
+          // Settle as soon as the outcome can no longer change
+          if (succeeded >= required || branches.length - failed < required) {
+            resolve();
+          }
+        });
+      });
+    });
+
+    const branchOutputs: Record<string, any> = {};
+    branches.forEach((branch, index) => {
+      const result = results[branch.key];
+      if (!result) {
+        controllers[index].abort();
+        branchOutputs[branch.key] = { label: branch.label, status: 'cancelled' };
+        return;
+      }
+      branchOutputs[branch.key] = result.success
+        ? { label: branch.label, status: 'success', output: result.output }
+        : { label: branch.label, status: 'error', error: result.error };
+    });
+
+    const cancelled = branches.length - succeeded - failed;
+    if (cancelled > 0) {
+      logs.push(this.createLog('info', `Cancelled ${cancelled} remaining branches`, node.id));
+    }
+
+    const output = { aggregation, branches: branchOutputs, succeeded, failed };
+
+    if (succeeded < required) {
+      const error = `Parallel aggregation '${aggregation}' not satisfied: ${succeeded}/${branches.length} branches succeeded`;
+      logs.push(this.createLog('error', error, node.id));
+      return { success: false, output, error, logs, duration: Date.now() - startTime, retryCount: 0 };
+    }
+
+    return {
+      success: true,
+      output,
+      logs,
+      duration: Date.now() - startTime,
+      retryCount: 0,
+    };
+  }
+}
+
+/**
+ * Evaluates the node's expression and picks the case it matches; the run
+ * then follows only the edge leaving that case's handle.
+ */
+export class SwitchNodeExecutor extends NodeExecutor {
+  async execute(node: WorkflowDefinitionNode, context: ExecutionContext): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const config = node.data.config || {};
+
+    try {
+      if (!config.expression) {
+        throw new Error('Switch expression is required');
+      }
+
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const value = evaluateExpression(config.expression, {
+        input: previousOutputs[previousOutputs.length - 1],
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      // Case values are handle ids, so compare on the string form
+      const key = value === null || value === undefined ? '' : String(value);
+      const matchedCase = (config.cases || []).includes(key) ? key : SWITCH_DEFAULT_CASE;
+
+      return {
+        success: true,
+        output: { value, matchedCase },
+        logs: [
+          this.createLog('info', `Switch value ${JSON.stringify(value)} matched case '${matchedCase}'`, node.id),
+        ],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Switch evaluation failed: ${error instanceof Error ? error.message : error}`;
+      return {
+        success: false,
+        error: message,
+        logs: [this.createLog('error', message, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+/**
+ * Runs the nodes behind the loop's body handle for each item of an array,
+ * with up to `concurrency` iterations at once, or for as long as a condition
+ * holds. The output lists what each iteration's last node returned.
+ */
+export class LoopNodeExecutor extends NodeExecutor {
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+    region?: NodeRegion,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+    const body = region?.loopBody;
+    const maxIterations = config.maxIterations || DEFAULT_MAX_ITERATIONS;
+
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const input = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      if (!body) {
+        throw new Error('Loop body is not available');
+      }
+
+      let results: any[];
+      if (config.loopType === 'while') {
+        if (!config.condition) {
+          throw new Error('Loop condition is required');
+        }
+        results = await this.runWhile(node, context, body, config.condition, maxIterations, logs, signal);
+      } else {
+        if (!config.items) {
+          throw new Error('Loop items expression is required');
+        }
+        const items = evaluateExpression(config.items, {
+          input,
+          nodeOutputs: context.nodeOutputs,
+          variables: context.variables,
+        });
+        if (!Array.isArray(items)) {
+          throw new Error(`Loop items must evaluate to an array, got ${items === null ? 'null' : typeof items}`);
+        }
+
+        let selected = items;
+        if (items.length > maxIterations) {
+          logs.push(
+            this.createLog('warn', `Loop limited to the first ${maxIterations} of ${items.length} items`, node.id),
+          );
+          selected = items.slice(0, maxIterations);
+        }
+
+        results = await this.runForEach(
+          node,
+          body,
+          selected,
+          config.itemVariable || 'item',
+          config.concurrency || 1,
+          logs,
+          signal,
+        );
+      }
+
+      logs.push(this.createLog('info', `Loop completed after ${results.length} iterations`, node.id));
+
+      return {
+        success: true,
+        output: { results, iterations: results.length },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Loop execution failed: ${error instanceof Error ? error.message : error}`;
+      logs.push(this.createLog('error', message, node.id));
+
+      return {
+        success: false,
+        error: message,
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+
+  private async runForEach(
+    node: WorkflowDefinitionNode,
+    body: LoopBody,
+    items: any[],
+    itemVariable: string,
+    concurrency: number,
+    logs: ExecutionLog[],
+    signal?: AbortSignal,
+  ): Promise<any[]> {
+    const results = new Array(items.length);
+    let next = 0;
+    let failure: string | undefined;
+
+    // A small worker pool keeps at most `concurrency` iterations in flight
+    const worker = async () => {
+      while (next < items.length && !failure && !signal?.aborted) {
+        const index = next++;
+        const result = await body.run({ index, variables: { [itemVariable]: items[index], index } });
+        if (!result.success) {
+          failure = failure || `Iteration ${index} failed: ${result.error}`;
+          return;
+        }
+        results[index] = result.output;
+      }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, items.length));
+    logs.push(this.createLog('info', `Iterating over ${items.length} items (concurrency ${workers})`, node.id));
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    if (failure) {
+      throw new Error(failure);
+    }
+    if (signal?.aborted) {
+      throw new Error('Loop was stopped before all iterations ran');
+    }
+    return results;
+  }
+
+  private async runWhile(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    body: LoopBody,
+    condition: string,
+    maxIterations: number,
+    logs: ExecutionLog[],
+    signal?: AbortSignal,
+  ): Promise<any[]> {
+    const results: any[] = [];
+    let previous: any;
+
+    for (let index = 0; ; index++) {
+      if (signal?.aborted) {
+        throw new Error('Loop was stopped before its condition turned false');
+      }
+
+      const proceed = evaluateCondition(condition, {
+        input: previous,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+        index,
+        results,
+      });
+      if (!proceed) {
+        return results;
+      }
+
+      if (index >= maxIterations) {
+        throw new Error(`Loop condition still true after ${maxIterations} iterations`);
+      }
+
+      const result = await body.run({ index, variables: { index } });
+      if (!result.success) {
+        throw new Error(`Iteration ${index} failed: ${result.error}`);
+      }
+      logs.push(this.createLog('debug', `Iteration ${index} completed`, node.id));
+      results.push(result.output);
+      previous = result.output;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  DelayTimer,
+  HumanInputRequest,
+  HumanInputResponse,
+  NodeDeadline,
+  NodeErrorInfo,
+  RetryPolicySettings,
+} from '@shared/engine';
+import { WorkflowDefinitionNode } from '@shared/types/workflow';
+
+export interface ExecutionContext {
+  workflowId: string;
+  executionId: string;
+  userId: string;
+  input: Record<string, any>;
+  variables: Record<string, any>;
+  nodeOutputs: Record<string, any>;
+  startTime: Date;
+  // Milliseconds the whole run may take
+  timeout?: number;
+  retryPolicy?: RetryPolicySettings;
+  // Aborted when the run is cancelled
+  signal?: AbortSignal;
+  // How many sub-workflow nodes deep the run was started
+  depth?: number;
+  // Answers to human input nodes, keyed by node id
+  humanInputs: Record<string, HumanInputResponse>;
+  // Timers delay nodes were suspended on, keyed by node id
+  timers: Record<string, DelayTimer>;
+  // Set while running the body of a loop node
+  iteration?: { loopNodeId: string; index: number };
+}
+
+export interface ExecutionLog {
+  id: string;
+  timestamp: Date;
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+  nodeId?: string;
+  data?: Record<string, any>;
+}
+
+export interface NodeExecutionResult {
+  success: boolean;
+  output?: any;
+  error?: string;
+  logs: ExecutionLog[];
+  duration: number;
+  retryCount: number;
+  // Set when the node can't finish until a user answers; the run is suspended
+  waitingFor?: HumanInputRequest;
+  // Set when a delay node hasn't reached its wake-up time; the run is suspended
+  sleepUntil?: DelayTimer;
+  // Codes and statuses of the failure, used to pick which errors to retry
+  errorInfo?: NodeErrorInfo;
+  // Set when the attempt ran past the node's or the workflow's deadline
+  timedOut?: NodeDeadline['reason'];
+  // Set when the attempt was stopped because the run was cancelled
+  cancelled?: boolean;
+}
+
+export interface SubgraphResult {
+  success: boolean;
+  output?: any;
+  error?: string;
+}
+
+/** One outgoing branch of a parallel node, started by the node's executor. */
+export interface ParallelBranch {
+  // Id of the branch's edge; labels needn't be unique, so results are keyed by it
+  key: string;
+  label: string;
+  run(signal: AbortSignal): Promise<SubgraphResult>;
+}
+
+/** The nodes behind a loop node's body handle, run once per iteration. */
+export interface LoopBody {
+  run(iteration: { index: number; variables: Record<string, any> }): Promise<SubgraphResult>;
+}
+
+/** The part of the graph a parallel or loop node runs itself. */
+export interface NodeRegion {
+  branches?: ParallelBranch[];
+  loopBody?: LoopBody;
+}
+
+// Code and status carried by tool, HTTP and provider SDK errors
+export function describeError(error: unknown): NodeErrorInfo | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const { code, status } = error as { code?: unknown; status?: unknown };
+  return {
+    code: typeof code === 'string' ? code : undefined,
+    status: typeof status === 'number' ? status : undefined,
+  };
+}
+
+// Base class for server-side node executors
+export abstract class NodeExecutor {
+  abstract execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+    region?: NodeRegion,
+  ): Promise<NodeExecutionResult>;
+
+  protected createLog(
+    level: ExecutionLog['level'],
+    message: string,
+    nodeId: string,
+    data?: Record<string, any>,
+  ): ExecutionLog {
+    return {
+      id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(),
+      level,
+      message,
+      nodeId,
+      data,
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  ExecutionTrigger,
+  ParentExecution,
+  SubWorkflowOutput,
+  buildSubWorkflowInput,
+  checkSubWorkflowVersion,
+  subWorkflowDepth,
+} from '@shared/engine';
+import { WorkflowDefinitionNode } from '@shared/types/workflow';
+import { Workflow } from '../../database/entities/workflow.entity';
+import {
+  ExecutionStatus,
+  WorkflowExecution,
+} from '../../database/entities/workflow-execution.entity';
+import { ExecutionContext, ExecutionLog, NodeExecutionResult, NodeExecutor } from './node-executor';
+
+/** How sub-workflow nodes find the workflows they call and start them. */
+export interface SubWorkflowRuntime {
+  findWorkflow(workflowId: string, userId: string): Promise<Workflow | null>;
+  // Queues the child and returns as soon as it is saved
+  start(workflowId: string, input: any, userId: string, trigger: ExecutionTrigger): Promise<WorkflowExecution>;
+  // Runs the child and resolves with it once it has finished
+  run(
+    workflowId: string,
+    input: any,
+    userId: string,
+    trigger: ExecutionTrigger,
+    signal?: AbortSignal,
+  ): Promise<WorkflowExecution>;
+}
+
+/**
+ * Calls another workflow with the node's input, or with its mappings applied
+ * to it. The node either waits for the child and outputs what its end node
+ * produced, or completes once the child is queued.
+ */
+export class SubWorkflowNodeExecutor extends NodeExecutor {
+  constructor(private readonly runtime: SubWorkflowRuntime) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+
+    try {
+      if (!config.subWorkflowId) {
+        throw new Error('Workflow to call is required');
+      }
+
+      const { depth, error } = subWorkflowDepth(context.depth, config.maxDepth || undefined);
+      if (error) {
+        throw new Error(error);
+      }
+
+      const workflow = await this.runtime.findWorkflow(config.subWorkflowId, context.userId);
+      if (!workflow) {
+        throw new Error(`Workflow ${config.subWorkflowId} not found`);
+      }
+      const versionError = checkSubWorkflowVersion(workflow, config.subWorkflowVersion);
+      if (versionError) {
+        throw new Error(versionError);
+      }
+
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const input = buildSubWorkflowInput(config, {
+        input: previousOutputs[previousOutputs.length - 1],
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+      const parent: ParentExecution = {
+        executionId: context.executionId,
+        workflowId: context.workflowId,
+        nodeId: node.id,
+        depth,
+      };
+      const trigger: ExecutionTrigger = {
+        type: 'sub_workflow',
+        executionId: parent.executionId,
+        parentNodeId: parent.nodeId,
+        depth: parent.depth,
+        parentIteration: context.iteration?.index,
+      };
+
+      if (config.waitForCompletion === false) {
+        const child = await this.runtime.start(workflow.id, input, context.userId, trigger);
+        logs.push(this.createLog('info', `Queued sub-workflow ${workflow.name}`, node.id, { executionId: child.id }));
+
+        const output: SubWorkflowOutput = { workflowId: workflow.id, executionId: child.id, status: child.status };
+        return {
+          success: true,
+          output,
+          logs,
+          duration: Date.now() - startTime,
+          retryCount: 0,
+        };
+      }
+
+      logs.push(this.createLog('info', `Running sub-workflow ${workflow.name}`, node.id));
+      const child = await this.runtime.run(workflow.id, input, context.userId, trigger, signal);
+
+      if (child.status !== ExecutionStatus.COMPLETED) {
+        throw new Error(`Sub-workflow ${workflow.name} ${child.status}: ${child.error || 'no output'}`);
+      }
+
+      const output: SubWorkflowOutput = {
+        workflowId: workflow.id,
+        executionId: child.id,
+        status: child.status,
+        output: child.output,
+      };
+      logs.push(this.createLog('info', `Sub-workflow ${workflow.name} completed`, node.id, { executionId: child.id }));
+      return {
+        success: true,
+        output,
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Sub-workflow failed: ${error instanceof Error ? error.message : error}`;
+      logs.push(this.createLog('error', message, node.id));
+      return {
+        success: false,
+        error: message,
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
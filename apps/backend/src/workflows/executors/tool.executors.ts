@@ -0,0 +1,252 @@
+import { mapRecord, parseMappings, selectPath } from '@shared/transform';
+import { renderTemplate } from '@shared/expressions';
+import {
+  HttpRequest,
+  ToolExecutionError,
+  ToolResult,
+  nextPage,
+  parseStatusRanges,
+  renderJsonObject,
+  renderRequestBody,
+} from '@shared/engine';
+import { WorkflowDefinitionNode } from '@shared/types/workflow';
+import { Tool } from '../../database/entities/tool.entity';
+import {
+  ExecutionContext,
+  ExecutionLog,
+  NodeExecutionResult,
+  NodeExecutor,
+  describeError,
+} from './node-executor';
+
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Where tool and hybrid nodes find their tools and call them, and where API
+ * call nodes find stored credentials and send their requests.
+ */
+export interface ToolRuntime {
+  findTool(toolId: string, userId: string): Promise<Tool | null>;
+  invoke(tool: Tool, params: Record<string, any>, signal?: AbortSignal): Promise<ToolResult>;
+  getCredentials(credentialId: string, userId: string): Promise<Record<string, string>>;
+  send(request: HttpRequest): Promise<ToolResult>;
+  // Tells whoever is watching the run about a tool call a hybrid node made
+  report(
+    context: ExecutionContext,
+    node: WorkflowDefinitionNode,
+    type: 'tool.called' | 'tool.response',
+    data: Record<string, any>,
+  ): void;
+}
+
+function toolFailure(error: unknown, fallback: string): string {
+  return error instanceof ToolExecutionError
+    ? `[${error.code}] ${error.message}`
+    : error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Runs a single tool. `toolParams` is a JSON object whose string values may
+ * be `{{ }}` templates over the upstream outputs; the rendered parameters
+ * are validated against the tool's schema before the call is made.
+ */
+export class ToolNodeExecutor extends NodeExecutor {
+  constructor(private readonly runtime: ToolRuntime) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+
+    try {
+      if (!config.toolId) {
+        throw new Error('Tool ID is required');
+      }
+
+      const tool = await this.runtime.findTool(config.toolId, context.userId);
+      if (!tool) {
+        throw new Error(`Tool not found: ${config.toolId}`);
+      }
+
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const params = renderJsonObject(config.toolParams, 'Tool parameters', {
+        input: previousOutputs[previousOutputs.length - 1],
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      logs.push(this.createLog('info', `Executing tool: ${tool.name}`, node.id, { toolId: tool.id, params }));
+
+      const result = await this.runtime.invoke(tool, params, signal);
+
+      logs.push(this.createLog('info', `Tool responded with status ${result.status}`, node.id, {
+        duration: result.duration,
+        attempts: result.attempts,
+      }));
+
+      return {
+        success: true,
+        output: {
+          result: result.data,
+          status: result.status,
+          duration: result.duration,
+          attempts: result.attempts,
+          toolId: tool.id,
+        },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: result.attempts - 1,
+      };
+    } catch (error) {
+      const message = toolFailure(error, 'Tool execution failed');
+      logs.push(this.createLog(
+        'error',
+        `Tool execution failed: ${message}`,
+        node.id,
+        error instanceof ToolExecutionError ? error.toJSON() : undefined,
+      ));
+
+      return {
+        success: false,
+        error: message,
+        errorInfo: describeError(error),
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+/**
+ * Calls an HTTP endpoint described directly on the node. The URL, query,
+ * headers and body are `{{ }}` templates over the upstream outputs, and
+ * authentication comes from a stored credential. Paginated responses are
+ * followed by page number, cursor or `Link` header and their items joined;
+ * `extract` mappings then pull fields out of the response body.
+ */
+export class ApiCallNodeExecutor extends NodeExecutor {
+  constructor(private readonly runtime: ToolRuntime) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config || {};
+
+    try {
+      if (!config.url) {
+        throw new Error('URL is required');
+      }
+
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const scope = {
+        input: previousOutputs[previousOutputs.length - 1],
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      };
+
+      const request: HttpRequest = {
+        method: config.method || 'GET',
+        url: renderTemplate(config.url, scope),
+        query: renderJsonObject(config.queryParams, 'Query parameters', scope),
+        headers: renderJsonObject(config.headers, 'Headers', scope),
+        body: renderRequestBody(config.body, scope),
+        auth: await this.resolveAuth(config, context.userId),
+        timeout: config.requestTimeout ? config.requestTimeout * 1000 : undefined,
+        isSuccess: parseStatusRanges(config.successStatuses),
+        label: `API call ${node.data.label || node.id}`,
+        signal,
+      };
+
+      const extract = config.extract && config.extract.trim() ? parseMappings(config.extract) : null;
+      const pagination = config.pagination || 'none';
+      const maxPages = config.maxPages || DEFAULT_MAX_PAGES;
+      const items: any[] = [];
+      let pages = 0;
+      let attempts = 0;
+      let result: ToolResult;
+
+      for (;;) {
+        logs.push(this.createLog('info', `${request.method.toUpperCase()} ${request.url}`, node.id, {
+          query: request.query,
+        }));
+
+        result = await this.runtime.send(request);
+        pages++;
+        attempts += result.attempts;
+
+        if (pagination === 'none') break;
+
+        const pageItems = config.itemsPath ? selectPath(result.data, config.itemsPath) : result.data;
+        if (Array.isArray(pageItems)) items.push(...pageItems);
+        else if (pageItems !== undefined && pageItems !== null) items.push(pageItems);
+
+        if (pages >= maxPages) {
+          logs.push(this.createLog('warn', `Stopped after ${maxPages} pages`, node.id));
+          break;
+        }
+        if (!nextPage(request, result, config, pageItems)) break;
+      }
+
+      const data = pagination === 'none' ? result.data : items;
+
+      logs.push(this.createLog('info', `Responded with status ${result.status}`, node.id, {
+        duration: Date.now() - startTime,
+        pages,
+      }));
+
+      return {
+        success: true,
+        output: {
+          data,
+          status: result.status,
+          headers: result.headers,
+          ...(extract ? { fields: mapRecord(data, extract, scope) } : {}),
+          ...(pagination !== 'none' ? { pages } : {}),
+          duration: Date.now() - startTime,
+          attempts,
+        },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: attempts - pages,
+      };
+    } catch (error) {
+      const message = toolFailure(error, 'API call failed');
+      logs.push(this.createLog(
+        'error',
+        `API call failed: ${message}`,
+        node.id,
+        error instanceof ToolExecutionError ? error.toJSON() : undefined,
+      ));
+
+      return {
+        success: false,
+        error: message,
+        errorInfo: describeError(error),
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+
+  private async resolveAuth(config: Record<string, any>, userId: string): Promise<HttpRequest['auth']> {
+    if (!config.authType || config.authType === 'none') return undefined;
+    if (!config.credentialId) {
+      throw new Error(`${config.authType} authentication needs a stored credential`);
+    }
+    return { type: config.authType, credentials: await this.runtime.getCredentials(config.credentialId, userId) };
+  }
+}
@@ -0,0 +1,62 @@
+import { HumanInputRequest } from '@shared/engine';
+import { HumanInputService } from './human-input.service';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+
+const overdue: HumanInputRequest = {
+  nodeId: 'approve',
+  inputType: 'text',
+  required: true,
+  onTimeout: 'fail',
+  requestedAt: '2024-05-01T09:00:00.000Z',
+  expiresAt: '2024-05-01T10:00:00.000Z',
+};
+
+const createService = (failed: boolean) => {
+  const execution = {
+    id: 'exec-1',
+    status: ExecutionStatus.WAITING,
+    workflow: { id: 'wf-1' },
+    triggeredBy: { id: 'user-1' },
+    startedAt: new Date('2024-05-01T09:00:00.000Z'),
+    checkpoint: { waitingFor: [overdue] },
+  };
+  const executionService = {
+    findWaiting: jest.fn().mockResolvedValue([execution]),
+    failWaiting: jest.fn().mockResolvedValue(failed),
+    updateStatus: jest.fn(),
+  };
+  const websocketService = { emitWorkflowFailed: jest.fn(), emitToUser: jest.fn() };
+  const service = new HumanInputService(executionService as any, websocketService as any, {} as any);
+  return { service, executionService, websocketService };
+};
+
+describe('HumanInputService', () => {
+  describe('expireOverdue', () => {
+    it('fails a run still waiting on an overdue request', async () => {
+      const { service, executionService, websocketService } = createService(true);
+
+      await service.expireOverdue();
+
+      expect(executionService.failWaiting).toHaveBeenCalledWith(
+        'exec-1',
+        'Timed out waiting for input on node approve',
+        expect.any(Number),
+      );
+      expect(websocketService.emitWorkflowFailed).toHaveBeenCalledWith(
+        'wf-1',
+        'user-1',
+        'Timed out waiting for input on node approve',
+        { executionId: 'exec-1' },
+      );
+    });
+
+    it('leaves a run alone that was answered before the sweep got to it', async () => {
+      const { service, executionService, websocketService } = createService(false);
+
+      await service.expireOverdue();
+
+      expect(executionService.updateStatus).not.toHaveBeenCalled();
+      expect(websocketService.emitWorkflowFailed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  HumanInputRequest,
+  HumanInputResponse,
+  isHumanInputExpired,
+  validateHumanInput,
+} from '@shared/engine';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { WebsocketService } from '../websockets/websocket.service';
+import {
+  ExecutionStatus,
+  WorkflowExecution,
+} from '../database/entities/workflow-execution.entity';
+import { EXECUTION_QUEUE, ExecutionQueue } from '../queue/execution-queue.interface';
+
+/**
+ * Answers human input nodes of suspended executions. A validated answer is
+ * stored on the checkpoint and the execution goes back on the queue, where a
+ * worker resumes it and the waiting node completes with the answer. Requests
+ * nobody answered in time fail the run or are escalated, as configured.
+ */
+@Injectable()
+export class HumanInputService {
+  private readonly logger = new Logger(HumanInputService.name);
+
+  constructor(
+    private executionService: WorkflowExecutionService,
+    private websocketService: WebsocketService,
+    @Inject(EXECUTION_QUEUE)
+    private executionQueue: ExecutionQueue,
+  ) {}
+
+  async submitInput(
+    executionId: string,
+    nodeId: string,
+    input: unknown,
+    userId: string,
+  ): Promise<WorkflowExecution> {
+    const execution = await this.executionService.findOne(executionId);
+    if (!execution || execution.triggeredBy?.id !== userId) {
+      throw new NotFoundException('Execution not found');
+    }
+
+    return this.answer(execution, nodeId, input, userId);
+  }
+
+  /**
+   * Finds the user's execution of a workflow that waits on the given node, for
+   * clients that only know the workflow and node they are looking at.
+   */
+  async submitInputForNode(
+    workflowId: string,
+    nodeId: string,
+    input: unknown,
+    userId: string,
+  ): Promise<WorkflowExecution> {
+    const waiting = await this.executionService.findWaiting(workflowId);
+    const execution = waiting.find(
+      candidate =>
+        candidate.triggeredBy?.id === userId &&
+        (candidate.checkpoint?.waitingFor || []).some(request => request.nodeId === nodeId),
+    );
+    if (!execution) {
+      throw new NotFoundException(`No execution is waiting for input on node ${nodeId}`);
+    }
+
+    return this.answer(execution, nodeId, input, userId);
+  }
+
+  /** Fails or escalates every request whose timeout has passed. */
+  async expireOverdue(): Promise<void> {
+    const now = new Date();
+
+    for (const execution of await this.executionService.findWaiting()) {
+      const expired = (execution.checkpoint?.waitingFor || []).filter(request =>
+        isHumanInputExpired(request, now),
+      );
+      if (expired.length === 0) {
+        continue;
+      }
+
+      const failing = expired.find(request => request.onTimeout === 'fail');
+      if (failing) {
+        const error = `Timed out waiting for input on node ${failing.nodeId}`;
+        const failed = await this.executionService.failWaiting(
+          execution.id,
+          error,
+          Date.now() - (execution.startedAt || now).getTime(),
+        );
+        if (!failed) {
+          continue;
+        }
+        this.logger.warn(`Execution ${execution.id}: ${error}`);
+        this.websocketService.emitWorkflowFailed(execution.workflow.id, execution.triggeredBy?.id, error, {
+          executionId: execution.id,
+        });
+        continue;
+      }
+
+      const responses = expired.map(request => ({
+        request,
+        response: {
+          inputType: request.inputType,
+          timedOut: true,
+          respondedAt: now.toISOString(),
+        } as HumanInputResponse,
+      }));
+
+      if (await this.resume(execution, responses)) {
+        this.logger.warn(
+          `Execution ${execution.id}: escalating unanswered input on ${expired.map(r => r.nodeId).join(', ')}`,
+        );
+        expired.forEach(request =>
+          this.websocketService.emitToUser(execution.triggeredBy?.id, 'human_input_escalated', {
+            executionId: execution.id,
+            workflowId: execution.workflow.id,
+            nodeId: request.nodeId,
+            prompt: request.prompt,
+          }),
+        );
+      }
+    }
+  }
+
+  private async answer(
+    execution: WorkflowExecution,
+    nodeId: string,
+    input: unknown,
+    userId: string,
+  ): Promise<WorkflowExecution> {
+    if (execution.status !== ExecutionStatus.WAITING) {
+      throw new ConflictException('Execution is not waiting for input');
+    }
+
+    const request = (execution.checkpoint?.waitingFor || []).find(pending => pending.nodeId === nodeId);
+    if (!request) {
+      throw new BadRequestException(`Execution is not waiting for input on node ${nodeId}`);
+    }
+
+    const error = validateHumanInput(request, input);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const resumed = await this.resume(execution, [
+      {
+        request,
+        response: {
+          input,
+          inputType: request.inputType,
+          timedOut: false,
+          respondedBy: userId,
+          respondedAt: new Date().toISOString(),
+        },
+      },
+    ]);
+    if (!resumed) {
+      throw new ConflictException('Execution is not waiting for input');
+    }
+
+    return this.executionService.findOne(execution.id);
+  }
+
+  private async resume(
+    execution: WorkflowExecution,
+    answers: { request: HumanInputRequest; response: HumanInputResponse }[],
+  ): Promise<boolean> {
+    const answered = new Set(answers.map(answer => answer.request.nodeId));
+    const humanInputs = { ...execution.checkpoint.humanInputs };
+    answers.forEach(answer => (humanInputs[answer.request.nodeId] = answer.response));
+
+    const resumed = await this.executionService.resumeWaiting(execution.id, {
+      ...execution.checkpoint,
+      waitingFor: execution.checkpoint.waitingFor.filter(request => !answered.has(request.nodeId)),
+      humanInputs,
+    });
+    if (resumed) {
+      await this.executionQueue.enqueue(execution.id);
+    }
+    return resumed;
+  }
+}
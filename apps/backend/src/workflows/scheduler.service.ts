@@ -0,0 +1,194 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import * as cron from 'node-cron';
+import { nextIntervalRun } from '@shared/engine';
+import { SchedulesService } from './schedules.service';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { WorkflowSchedule } from '../database/entities/workflow-schedule.entity';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+import { schedulerConfig } from '../config/scheduler.config';
+
+// setTimeout overflows past ~24.8 days; longer waits are taken in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const ACTIVE_STATUSES = [
+  ExecutionStatus.PENDING,
+  ExecutionStatus.RUNNING,
+  ExecutionStatus.WAITING,
+  ExecutionStatus.PAUSED,
+];
+
+interface ScheduleTimer {
+  timingKey: string;
+  stop: () => void;
+}
+
+/**
+ * Starts workflow executions from schedule triggers. Cron schedules are
+ * timed with node-cron and interval schedules with plain timers. Every
+ * instance keeps timers for all enabled schedules and races to claim each
+ * due run, so runs keep happening while any instance is up. Stored
+ * schedules are re-read periodically to pick up edits made elsewhere and to
+ * record runs that were missed while nobody was up.
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private timers = new Map<string, ScheduleTimer>();
+  private refreshTimer: NodeJS.Timeout;
+
+  constructor(
+    private schedulesService: SchedulesService,
+    private workflowsService: WorkflowsService,
+    private executionService: WorkflowExecutionService,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!schedulerConfig.enabled) {
+      this.logger.log('Workflow scheduler disabled');
+      return;
+    }
+
+    this.refresh();
+    this.refreshTimer = setInterval(() => this.refresh(), schedulerConfig.refreshIntervalMs);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.refreshTimer);
+    this.timers.forEach(timer => timer.stop());
+    this.timers.clear();
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const schedules = await this.schedulesService.findEnabled();
+      const ids = new Set(schedules.map(schedule => schedule.id));
+
+      for (const schedule of schedules) {
+        await this.recordMissedRuns(schedule);
+
+        const timingKey = this.timingKey(schedule);
+        const timer = this.timers.get(schedule.id);
+        if (timer?.timingKey === timingKey) {
+          continue;
+        }
+
+        timer?.stop();
+        this.timers.set(schedule.id, { timingKey, stop: this.startTimer(schedule) });
+      }
+
+      this.timers.forEach((timer, id) => {
+        if (!ids.has(id)) {
+          timer.stop();
+          this.timers.delete(id);
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Schedule refresh failed: ${error.message}`);
+    }
+  }
+
+  private startTimer(schedule: WorkflowSchedule): () => void {
+    if (schedule.scheduleType === 'cron') {
+      const task = cron.schedule(
+        schedule.cron,
+        context => this.fire(schedule.id, context.date, task.getNextRun()),
+        { timezone: schedule.timezone || undefined, name: `workflow-schedule-${schedule.id}` },
+      );
+      return () => task.destroy();
+    }
+
+    let timeout: NodeJS.Timeout;
+    const arm = () => {
+      const due = nextIntervalRun(schedule.anchorAt, schedule.intervalMs, new Date());
+      const wait = due.getTime() - Date.now();
+      timeout = setTimeout(() => {
+        if (wait <= MAX_TIMER_MS) {
+          this.fire(schedule.id, due, new Date(due.getTime() + schedule.intervalMs));
+        }
+        arm();
+      }, Math.min(Math.max(wait, 0), MAX_TIMER_MS));
+    };
+    arm();
+    return () => clearTimeout(timeout);
+  }
+
+  private async fire(scheduleId: string, dueAt: Date, nextRunAt: Date): Promise<void> {
+    try {
+      const claimed = await this.schedulesService.claimRun(scheduleId, dueAt, nextRunAt);
+      if (!claimed) {
+        return;
+      }
+
+      const schedule = await this.schedulesService.findOne(scheduleId);
+      await this.startRun(schedule, dueAt);
+    } catch (error) {
+      this.logger.error(`Scheduled run of ${scheduleId} failed to start: ${error.message}`);
+    }
+  }
+
+  private async startRun(schedule: WorkflowSchedule, scheduledAt: Date): Promise<void> {
+    if (schedule.noOverlap && schedule.lastExecutionId) {
+      const previous = await this.executionService.findOne(schedule.lastExecutionId);
+      if (previous && ACTIVE_STATUSES.includes(previous.status)) {
+        this.logger.warn(
+          `Skipping run of schedule ${schedule.id} due ${scheduledAt.toISOString()}: ` +
+            `execution ${previous.id} is still ${previous.status}`,
+        );
+        return;
+      }
+    }
+
+    const execution = await this.workflowsService.execute(
+      schedule.workflow.id,
+      { scheduledAt: scheduledAt.toISOString(), scheduleId: schedule.id },
+      schedule.workflow.createdBy.id,
+      { type: 'schedule', nodeId: schedule.nodeId },
+    );
+    await this.schedulesService.recordExecution(schedule.id, execution.id);
+  }
+
+  /**
+   * A schedule whose next run lies well in the past was not served by any
+   * instance. The gap is recorded on the schedule, and a single catch-up run
+   * is started when the schedule asks for one.
+   */
+  private async recordMissedRuns(schedule: WorkflowSchedule): Promise<void> {
+    const now = Date.now();
+    if (!schedule.nextRunAt || schedule.nextRunAt.getTime() > now - schedulerConfig.missedRunGraceMs) {
+      return;
+    }
+
+    const count = schedule.scheduleType === 'interval'
+      ? Math.floor((now - schedule.nextRunAt.getTime()) / schedule.intervalMs) + 1
+      : undefined;
+    const recorded = await this.schedulesService.recordMissed(
+      schedule,
+      { since: schedule.nextRunAt.toISOString(), count, detectedAt: new Date(now).toISOString() },
+      this.schedulesService.nextRun(schedule),
+    );
+    if (!recorded) {
+      return;
+    }
+
+    this.logger.warn(`Schedule ${schedule.id} missed runs since ${schedule.nextRunAt.toISOString()}`);
+    if (schedule.catchUp) {
+      await this.startRun(await this.schedulesService.findOne(schedule.id), schedule.nextRunAt);
+    }
+  }
+
+  private timingKey(schedule: WorkflowSchedule): string {
+    return [
+      schedule.scheduleType,
+      schedule.cron,
+      schedule.timezone,
+      schedule.intervalMs,
+      schedule.anchorAt?.getTime(),
+    ].join('|');
+  }
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, Query, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { SchedulesService } from './schedules.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('Schedules')
+@Controller('schedules')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class SchedulesController {
+  constructor(private schedulesService: SchedulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get schedule triggers with their next run times' })
+  @ApiResponse({ status: 200, description: 'Schedules retrieved successfully' })
+  async findAll(@Query('workflowId') workflowId: string, @Request() req) {
+    const schedules = await this.schedulesService.findForUser(req.user.id, workflowId);
+    return schedules.map(({ workflow, ...schedule }) => ({
+      ...schedule,
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+    }));
+  }
+}
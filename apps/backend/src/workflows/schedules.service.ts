@@ -0,0 +1,187 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as cron from 'node-cron';
+import {
+  MissedScheduleRun,
+  ScheduleTriggerConfig,
+  intervalToMs,
+  nextIntervalRun,
+} from '@shared/engine';
+import { WorkflowDefinition, WorkflowDefinitionNode } from '@shared/types/workflow';
+import { WorkflowSchedule } from '../database/entities/workflow-schedule.entity';
+import { Workflow, WorkflowStatus } from '../database/entities/workflow.entity';
+
+const MAX_MISSED_RUNS = 20;
+
+type ScheduleSettings = Pick<
+  WorkflowSchedule,
+  'scheduleType' | 'cron' | 'timezone' | 'intervalMs' | 'noOverlap' | 'catchUp'
+>;
+
+/**
+ * Keeps the workflow_schedules table in step with the schedule trigger nodes
+ * of saved workflows. Scheduler instances claim runs through conditional
+ * updates on `nextRunAt`, so each due run starts exactly once no matter how
+ * many instances are up.
+ */
+@Injectable()
+export class SchedulesService {
+  constructor(
+    @InjectRepository(WorkflowSchedule)
+    private scheduleRepository: Repository<WorkflowSchedule>,
+  ) {}
+
+  async findForUser(userId: string, workflowId?: string): Promise<WorkflowSchedule[]> {
+    return this.scheduleRepository.find({
+      where: {
+        workflow: { createdBy: { id: userId }, ...(workflowId ? { id: workflowId } : {}) },
+      },
+      relations: ['workflow'],
+      order: { nextRunAt: 'ASC' },
+    });
+  }
+
+  async findEnabled(): Promise<WorkflowSchedule[]> {
+    return this.scheduleRepository.find({ where: { enabled: true } });
+  }
+
+  async findOne(id: string): Promise<WorkflowSchedule> {
+    return this.scheduleRepository.findOne({
+      where: { id },
+      relations: ['workflow', 'workflow.createdBy'],
+    });
+  }
+
+  /** Rejects definitions with schedule triggers the scheduler could not run. */
+  validateDefinition(definition?: Record<string, any>): void {
+    this.scheduleNodes(definition).forEach(node => this.toSettings(node));
+  }
+
+  /**
+   * Creates, updates and removes the workflow's schedules to match its
+   * schedule trigger nodes. A schedule whose timing is unchanged keeps its
+   * next run; a new or retimed one, or one the workflow was paused on, starts
+   * counting from now.
+   */
+  async syncWorkflow(workflow: Workflow): Promise<void> {
+    const nodes = this.scheduleNodes(workflow.definition);
+    const existing = await this.scheduleRepository.find({ where: { workflow: { id: workflow.id } } });
+    const enabled = workflow.status !== WorkflowStatus.PAUSED && workflow.status !== WorkflowStatus.ARCHIVED;
+
+    for (const node of nodes) {
+      const settings = this.toSettings(node);
+      const current = existing.find(schedule => schedule.nodeId === node.id);
+      const retimed = !current || this.timingKey(current) !== this.timingKey(settings);
+      const schedule = current || this.scheduleRepository.create({ nodeId: node.id, workflow });
+
+      Object.assign(schedule, settings, { enabled });
+      if (retimed) {
+        schedule.anchorAt = new Date();
+        schedule.missedRuns = null;
+      }
+      if (retimed || (enabled && !current.enabled)) {
+        schedule.nextRunAt = this.nextRun(schedule);
+      }
+      await this.scheduleRepository.save(schedule);
+    }
+
+    const removed = existing.filter(schedule => !nodes.some(node => node.id === schedule.nodeId));
+    if (removed.length > 0) {
+      await this.scheduleRepository.remove(removed);
+    }
+  }
+
+  /** Next time the schedule is due, counted from now. */
+  nextRun(schedule: ScheduleSettings & Pick<WorkflowSchedule, 'anchorAt'>): Date | null {
+    if (schedule.scheduleType === 'interval') {
+      return nextIntervalRun(schedule.anchorAt || new Date(), schedule.intervalMs, new Date());
+    }
+
+    const task = cron.schedule(schedule.cron, () => undefined, { timezone: schedule.timezone || undefined });
+    try {
+      return task.getNextRun();
+    } finally {
+      task.destroy();
+    }
+  }
+
+  /**
+   * Takes the run due at `dueAt` and moves the schedule on to `nextRunAt`.
+   * Returns false when another instance already claimed it.
+   */
+  async claimRun(id: string, dueAt: Date, nextRunAt: Date): Promise<boolean> {
+    const result = await this.scheduleRepository.update(
+      { id, enabled: true, nextRunAt: dueAt },
+      { nextRunAt, lastRunAt: dueAt },
+    );
+    return result.affected > 0;
+  }
+
+  async recordExecution(id: string, executionId: string): Promise<void> {
+    await this.scheduleRepository.update(id, { lastExecutionId: executionId });
+  }
+
+  /**
+   * Notes runs that fell due while no scheduler was up and moves the schedule
+   * past them. Returns false when another instance recorded them first.
+   */
+  async recordMissed(
+    schedule: WorkflowSchedule,
+    missed: MissedScheduleRun,
+    nextRunAt: Date,
+  ): Promise<boolean> {
+    const missedRuns = [...(schedule.missedRuns || []), missed].slice(-MAX_MISSED_RUNS);
+    const result = await this.scheduleRepository.update(
+      { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      { nextRunAt, missedRuns },
+    );
+    return result.affected > 0;
+  }
+
+  private scheduleNodes(definition?: Record<string, any>): WorkflowDefinitionNode[] {
+    return ((definition as WorkflowDefinition)?.nodes || []).filter(node => node.type === 'schedule');
+  }
+
+  private toSettings(node: WorkflowDefinitionNode): ScheduleSettings {
+    const config = (node.data?.config || {}) as ScheduleTriggerConfig;
+    const label = node.data?.label || node.id;
+
+    if (config.scheduleType === 'interval') {
+      if (!(config.interval > 0)) {
+        throw new BadRequestException(`Schedule ${label} needs a positive interval`);
+      }
+      return {
+        scheduleType: 'interval',
+        cron: null,
+        timezone: null,
+        intervalMs: intervalToMs(config.interval, config.intervalUnit),
+        noOverlap: !!config.noOverlap,
+        catchUp: !!config.catchUp,
+      };
+    }
+
+    if (!config.cron || !cron.validate(config.cron)) {
+      throw new BadRequestException(`Schedule ${label} has an invalid cron expression`);
+    }
+    if (config.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: config.timezone });
+      } catch {
+        throw new BadRequestException(`Schedule ${label} has an unknown timezone ${config.timezone}`);
+      }
+    }
+    return {
+      scheduleType: 'cron',
+      cron: config.cron,
+      timezone: config.timezone || null,
+      intervalMs: null,
+      noOverlap: !!config.noOverlap,
+      catchUp: !!config.catchUp,
+    };
+  }
+
+  private timingKey(schedule: ScheduleSettings): string {
+    return [schedule.scheduleType, schedule.cron, schedule.timezone, schedule.intervalMs].join('|');
+  }
+}
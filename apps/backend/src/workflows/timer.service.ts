@@ -0,0 +1,100 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { EXECUTION_QUEUE, ExecutionQueue } from '../queue/execution-queue.interface';
+import { timerConfig } from '../config/timer.config';
+
+interface ArmedTimer {
+  wakeAt: number;
+  handle: NodeJS.Timeout;
+}
+
+/**
+ * Wakes runs suspended on delay nodes. The wake-up time is stored on the
+ * execution, so nothing is held in memory while a run sleeps: each poll
+ * loads the runs due before the next one and arms an in-process timer for
+ * them, and every instance races to claim a run when its timer fires. A
+ * claimed run goes back to PENDING and onto the queue. Wake-ups that passed
+ * while no instance was up are claimed on the first poll.
+ */
+@Injectable()
+export class TimerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(TimerService.name);
+  private timers = new Map<string, ArmedTimer>();
+  private pollTimer: NodeJS.Timeout;
+  private enabled = false;
+
+  constructor(
+    private executionService: WorkflowExecutionService,
+    @Inject(EXECUTION_QUEUE)
+    private executionQueue: ExecutionQueue,
+  ) {}
+
+  onApplicationBootstrap() {
+    if (!timerConfig.enabled) {
+      this.logger.log('Delay timers disabled');
+      return;
+    }
+
+    this.enabled = true;
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), timerConfig.pollIntervalMs);
+  }
+
+  onModuleDestroy() {
+    this.enabled = false;
+    clearInterval(this.pollTimer);
+    this.timers.forEach(timer => clearTimeout(timer.handle));
+    this.timers.clear();
+  }
+
+  /**
+   * Arms a timer for a run that just went to sleep. Wake-ups after the next
+   * poll are left for that poll to pick up.
+   */
+  arm(executionId: string, wakeAt: Date): void {
+    const at = new Date(wakeAt).getTime();
+    if (!this.enabled || at - Date.now() > timerConfig.pollIntervalMs) {
+      return;
+    }
+
+    const armed = this.timers.get(executionId);
+    if (armed?.wakeAt === at) {
+      return;
+    }
+    if (armed) {
+      clearTimeout(armed.handle);
+    }
+
+    const handle = setTimeout(() => {
+      this.timers.delete(executionId);
+      this.wake(executionId);
+    }, Math.max(0, at - Date.now()));
+    this.timers.set(executionId, { wakeAt: at, handle });
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const due = await this.executionService.findSleeping(new Date(Date.now() + timerConfig.pollIntervalMs));
+      due.forEach(execution => this.arm(execution.id, execution.wakeAt));
+    } catch (error) {
+      this.logger.error(`Delay timer poll failed: ${error.message}`);
+    }
+  }
+
+  private async wake(executionId: string): Promise<void> {
+    try {
+      if (await this.executionService.wake(executionId)) {
+        await this.executionQueue.enqueue(executionId);
+        this.logger.log(`Woke execution ${executionId}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to wake execution ${executionId}: ${error.message}`);
+    }
+  }
+}
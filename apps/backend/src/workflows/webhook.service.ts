@@ -0,0 +1,162 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  MethodNotAllowedException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookTriggerConfig,
+} from '@shared/engine';
+import { WorkflowDefinition } from '@shared/types/workflow';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { Workflow, WorkflowStatus } from '../database/entities/workflow.entity';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+
+const POLL_INTERVAL = 500;
+
+export interface WebhookRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, any>;
+  body: any;
+  rawBody?: Buffer;
+}
+
+export interface WebhookResult {
+  executionId: string;
+  status: ExecutionStatus;
+  output?: any;
+  error?: string;
+}
+
+/**
+ * Starts workflows from inbound calls to `/hooks/:workflowId/:token`. The
+ * token picks the webhook trigger node, whose config may require an
+ * HMAC-SHA256 signature of the raw body and decides whether the caller gets
+ * the execution id straight away or waits for the run's output.
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    @InjectRepository(Workflow)
+    private workflowRepository: Repository<Workflow>,
+    private workflowsService: WorkflowsService,
+    private executionService: WorkflowExecutionService,
+  ) {}
+
+  async trigger(workflowId: string, token: string, request: WebhookRequest): Promise<WebhookResult> {
+    const workflow = await this.workflowRepository.findOne({
+      where: { id: workflowId },
+      relations: ['createdBy'],
+    });
+    const definition = (workflow?.definition || {}) as WorkflowDefinition;
+    const node = (definition.nodes || []).find(
+      candidate => candidate.type === 'webhook' && this.safeEqual(candidate.data?.config?.token, token),
+    );
+    if (!workflow || !node) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    if (workflow.status === WorkflowStatus.PAUSED || workflow.status === WorkflowStatus.ARCHIVED) {
+      throw new ConflictException(`Workflow is ${workflow.status}`);
+    }
+
+    const config = (node.data.config || {}) as WebhookTriggerConfig;
+    if (config.method && config.method.toUpperCase() !== request.method.toUpperCase()) {
+      throw new MethodNotAllowedException(`Webhook only accepts ${config.method.toUpperCase()}`);
+    }
+
+    if (config.secret) {
+      this.verifySignature(config.secret, request);
+    }
+
+    const execution = await this.workflowsService.execute(
+      workflow.id,
+      {
+        method: request.method.toUpperCase(),
+        headers: request.headers,
+        query: request.query || {},
+        body: request.body ?? null,
+      },
+      workflow.createdBy.id,
+      { type: 'webhook', nodeId: node.id },
+    );
+    this.logger.log(`Webhook ${node.id} started execution ${execution.id} of workflow ${workflow.id}`);
+
+    if (config.responseMode !== 'wait') {
+      return { executionId: execution.id, status: execution.status };
+    }
+
+    const timeout = (config.responseTimeout || DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS) * 1000;
+    return this.waitForResult(execution.id, timeout);
+  }
+
+  /**
+   * Expects `sha256=<hex digest>` of the raw request body, keyed with the
+   * node's secret, in the signature header.
+   */
+  private verifySignature(secret: string, request: WebhookRequest): void {
+    const header = request.headers[WEBHOOK_SIGNATURE_HEADER];
+    const signature = Array.isArray(header) ? header[0] : header;
+    if (!signature) {
+      throw new UnauthorizedException(`Missing ${WEBHOOK_SIGNATURE_HEADER} header`);
+    }
+
+    const payload = request.rawBody ?? Buffer.from(
+      typeof request.body === 'string' ? request.body : JSON.stringify(request.body ?? ''),
+    );
+    const expected = `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+    if (!this.safeEqual(signature, expected)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Polls the execution until it settles, since the worker running it may
+   * live in another process. A run that is still going when the timeout
+   * passes, or that suspends on human input, is returned as it stands.
+   */
+  private async waitForResult(executionId: string, timeout: number): Promise<WebhookResult> {
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const execution = await this.executionService.findOne(executionId);
+      const settled = [
+        ExecutionStatus.COMPLETED,
+        ExecutionStatus.FAILED,
+        ExecutionStatus.CANCELLED,
+        ExecutionStatus.WAITING,
+        ExecutionStatus.PAUSED,
+      ].includes(execution.status);
+
+      if (settled || Date.now() >= deadline) {
+        return {
+          executionId,
+          status: execution.status,
+          output: execution.output ?? undefined,
+          error: execution.error ?? undefined,
+        };
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+  }
+
+  private safeEqual(a: unknown, b: string): boolean {
+    if (typeof a !== 'string') {
+      return false;
+    }
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+}
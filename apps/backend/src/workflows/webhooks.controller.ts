@@ -0,0 +1,37 @@
+import { All, Controller, HttpStatus, Param, RawBodyRequest, Req, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { WebhookService } from './webhook.service';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+
+/**
+ * Public endpoint for webhook trigger nodes. Callers authenticate with the
+ * token in the URL and, when the node has a secret, a body signature.
+ */
+@ApiTags('Webhooks')
+@Controller('hooks')
+export class WebhooksController {
+  constructor(private webhookService: WebhookService) {}
+
+  @All(':workflowId/:token')
+  @ApiOperation({ summary: 'Start a workflow from its webhook trigger' })
+  @ApiResponse({ status: 200, description: 'Execution finished and its output is returned' })
+  @ApiResponse({ status: 202, description: 'Execution queued or still running' })
+  async receive(
+    @Param('workflowId') workflowId: string,
+    @Param('token') token: string,
+    @Req() req: RawBodyRequest<FastifyRequest>,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ) {
+    const result = await this.webhookService.trigger(workflowId, token, {
+      method: req.method,
+      headers: req.headers,
+      query: (req.query as Record<string, any>) || {},
+      body: req.body,
+      rawBody: req.rawBody,
+    });
+
+    reply.status(result.status === ExecutionStatus.COMPLETED ? HttpStatus.OK : HttpStatus.ACCEPTED);
+    return result;
+  }
+}
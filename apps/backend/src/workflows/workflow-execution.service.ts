@@ -1,7 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { WorkflowExecution, ExecutionStatus } from '../database/entities/workflow-execution.entity';
+import { In, LessThanOrEqual, Not, Repository } from 'typeorm';
+import {
+  WorkflowExecution,
+  ExecutionStatus,
+  ExecutionCheckpoint,
+  NodeExecutionRecord,
+} from '../database/entities/workflow-execution.entity';
+
+const CANCELLABLE_STATUSES = [
+  ExecutionStatus.PENDING,
+  ExecutionStatus.RUNNING,
+  ExecutionStatus.WAITING,
+  ExecutionStatus.PAUSED,
+];
 
 @Injectable()
 export class WorkflowExecutionService {
@@ -25,8 +37,178 @@ export class WorkflowExecutionService {
     });
   }
 
-  async updateStatus(id: string, status: ExecutionStatus, output?: any, error?: string): Promise<void> {
+  /**
+   * The run a parent's sub-workflow node started for the given loop
+   * iteration, unless it failed or was cancelled and should be started anew.
+   */
+  async findChild(
+    parentExecutionId: string,
+    parentNodeId: string,
+    parentIteration?: number,
+  ): Promise<WorkflowExecution | null> {
+    const query = this.executionRepository
+      .createQueryBuilder('execution')
+      .where('execution.parentExecutionId = :parentExecutionId', { parentExecutionId })
+      .andWhere(`execution.trigger ->> 'parentNodeId' = :parentNodeId`, { parentNodeId })
+      .andWhere('execution.status NOT IN (:...finished)', {
+        finished: [ExecutionStatus.FAILED, ExecutionStatus.CANCELLED],
+      });
+    if (parentIteration === undefined) {
+      query.andWhere(`execution.trigger ->> 'parentIteration' IS NULL`);
+    } else {
+      query.andWhere(`execution.trigger ->> 'parentIteration' = :parentIteration`, {
+        parentIteration: String(parentIteration),
+      });
+    }
+    return query.orderBy('execution.createdAt', 'DESC').getOne();
+  }
+
+  /** Returns false when the run was cancelled or paused before it started. */
+  async markRunning(id: string, startedAt: Date): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id, status: In([ExecutionStatus.PENDING, ExecutionStatus.RUNNING]) },
+      { status: ExecutionStatus.RUNNING, startedAt },
+    );
+    return result.affected > 0;
+  }
+
+  async markPending(id: string): Promise<void> {
+    // Only a run that was in flight goes back to PENDING; a finished one stays put
+    await this.executionRepository.update(
+      { id, status: ExecutionStatus.RUNNING },
+      { status: ExecutionStatus.PENDING },
+    );
+  }
+
+  async markWaiting(id: string, wakeAt?: Date): Promise<void> {
+    await this.executionRepository.update(
+      { id, status: ExecutionStatus.RUNNING },
+      { status: ExecutionStatus.WAITING, wakeAt: wakeAt || null },
+    );
+  }
+
+  /** Runs suspended on delay nodes that are due to wake up by `before`. */
+  async findSleeping(before: Date): Promise<WorkflowExecution[]> {
+    return this.executionRepository.find({
+      where: { status: ExecutionStatus.WAITING, wakeAt: LessThanOrEqual(before) },
+      select: ['id', 'wakeAt'],
+    });
+  }
+
+  /**
+   * Moves a run whose wake-up time has passed back to PENDING. Returns false
+   * when it was already woken, answered or cancelled elsewhere.
+   */
+  async wake(id: string): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id, status: ExecutionStatus.WAITING, wakeAt: LessThanOrEqual(new Date()) },
+      { status: ExecutionStatus.PENDING },
+    );
+    return result.affected > 0;
+  }
+
+  async findWaiting(workflowId?: string): Promise<WorkflowExecution[]> {
+    return this.executionRepository.find({
+      where: {
+        status: ExecutionStatus.WAITING,
+        ...(workflowId ? { workflow: { id: workflowId } } : {}),
+      },
+      relations: ['workflow', 'triggeredBy'],
+    });
+  }
+
+  /**
+   * Moves a suspended run back to PENDING with its updated checkpoint. Returns
+   * false when the run was no longer waiting, e.g. because another answer or
+   * the timeout sweep resumed it first.
+   */
+  async resumeWaiting(id: string, checkpoint: ExecutionCheckpoint): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id, status: ExecutionStatus.WAITING },
+      { status: ExecutionStatus.PENDING, checkpoint },
+    );
+    return result.affected > 0;
+  }
+
+  /**
+   * Fails a suspended run. Returns false when the run was no longer waiting,
+   * e.g. because an answer arrived and a worker is already running it again.
+   */
+  async failWaiting(id: string, error: string, duration: number): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id, status: ExecutionStatus.WAITING },
+      { status: ExecutionStatus.FAILED, completedAt: new Date(), error, duration },
+    );
+    return result.affected > 0;
+  }
+
+  /**
+   * Marks a run that hasn't finished as cancelled. Returns the status it was
+   * cancelled from, or undefined when it had already finished.
+   */
+  async cancel(id: string): Promise<ExecutionStatus | undefined> {
+    const execution = await this.executionRepository.findOne({ where: { id } });
+    if (!execution || !CANCELLABLE_STATUSES.includes(execution.status)) {
+      return undefined;
+    }
+
+    const result = await this.executionRepository.update(
+      { id, status: execution.status },
+      { status: ExecutionStatus.CANCELLED, completedAt: new Date(), error: 'Execution cancelled' },
+    );
+    return result.affected > 0 ? execution.status : undefined;
+  }
+
+  /** Holds a queued or running run; the runner stops once in-flight nodes finish. */
+  async pause(id: string): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id, status: In([ExecutionStatus.PENDING, ExecutionStatus.RUNNING]) },
+      { status: ExecutionStatus.PAUSED },
+    );
+    return result.affected > 0;
+  }
+
+  /** Moves a paused run back to PENDING so a worker picks it up again. */
+  async resumePaused(id: string): Promise<boolean> {
+    const result = await this.executionRepository.update(
+      { id, status: ExecutionStatus.PAUSED },
+      { status: ExecutionStatus.PENDING },
+    );
+    return result.affected > 0;
+  }
+
+  async getStatus(id: string): Promise<ExecutionStatus | undefined> {
+    const execution = await this.executionRepository.findOne({
+      where: { id },
+      select: ['id', 'status'],
+    });
+    return execution?.status;
+  }
+
+  async saveCheckpoint(
+    id: string,
+    checkpoint: ExecutionCheckpoint,
+    nodeExecutions?: NodeExecutionRecord[],
+  ): Promise<void> {
+    const updateData: any = { checkpoint };
+    if (nodeExecutions) {
+      updateData.nodeExecutions = nodeExecutions;
+    }
+    await this.executionRepository.update(id, updateData);
+  }
+
+  async updateStatus(
+    id: string,
+    status: ExecutionStatus,
+    output?: any,
+    error?: string,
+    duration?: number,
+  ): Promise<void> {
     const updateData: any = { status };
+
+    if (duration !== undefined) {
+      updateData.duration = duration;
+    }
     
     if (status === ExecutionStatus.COMPLETED) {
       updateData.completedAt = new Date();
@@ -38,7 +220,11 @@ export class WorkflowExecutionService {
       updateData.error = error;
     }
 
-    await this.executionRepository.update(id, updateData);
+    // A cancelled run stays cancelled, whatever its runner reports afterwards
+    await this.executionRepository.update(
+      { id, status: Not(ExecutionStatus.CANCELLED) },
+      updateData,
+    );
   }
 
   async addLog(id: string, log: Record<string, any>): Promise<void> {
@@ -49,4 +235,17 @@ export class WorkflowExecutionService {
       await this.executionRepository.update(id, { logs });
     }
   }
+
+  async addLogs(id: string, logs: Record<string, any>[]): Promise<void> {
+    if (logs.length === 0) return;
+
+    // Appended in SQL so that concurrently running branches don't overwrite each other
+    await this.executionRepository
+      .createQueryBuilder()
+      .update(WorkflowExecution)
+      .set({ logs: () => `COALESCE(logs, '[]'::jsonb) || :logs::jsonb` })
+      .setParameter('logs', JSON.stringify(logs))
+      .where('id = :id', { id })
+      .execute();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,372 @@
+import { WorkflowDefinition, WorkflowDefinitionNode } from '@shared/types/workflow';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import {
+  ExecutionCheckpoint,
+  ExecutionStatus,
+} from '../database/entities/workflow-execution.entity';
+import { ExecutionContext, NodeExecutionResult, NodeExecutor } from './executors/node-executor';
+
+// Records which nodes ran and returns whatever `respond` gives it
+class StepExecutor extends NodeExecutor {
+  executed: string[] = [];
+
+  constructor(
+    private respond: (
+      node: WorkflowDefinitionNode,
+      signal?: AbortSignal,
+    ) => Promise<Partial<NodeExecutionResult>> = async node => ({ output: { step: node.id } }),
+  ) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    signal?: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    this.executed.push(node.id);
+    return { success: true, logs: [], duration: 0, retryCount: 0, ...(await this.respond(node, signal)) };
+  }
+}
+
+const node = (id: string, type: string): WorkflowDefinitionNode => ({ id, type, data: { label: id, config: {} } });
+
+const definition: WorkflowDefinition = {
+  nodes: [node('start', 'start'), node('step-1', 'step'), node('step-2', 'step'), node('end', 'end')],
+  edges: [
+    { id: 'e1', source: 'start', target: 'step-1' },
+    { id: 'e2', source: 'step-1', target: 'step-2' },
+    { id: 'e3', source: 'step-2', target: 'end' },
+  ],
+};
+
+// start -> call -> end, where call runs the workflow wf-child
+const callsChild: WorkflowDefinition = {
+  nodes: [
+    node('start', 'start'),
+    { id: 'call', type: 'sub_workflow', data: { label: 'call', config: { subWorkflowId: 'wf-child' } } },
+    node('end', 'end'),
+  ],
+  edges: [
+    { id: 'e1', source: 'start', target: 'call' },
+    { id: 'e2', source: 'call', target: 'end' },
+  ],
+};
+
+const createRunner = (checkpoint?: ExecutionCheckpoint, workflow: WorkflowDefinition = definition) => {
+  const execution = {
+    id: 'exec-1',
+    status: ExecutionStatus.PENDING,
+    workflow: { id: 'wf-1', definition: workflow },
+    triggeredBy: { id: 'user-1' },
+    input: {},
+    nodeExecutions: [],
+    checkpoint,
+    startedAt: checkpoint ? new Date() : undefined,
+  };
+  const executionService = {
+    findOne: jest.fn().mockResolvedValue(execution),
+    markRunning: jest.fn().mockResolvedValue(true),
+    getStatus: jest.fn().mockResolvedValue(ExecutionStatus.RUNNING),
+    saveCheckpoint: jest.fn().mockResolvedValue(undefined),
+    addLogs: jest.fn().mockResolvedValue(undefined),
+    updateStatus: jest.fn().mockResolvedValue(undefined),
+    markWaiting: jest.fn().mockResolvedValue(undefined),
+    findChild: jest.fn().mockResolvedValue(null),
+    cancel: jest.fn().mockResolvedValue(ExecutionStatus.CANCELLED),
+  };
+  const workflowsService = {
+    findOne: jest.fn().mockResolvedValue({ id: 'wf-child', name: 'Child' }),
+    execute: jest.fn(),
+  };
+  const websocketService = {
+    emitWorkflowStarted: jest.fn(),
+    emitWorkflowCompleted: jest.fn(),
+    emitWorkflowFailed: jest.fn(),
+    emitWorkflowCancelled: jest.fn(),
+    emitWorkflowPaused: jest.fn(),
+    emitNodeExecuted: jest.fn(),
+    emitNodeWaiting: jest.fn(),
+    emitToUser: jest.fn(),
+  };
+  const unused = {} as any;
+
+  const runner = new WorkflowRunnerService(
+    executionService as any,
+    websocketService as any,
+    workflowsService as any,
+    unused,
+    unused,
+    unused,
+    unused,
+    unused,
+    unused,
+  );
+  return { runner, executionService, websocketService, workflowsService };
+};
+
+describe('WorkflowRunnerService', () => {
+  it('runs a workflow from its start node to the end', async () => {
+    const { runner, executionService } = createRunner();
+    const steps = new StepExecutor();
+    runner.registerNodeExecutor('step', steps);
+
+    await runner.run('exec-1');
+
+    expect(steps.executed).toEqual(['step-1', 'step-2']);
+    expect(executionService.updateStatus).toHaveBeenCalledWith(
+      'exec-1',
+      ExecutionStatus.COMPLETED,
+      expect.objectContaining({ 'step-2': { step: 'step-2' } }),
+      undefined,
+      expect.any(Number),
+    );
+  });
+
+  it('resumes from its checkpoint without running completed nodes again', async () => {
+    const { runner, executionService, websocketService } = createRunner({
+      scheduler: {
+        // step-2 was in flight when the previous worker went away
+        nodes: { start: 'completed', 'step-1': 'completed', 'step-2': 'running', end: 'pending' },
+        edges: { e1: 'taken', e2: 'taken' },
+      },
+      nodeOutputs: { start: {}, 'step-1': { step: 'step-1' } },
+      variables: {},
+      lastOutput: { step: 'step-1' },
+    });
+    const steps = new StepExecutor();
+    runner.registerNodeExecutor('step', steps);
+
+    await runner.run('exec-1');
+
+    expect(steps.executed).toEqual(['step-2']);
+    expect(websocketService.emitWorkflowStarted).not.toHaveBeenCalled();
+    expect(executionService.updateStatus).toHaveBeenCalledWith(
+      'exec-1',
+      ExecutionStatus.COMPLETED,
+      expect.objectContaining({ 'step-1': { step: 'step-1' }, 'step-2': { step: 'step-2' } }),
+      undefined,
+      expect.any(Number),
+    );
+  });
+
+  it('checkpoints after every node', async () => {
+    const { runner, executionService } = createRunner();
+    runner.registerNodeExecutor('step', new StepExecutor());
+
+    await runner.run('exec-1');
+
+    const last = executionService.saveCheckpoint.mock.calls[executionService.saveCheckpoint.mock.calls.length - 1];
+    expect(executionService.saveCheckpoint).toHaveBeenCalledTimes(4);
+    expect(last[1].scheduler.nodes).toEqual({
+      start: 'completed',
+      'step-1': 'completed',
+      'step-2': 'completed',
+      end: 'completed',
+    });
+  });
+
+  it('stops an abandoned run without recording anything', async () => {
+    const { runner, executionService, websocketService } = createRunner();
+    let started: () => void;
+    const running = new Promise<void>(resolve => (started = resolve));
+    const steps = new StepExecutor(
+      (step, signal) =>
+        new Promise(resolve => {
+          started();
+          signal.addEventListener('abort', () => resolve({ success: false, error: 'aborted' }));
+        }),
+    );
+    runner.registerNodeExecutor('step', steps);
+
+    const run = runner.run('exec-1');
+    await running;
+    const checkpoints = executionService.saveCheckpoint.mock.calls.length;
+    runner.control('exec-1', 'abandon');
+    await run;
+
+    expect(steps.executed).toEqual(['step-1']);
+    expect(executionService.saveCheckpoint).toHaveBeenCalledTimes(checkpoints);
+    expect(executionService.updateStatus).not.toHaveBeenCalled();
+    expect(websocketService.emitWorkflowCancelled).not.toHaveBeenCalled();
+  });
+
+  it('aborts the nodes still in flight when the run times out', async () => {
+    // start fans out to wait and quick; quick finishes past the deadline, with wait still running
+    const timesOut: WorkflowDefinition = {
+      nodes: [node('start', 'start'), node('wait', 'human_input'), node('quick', 'human_input'), node('after', 'step')],
+      edges: [
+        { id: 'e1', source: 'start', target: 'wait' },
+        { id: 'e2', source: 'start', target: 'quick' },
+        { id: 'e3', source: 'quick', target: 'after' },
+      ],
+      settings: { maxExecutionTime: 0.01 },
+    };
+    const { runner, executionService } = createRunner(undefined, timesOut);
+    let waitSignal: AbortSignal;
+    runner.registerNodeExecutor(
+      'human_input',
+      new StepExecutor((step, signal) => {
+        if (step.id === 'quick') {
+          return new Promise(resolve => setTimeout(() => resolve({}), 30));
+        }
+        waitSignal = signal;
+        return new Promise(resolve => signal.addEventListener('abort', () => resolve({ success: false })));
+      }),
+    );
+    const steps = new StepExecutor();
+    runner.registerNodeExecutor('step', steps);
+
+    await runner.run('exec-1');
+
+    expect(waitSignal.aborted).toBe(true);
+    expect(steps.executed).toEqual([]);
+    expect(executionService.updateStatus).toHaveBeenCalledWith(
+      'exec-1',
+      ExecutionStatus.FAILED,
+      undefined,
+      'Workflow execution timeout',
+      expect.any(Number),
+    );
+  });
+
+  it('reports a loop body node as failed when any iteration failed it', async () => {
+    const loops: WorkflowDefinition = {
+      nodes: [
+        node('start', 'start'),
+        { id: 'loop', type: 'loop', data: { label: 'loop', config: { items: '[1, 2, 3]' } } },
+        // Iterations carry on past its failures
+        { id: 'work', type: 'step', data: { label: 'work', config: { continueOnError: true } } },
+        node('end', 'end'),
+      ],
+      edges: [
+        { id: 'e1', source: 'start', target: 'loop' },
+        { id: 'e2', source: 'loop', target: 'work', sourceHandle: 'body' },
+        { id: 'e3', source: 'loop', target: 'end' },
+      ],
+      settings: { retryPolicy: { maxRetries: 0 } },
+    };
+    const { runner, executionService } = createRunner(undefined, loops);
+    let calls = 0;
+    runner.registerNodeExecutor(
+      'step',
+      new StepExecutor(async () => (++calls === 2 ? { success: false, error: 'boom' } : {})),
+    );
+
+    await runner.run('exec-1');
+
+    const last = executionService.saveCheckpoint.mock.calls[executionService.saveCheckpoint.mock.calls.length - 1];
+    expect(last[1].scheduler.nodes).toEqual(
+      expect.objectContaining({ loop: 'completed', work: 'failed', end: 'completed' }),
+    );
+  });
+
+  describe('output schema', () => {
+    // step-1 outputs { step: 'step-1' }, which the end node maps to the declared output
+    const shaped = (mappings: string): WorkflowDefinition => ({
+      nodes: [
+        node('start', 'start'),
+        node('step-1', 'step'),
+        { id: 'end', type: 'end', data: { label: 'end', config: { mappings } } },
+      ],
+      edges: [
+        { id: 'e1', source: 'start', target: 'step-1' },
+        { id: 'e2', source: 'step-1', target: 'end' },
+      ],
+      outputSchema: { label: { type: 'string', required: true } },
+    });
+
+    it('completes with the output the end node maps to the declared fields', async () => {
+      const { runner, executionService } = createRunner(undefined, shaped('{"label": "$.step"}'));
+      runner.registerNodeExecutor('step', new StepExecutor());
+
+      await runner.run('exec-1');
+
+      expect(executionService.updateStatus).toHaveBeenCalledWith(
+        'exec-1',
+        ExecutionStatus.COMPLETED,
+        { label: 'step-1' },
+        undefined,
+        expect.any(Number),
+      );
+    });
+
+    it('fails a run whose output is missing a required field', async () => {
+      const { runner, executionService } = createRunner(undefined, shaped('{"title": "$.step"}'));
+      runner.registerNodeExecutor('step', new StepExecutor());
+
+      await runner.run('exec-1');
+
+      expect(executionService.updateStatus).toHaveBeenCalledWith(
+        'exec-1',
+        ExecutionStatus.FAILED,
+        undefined,
+        'Invalid workflow output: label is required',
+        expect.any(Number),
+      );
+    });
+  });
+
+  describe('sub-workflows', () => {
+    const finishedChild = {
+      id: 'child-1',
+      status: ExecutionStatus.COMPLETED,
+      output: { total: 3 },
+    };
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('queues the child and waits for it to finish', async () => {
+      jest.useFakeTimers();
+      const { runner, executionService, workflowsService } = createRunner(undefined, callsChild);
+      workflowsService.execute.mockResolvedValue({ id: 'child-1', status: ExecutionStatus.PENDING });
+      const parent = await executionService.findOne('exec-1');
+      executionService.findOne.mockImplementation(async id => (id === 'child-1' ? finishedChild : parent));
+
+      const run = runner.run('exec-1');
+      await jest.advanceTimersByTimeAsync(2000);
+      await run;
+
+      expect(executionService.findChild).toHaveBeenCalledWith('exec-1', 'call', undefined);
+      expect(workflowsService.execute).toHaveBeenCalledWith(
+        'wf-child',
+        expect.anything(),
+        'user-1',
+        { type: 'sub_workflow', executionId: 'exec-1', parentNodeId: 'call', depth: 1, parentIteration: undefined },
+      );
+      expect(executionService.updateStatus).toHaveBeenCalledWith(
+        'exec-1',
+        ExecutionStatus.COMPLETED,
+        expect.objectContaining({ call: expect.objectContaining({ executionId: 'child-1', output: { total: 3 } }) }),
+        undefined,
+        expect.any(Number),
+      );
+    });
+
+    it('picks up the child a resumed parent already started', async () => {
+      const { runner, executionService, workflowsService } = createRunner(
+        {
+          // call was waiting on its child when the previous worker went away
+          scheduler: { nodes: { start: 'completed', call: 'running', end: 'pending' }, edges: { e1: 'taken' } },
+          nodeOutputs: { start: {} },
+          variables: {},
+        },
+        callsChild,
+      );
+      executionService.findChild.mockResolvedValue(finishedChild);
+
+      await runner.run('exec-1');
+
+      expect(workflowsService.execute).not.toHaveBeenCalled();
+      expect(executionService.updateStatus).toHaveBeenCalledWith(
+        'exec-1',
+        ExecutionStatus.COMPLETED,
+        expect.objectContaining({ call: expect.objectContaining({ executionId: 'child-1', output: { total: 3 } }) }),
+        undefined,
+        expect.any(Number),
+      );
+    });
+  });
+});
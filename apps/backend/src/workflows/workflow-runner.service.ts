@@ -0,0 +1,1283 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  DagScheduler,
+  DagSchedulerSnapshot,
+  DelayTimer,
+  ExecutionTrigger,
+  FallbackInput,
+  HttpToolRuntime,
+  HumanInputRequest,
+  SchedulerTransition,
+  classifyError,
+  describeNodeFailure,
+  isErrorEdge,
+  nodeDeadline,
+  resolveEntryNodes,
+  resolveFailureRoute,
+  resolveFallbackWorkflow,
+  resolveRetryPolicy,
+  retryDelay,
+  shouldRetry,
+  sleep,
+  validateWorkflowOutput,
+} from '@shared/engine';
+import { evaluateCondition } from '@shared/expressions';
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionEdge,
+  WorkflowDefinitionNode,
+} from '@shared/types/workflow';
+import { WorkflowExecutionService } from './workflow-execution.service';
+import { WorkflowsService } from './workflows.service';
+import { TimerService } from './timer.service';
+import { WebsocketService } from '../websockets/websocket.service';
+import { AgentsService } from '../agents/agents.service';
+import { AI_ROUTER, AIRouter } from '../ai/ai-providers';
+import { ToolsService } from '../tools/tools.service';
+import { IntegrationsService } from '../tools/integrations.service';
+import {
+  ExecutionCheckpoint,
+  ExecutionStatus,
+  NodeExecutionRecord,
+  WorkflowExecution,
+} from '../database/entities/workflow-execution.entity';
+import {
+  ExecutionContext,
+  ExecutionLog,
+  LoopBody,
+  NodeExecutionResult,
+  NodeExecutor,
+  NodeRegion,
+  ParallelBranch,
+  SubgraphResult,
+} from './executors/node-executor';
+import {
+  ConditionNodeExecutor,
+  DataTransformNodeExecutor,
+  DelayNodeExecutor,
+  EndNodeExecutor,
+  FilterNodeExecutor,
+  HumanInputNodeExecutor,
+  ScheduleNodeExecutor,
+  StartNodeExecutor,
+  WebhookNodeExecutor,
+} from './executors/core.executors';
+import { SubWorkflowNodeExecutor } from './executors/sub-workflow.executor';
+import { AgentNodeExecutor, AgentRuntime, HybridNodeExecutor } from './executors/agent.executor';
+import { ApiCallNodeExecutor, ToolNodeExecutor, ToolRuntime } from './executors/tool.executors';
+import {
+  LoopNodeExecutor,
+  ParallelNodeExecutor,
+  SWITCH_DEFAULT_CASE,
+  SwitchNodeExecutor,
+} from './executors/flow.executors';
+
+// How often a run checks whether it was cancelled or paused from elsewhere
+const CONTROL_POLL_MS = 2000;
+
+const TERMINAL_STATUSES = [
+  ExecutionStatus.COMPLETED,
+  ExecutionStatus.FAILED,
+  ExecutionStatus.CANCELLED,
+];
+
+interface RunControl {
+  controller: AbortController;
+  // Set once a pause is requested; no further nodes are started
+  paused: boolean;
+  // Set when the worker lost the run's lease; whoever holds it now owns the
+  // execution row, so nothing more is written to it from here
+  abandoned?: boolean;
+}
+
+// Everything a region of the graph being run keeps track of
+interface RegionState {
+  scheduler: DagScheduler;
+  nodesById: Map<string, WorkflowDefinitionNode>;
+  lastOutput?: any;
+  failure?: string;
+  waiting: HumanInputRequest[];
+  sleeping: DelayTimer[];
+  takenEdges: string[];
+}
+
+interface RegionOptions {
+  // Only the top-level region is checkpointed
+  persist?: () => Promise<void>;
+  checkpoint?: ExecutionCheckpoint;
+  // Stops a nested region, e.g. a parallel branch that is no longer needed
+  signal?: AbortSignal;
+}
+
+interface SubgraphRun {
+  result: SubgraphResult;
+  states: DagSchedulerSnapshot['nodes'];
+  takenEdges: string[];
+}
+
+// How a region a node runs itself ended, to hand back to the scheduler
+interface RegionOutcome {
+  states: Record<string, 'completed' | 'failed' | 'skipped'>;
+  takenEdges: string[];
+}
+
+interface OwnedRegion {
+  region: NodeRegion;
+  settle(): RegionOutcome;
+}
+
+interface WalkResult {
+  success: boolean;
+  output?: any;
+  error?: string;
+  waitingFor?: HumanInputRequest[];
+  // Delay nodes that put the run to sleep
+  timers?: DelayTimer[];
+  paused?: boolean;
+  cancelled?: boolean;
+}
+
+/**
+ * Server-side execution runtime. Schedules a workflow definition as a DAG
+ * from its start node, running independent branches concurrently, persisting
+ * progress on the WorkflowExecution row and broadcasting node/workflow events
+ * over AxonPuls. A checkpoint is written after every node so a run picked up
+ * again by another worker resumes where it stopped.
+ */
+@Injectable()
+export class WorkflowRunnerService {
+  private readonly logger = new Logger(WorkflowRunnerService.name);
+  private nodeExecutors = new Map<string, NodeExecutor>();
+  private runs = new Map<string, RunControl>();
+
+  constructor(
+    private executionService: WorkflowExecutionService,
+    private websocketService: WebsocketService,
+    private workflowsService: WorkflowsService,
+    private timerService: TimerService,
+    private agentsService: AgentsService,
+    @Inject(AI_ROUTER)
+    private aiRouter: AIRouter,
+    private toolsService: ToolsService,
+    private integrationsService: IntegrationsService,
+    private httpToolRuntime: HttpToolRuntime,
+  ) {
+    this.registerDefaultNodeExecutors();
+  }
+
+  private registerDefaultNodeExecutors(): void {
+    this.nodeExecutors.set('start', new StartNodeExecutor());
+    this.nodeExecutors.set('end', new EndNodeExecutor());
+    this.nodeExecutors.set('condition', new ConditionNodeExecutor());
+    this.nodeExecutors.set('delay', new DelayNodeExecutor());
+    this.nodeExecutors.set('human_input', new HumanInputNodeExecutor());
+    this.nodeExecutors.set('webhook', new WebhookNodeExecutor());
+    this.nodeExecutors.set('schedule', new ScheduleNodeExecutor());
+    this.nodeExecutors.set('data_transform', new DataTransformNodeExecutor());
+    this.nodeExecutors.set('filter', new FilterNodeExecutor());
+    this.nodeExecutors.set('switch', new SwitchNodeExecutor());
+    this.nodeExecutors.set('parallel', new ParallelNodeExecutor());
+    this.nodeExecutors.set('loop', new LoopNodeExecutor());
+
+    const agentRuntime: AgentRuntime = {
+      findAgent: (agentId, userId) => this.agentsService.findOne(agentId, userId),
+      router: this.aiRouter,
+      stream: (context, node, agentId, chunk) =>
+        this.websocketService.emitToUser(context.userId, 'axon:stream', {
+          workflowId: context.workflowId,
+          executionId: context.executionId,
+          nodeId: node.id,
+          agentId,
+          type: chunk.type,
+          delta: chunk.delta,
+          content: chunk.type === 'error' ? chunk.content : undefined,
+        }),
+    };
+    const toolRuntime: ToolRuntime = {
+      findTool: (toolId, userId) => this.toolsService.findOne(toolId, userId),
+      invoke: (tool, params, signal) => this.httpToolRuntime.execute(tool, params, signal),
+      getCredentials: (credentialId, userId) => this.integrationsService.getCredentials(credentialId, userId),
+      send: request => this.httpToolRuntime.send(request),
+      report: (context, node, type, data) =>
+        this.websocketService.emitToUser(context.userId, 'axon:event', {
+          id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          type,
+          timestamp: new Date(),
+          source: 'workflow',
+          data: { ...data, executionId: context.executionId },
+          workflowId: context.workflowId,
+          nodeId: node.id,
+        }),
+    };
+    this.nodeExecutors.set('agent', new AgentNodeExecutor(agentRuntime));
+    this.nodeExecutors.set('hybrid', new HybridNodeExecutor(agentRuntime, toolRuntime));
+    this.nodeExecutors.set('tool', new ToolNodeExecutor(toolRuntime));
+    this.nodeExecutors.set('api_call', new ApiCallNodeExecutor(toolRuntime));
+    this.nodeExecutors.set('sub_workflow', new SubWorkflowNodeExecutor({
+      findWorkflow: (workflowId, userId) => this.workflowsService.findOne(workflowId, userId),
+      start: (workflowId, input, userId, trigger) =>
+        this.startChild(workflowId, input, userId, trigger),
+      run: (workflowId, input, userId, trigger, signal) =>
+        this.runChild(workflowId, input, userId, trigger, signal),
+    }));
+  }
+
+  registerNodeExecutor(type: string, executor: NodeExecutor): void {
+    this.nodeExecutors.set(type, executor);
+  }
+
+  /**
+   * Cancels or pauses a run executing on this worker without waiting for the
+   * next status poll. Runs on other workers notice the persisted status.
+   * Abandoning stops the run here without recording anything, for a worker
+   * whose lease on it lapsed and was handed to another worker.
+   */
+  control(executionId: string, action: 'cancel' | 'pause' | 'abandon'): void {
+    const run = this.runs.get(executionId);
+    if (!run) {
+      return;
+    }
+    if (action === 'abandon') {
+      run.abandoned = true;
+      run.controller.abort();
+    } else if (action === 'cancel') {
+      run.controller.abort();
+    } else {
+      run.paused = true;
+    }
+  }
+
+  async run(executionId: string): Promise<void> {
+    const execution = await this.executionService.findOne(executionId);
+    if (!execution) {
+      throw new NotFoundException(`Execution ${executionId} not found`);
+    }
+
+    if (TERMINAL_STATUSES.includes(execution.status)) {
+      this.logger.warn(`Execution ${executionId} is already ${execution.status}, skipping`);
+      return;
+    }
+
+    if (execution.status === ExecutionStatus.WAITING) {
+      this.logger.warn(`Execution ${executionId} is waiting, skipping`);
+      return;
+    }
+
+    if (execution.status === ExecutionStatus.PAUSED) {
+      this.logger.warn(`Execution ${executionId} is paused, skipping`);
+      return;
+    }
+
+    const workflow = execution.workflow;
+    const definition = (workflow.definition || {}) as WorkflowDefinition;
+    const userId = execution.triggeredBy?.id;
+    const checkpoint = execution.checkpoint;
+    const startTime = execution.startedAt || new Date();
+    const control: RunControl = { controller: new AbortController(), paused: false };
+
+    const context: ExecutionContext = {
+      workflowId: workflow.id,
+      executionId,
+      userId,
+      input: execution.input || {},
+      variables: checkpoint?.variables || { ...definition.variables },
+      nodeOutputs: checkpoint?.nodeOutputs || {},
+      startTime,
+      timeout: definition.settings?.maxExecutionTime
+        ? definition.settings.maxExecutionTime * 1000
+        : undefined,
+      retryPolicy: definition.settings?.retryPolicy,
+      humanInputs: checkpoint?.humanInputs || {},
+      timers: { ...checkpoint?.timers },
+      signal: control.controller.signal,
+      depth: execution.trigger?.depth || 0,
+    };
+
+    if (!(await this.executionService.markRunning(executionId, startTime))) {
+      this.logger.warn(`Execution ${executionId} was cancelled or paused before it started`);
+      return;
+    }
+
+    this.runs.set(executionId, control);
+    const watcher = setInterval(() => this.pollControl(executionId, control), CONTROL_POLL_MS);
+
+    // A replay from a node starts out with a checkpoint but hasn't run yet
+    if (checkpoint && execution.startedAt) {
+      const completed = Object.values(checkpoint.scheduler.nodes).filter(state => state === 'completed');
+      this.logger.log(`Resuming execution ${executionId} after ${completed.length} completed nodes`);
+    } else {
+      this.websocketService.emitWorkflowStarted(workflow.id, userId, {
+        executionId,
+        input: context.input,
+      });
+    }
+
+    try {
+      const result = await this.walk(
+        definition,
+        context,
+        checkpoint,
+        execution.nodeExecutions || [],
+        execution.trigger,
+      );
+      const duration = Date.now() - startTime.getTime();
+      // What the End node returned has to match the output schema
+      const outputError = result.success
+        ? validateWorkflowOutput(definition.outputSchema, result.output)
+        : undefined;
+
+      if (control.abandoned) {
+        this.logger.warn(`Execution ${executionId} abandoned after losing its lease`);
+      } else if (result.cancelled) {
+        this.logger.log(`Execution ${executionId} cancelled`);
+        this.websocketService.emitWorkflowCancelled(workflow.id, userId, { executionId, duration });
+      } else if (result.paused) {
+        this.logger.log(`Execution ${executionId} paused`);
+        this.websocketService.emitWorkflowPaused(workflow.id, userId, { executionId });
+      } else if (result.waitingFor) {
+        // The earliest timer wakes the run; the others are checked again then
+        const wakeAt = result.timers
+          .map(timer => new Date(timer.wakeAt))
+          .reduce<Date | undefined>((earliest, date) => (!earliest || date < earliest ? date : earliest), undefined);
+        await this.executionService.markWaiting(executionId, wakeAt);
+        if (wakeAt) {
+          this.timerService.arm(executionId, wakeAt);
+        }
+
+        // Requests carried over from before the resume were announced already
+        const announced = new Set((checkpoint?.waitingFor || []).map(request => request.nodeId));
+        result.waitingFor
+          .filter(request => !announced.has(request.nodeId))
+          .forEach(request =>
+            this.websocketService.emitNodeWaiting(workflow.id, userId, { executionId, ...request }),
+          );
+        this.logger.log(
+          result.waitingFor.length > 0
+            ? `Execution ${executionId} suspended waiting for human input`
+            : `Execution ${executionId} sleeping until ${wakeAt.toISOString()}`,
+        );
+      } else if (result.success && !outputError) {
+        await this.executionService.updateStatus(
+          executionId,
+          ExecutionStatus.COMPLETED,
+          result.output,
+          undefined,
+          duration,
+        );
+        this.websocketService.emitWorkflowCompleted(workflow.id, userId, {
+          executionId,
+          duration,
+          output: result.output,
+        });
+      } else {
+        const error = outputError || result.error;
+        await this.executionService.updateStatus(
+          executionId,
+          ExecutionStatus.FAILED,
+          undefined,
+          error,
+          duration,
+        );
+        this.websocketService.emitWorkflowFailed(workflow.id, userId, error, { executionId, duration });
+        await this.startFallback(execution, definition, context, error);
+      }
+    } catch (error) {
+      if (control.abandoned) {
+        this.logger.warn(`Execution ${executionId} abandoned after losing its lease`);
+        return;
+      }
+      if (control.controller.signal.aborted) {
+        this.websocketService.emitWorkflowCancelled(workflow.id, userId, { executionId });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Execution ${executionId} failed: ${message}`);
+
+      await this.executionService.updateStatus(
+        executionId,
+        ExecutionStatus.FAILED,
+        undefined,
+        message,
+        Date.now() - startTime.getTime(),
+      );
+      this.websocketService.emitWorkflowFailed(workflow.id, userId, message, { executionId });
+      await this.startFallback(execution, definition, context, message);
+    } finally {
+      clearInterval(watcher);
+      this.runs.delete(executionId);
+    }
+  }
+
+  /**
+   * Queues a sub-workflow like any other run, so it holds its own lease and
+   * is resumed elsewhere if its worker goes away. A parent resumed after a
+   * crash picks up the child its node already started instead of starting a
+   * second one; only a child that failed or was cancelled is started anew.
+   */
+  private async startChild(
+    workflowId: string,
+    input: any,
+    userId: string,
+    trigger: ExecutionTrigger,
+  ): Promise<WorkflowExecution> {
+    const existing = await this.executionService.findChild(
+      trigger.executionId,
+      trigger.parentNodeId,
+      trigger.parentIteration,
+    );
+    if (existing) {
+      this.logger.log(`Execution ${trigger.executionId} resumed waiting on sub-workflow execution ${existing.id}`);
+      return existing;
+    }
+    return this.workflowsService.execute(workflowId, input, userId, trigger);
+  }
+
+  /**
+   * Starts a sub-workflow and waits for it to finish. The parent keeps its
+   * worker slot while it waits, so the queue needs more slots than there are
+   * parents waiting at once. Cancelling the parent cancels the child; a parent
+   * that lost its lease leaves the child running for the worker resuming it.
+   */
+  private async runChild(
+    workflowId: string,
+    input: any,
+    userId: string,
+    trigger: ExecutionTrigger,
+    signal?: AbortSignal,
+  ): Promise<WorkflowExecution> {
+    const child = await this.startChild(workflowId, input, userId, trigger);
+    const cancel = () => {
+      if (this.runs.get(trigger.executionId)?.abandoned) {
+        return;
+      }
+      this.control(child.id, 'cancel');
+      this.executionService.cancel(child.id).catch(error =>
+        this.logger.warn(`Could not cancel sub-workflow execution ${child.id}: ${error}`),
+      );
+    };
+    if (signal?.aborted) {
+      cancel();
+    }
+    signal?.addEventListener('abort', cancel);
+
+    try {
+      let execution = child;
+      while (!TERMINAL_STATUSES.includes(execution.status)) {
+        await sleep(CONTROL_POLL_MS, signal);
+        execution = await this.executionService.findOne(child.id);
+      }
+      return execution;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private async pollControl(executionId: string, control: RunControl): Promise<void> {
+    try {
+      const status = await this.executionService.getStatus(executionId);
+      if (status === ExecutionStatus.CANCELLED) {
+        control.controller.abort();
+      } else if (status === ExecutionStatus.PAUSED) {
+        control.paused = true;
+      }
+    } catch (error) {
+      this.logger.warn(`Could not check execution ${executionId} for cancellation: ${error}`);
+    }
+  }
+
+  /**
+   * Queues the workflow's fallback after a failed run, handing it the error
+   * together with the failed run's input, variables and node outputs.
+   */
+  private async startFallback(
+    execution: WorkflowExecution,
+    definition: WorkflowDefinition,
+    context: ExecutionContext,
+    error: string,
+  ): Promise<void> {
+    const fallbackId = resolveFallbackWorkflow(
+      execution.workflow.id,
+      definition.settings?.errorHandling,
+      execution.trigger?.type === 'fallback',
+    );
+    if (!fallbackId) {
+      return;
+    }
+
+    const input: FallbackInput = {
+      failedWorkflowId: execution.workflow.id,
+      failedExecutionId: execution.id,
+      error,
+      input: context.input,
+      variables: context.variables,
+      nodeOutputs: context.nodeOutputs,
+    };
+
+    try {
+      const fallback = await this.workflowsService.execute(fallbackId, input, context.userId, {
+        type: 'fallback',
+        executionId: execution.id,
+      });
+      await this.executionService.addLog(
+        execution.id,
+        this.createLog('info', `Fallback workflow ${fallbackId} queued as execution ${fallback.id}`),
+      );
+    } catch (fallbackError) {
+      const message = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+      this.logger.error(`Fallback workflow ${fallbackId} for execution ${execution.id} failed to start: ${message}`);
+      await this.executionService.addLog(
+        execution.id,
+        this.createLog('error', `Fallback workflow ${fallbackId} could not be started: ${message}`),
+      );
+    }
+  }
+
+  private createScheduler(
+    definition: WorkflowDefinition,
+    checkpoint?: ExecutionCheckpoint,
+    trigger?: ExecutionTrigger,
+  ): DagScheduler {
+    const nodes = definition.nodes || [];
+    const scheduler = new DagScheduler(nodes, definition.edges || [], checkpoint?.scheduler);
+    if (checkpoint) {
+      return scheduler;
+    }
+
+    const cyclicNode = scheduler.findCycle();
+    if (cyclicNode) {
+      throw new Error(`Circular dependency detected at node ${cyclicNode}`);
+    }
+
+    const { entry, skipped } = resolveEntryNodes(nodes, trigger);
+    if (!entry) {
+      throw new Error('Workflow must have a start node');
+    }
+
+    scheduler.skip(skipped);
+    scheduler.start([entry]);
+    return scheduler;
+  }
+
+  private async walk(
+    definition: WorkflowDefinition,
+    context: ExecutionContext,
+    checkpoint: ExecutionCheckpoint | undefined,
+    nodeExecutions: NodeExecutionRecord[],
+    trigger?: ExecutionTrigger,
+  ): Promise<WalkResult> {
+    const scheduler = this.createScheduler(definition, checkpoint, trigger);
+    const region: RegionState = {
+      scheduler,
+      nodesById: new Map(definition.nodes.map(node => [node.id, node])),
+      lastOutput: checkpoint?.lastOutput,
+      waiting: [],
+      sleeping: [],
+      takenEdges: [],
+    };
+
+    // Checkpoints are written one at a time, each from the latest state, so a
+    // slow write can't land after a newer one
+    let persisting = Promise.resolve();
+    const persist = () => {
+      if (this.runs.get(context.executionId)?.abandoned) {
+        return persisting;
+      }
+      persisting = persisting.then(() =>
+        this.executionService.saveCheckpoint(
+          context.executionId,
+          {
+            scheduler: scheduler.snapshot(),
+            nodeOutputs: context.nodeOutputs,
+            variables: context.variables,
+            lastOutput: region.lastOutput,
+            waitingFor: region.waiting,
+            humanInputs: context.humanInputs,
+            timers: context.timers,
+          },
+          nodeExecutions,
+        ),
+      );
+      return persisting;
+    };
+
+    await this.runRegion(definition, context, nodeExecutions, region, { persist, checkpoint });
+
+    if (context.signal?.aborted) {
+      return { success: false, cancelled: true };
+    }
+
+    if (region.failure) {
+      return { success: false, error: region.failure };
+    }
+
+    if (region.waiting.length > 0 || region.sleeping.length > 0) {
+      return { success: false, waitingFor: region.waiting, timers: region.sleeping };
+    }
+
+    // Held between nodes; the checkpoint lets a worker pick up from here on resume
+    if (scheduler.hasWork()) {
+      return { success: false, paused: true };
+    }
+
+    return { success: true, output: this.regionOutput(definition.nodes, region, context) };
+  }
+
+  /**
+   * Runs nodes of the workflow until the region's scheduler has nothing
+   * ready. Independent branches run concurrently; parallel and loop nodes run
+   * the nodes behind them as nested regions. Only the top-level region is
+   * checkpointed, so only it can suspend on human input or a delay, and only
+   * it stops between nodes when the run is paused. When the run times out,
+   * the region aborts the nodes still in flight and waits for them to stop
+   * before failing.
+   */
+  private async runRegion(
+    definition: WorkflowDefinition,
+    runContext: ExecutionContext,
+    nodeExecutions: NodeExecutionRecord[],
+    region: RegionState,
+    options: RegionOptions = {},
+  ): Promise<void> {
+    const { scheduler, nodesById } = region;
+    const persist = options.persist || (() => Promise.resolve());
+    const running = new Map<string, Promise<void>>();
+
+    // Nodes of the region see their own signal, aborted with the run's or on a timeout
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (runContext.signal?.aborted) {
+      abort();
+    } else {
+      runContext.signal?.addEventListener('abort', abort, { once: true });
+    }
+    const context: ExecutionContext = { ...runContext, signal: controller.signal };
+    let timedOut = false;
+
+    const launch = (node: WorkflowDefinitionNode) => {
+      // A node that suspended the run keeps its record when it runs again
+      const suspended = options.persist && nodeExecutions.find(
+        existing => existing.nodeId === node.id && existing.status === 'waiting',
+      );
+      const record: NodeExecutionRecord = suspended || {
+        id: `nexec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        nodeId: node.id,
+        nodeType: node.type,
+        status: 'running',
+        startedAt: new Date(),
+        input: this.collectNodeInput(node, scheduler, context),
+        retryCount: 0,
+        loopNodeId: context.iteration?.loopNodeId,
+        iteration: context.iteration?.index,
+      };
+      if (!suspended) {
+        nodeExecutions.push(record);
+      }
+
+      const owned = node.type === 'parallel'
+        ? this.prepareBranches(node, definition, nodesById, context, nodeExecutions)
+        : node.type === 'loop'
+          ? this.prepareLoopBody(node, definition, nodesById, context, nodeExecutions)
+          : undefined;
+
+      return this.executeNode(node, context, owned?.region).then(async result => {
+        if (result.cancelled) {
+          // Left running in the scheduler; a cancelled run never resumes
+          Object.assign(record, { status: 'cancelled', completedAt: new Date(), duration: result.duration });
+          await persist();
+          return;
+        }
+
+        if ((result.waitingFor || result.sleepUntil) && !options.persist) {
+          // Nothing inside a branch or loop body is checkpointed to resume from
+          result = {
+            ...result,
+            success: false,
+            error: `${node.data.label || node.id} can't wait inside a parallel branch or loop`,
+          };
+        } else if (result.waitingFor) {
+          // Left running in the scheduler, so the node runs again on resume
+          const previous = options.checkpoint?.waitingFor?.find(request => request.nodeId === node.id);
+          region.waiting.push(previous || result.waitingFor);
+          record.status = 'waiting';
+          await persist();
+          return;
+        } else if (result.sleepUntil) {
+          // Kept on the checkpoint so the wait survives the worker going away
+          context.timers[node.id] = result.sleepUntil;
+          region.sleeping.push(result.sleepUntil);
+          record.status = 'waiting';
+          await persist();
+          return;
+        }
+        delete context.timers[node.id];
+
+        Object.assign(record, {
+          status: result.success ? 'success' : result.timedOut ? 'timeout' : 'error',
+          completedAt: new Date(),
+          duration: result.duration,
+          output: result.output,
+          error: result.error,
+          retryCount: result.retryCount,
+        });
+
+        // Failures go down the node's error branch when it has one
+        const errorEdges = result.success
+          ? []
+          : (definition.edges || [])
+              .filter(edge => edge.source === node.id && isErrorEdge(edge))
+              .map(edge => edge.id);
+        const route = result.success
+          ? undefined
+          : resolveFailureRoute(
+              errorEdges.length > 0,
+              node.data.config?.continueOnError,
+              definition.settings?.errorHandling,
+            );
+
+        if (route === 'stop') {
+          scheduler.fail(node.id);
+          region.failure = region.failure || result.error;
+          await persist();
+          return;
+        }
+
+        if (result.success) {
+          region.lastOutput = result.output;
+        }
+
+        let transition: SchedulerTransition;
+        if (route === 'branch') {
+          context.nodeOutputs[node.id] = { error: describeNodeFailure(node, result) };
+          region.takenEdges.push(...errorEdges);
+          transition = owned
+            ? scheduler.completeRegion(node.id, owned.settle().states, errorEdges)
+            : scheduler.complete(node.id, errorEdges, 'failed');
+        } else if (owned) {
+          const outcome = owned.settle();
+          region.takenEdges.push(...outcome.takenEdges);
+          transition = scheduler.completeRegion(node.id, outcome.states, outcome.takenEdges);
+        } else {
+          const takenEdges = this.getTakenEdges(node, definition, context).map(edge => edge.id);
+          region.takenEdges.push(...takenEdges);
+          transition = scheduler.complete(node.id, takenEdges, result.success ? 'completed' : 'failed');
+        }
+        transition.skipped.forEach(nodeId => nodeExecutions.push(this.skippedRecord(nodesById.get(nodeId))));
+
+        await persist();
+      });
+    };
+
+    const halted = () =>
+      options.signal?.aborted ||
+      context.signal?.aborted ||
+      (options.persist && this.runs.get(context.executionId)?.paused);
+
+    try {
+      for (;;) {
+        if (!region.failure && !halted()) {
+          for (const nodeId of scheduler.takeReady()) {
+            if (context.timeout && Date.now() - context.startTime.getTime() > context.timeout) {
+              // Stopped like a halt: nothing new starts and in-flight nodes wind down first
+              timedOut = true;
+              controller.abort();
+              break;
+            }
+            running.set(
+              nodeId,
+              launch(nodesById.get(nodeId)).finally(() => running.delete(nodeId)),
+            );
+          }
+        }
+
+        if (running.size === 0) {
+          break;
+        }
+        await Promise.race(running.values());
+      }
+    } finally {
+      runContext.signal?.removeEventListener('abort', abort);
+    }
+
+    if (timedOut) {
+      throw new Error('Workflow execution timeout');
+    }
+  }
+
+  /**
+   * Runs part of the graph from the given entry nodes as a nested region,
+   * for a parallel branch or a loop iteration.
+   */
+  private async runSubgraph(
+    definition: WorkflowDefinition,
+    nodes: WorkflowDefinitionNode[],
+    entryIds: string[],
+    context: ExecutionContext,
+    nodeExecutions: NodeExecutionRecord[],
+    signal?: AbortSignal,
+  ): Promise<SubgraphRun> {
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+    const edges = (definition.edges || []).filter(
+      edge => nodesById.has(edge.source) && nodesById.has(edge.target),
+    );
+    const region: RegionState = {
+      scheduler: new DagScheduler(nodes, edges),
+      nodesById,
+      waiting: [],
+      sleeping: [],
+      takenEdges: [],
+    };
+    region.scheduler.start(entryIds);
+
+    try {
+      await this.runRegion(definition, context, nodeExecutions, region, { signal });
+    } catch (error) {
+      region.failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const result = region.failure
+      ? { success: false, error: region.failure }
+      : { success: true, output: this.regionOutput(nodes, region, context) };
+    return { result, states: region.scheduler.snapshot().nodes, takenEdges: region.takenEdges };
+  }
+
+  // The end node's output wins over whichever branch happened to finish last
+  private regionOutput(nodes: WorkflowDefinitionNode[], region: RegionState, context: ExecutionContext): any {
+    const endNode = nodes.find(
+      node => node.type === 'end' && region.scheduler.getNodeState(node.id) === 'completed',
+    );
+    return endNode ? context.nodeOutputs[endNode.id] : region.lastOutput;
+  }
+
+  /**
+   * Splits the graph below a parallel node into one branch per outgoing edge.
+   * A branch holds the nodes reachable only through its edge; nodes reachable
+   * from several branches are where they merge and stay with the enclosing
+   * region, which schedules them once the parallel node has completed.
+   */
+  private prepareBranches(
+    node: WorkflowDefinitionNode,
+    definition: WorkflowDefinition,
+    regionNodes: Map<string, WorkflowDefinitionNode>,
+    context: ExecutionContext,
+    nodeExecutions: NodeExecutionRecord[],
+  ): OwnedRegion {
+    const allEdges = definition.edges || [];
+    const branchEdges = allEdges.filter(
+      edge => edge.source === node.id && regionNodes.has(edge.target) && !isErrorEdge(edge),
+    );
+
+    const reachable = branchEdges.map(edge => {
+      const seen = new Set<string>();
+      const stack = [edge.target];
+      while (stack.length > 0) {
+        const id = stack.pop();
+        if (seen.has(id) || !regionNodes.has(id)) continue;
+        seen.add(id);
+        allEdges.filter(next => next.source === id).forEach(next => stack.push(next.target));
+      }
+      return seen;
+    });
+
+    const branchNodes = reachable.map((seen, index) =>
+      Array.from(regionNodes.values()).filter(
+        candidate =>
+          seen.has(candidate.id) &&
+          !reachable.some((other, otherIndex) => otherIndex !== index && other.has(candidate.id)),
+      ),
+    );
+
+    const runs: Array<{ signal: AbortSignal; run?: SubgraphRun }> = [];
+
+    const branches: ParallelBranch[] = branchEdges.map((edge, index) => ({
+      key: edge.id,
+      label: edge.data?.label || edge.target,
+      run: async (signal: AbortSignal) => {
+        runs[index] = { signal };
+        runs[index].run = await this.runSubgraph(
+          definition,
+          branchNodes[index],
+          [edge.target],
+          context,
+          nodeExecutions,
+          signal,
+        );
+        return runs[index].run.result;
+      },
+    }));
+
+    // Branches that were cancelled, or never started, count as skipped so
+    // their exits don't trigger the merge node
+    const settle = (): RegionOutcome => {
+      const states: RegionOutcome['states'] = {};
+      const takenEdges: string[] = [];
+
+      branchEdges.forEach((edge, index) => {
+        const counted = runs[index]?.run && !runs[index].signal.aborted ? runs[index].run : undefined;
+        if (counted) {
+          takenEdges.push(edge.id, ...counted.takenEdges);
+        }
+        branchNodes[index].forEach(branchNode => {
+          const state = counted?.states[branchNode.id];
+          states[branchNode.id] = state === 'completed' || state === 'failed' ? state : 'skipped';
+        });
+      });
+
+      return { states, takenEdges };
+    };
+
+    return { region: { branches }, settle };
+  }
+
+  /**
+   * Collects the body of a loop node: the nodes reachable only through edges
+   * leaving its 'body' handle. Each iteration runs the body as a nested
+   * region with its own copy of node outputs, so concurrent iterations don't
+   * overwrite each other. Edges from any other handle leave the loop once it
+   * is done.
+   */
+  private prepareLoopBody(
+    node: WorkflowDefinitionNode,
+    definition: WorkflowDefinition,
+    regionNodes: Map<string, WorkflowDefinitionNode>,
+    context: ExecutionContext,
+    nodeExecutions: NodeExecutionRecord[],
+  ): OwnedRegion {
+    const allEdges = definition.edges || [];
+    const outgoing = allEdges.filter(edge => edge.source === node.id && regionNodes.has(edge.target));
+    const bodyEdges = outgoing.filter(edge => edge.sourceHandle === 'body');
+    const exitEdges = outgoing.filter(edge => edge.sourceHandle !== 'body');
+
+    const reach = (from: WorkflowDefinitionEdge[]) => {
+      const seen = new Set<string>();
+      const stack = from.map(edge => edge.target);
+      while (stack.length > 0) {
+        const id = stack.pop();
+        if (seen.has(id) || id === node.id || !regionNodes.has(id)) continue;
+        seen.add(id);
+        allEdges.filter(next => next.source === id).forEach(next => stack.push(next.target));
+      }
+      return seen;
+    };
+
+    const afterLoop = reach(exitEdges);
+    const bodyIds = reach(bodyEdges);
+    const bodyNodes = Array.from(regionNodes.values()).filter(
+      candidate => bodyIds.has(candidate.id) && !afterLoop.has(candidate.id),
+    );
+    const entryIds = bodyEdges.map(edge => edge.target).filter(id => bodyNodes.some(body => body.id === id));
+    // How each body node ended across iterations; a failure in any of them sticks
+    const outcomes: Record<string, 'completed' | 'failed'> = {};
+
+    const loopBody: LoopBody = {
+      run: async ({ index, variables }) => {
+        if (entryIds.length === 0) {
+          return { success: true };
+        }
+
+        const iterationContext: ExecutionContext = {
+          ...context,
+          variables: { ...context.variables, ...variables },
+          nodeOutputs: { ...context.nodeOutputs },
+          iteration: { loopNodeId: node.id, index },
+        };
+        const { result, states } = await this.runSubgraph(
+          definition,
+          bodyNodes,
+          entryIds,
+          iterationContext,
+          nodeExecutions,
+        );
+        bodyNodes.forEach(bodyNode => {
+          const state = states[bodyNode.id];
+          if (state === 'failed' || (state === 'completed' && outcomes[bodyNode.id] !== 'failed')) {
+            outcomes[bodyNode.id] = state;
+          }
+        });
+        return result;
+      },
+    };
+
+    const settle = (): RegionOutcome => {
+      const states: RegionOutcome['states'] = {};
+      bodyNodes.forEach(bodyNode => (states[bodyNode.id] = outcomes[bodyNode.id] || 'skipped'));
+      const exitIds = new Set(exitEdges.map(edge => edge.id));
+      const takenEdges = this.getTakenEdges(node, definition, context)
+        .filter(edge => exitIds.has(edge.id))
+        .map(edge => edge.id);
+      return { states, takenEdges };
+    };
+
+    return { region: { loopBody }, settle };
+  }
+
+  private collectNodeInput(
+    node: WorkflowDefinitionNode,
+    scheduler: DagScheduler,
+    context: ExecutionContext,
+  ): Record<string, any> {
+    const input: Record<string, any> = {};
+    for (const edge of scheduler.getIncomingEdges(node.id)) {
+      if (scheduler.isEdgeTaken(edge.id)) {
+        input[edge.source] = context.nodeOutputs[edge.source];
+      }
+    }
+    return input;
+  }
+
+  private skippedRecord(node: WorkflowDefinitionNode): NodeExecutionRecord {
+    const now = new Date();
+    return {
+      id: `nexec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      nodeId: node.id,
+      nodeType: node.type,
+      status: 'skipped',
+      startedAt: now,
+      completedAt: now,
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+
+  private async executeNode(
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    region?: NodeRegion,
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+
+    const executor = this.nodeExecutors.get(node.type);
+    if (!executor) {
+      const error = `No executor found for node type: ${node.type}`;
+      await this.executionService.addLogs(context.executionId, [
+        this.createLog('error', error, node.id),
+      ]);
+      this.emitNodeEvent(context, node, { status: 'error', error, duration: 0 });
+      return { success: false, error, logs, duration: 0, retryCount: 0 };
+    }
+
+    this.emitNodeEvent(context, node, { status: 'running' });
+
+    // Node settings win over the workflow's retry policy
+    const policy = resolveRetryPolicy(node.data.config, context.retryPolicy);
+    let lastResult: NodeExecutionResult | undefined;
+    let attempt = 0;
+
+    for (; attempt <= policy.maxRetries; attempt++) {
+      const result = await this.runAttempt(executor, node, context, region);
+      logs.push(...result.logs);
+
+      if (result.cancelled) {
+        await this.executionService.addLogs(context.executionId, logs);
+        this.emitNodeEvent(context, node, { status: 'cancelled', duration: Date.now() - startTime });
+        return { ...result, logs, duration: Date.now() - startTime, retryCount: attempt };
+      }
+
+      if (result.success && (result.waitingFor || result.sleepUntil)) {
+        await this.executionService.addLogs(context.executionId, logs);
+        this.emitNodeEvent(context, node, {
+          status: 'waiting',
+          request: result.waitingFor,
+          wakeAt: result.sleepUntil?.wakeAt,
+        });
+        return { ...result, logs, duration: Date.now() - startTime, retryCount: attempt };
+      }
+
+      if (result.success) {
+        context.nodeOutputs[node.id] = result.output;
+        const duration = Date.now() - startTime;
+
+        await this.executionService.addLogs(context.executionId, logs);
+        this.emitNodeEvent(context, node, {
+          status: 'success',
+          output: result.output,
+          duration,
+          retryCount: attempt,
+        });
+
+        return { ...result, logs, duration, retryCount: attempt };
+      }
+
+      lastResult = result;
+      const errorClass = classifyError({
+        ...result.errorInfo,
+        message: result.error,
+        timedOut: !!result.timedOut,
+      });
+      if (attempt >= policy.maxRetries || result.timedOut === 'workflow' || !shouldRetry(policy, errorClass)) {
+        break;
+      }
+
+      const delay = retryDelay(policy, attempt);
+      logs.push(
+        this.createLog(
+          'warn',
+          `Node execution failed with ${errorClass} error, retrying in ${delay}ms (${attempt + 1}/${policy.maxRetries + 1}): ${result.error}`,
+          node.id,
+        ),
+      );
+      // Cut short by a cancellation, which the next attempt then reports
+      await sleep(delay, context.signal).catch(() => undefined);
+    }
+
+    const lastError = lastResult?.error || 'Node execution failed';
+    const retryCount = Math.min(attempt, policy.maxRetries);
+    const duration = Date.now() - startTime;
+    logs.push(this.createLog('error', lastError, node.id));
+    await this.executionService.addLogs(context.executionId, logs);
+    this.emitNodeEvent(context, node, {
+      status: lastResult?.timedOut ? 'timeout' : 'error',
+      error: lastError,
+      duration,
+      retryCount,
+    });
+
+    return {
+      success: false,
+      error: lastError,
+      errorInfo: lastResult?.errorInfo,
+      logs,
+      duration,
+      retryCount,
+      timedOut: lastResult?.timedOut,
+    };
+  }
+
+  /**
+   * Runs one attempt of a node, abandoning it at the node's or the workflow's
+   * deadline, or when the run is cancelled, and aborting its signal so
+   * executors can stop their work.
+   */
+  private async runAttempt(
+    executor: NodeExecutor,
+    node: WorkflowDefinitionNode,
+    context: ExecutionContext,
+    region?: NodeRegion,
+  ): Promise<NodeExecutionResult> {
+    const attemptStart = Date.now();
+    const remaining = context.timeout
+      ? context.timeout - (attemptStart - context.startTime.getTime())
+      : undefined;
+    const deadline = nodeDeadline(node.type, node.data.config, remaining);
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const attempt = executor.execute(node, context, controller.signal, region).catch(
+      (error): NodeExecutionResult => ({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorInfo: { code: error?.code, status: error?.status },
+        logs: [],
+        duration: Date.now() - attemptStart,
+        retryCount: 0,
+      }),
+    );
+
+    let onCancel: () => void;
+    const cancelled = new Promise<NodeExecutionResult>(resolve => {
+      onCancel = () => {
+        controller.abort();
+        resolve({
+          success: false,
+          error: 'Execution cancelled',
+          cancelled: true,
+          logs: [],
+          duration: Date.now() - attemptStart,
+          retryCount: 0,
+        });
+      };
+      if (context.signal?.aborted) {
+        onCancel();
+      } else {
+        context.signal?.addEventListener('abort', onCancel, { once: true });
+      }
+    });
+
+    const racers = [attempt, cancelled];
+    if (deadline) {
+      racers.push(new Promise<NodeExecutionResult>(resolve => {
+        timer = setTimeout(() => {
+          controller.abort();
+          const error = deadline.reason === 'workflow'
+            ? 'Workflow execution timeout'
+            : `Node timed out after ${node.data.config.timeout}s`;
+          resolve({
+            success: false,
+            error,
+            timedOut: deadline.reason,
+            logs: [],
+            duration: Date.now() - attemptStart,
+            retryCount: 0,
+          });
+        }, deadline.ms);
+      }));
+    }
+
+    try {
+      return await Promise.race(racers);
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  private getTakenEdges(
+    currentNode: WorkflowDefinitionNode,
+    definition: WorkflowDefinition,
+    context: ExecutionContext,
+  ): WorkflowDefinitionEdge[] {
+    // Error edges are only followed when the node fails
+    let outgoingEdges = (definition.edges || []).filter(
+      edge => edge.source === currentNode.id && !isErrorEdge(edge),
+    );
+
+    // A switch only follows the handle of the case it matched
+    if (currentNode.type === 'switch') {
+      const matchedCase = context.nodeOutputs[currentNode.id]?.matchedCase;
+      outgoingEdges = outgoingEdges.filter(edge => (edge.sourceHandle || SWITCH_DEFAULT_CASE) === matchedCase);
+    }
+
+    return outgoingEdges.filter(edge => {
+      if (!edge.data?.condition) {
+        return true;
+      }
+
+      try {
+        const output = context.nodeOutputs[currentNode.id];
+        return evaluateCondition(edge.data.condition, {
+          input: output,
+          output,
+          nodeOutputs: context.nodeOutputs,
+          variables: context.variables,
+        });
+      } catch (error) {
+        this.logger.warn(`Error evaluating edge condition on ${edge.id}: ${error}`);
+        return false;
+      }
+    });
+  }
+
+  private emitNodeEvent(
+    context: ExecutionContext,
+    node: WorkflowDefinitionNode,
+    data: Record<string, any>,
+  ) {
+    this.websocketService.emitNodeExecuted(context.workflowId, context.userId, {
+      executionId: context.executionId,
+      nodeId: node.id,
+      nodeType: node.type,
+      ...data,
+    });
+  }
+
+  private createLog(level: ExecutionLog['level'], message: string, nodeId?: string): ExecutionLog {
+    return {
+      id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(),
+      level,
+      message,
+      nodeId,
+    };
+  }
+}
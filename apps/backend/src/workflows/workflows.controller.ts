@@ -1,6 +1,8 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards, Request } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { WorkflowsService } from './workflows.service';
+import { HumanInputService } from './human-input.service';
+import { ExecutionControlService } from './execution-control.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 
 @ApiTags('Workflows')
@@ -8,7 +10,11 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class WorkflowsController {
-  constructor(private workflowsService: WorkflowsService) {}
+  constructor(
+    private workflowsService: WorkflowsService,
+    private humanInputService: HumanInputService,
+    private executionControlService: ExecutionControlService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all workflows' })
@@ -45,10 +51,107 @@ export class WorkflowsController {
     return this.workflowsService.delete(id, req.user.id);
   }
 
+  @Get(':id/schema')
+  @ApiOperation({ summary: 'Get the input and output schema of a workflow' })
+  @ApiResponse({ status: 200, description: 'Workflow schema retrieved successfully' })
+  async getSchema(@Param('id') id: string, @Request() req) {
+    return this.workflowsService.getSchema(id, req.user.id);
+  }
+
   @Post(':id/execute')
   @ApiOperation({ summary: 'Execute workflow' })
   @ApiResponse({ status: 200, description: 'Workflow execution started' })
   async execute(@Param('id') id: string, @Body() input: any, @Request() req) {
     return this.workflowsService.execute(id, input, req.user.id);
   }
-}
\ No newline at end of file
+
+  @Get(':id/executions')
+  @ApiOperation({ summary: 'Get workflow executions' })
+  @ApiResponse({ status: 200, description: 'Executions retrieved successfully' })
+  async findExecutions(@Param('id') id: string, @Request() req) {
+    return this.workflowsService.findExecutions(id, req.user.id);
+  }
+
+  @Get(':id/executions/:executionId')
+  @ApiOperation({ summary: 'Get workflow execution by ID' })
+  @ApiResponse({ status: 200, description: 'Execution retrieved successfully' })
+  async findExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ) {
+    return this.workflowsService.findExecution(id, executionId, req.user.id);
+  }
+
+  @Get(':id/executions/:executionId/children')
+  @ApiOperation({ summary: 'Get the executions started by sub-workflow nodes of an execution' })
+  @ApiResponse({ status: 200, description: 'Child executions retrieved successfully' })
+  async findChildExecutions(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ) {
+    return this.workflowsService.findChildExecutions(id, executionId, req.user.id);
+  }
+
+  @Post(':id/executions/:executionId/replay')
+  @ApiOperation({ summary: 'Run an execution again, in full or from one of its nodes' })
+  @ApiResponse({ status: 201, description: 'Replay execution queued' })
+  async replayExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Body() body: { fromNodeId?: string },
+    @Request() req,
+  ) {
+    return this.workflowsService.replay(id, executionId, req.user.id, body?.fromNodeId);
+  }
+
+  @Post(':id/executions/:executionId/input')
+  @ApiOperation({ summary: 'Answer a human input node the execution is waiting on' })
+  @ApiResponse({ status: 201, description: 'Input accepted and execution resumed' })
+  async submitInput(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Body() body: { nodeId: string; input: any },
+    @Request() req,
+  ) {
+    await this.workflowsService.findExecution(id, executionId, req.user.id);
+    return this.humanInputService.submitInput(executionId, body.nodeId, body.input, req.user.id);
+  }
+
+  @Post(':id/executions/:executionId/cancel')
+  @ApiOperation({ summary: 'Cancel an execution, stopping any running nodes' })
+  @ApiResponse({ status: 201, description: 'Execution cancelled' })
+  async cancelExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ) {
+    await this.workflowsService.findExecution(id, executionId, req.user.id);
+    return this.executionControlService.cancel(executionId, req.user.id);
+  }
+
+  @Post(':id/executions/:executionId/pause')
+  @ApiOperation({ summary: 'Pause an execution once its running nodes finish' })
+  @ApiResponse({ status: 201, description: 'Execution paused' })
+  async pauseExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ) {
+    await this.workflowsService.findExecution(id, executionId, req.user.id);
+    return this.executionControlService.pause(executionId, req.user.id);
+  }
+
+  @Post(':id/executions/:executionId/resume')
+  @ApiOperation({ summary: 'Resume a paused execution from where it stopped' })
+  @ApiResponse({ status: 201, description: 'Execution resumed' })
+  async resumeExecution(
+    @Param('id') id: string,
+    @Param('executionId') executionId: string,
+    @Request() req,
+  ) {
+    await this.workflowsService.findExecution(id, executionId, req.user.id);
+    return this.executionControlService.resume(executionId, req.user.id);
+  }
+}
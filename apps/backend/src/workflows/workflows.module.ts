@@ -1,18 +1,54 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WorkflowsController } from './workflows.controller';
+import { WebhooksController } from './webhooks.controller';
+import { SchedulesController } from './schedules.controller';
 import { WorkflowsService } from './workflows.service';
 import { WorkflowExecutionService } from './workflow-execution.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { ExecutionWorkerService } from './execution-worker.service';
+import { HumanInputService } from './human-input.service';
+import { ExecutionControlService } from './execution-control.service';
+import { WebhookService } from './webhook.service';
+import { SchedulesService } from './schedules.service';
+import { SchedulerService } from './scheduler.service';
+import { TimerService } from './timer.service';
+import { ExecutionGateway } from './execution.gateway';
+import { WebsocketsModule } from '../websockets/websockets.module';
+import { QueueModule } from '../queue/queue.module';
+import { AgentsModule } from '../agents/agents.module';
+import { AiModule } from '../ai/ai.module';
+import { ToolsModule } from '../tools/tools.module';
+import { AuthModule } from '../auth/auth.module';
 import { Workflow } from '../database/entities/workflow.entity';
 import { WorkflowNode } from '../database/entities/workflow-node.entity';
 import { WorkflowExecution } from '../database/entities/workflow-execution.entity';
+import { WorkflowSchedule } from '../database/entities/workflow-schedule.entity';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Workflow, WorkflowNode, WorkflowExecution]),
+    TypeOrmModule.forFeature([Workflow, WorkflowNode, WorkflowExecution, WorkflowSchedule]),
+    WebsocketsModule,
+    QueueModule,
+    AgentsModule,
+    AiModule,
+    ToolsModule,
+    AuthModule,
+  ],
+  controllers: [WorkflowsController, WebhooksController, SchedulesController],
+  providers: [
+    WorkflowsService,
+    WorkflowExecutionService,
+    WorkflowRunnerService,
+    ExecutionWorkerService,
+    HumanInputService,
+    ExecutionControlService,
+    WebhookService,
+    SchedulesService,
+    SchedulerService,
+    TimerService,
+    ExecutionGateway,
   ],
-  controllers: [WorkflowsController],
-  providers: [WorkflowsService, WorkflowExecutionService],
   exports: [WorkflowsService, WorkflowExecutionService],
 })
 export class WorkflowsModule {}
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { BadRequestException } from '@nestjs/common';
+import { ExecutionTrigger } from '@shared/engine';
+import { WorkflowDefinition } from '@shared/types/workflow';
+import { WorkflowsService } from './workflows.service';
+import { ExecutionStatus } from '../database/entities/workflow-execution.entity';
+
+const inputSchema = { email: { type: 'string' as const, required: true } };
+
+const createService = (definition: WorkflowDefinition) => {
+  const workflowRepository = {
+    findOne: jest.fn().mockResolvedValue({ id: 'wf-1', definition }),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async workflow => ({ id: 'wf-1', ...workflow })),
+  };
+  const executionRepository = {
+    findOne: jest.fn(),
+    create: jest.fn(data => ({ ...data })),
+    save: jest.fn(async execution => ({ id: 'exec-1', ...execution })),
+  };
+  const executionQueue = { enqueue: jest.fn().mockResolvedValue(undefined) };
+  const schedulesService = {
+    validateDefinition: jest.fn(),
+    syncWorkflow: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const service = new WorkflowsService(
+    workflowRepository as any,
+    {} as any,
+    executionRepository as any,
+    executionQueue as any,
+    schedulesService as any,
+  );
+  return { service, workflowRepository, executionRepository, executionQueue };
+};
+
+describe('WorkflowsService', () => {
+  describe('input schema', () => {
+    const definition: WorkflowDefinition = { nodes: [], edges: [], inputSchema };
+
+    it('rejects manual runs whose input does not match', async () => {
+      const { service, executionQueue } = createService(definition);
+
+      await expect(service.execute('wf-1', {}, 'user-1')).rejects.toThrow(
+        new BadRequestException('Invalid workflow input: email is required'),
+      );
+      expect(executionQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('checks the input a sub-workflow node passes', async () => {
+      const { service } = createService(definition);
+      const trigger: ExecutionTrigger = { type: 'sub_workflow', executionId: 'parent-1', parentNodeId: 'call' };
+
+      await expect(service.createExecution('wf-1', { email: 7 }, 'user-1', trigger)).rejects.toThrow(
+        'Invalid workflow input: email must be a string',
+      );
+    });
+
+    it.each<ExecutionTrigger>([
+      { type: 'schedule', nodeId: 'nightly' },
+      { type: 'webhook', nodeId: 'hook' },
+      { type: 'fallback', executionId: 'failed-1' },
+    ])('starts $type runs with the payload they carry', async trigger => {
+      const { service } = createService(definition);
+      const payload = { scheduledAt: '2024-05-01T00:00:00.000Z', scheduleId: 'schedule-1' };
+
+      const execution = await service.execute('wf-1', payload, 'user-1', trigger);
+
+      expect(execution.input).toEqual(payload);
+    });
+  });
+
+  describe('saving', () => {
+    it('rejects required input fields on workflows with trigger nodes', async () => {
+      const { service, workflowRepository } = createService(undefined);
+      const definition = {
+        nodes: [{ id: 'hook', type: 'webhook', data: { label: 'Webhook', config: {} } }],
+        edges: [],
+        inputSchema,
+      };
+
+      await expect(service.create({ name: 'Signups', definition }, 'user-1')).rejects.toThrow(
+        "Input schema: email can't be required because webhook runs start without it",
+      );
+      expect(workflowRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('accepts optional fields and defaults on workflows with trigger nodes', async () => {
+      const { service, workflowRepository } = createService(undefined);
+      const definition = {
+        nodes: [{ id: 'nightly', type: 'schedule', data: { label: 'Nightly', config: {} } }],
+        edges: [],
+        inputSchema: {
+          email: { type: 'string', required: true, default: 'ops@example.com' },
+          limit: { type: 'number' },
+        },
+      };
+
+      await service.create({ name: 'Nightly sync', definition }, 'user-1');
+
+      expect(workflowRepository.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('replay from a node', () => {
+    const node = (id: string, type: string) => ({ id, type, data: { label: id, config: {} } });
+
+    // start -> loop -> end, with the loop running work as its body
+    const definition: WorkflowDefinition = {
+      nodes: [node('start', 'start'), node('loop', 'loop'), node('work', 'step'), node('end', 'end')],
+      edges: [
+        { id: 'e1', source: 'start', target: 'loop' },
+        { id: 'e2', source: 'loop', target: 'work', sourceHandle: 'body' },
+        { id: 'e3', source: 'loop', target: 'end' },
+      ],
+      variables: { region: 'eu' },
+    };
+
+    const original = {
+      id: 'exec-1',
+      status: ExecutionStatus.COMPLETED,
+      input: {},
+      nodeExecutions: [],
+      checkpoint: {
+        scheduler: {
+          nodes: { start: 'completed', loop: 'completed', work: 'completed', end: 'completed' },
+          edges: { e1: 'taken', e3: 'taken' },
+        },
+        nodeOutputs: { start: {}, loop: { results: [], iterations: 2 }, end: {} },
+        variables: { region: 'us', item: 2 },
+      },
+    };
+
+    it('starts from the workflow variables rather than those the run ended with', async () => {
+      const { service, executionRepository, executionQueue } = createService(definition);
+      executionRepository.findOne.mockResolvedValue(original);
+
+      const execution = await service.replay('wf-1', 'exec-1', 'user-1', 'end');
+
+      expect(execution.checkpoint.variables).toEqual({ region: 'eu' });
+      expect(execution.checkpoint.nodeOutputs).toEqual({ start: {}, loop: { results: [], iterations: 2 } });
+      expect(executionQueue.enqueue).toHaveBeenCalledWith('exec-1');
+    });
+
+    it('rejects a node inside a loop body', async () => {
+      const { service, executionRepository, executionQueue } = createService(definition);
+      executionRepository.findOne.mockResolvedValue(original);
+
+      await expect(service.replay('wf-1', 'exec-1', 'user-1', 'work')).rejects.toThrow(
+        new BadRequestException('Node work runs inside loop node loop; replay from loop instead'),
+      );
+      expect(executionQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('rejects a node inside a parallel branch', async () => {
+      const parallel: WorkflowDefinition = {
+        nodes: [node('start', 'start'), node('fork', 'parallel'), node('a', 'step'), node('b', 'step'), node('end', 'end')],
+        edges: [
+          { id: 'e1', source: 'start', target: 'fork' },
+          { id: 'e2', source: 'fork', target: 'a' },
+          { id: 'e3', source: 'fork', target: 'b' },
+          { id: 'e4', source: 'a', target: 'end' },
+          { id: 'e5', source: 'b', target: 'end' },
+        ],
+      };
+      const { service, executionRepository } = createService(parallel);
+      executionRepository.findOne.mockResolvedValue({
+        ...original,
+        checkpoint: {
+          ...original.checkpoint,
+          scheduler: {
+            nodes: { start: 'completed', fork: 'completed', a: 'completed', b: 'completed', end: 'completed' },
+            edges: {},
+          },
+        },
+      });
+
+      await expect(service.replay('wf-1', 'exec-1', 'user-1', 'a')).rejects.toThrow(
+        'Node a runs inside parallel node fork; replay from fork instead',
+      );
+      // Where the branches merge again runs at the top level
+      await expect(service.replay('wf-1', 'exec-1', 'user-1', 'end')).resolves.toBeDefined();
+    });
+  });
+});
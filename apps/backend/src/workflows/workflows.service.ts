@@ -1,9 +1,36 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  ExecutionTrigger,
+  ParameterSchema,
+  SCHEMA_INPUT_TRIGGER_TYPES,
+  checkParameterSchemas,
+  checkTriggerInputSchema,
+  replayFromNode,
+  validateWorkflowInput,
+} from '@shared/engine';
+import { WorkflowDefinition } from '@shared/types/workflow';
 import { Workflow } from '../database/entities/workflow.entity';
 import { WorkflowNode } from '../database/entities/workflow-node.entity';
-import { WorkflowExecution } from '../database/entities/workflow-execution.entity';
+import { ExecutionStatus, WorkflowExecution } from '../database/entities/workflow-execution.entity';
+import { EXECUTION_QUEUE, ExecutionQueue } from '../queue/execution-queue.interface';
+import { SchedulesService } from './schedules.service';
+
+const REPLAYABLE_STATUSES = [
+  ExecutionStatus.COMPLETED,
+  ExecutionStatus.FAILED,
+  ExecutionStatus.CANCELLED,
+];
+
+const PINNED_RECORD_STATUSES = ['success', 'error', 'skipped', 'timeout'];
 
 @Injectable()
 export class WorkflowsService {
@@ -14,6 +41,9 @@ export class WorkflowsService {
     private nodeRepository: Repository<WorkflowNode>,
     @InjectRepository(WorkflowExecution)
     private executionRepository: Repository<WorkflowExecution>,
+    @Inject(EXECUTION_QUEUE)
+    private executionQueue: ExecutionQueue,
+    private schedulesService: SchedulesService,
   ) {}
 
   async findAll(userId: string): Promise<Workflow[]> {
@@ -31,38 +61,229 @@ export class WorkflowsService {
   }
 
   async create(workflowData: Partial<Workflow>, userId: string): Promise<Workflow> {
+    this.schedulesService.validateDefinition(workflowData.definition);
+    this.validateSchemas(workflowData.definition);
+
     const workflow = this.workflowRepository.create({
       ...workflowData,
+      definition: this.assignWebhookTokens(workflowData.definition),
       createdBy: { id: userId } as any,
     });
-    return this.workflowRepository.save(workflow);
+    const saved = await this.workflowRepository.save(workflow);
+    await this.schedulesService.syncWorkflow(saved);
+    return saved;
   }
 
   async update(id: string, workflowData: Partial<Workflow>, userId: string): Promise<Workflow> {
+    this.schedulesService.validateDefinition(workflowData.definition);
+    this.validateSchemas(workflowData.definition);
+
     await this.workflowRepository.update(
       { id, createdBy: { id: userId } },
-      workflowData
+      workflowData.definition
+        ? { ...workflowData, definition: this.assignWebhookTokens(workflowData.definition) }
+        : workflowData
     );
-    return this.findOne(id, userId);
+
+    const workflow = await this.findOne(id, userId);
+    if (workflow) {
+      await this.schedulesService.syncWorkflow(workflow);
+    }
+    return workflow;
   }
 
   async delete(id: string, userId: string): Promise<void> {
     await this.workflowRepository.delete({ id, createdBy: { id: userId } });
   }
 
-  async execute(id: string, input: any, userId: string): Promise<WorkflowExecution> {
+  async execute(
+    id: string,
+    input: any,
+    userId: string,
+    trigger: ExecutionTrigger = { type: 'manual' },
+  ): Promise<WorkflowExecution> {
+    const saved = await this.createExecution(id, input, userId, trigger);
+
+    // Picked up by an ExecutionWorkerService, possibly in another process
+    await this.executionQueue.enqueue(saved.id);
+
+    return saved;
+  }
+
+  /**
+   * Saves a pending execution without queueing it, for callers that run it
+   * themselves. Sub-workflow runs are linked to the execution that started them.
+   */
+  async createExecution(
+    id: string,
+    input: any,
+    userId: string,
+    trigger: ExecutionTrigger = { type: 'manual' },
+  ): Promise<WorkflowExecution> {
     const workflow = await this.findOne(id, userId);
     if (!workflow) {
       throw new Error('Workflow not found');
     }
 
+    // Input a caller passes that doesn't match the workflow's schema never
+    // starts a run; trigger payloads aren't shaped by the schema
+    const definition = (workflow.definition || {}) as WorkflowDefinition;
+    if (SCHEMA_INPUT_TRIGGER_TYPES.includes(trigger.type)) {
+      const checked = validateWorkflowInput(definition.inputSchema, input);
+      if (checked.error) {
+        throw new BadRequestException(checked.error);
+      }
+      input = checked.input;
+    }
+
     const execution = this.executionRepository.create({
       workflow,
       input,
+      trigger,
       triggeredBy: { id: userId } as any,
-      startedAt: new Date(),
+      parentExecutionId: trigger.type === 'sub_workflow' ? trigger.executionId : undefined,
     });
 
     return this.executionRepository.save(execution);
   }
+
+  /**
+   * Runs a finished execution again as a new execution linked to it through
+   * its trigger. A full replay starts over with the same input; a replay
+   * from a node keeps the outputs the original run recorded upstream of it
+   * and re-runs only that node and what follows. Nodes inside loop bodies
+   * and parallel branches can't be replayed from.
+   */
+  async replay(id: string, executionId: string, userId: string, fromNodeId?: string): Promise<WorkflowExecution> {
+    const original = await this.findExecution(id, executionId, userId);
+    if (!REPLAYABLE_STATUSES.includes(original.status)) {
+      throw new ConflictException(`Execution is ${original.status} and can't be replayed until it finishes`);
+    }
+
+    const trigger: ExecutionTrigger = {
+      type: 'replay',
+      nodeId: original.trigger?.nodeId,
+      executionId: original.id,
+      ...(fromNodeId ? { fromNodeId } : {}),
+    };
+
+    if (!fromNodeId) {
+      return this.execute(id, original.input, userId, trigger);
+    }
+
+    const workflow = await this.findOwnedWorkflow(id, userId);
+    const definition = (workflow.definition || {}) as WorkflowDefinition;
+    const { state, error } = replayFromNode(
+      definition.nodes || [],
+      definition.edges || [],
+      original.checkpoint?.scheduler,
+      original.checkpoint?.nodeOutputs,
+      fromNodeId,
+    );
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const execution = await this.createExecution(id, original.input, userId, trigger);
+    const rerun = new Set(state.rerun);
+    execution.checkpoint = {
+      scheduler: state.scheduler,
+      nodeOutputs: state.nodeOutputs,
+      // Only the variables a run ended with are checkpointed, so the replay starts from the workflow's own
+      variables: { ...definition.variables },
+      humanInputs: Object.fromEntries(
+        Object.entries(original.checkpoint.humanInputs || {}).filter(([nodeId]) => !rerun.has(nodeId)),
+      ),
+    };
+    // Pinned nodes keep their records so the new run shows where its inputs came from
+    execution.nodeExecutions = (original.nodeExecutions || []).filter(
+      record => !rerun.has(record.nodeId) && PINNED_RECORD_STATUSES.includes(record.status),
+    );
+    const saved = await this.executionRepository.save(execution);
+
+    await this.executionQueue.enqueue(saved.id);
+    return saved;
+  }
+
+  /** The input a workflow's runs take and the output they return. */
+  async getSchema(
+    id: string,
+    userId: string,
+  ): Promise<{ input: Record<string, ParameterSchema>; output: Record<string, ParameterSchema> }> {
+    const workflow = await this.findOwnedWorkflow(id, userId);
+    const definition = (workflow.definition || {}) as WorkflowDefinition;
+    return { input: definition.inputSchema || {}, output: definition.outputSchema || {} };
+  }
+
+  async findExecutions(id: string, userId: string): Promise<WorkflowExecution[]> {
+    await this.findOwnedWorkflow(id, userId);
+    return this.executionRepository.find({
+      where: { workflow: { id } },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /** Runs started by the execution's sub-workflow nodes, oldest first. */
+  async findChildExecutions(id: string, executionId: string, userId: string): Promise<WorkflowExecution[]> {
+    await this.findExecution(id, executionId, userId);
+    return this.executionRepository.find({
+      where: { parentExecutionId: executionId },
+      relations: ['workflow'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findExecution(id: string, executionId: string, userId: string): Promise<WorkflowExecution> {
+    await this.findOwnedWorkflow(id, userId);
+    const execution = await this.executionRepository.findOne({
+      where: { id: executionId, workflow: { id } },
+    });
+    if (!execution) {
+      throw new NotFoundException('Execution not found');
+    }
+    return execution;
+  }
+
+  /**
+   * Gives every webhook trigger node a secret token for its URL. Tokens are
+   * kept across saves so published URLs stay valid.
+   */
+  private assignWebhookTokens(definition?: Record<string, any>): Record<string, any> | undefined {
+    if (!definition?.nodes) {
+      return definition;
+    }
+
+    return {
+      ...definition,
+      nodes: definition.nodes.map(node =>
+        node.type !== 'webhook' || node.data?.config?.token
+          ? node
+          : {
+              ...node,
+              data: {
+                ...node.data,
+                config: { ...node.data?.config, token: randomBytes(24).toString('hex') },
+              },
+            },
+      ),
+    };
+  }
+
+  private validateSchemas(definition?: Record<string, any>): void {
+    const error =
+      checkParameterSchemas(definition?.inputSchema, 'Input schema') ||
+      checkParameterSchemas(definition?.outputSchema, 'Output schema') ||
+      (definition && checkTriggerInputSchema(definition));
+    if (error) {
+      throw new BadRequestException(error);
+    }
+  }
+
+  private async findOwnedWorkflow(id: string, userId: string): Promise<Workflow> {
+    const workflow = await this.findOne(id, userId);
+    if (!workflow) {
+      throw new NotFoundException('Workflow not found');
+    }
+    return workflow;
+  }
 }
\ No newline at end of file
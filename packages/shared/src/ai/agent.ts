@@ -0,0 +1,150 @@
+import { renderTemplate } from '../expressions';
+import { ChatCompletionOptions, ChatMessage, ChatRouter, StreamingResponse, TokenUsage } from './chat';
+
+export interface AgentSettings {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stopSequences?: string[];
+  streaming?: boolean;
+  responseFormat?: 'text' | 'json';
+}
+
+/** The parts of a stored agent that agent and hybrid nodes run with. */
+export interface AgentDefinition {
+  id: string;
+  name: string;
+  provider: string;
+  model: string;
+  systemPrompt?: string;
+  config?: AgentSettings;
+  isActive?: boolean;
+}
+
+/** Node settings that shape an agent request; they win over the agent's own. */
+export interface AgentNodeSettings {
+  prompt?: string;
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** What an agent request is rendered against. */
+export interface AgentScope {
+  input: Record<string, any>;
+  nodeOutputs: Record<string, any>;
+  variables: Record<string, any>;
+}
+
+export interface AgentCompletion {
+  text: string;
+  usage?: TokenUsage;
+  finishReason?: string;
+}
+
+// Node-level JSON overriding the agent's settings; snake_case keys are accepted
+export function parseAgentOverrides(raw?: string): Partial<AgentSettings> & Record<string, any> {
+  if (!raw || !raw.trim()) return {};
+
+  let parsed: Record<string, any>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Agent configuration must be valid JSON');
+  }
+
+  const { max_tokens, top_p, frequency_penalty, presence_penalty, stop, ...rest } = parsed;
+  return {
+    ...rest,
+    ...(max_tokens !== undefined && { maxTokens: max_tokens }),
+    ...(top_p !== undefined && { topP: top_p }),
+    ...(frequency_penalty !== undefined && { frequencyPenalty: frequency_penalty }),
+    ...(presence_penalty !== undefined && { presencePenalty: presence_penalty }),
+    ...(stop !== undefined && { stopSequences: stop }),
+  };
+}
+
+/**
+ * Builds the chat request for an agent-backed node: the system prompt and
+ * the node's prompt template rendered against upstream outputs and variables.
+ */
+export function buildAgentRequest(
+  config: AgentNodeSettings,
+  context: AgentScope,
+  agent: AgentDefinition,
+  overrides: Partial<AgentSettings>,
+): ChatCompletionOptions {
+  const agentConfig: AgentSettings = { ...agent.config, ...overrides };
+
+  const previousOutputs = Object.values(context.nodeOutputs);
+  const lastOutput = previousOutputs[previousOutputs.length - 1];
+  const scope = {
+    input: lastOutput,
+    nodeOutputs: context.nodeOutputs,
+    variables: context.variables,
+  };
+
+  const messages: ChatMessage[] = [];
+  const systemPrompt = config.systemPrompt || agent.systemPrompt;
+  if (systemPrompt) {
+    messages.push({ role: 'system', content: renderTemplate(systemPrompt, scope) });
+  }
+  messages.push({
+    role: 'user',
+    // Without a prompt the agent is handed whatever the previous node produced
+    content: config.prompt
+      ? renderTemplate(config.prompt, scope)
+      : typeof lastOutput === 'string' ? lastOutput : JSON.stringify(lastOutput ?? context.input),
+  });
+
+  return {
+    model: config.model || agent.model,
+    messages,
+    temperature: config.temperature ?? agentConfig.temperature,
+    maxTokens: config.maxTokens ?? agentConfig.maxTokens,
+    topP: agentConfig.topP,
+    frequencyPenalty: agentConfig.frequencyPenalty,
+    presencePenalty: agentConfig.presencePenalty,
+    stop: agentConfig.stopSequences,
+    responseFormat: agentConfig.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+  };
+}
+
+/**
+ * Runs an agent request to its final text. Given `onChunk` the response is
+ * streamed and every chunk passed on; a provider that fails mid-stream is
+ * replaced by the router's next one, whose text starts over.
+ */
+export async function completeAgent(
+  router: ChatRouter,
+  request: ChatCompletionOptions,
+  provider: string,
+  onChunk?: (chunk: StreamingResponse) => void,
+): Promise<AgentCompletion> {
+  if (!onChunk) {
+    const response = await router.chatCompletion(request, provider);
+    const choice = response.choices[0];
+    return { text: choice?.message.content || '', usage: response.usage, finishReason: choice?.finishReason };
+  }
+
+  let text = '';
+  let usage: TokenUsage | undefined;
+  let finishReason: string | undefined;
+
+  await router.streamChatCompletion(request, chunk => {
+    if (chunk.type === 'text') {
+      text += chunk.delta ?? chunk.content;
+    } else if (chunk.type === 'complete') {
+      usage = chunk.metadata?.usage;
+      finishReason = chunk.metadata?.finishReason;
+    } else if (chunk.type === 'error') {
+      text = '';
+    }
+    onChunk(chunk);
+  }, provider);
+
+  return { text, usage, finishReason };
+}
@@ -0,0 +1,153 @@
+import { ParameterSchema } from '../engine/workflow-schema';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
+  content: string;
+  name?: string;
+  function_call?: any;
+  // Tools the assistant asked to call
+  toolCalls?: ToolCall[];
+  // On a `tool` message, the call it answers
+  toolCallId?: string;
+}
+
+/** A tool offered to the model; `parameters` is a JSON Schema object. */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+}
+
+/** A tool call requested by the model, in the same shape for every provider. */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ChatCompletionOptions {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  stream?: boolean;
+  functions?: any[];
+  functionCall?: any;
+  tools?: ToolDefinition[];
+  responseFormat?: { type: 'text' | 'json_object' };
+  // Cancels the request where the provider's SDK supports it
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: ChatMessage;
+    finishReason: string;
+  }[];
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export type TokenUsage = ChatCompletionResponse['usage'];
+
+export interface StreamingResponse {
+  id: string;
+  type: 'text' | 'function_call' | 'error' | 'complete';
+  content: string;
+  delta?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Sends completions to a model provider, trying the preferred one first.
+ * Provider SDKs and their API keys stay with whoever implements it: the
+ * backend, or a host application that hands one to the browser engine.
+ */
+export interface ChatRouter {
+  chatCompletion(options: ChatCompletionOptions, preferredProvider?: string): Promise<ChatCompletionResponse>;
+  streamChatCompletion(
+    options: ChatCompletionOptions,
+    onChunk: (chunk: StreamingResponse) => void,
+    preferredProvider?: string,
+  ): Promise<void>;
+}
+
+// Providers report usage in their own shape; streams hand it on in this one
+export function normalizeUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const promptTokens = usage.promptTokens ?? usage.prompt_tokens ?? usage.input_tokens ?? usage.promptTokenCount ?? 0;
+  const completionTokens =
+    usage.completionTokens ?? usage.completion_tokens ?? usage.output_tokens ?? usage.candidatesTokenCount ?? 0;
+  const totalTokens = usage.totalTokens ?? usage.total_tokens ?? usage.totalTokenCount ?? promptTokens + completionTokens;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+// Tool names may only use letters, digits, underscores and dashes
+export function toToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64) || 'tool';
+}
+
+function toJsonSchema(schema: ParameterSchema): Record<string, any> {
+  const json: Record<string, any> = { type: schema.type };
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.format) json.format = schema.format;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) Object.assign(json, toObjectSchema(schema.properties));
+  return json;
+}
+
+function toObjectSchema(properties: Record<string, ParameterSchema>): Record<string, any> {
+  const names = Object.keys(properties);
+  return {
+    type: 'object',
+    properties: names.reduce<Record<string, any>>((result, name) => {
+      result[name] = toJsonSchema(properties[name]);
+      return result;
+    }, {}),
+    required: names.filter(name => properties[name].required),
+  };
+}
+
+/** What a tool has to tell the model about itself. */
+export interface DescribedTool {
+  name: string;
+  description?: string;
+  schema?: { input?: Record<string, ParameterSchema> };
+}
+
+/** Describes a tool to the model, with parameters taken from its input schema. */
+export function toToolDefinition(tool: DescribedTool): ToolDefinition {
+  return {
+    name: toToolName(tool.name),
+    description: tool.description,
+    parameters: toObjectSchema(tool.schema?.input || {}),
+  };
+}
+
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+// Token counts as agent and hybrid nodes report them in their output
+export function formatTokens(usage?: TokenUsage) {
+  return usage && { input: usage.promptTokens, output: usage.completionTokens, total: usage.totalTokens };
+}
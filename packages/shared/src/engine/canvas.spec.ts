@@ -0,0 +1,48 @@
+import { evaluateCondition } from '../expressions';
+import { CanvasEdge, fromCanvasEdge } from './canvas';
+import { DagScheduler } from './dag-scheduler';
+import { dryRunOutput } from './dry-run';
+
+describe('fromCanvasEdge', () => {
+  it('keeps the condition and label of a drawn edge', () => {
+    const edge = fromCanvasEdge({
+      id: 'e1',
+      source: 'a',
+      target: 'b',
+      sourceHandle: null,
+      targetHandle: null,
+      data: { condition: 'output.status >= 400', label: 'Failed' },
+    });
+
+    expect(edge).toEqual({
+      id: 'e1',
+      source: 'a',
+      target: 'b',
+      sourceHandle: undefined,
+      targetHandle: undefined,
+      data: { condition: 'output.status >= 400', label: 'Failed' },
+    });
+  });
+
+  it('leaves a conditional edge untaken in a dry run when its condition fails', () => {
+    // The mocked API call answers 200, so only the edge to `store` is followed
+    const canvasEdges: CanvasEdge[] = [
+      { id: 'call-alert', source: 'call', target: 'alert', data: { condition: 'output.status >= 400' } },
+      { id: 'call-store', source: 'call', target: 'store', data: { condition: 'output.status < 400' } },
+    ];
+    const edges = canvasEdges.map(fromCanvasEdge);
+    const scheduler = new DagScheduler(
+      ['call', 'alert', 'store'].map(id => ({ id, data: { config: {} } })),
+      edges,
+    );
+    const { output } = dryRunOutput({ id: 'call', type: 'api_call', config: { url: 'https://api.example.com' } }, {});
+
+    const taken = edges
+      .filter(edge => !edge.data?.condition || evaluateCondition(edge.data.condition, { output }))
+      .map(edge => edge.id);
+    scheduler.start(['call']);
+    scheduler.takeReady();
+
+    expect(scheduler.complete('call', taken)).toEqual({ ready: ['store'], skipped: ['alert'] });
+  });
+});
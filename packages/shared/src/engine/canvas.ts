@@ -0,0 +1,26 @@
+import { WorkflowDefinitionEdge } from '../types/workflow';
+
+/** An edge as the canvas holds it; a missing handle is null there. */
+export interface CanvasEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+  data?: WorkflowDefinitionEdge['data'];
+}
+
+/**
+ * The edge the engines run from one drawn on the canvas. Its data is kept,
+ * as runs read edge conditions and labels from it.
+ */
+export function fromCanvasEdge(edge: CanvasEdge): WorkflowDefinitionEdge {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle || undefined,
+    targetHandle: edge.targetHandle || undefined,
+    data: edge.data,
+  };
+}
@@ -0,0 +1,283 @@
+import { DagScheduler, SchedulerEdge, SchedulerNode } from './dag-scheduler';
+
+const node = (id: string, config?: Record<string, unknown>): SchedulerNode => ({ id, data: { config } });
+const edge = (source: string, target: string): SchedulerEdge => ({ id: `${source}-${target}`, source, target });
+
+// a fans out to b and c, which join again at d
+const diamond = (joinConfig?: Record<string, unknown>) =>
+  new DagScheduler(
+    [node('a'), node('b'), node('c'), node('d', joinConfig)],
+    [edge('a', 'b'), edge('a', 'c'), edge('b', 'd'), edge('c', 'd')],
+  );
+
+describe('DagScheduler', () => {
+  it('hands out entry nodes once and then their successors', () => {
+    const scheduler = new DagScheduler([node('a'), node('b')], [edge('a', 'b')]);
+    scheduler.start(['a']);
+
+    expect(scheduler.takeReady()).toEqual(['a']);
+    expect(scheduler.takeReady()).toEqual([]);
+    expect(scheduler.hasWork()).toBe(true);
+
+    expect(scheduler.complete('a', ['a-b'])).toEqual({ ready: ['b'], skipped: [] });
+    expect(scheduler.takeReady()).toEqual(['b']);
+
+    scheduler.complete('b', []);
+    expect(scheduler.hasWork()).toBe(false);
+  });
+
+  it('finds cycles', () => {
+    expect(diamond().findCycle()).toBeUndefined();
+
+    const cyclic = new DagScheduler(
+      [node('a'), node('b'), node('c')],
+      [edge('a', 'b'), edge('b', 'c'), edge('c', 'b')],
+    );
+    expect(['b', 'c']).toContain(cyclic.findCycle());
+  });
+
+  describe('join modes', () => {
+    const runBranches = (scheduler: DagScheduler, taken: string[]) => {
+      scheduler.start(['a']);
+      scheduler.takeReady();
+      return scheduler.complete('a', taken);
+    };
+
+    it('waits for every inbound edge by default', () => {
+      const scheduler = diamond();
+      runBranches(scheduler, ['a-b', 'a-c']);
+      expect(scheduler.takeReady()).toEqual(['b', 'c']);
+
+      expect(scheduler.complete('b', ['b-d']).ready).toEqual([]);
+      expect(scheduler.getNodeState('d')).toBe('pending');
+      expect(scheduler.complete('c', ['c-d']).ready).toEqual(['d']);
+    });
+
+    it('runs an all-join when only some of its branches ran', () => {
+      const scheduler = diamond();
+      expect(runBranches(scheduler, ['a-b'])).toEqual({ ready: ['b'], skipped: ['c'] });
+
+      scheduler.takeReady();
+      expect(scheduler.complete('b', ['b-d']).ready).toEqual(['d']);
+    });
+
+    it("runs an 'any' join on the first branch to reach it, once", () => {
+      const scheduler = diamond({ joinMode: 'any' });
+      runBranches(scheduler, ['a-b', 'a-c']);
+      scheduler.takeReady();
+
+      expect(scheduler.complete('c', ['c-d']).ready).toEqual(['d']);
+      expect(scheduler.takeReady()).toEqual(['d']);
+      expect(scheduler.complete('b', ['b-d']).ready).toEqual([]);
+      expect(scheduler.getNodeState('d')).toBe('running');
+    });
+
+    it("skips an 'any' join no branch reached", () => {
+      const scheduler = diamond({ joinMode: 'any' });
+      runBranches(scheduler, ['a-b', 'a-c']);
+      scheduler.takeReady();
+
+      scheduler.complete('b', []);
+      expect(scheduler.complete('c', []).skipped).toEqual(['d']);
+    });
+
+    describe('joinCount', () => {
+      const fanIn = (joinCount: number) =>
+        new DagScheduler(
+          [node('a'), node('b'), node('c'), node('d'), node('join', { joinCount })],
+          [
+            edge('a', 'b'), edge('a', 'c'), edge('a', 'd'),
+            edge('b', 'join'), edge('c', 'join'), edge('d', 'join'),
+          ],
+        );
+
+      it('runs once enough branches arrive', () => {
+        const scheduler = fanIn(2);
+        runBranches(scheduler, ['a-b', 'a-c', 'a-d']);
+        scheduler.takeReady();
+
+        expect(scheduler.complete('b', ['b-join']).ready).toEqual([]);
+        expect(scheduler.complete('d', ['d-join']).ready).toEqual(['join']);
+        expect(scheduler.complete('c', ['c-join']).ready).toEqual([]);
+      });
+
+      it('is skipped when too few branches can arrive', () => {
+        const scheduler = fanIn(2);
+        runBranches(scheduler, ['a-b', 'a-c', 'a-d']);
+        scheduler.takeReady();
+
+        scheduler.complete('b', ['b-join']);
+        expect(scheduler.complete('c', []).skipped).toEqual([]);
+        expect(scheduler.complete('d', []).skipped).toEqual(['join']);
+      });
+
+      it('never waits for more edges than the node has', () => {
+        const scheduler = fanIn(5);
+        runBranches(scheduler, ['a-b', 'a-c', 'a-d']);
+        scheduler.takeReady();
+
+        scheduler.complete('b', ['b-join']);
+        scheduler.complete('c', ['c-join']);
+        expect(scheduler.complete('d', ['d-join']).ready).toEqual(['join']);
+      });
+    });
+  });
+
+  describe('skip propagation', () => {
+    it('skips everything only an untaken edge leads to', () => {
+      const scheduler = new DagScheduler(
+        [node('check'), node('yes'), node('no'), node('notify'), node('archive')],
+        [edge('check', 'yes'), edge('check', 'no'), edge('no', 'notify'), edge('notify', 'archive')],
+      );
+      scheduler.start(['check']);
+      scheduler.takeReady();
+
+      expect(scheduler.complete('check', ['check-yes'])).toEqual({
+        ready: ['yes'],
+        skipped: ['no', 'notify', 'archive'],
+      });
+      expect(scheduler.snapshot().edges).toMatchObject({ 'no-notify': 'skipped', 'notify-archive': 'skipped' });
+    });
+
+    it('skips triggers a run did not start from without holding up joins', () => {
+      const scheduler = new DagScheduler(
+        [node('start'), node('webhook'), node('parse'), node('merge')],
+        [edge('start', 'merge'), edge('webhook', 'parse'), edge('parse', 'merge')],
+      );
+
+      expect(scheduler.skip(['webhook'])).toEqual({ ready: [], skipped: ['webhook', 'parse'] });
+      scheduler.start(['start']);
+      scheduler.takeReady();
+      expect(scheduler.complete('start', ['start-merge']).ready).toEqual(['merge']);
+    });
+
+    it('stops at a failed node', () => {
+      const scheduler = new DagScheduler([node('a'), node('b')], [edge('a', 'b')]);
+      scheduler.start(['a']);
+      scheduler.takeReady();
+
+      expect(scheduler.fail('a')).toEqual({ ready: [], skipped: ['b'] });
+      expect(scheduler.getNodeState('a')).toBe('failed');
+    });
+
+    it('follows only the error branch of a failed node', () => {
+      const scheduler = new DagScheduler(
+        [node('call'), node('next'), node('handler')],
+        [edge('call', 'next'), edge('call', 'handler')],
+      );
+      scheduler.start(['call']);
+      scheduler.takeReady();
+
+      expect(scheduler.complete('call', ['call-handler'], 'failed')).toEqual({
+        ready: ['handler'],
+        skipped: ['next'],
+      });
+    });
+  });
+
+  describe('completeRegion', () => {
+    // A parallel node whose branches x and y merge again at m
+    const parallel = () => {
+      const scheduler = new DagScheduler(
+        [node('p'), node('x'), node('y'), node('m'), node('after')],
+        [edge('p', 'x'), edge('p', 'y'), edge('x', 'm'), edge('y', 'm'), edge('m', 'after')],
+      );
+      scheduler.start(['p']);
+      scheduler.takeReady();
+      return scheduler;
+    };
+
+    it('settles the branches and continues at the merge', () => {
+      const scheduler = parallel();
+
+      const transition = scheduler.completeRegion(
+        'p',
+        { x: 'completed', y: 'completed' },
+        ['p-x', 'p-y', 'x-m', 'y-m'],
+      );
+
+      expect(transition).toEqual({ ready: ['m'], skipped: [] });
+      expect(scheduler.snapshot().nodes).toMatchObject({ p: 'completed', x: 'completed', y: 'completed' });
+      // The branches ran inside the parallel node and are not handed out again
+      expect(scheduler.takeReady()).toEqual(['m']);
+    });
+
+    it('treats cancelled branches as skipped', () => {
+      const scheduler = parallel();
+
+      const transition = scheduler.completeRegion('p', { x: 'completed', y: 'skipped' }, ['p-x', 'x-m']);
+
+      expect(transition.ready).toEqual(['m']);
+      expect(scheduler.snapshot().edges).toMatchObject({ 'p-y': 'skipped', 'y-m': 'skipped' });
+    });
+
+    it('skips what comes after when no branch reached the merge', () => {
+      const scheduler = parallel();
+
+      const transition = scheduler.completeRegion('p', { x: 'failed', y: 'failed' }, ['p-x', 'p-y']);
+
+      expect(transition).toEqual({ ready: [], skipped: ['m', 'after'] });
+    });
+
+    it('leaves a loop through its exit edges', () => {
+      const scheduler = new DagScheduler(
+        [node('loop'), node('body'), node('done')],
+        [edge('loop', 'body'), edge('loop', 'done')],
+      );
+      scheduler.start(['loop']);
+      scheduler.takeReady();
+
+      expect(scheduler.completeRegion('loop', { body: 'completed' }, ['loop-done'])).toEqual({
+        ready: ['done'],
+        skipped: [],
+      });
+      expect(scheduler.getNodeState('body')).toBe('completed');
+    });
+  });
+
+  describe('snapshots', () => {
+    it('are copies of the current state', () => {
+      const scheduler = diamond();
+      scheduler.start(['a']);
+      const snapshot = scheduler.snapshot();
+
+      scheduler.takeReady();
+      scheduler.complete('a', ['a-b', 'a-c']);
+
+      expect(snapshot).toEqual({
+        nodes: { a: 'ready', b: 'pending', c: 'pending', d: 'pending' },
+        edges: {},
+      });
+    });
+
+    it('restore a run where it stopped', () => {
+      const scheduler = diamond();
+      scheduler.start(['a']);
+      scheduler.takeReady();
+      scheduler.complete('a', ['a-b', 'a-c']);
+      scheduler.takeReady();
+      scheduler.complete('b', ['b-d']);
+
+      const restored = new DagScheduler(
+        [node('a'), node('b'), node('c'), node('d')],
+        [edge('a', 'b'), edge('a', 'c'), edge('b', 'd'), edge('c', 'd')],
+        JSON.parse(JSON.stringify(scheduler.snapshot())),
+      );
+
+      // c was in flight, so it runs again; the join still remembers b's edge
+      expect(restored.getNodeState('b')).toBe('completed');
+      expect(restored.takeReady()).toEqual(['c']);
+      expect(restored.complete('c', ['c-d']).ready).toEqual(['d']);
+    });
+
+    it('ignore nodes that are no longer in the workflow', () => {
+      const restored = new DagScheduler([node('a')], [], {
+        nodes: { a: 'completed', removed: 'ready' },
+        edges: {},
+      });
+
+      expect(restored.getNodeState('removed')).toBeUndefined();
+      expect(restored.hasWork()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+export interface SchedulerNode {
+  id: string;
+  data?: { config?: any };
+}
+
+export interface SchedulerEdge {
+  id: string;
+  source: string;
+  target: string;
+}
+
+export type ScheduledNodeState = 'pending' | 'ready' | 'running' | 'completed' | 'failed' | 'skipped';
+export type ScheduledEdgeState = 'taken' | 'skipped';
+
+/**
+ * How many inbound edges a node waits for. `all` (the default) runs the node
+ * once every inbound edge has resolved and at least one was taken; `any` runs
+ * it on the first taken edge; a `joinCount` runs it once that many are taken.
+ */
+export type JoinMode = 'all' | 'any';
+
+export interface DagSchedulerSnapshot {
+  nodes: Record<string, ScheduledNodeState>;
+  edges: Record<string, ScheduledEdgeState>;
+}
+
+export interface SchedulerTransition {
+  ready: string[];
+  skipped: string[];
+}
+
+/**
+ * Tracks which nodes of a workflow graph can run. Engines feed it completed
+ * nodes together with the outgoing edges they took; nodes behind edges that
+ * were not taken are skipped, so joins downstream of a condition still fire
+ * once the branches that did run have finished. The state is plain data so a
+ * run can be checkpointed and restored on another worker.
+ */
+export class DagScheduler {
+  private readonly nodes = new Map<string, SchedulerNode>();
+  private readonly incoming = new Map<string, SchedulerEdge[]>();
+  private readonly outgoing = new Map<string, SchedulerEdge[]>();
+  private nodeStates: Record<string, ScheduledNodeState> = {};
+  private edgeStates: Record<string, ScheduledEdgeState> = {};
+
+  constructor(nodes: SchedulerNode[], edges: SchedulerEdge[], snapshot?: DagSchedulerSnapshot) {
+    for (const node of nodes) {
+      this.nodes.set(node.id, node);
+      this.incoming.set(node.id, []);
+      this.outgoing.set(node.id, []);
+      this.nodeStates[node.id] = 'pending';
+    }
+
+    for (const edge of edges) {
+      if (!this.nodes.has(edge.source) || !this.nodes.has(edge.target)) continue;
+      this.outgoing.get(edge.source)!.push(edge);
+      this.incoming.get(edge.target)!.push(edge);
+    }
+
+    if (snapshot) {
+      this.edgeStates = { ...snapshot.edges };
+      for (const [nodeId, state] of Object.entries(snapshot.nodes)) {
+        if (!this.nodes.has(nodeId)) continue;
+        // Whatever was in flight when the snapshot was taken has to run again
+        this.nodeStates[nodeId] = state === 'running' ? 'ready' : state;
+      }
+    }
+  }
+
+  /**
+   * Returns the id of a node that sits on a cycle, or undefined when the
+   * graph is acyclic.
+   */
+  findCycle(): string | undefined {
+    const inDegree = new Map<string, number>();
+    this.nodes.forEach((_, id) => inDegree.set(id, this.incoming.get(id)!.length));
+
+    const queue = Array.from(inDegree.keys()).filter(id => inDegree.get(id) === 0);
+    let visited = 0;
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      visited++;
+      for (const edge of this.outgoing.get(id)!) {
+        const remaining = inDegree.get(edge.target)! - 1;
+        inDegree.set(edge.target, remaining);
+        if (remaining === 0) queue.push(edge.target);
+      }
+    }
+
+    if (visited === this.nodes.size) return undefined;
+    return Array.from(inDegree.keys()).find(id => inDegree.get(id)! > 0);
+  }
+
+  start(entryNodeIds: string[]): void {
+    for (const id of entryNodeIds) {
+      if (this.nodeStates[id] === 'pending') this.nodeStates[id] = 'ready';
+    }
+  }
+
+  /**
+   * Marks nodes that will not run, such as the triggers a run did not start
+   * from, as skipped so joins waiting on them can still resolve.
+   */
+  skip(nodeIds: string[]): SchedulerTransition {
+    const transition: SchedulerTransition = { ready: [], skipped: [] };
+    for (const id of nodeIds) {
+      if (this.nodeStates[id] !== 'pending') continue;
+      this.nodeStates[id] = 'skipped';
+      transition.skipped.push(id);
+      for (const edge of this.outgoing.get(id) || []) {
+        this.edgeStates[edge.id] = 'skipped';
+      }
+      this.resolveTargets(id, transition);
+    }
+    return transition;
+  }
+
+  /** Hands out every ready node and marks it running. */
+  takeReady(): string[] {
+    const ready = Object.keys(this.nodeStates).filter(id => this.nodeStates[id] === 'ready');
+    ready.forEach(id => (this.nodeStates[id] = 'running'));
+    return ready;
+  }
+
+  /**
+   * Records a finished node. Outgoing edges listed in `takenEdgeIds` are
+   * followed, the rest are marked skipped.
+   */
+  complete(
+    nodeId: string,
+    takenEdgeIds: string[],
+    state: 'completed' | 'failed' = 'completed',
+  ): SchedulerTransition {
+    this.nodeStates[nodeId] = state;
+    const taken = new Set(takenEdgeIds);
+    const transition: SchedulerTransition = { ready: [], skipped: [] };
+
+    for (const edge of this.outgoing.get(nodeId) || []) {
+      this.edgeStates[edge.id] = taken.has(edge.id) ? 'taken' : 'skipped';
+    }
+    this.resolveTargets(nodeId, transition);
+    return transition;
+  }
+
+  /**
+   * Records a node that ran a region of the graph itself, such as a parallel
+   * node running its branches. The region's nodes take the given final states
+   * and edges leaving the owner or the region are resolved from
+   * `takenEdgeIds`, so nodes downstream of the region join as usual.
+   */
+  completeRegion(
+    ownerId: string,
+    regionStates: Record<string, 'completed' | 'failed' | 'skipped'>,
+    takenEdgeIds: string[],
+  ): SchedulerTransition {
+    const sources = [ownerId, ...Object.keys(regionStates)];
+    const taken = new Set(takenEdgeIds);
+    const transition: SchedulerTransition = { ready: [], skipped: [] };
+
+    this.nodeStates[ownerId] = 'completed';
+    Object.keys(regionStates).forEach(id => (this.nodeStates[id] = regionStates[id]));
+
+    for (const id of sources) {
+      for (const edge of this.outgoing.get(id) || []) {
+        this.edgeStates[edge.id] = taken.has(edge.id) ? 'taken' : 'skipped';
+      }
+    }
+    sources.forEach(id => this.resolveTargets(id, transition));
+    return transition;
+  }
+
+  /** Marks a node failed without following any of its outgoing edges. */
+  fail(nodeId: string): SchedulerTransition {
+    return this.complete(nodeId, [], 'failed');
+  }
+
+  getNodeState(nodeId: string): ScheduledNodeState | undefined {
+    return this.nodeStates[nodeId];
+  }
+
+  getIncomingEdges(nodeId: string): SchedulerEdge[] {
+    return this.incoming.get(nodeId) || [];
+  }
+
+  getOutgoingEdges(nodeId: string): SchedulerEdge[] {
+    return this.outgoing.get(nodeId) || [];
+  }
+
+  isEdgeTaken(edgeId: string): boolean {
+    return this.edgeStates[edgeId] === 'taken';
+  }
+
+  /** True while any node is ready or running. */
+  hasWork(): boolean {
+    return Object.values(this.nodeStates).some(state => state === 'ready' || state === 'running');
+  }
+
+  snapshot(): DagSchedulerSnapshot {
+    return { nodes: { ...this.nodeStates }, edges: { ...this.edgeStates } };
+  }
+
+  private resolveTargets(sourceId: string, transition: SchedulerTransition): void {
+    const worklist = [sourceId];
+
+    while (worklist.length > 0) {
+      const id = worklist.shift()!;
+      for (const edge of this.outgoing.get(id) || []) {
+        const decision = this.evaluateJoin(edge.target);
+        if (decision === 'ready') {
+          this.nodeStates[edge.target] = 'ready';
+          transition.ready.push(edge.target);
+        } else if (decision === 'skipped') {
+          this.nodeStates[edge.target] = 'skipped';
+          transition.skipped.push(edge.target);
+          for (const skippedEdge of this.outgoing.get(edge.target) || []) {
+            this.edgeStates[skippedEdge.id] = 'skipped';
+          }
+          worklist.push(edge.target);
+        }
+      }
+    }
+  }
+
+  private evaluateJoin(nodeId: string): 'ready' | 'skipped' | 'waiting' {
+    if (this.nodeStates[nodeId] !== 'pending') return 'waiting';
+
+    const inbound = this.incoming.get(nodeId) || [];
+    const taken = inbound.filter(edge => this.edgeStates[edge.id] === 'taken').length;
+    const resolved = inbound.filter(edge => this.edgeStates[edge.id] !== undefined).length;
+    const config = this.nodes.get(nodeId)?.data?.config || {};
+
+    let required: number | undefined;
+    if (typeof config.joinCount === 'number' && config.joinCount > 0) {
+      required = Math.min(config.joinCount, inbound.length);
+    } else if (config.joinMode === 'any') {
+      required = 1;
+    }
+
+    if (required !== undefined && taken >= required) return 'ready';
+    if (resolved < inbound.length) return 'waiting';
+    if (required !== undefined) return 'skipped';
+    return taken > 0 ? 'ready' : 'skipped';
+  }
+}
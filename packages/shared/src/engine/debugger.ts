@@ -0,0 +1,55 @@
+/**
+ * `step` runs the node the debugger stopped at and stops before the next
+ * one, `continue` runs on to the next breakpoint, `skip` moves past the node
+ * without running it, and `set_variable` changes a variable while the run
+ * stays stopped.
+ */
+export type DebugAction = 'step' | 'continue' | 'skip' | 'set_variable';
+
+export interface DebugCommand {
+  action: DebugAction;
+  // Variable name and new value for `set_variable`
+  name?: string;
+  value?: unknown;
+}
+
+export type DebugBreakReason = 'step' | 'breakpoint';
+
+/** What the debugger shows while a run is stopped before a node. */
+export interface DebugSnapshot {
+  executionId: string;
+  nodeId: string;
+  nodeType: string;
+  reason: DebugBreakReason;
+  // Outputs of the upstream nodes the node will receive, keyed by node id
+  input: Record<string, any>;
+  variables: Record<string, any>;
+  nodeOutputs: Record<string, any>;
+}
+
+const DEBUG_ACTIONS: DebugAction[] = ['step', 'continue', 'skip', 'set_variable'];
+
+/**
+ * Whether a debugged run stops before a node. Breakpoints always stop it;
+ * while stepping it stops before every node.
+ */
+export function debugBreakReason(
+  stepping: boolean,
+  breakpoints: string[],
+  nodeId: string,
+): DebugBreakReason | undefined {
+  if (breakpoints.includes(nodeId)) {
+    return 'breakpoint';
+  }
+  return stepping ? 'step' : undefined;
+}
+
+export function validateDebugCommand(command: DebugCommand | undefined): string | undefined {
+  if (!command || !DEBUG_ACTIONS.includes(command.action)) {
+    return `Unknown debug action ${command?.action}`;
+  }
+  if (command.action === 'set_variable' && !command.name) {
+    return 'Variable name is required';
+  }
+  return undefined;
+}
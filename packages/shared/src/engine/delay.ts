@@ -0,0 +1,140 @@
+import { ExpressionScope, evaluateCondition, renderTemplateValue } from '../expressions';
+
+/**
+ * `duration` waits a fixed time, `until` waits for a date and time, and
+ * `condition` re-checks an expression every poll interval until it holds.
+ */
+export type DelayMode = 'duration' | 'until' | 'condition';
+export type DelayUnit = 'seconds' | 'minutes' | 'hours' | 'days';
+
+export interface DelayNodeConfig {
+  delayMode?: DelayMode;
+  delayTime?: number;
+  delayUnit?: DelayUnit;
+  // ISO date or a template resolving to one, e.g. `{{ input.sendAt }}`
+  until?: string;
+  condition?: string;
+  // Seconds between condition checks
+  pollInterval?: number;
+  // Minutes to keep checking the condition before the node fails
+  maxWait?: number;
+}
+
+export const DEFAULT_DELAY_POLL_INTERVAL_SECONDS = 60;
+export const DEFAULT_DELAY_MAX_WAIT_MINUTES = 24 * 60;
+
+const UNIT_MS: Record<DelayUnit, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+/** A delay node the execution is suspended on, and when to wake it. */
+export interface DelayTimer {
+  nodeId: string;
+  mode: DelayMode;
+  startedAt: string;
+  wakeAt: string;
+  // Condition checks made so far
+  polls?: number;
+}
+
+export type DelayStep =
+  | { status: 'done'; startedAt: string; polls?: number }
+  | { status: 'waiting'; timer: DelayTimer }
+  | { status: 'failed'; error: string };
+
+export function delayDurationMs(config: DelayNodeConfig): number {
+  const time = typeof config.delayTime === 'number' && config.delayTime >= 0 ? config.delayTime : 5;
+  return time * (UNIT_MS[config.delayUnit || 'seconds'] || UNIT_MS.seconds);
+}
+
+/**
+ * Advances a delay node: called when it first runs, with no timer, and
+ * again whenever its run is resumed, with the timer it was suspended on.
+ * A timer that isn't due yet is handed back unchanged.
+ */
+export function stepDelay(
+  nodeId: string,
+  config: DelayNodeConfig,
+  scope: ExpressionScope = {},
+  timer?: DelayTimer,
+  now: Date = new Date(),
+): DelayStep {
+  const mode = config.delayMode || 'duration';
+  const startedAt = timer ? timer.startedAt : now.toISOString();
+
+  if (mode === 'condition') {
+    return stepCondition(nodeId, config, scope, startedAt, timer, now);
+  }
+
+  if (timer) {
+    return new Date(timer.wakeAt).getTime() <= now.getTime()
+      ? { status: 'done', startedAt }
+      : { status: 'waiting', timer };
+  }
+
+  let wakeAt: Date;
+  if (mode === 'until') {
+    if (!config.until) {
+      return { status: 'failed', error: 'Date and time to wait until is required' };
+    }
+    try {
+      wakeAt = toDate(renderTemplateValue(config.until, scope));
+    } catch (error) {
+      return { status: 'failed', error: `Invalid wait until value: ${error instanceof Error ? error.message : error}` };
+    }
+  } else {
+    wakeAt = new Date(now.getTime() + delayDurationMs(config));
+  }
+
+  // A time already passed doesn't hold the run up
+  if (wakeAt.getTime() <= now.getTime()) {
+    return { status: 'done', startedAt };
+  }
+  return { status: 'waiting', timer: { nodeId, mode, startedAt, wakeAt: wakeAt.toISOString() } };
+}
+
+function stepCondition(
+  nodeId: string,
+  config: DelayNodeConfig,
+  scope: ExpressionScope,
+  startedAt: string,
+  timer: DelayTimer | undefined,
+  now: Date,
+): DelayStep {
+  if (!config.condition) {
+    return { status: 'failed', error: 'Condition to wait for is required' };
+  }
+  if (timer && new Date(timer.wakeAt).getTime() > now.getTime()) {
+    return { status: 'waiting', timer };
+  }
+
+  const polls = (timer?.polls || 0) + 1;
+  try {
+    if (evaluateCondition(config.condition, scope)) {
+      return { status: 'done', startedAt, polls };
+    }
+  } catch (error) {
+    return { status: 'failed', error: `Invalid condition: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const maxWait = config.maxWait || DEFAULT_DELAY_MAX_WAIT_MINUTES;
+  const giveUpAt = new Date(startedAt).getTime() + maxWait * UNIT_MS.minutes;
+  if (now.getTime() >= giveUpAt) {
+    return { status: 'failed', error: `Condition still false after ${maxWait} minutes` };
+  }
+
+  const interval = (config.pollInterval || DEFAULT_DELAY_POLL_INTERVAL_SECONDS) * UNIT_MS.seconds;
+  const wakeAt = new Date(Math.min(now.getTime() + interval, giveUpAt));
+  return { status: 'waiting', timer: { nodeId, mode: 'condition', startedAt, wakeAt: wakeAt.toISOString(), polls } };
+}
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (value === null || value === undefined || value === '' || isNaN(date.getTime())) {
+    throw new Error(`${JSON.stringify(value)} is not a date`);
+  }
+  return date;
+}
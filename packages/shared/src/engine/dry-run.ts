@@ -0,0 +1,90 @@
+/**
+ * Node types that reach outside the run: models, tools and HTTP APIs. A dry
+ * run never executes them; without pinned data they answer with a mock.
+ */
+export const DRY_RUN_MOCKED_NODE_TYPES = ['agent', 'hybrid', 'tool', 'api_call'];
+
+export interface DryRunNode {
+  id: string;
+  type: string;
+  config?: {
+    label?: string;
+    // Sample output stood in for the node's own in dry runs
+    pinnedData?: any;
+    model?: string;
+    agentId?: string;
+    toolId?: string;
+    method?: string;
+    url?: string;
+  };
+}
+
+export type DryRunOutputSource = 'pinned' | 'mock';
+
+/**
+ * What a node outputs in a dry run when it doesn't run for real: its pinned
+ * data when it has any, else a mock for the node types that would call out.
+ * Other nodes get nothing back and run as usual.
+ */
+export function dryRunOutput(
+  node: DryRunNode,
+  input: Record<string, any>,
+): { source: DryRunOutputSource; output: any } | undefined {
+  if (hasPinnedData(node)) {
+    return { source: 'pinned', output: node.config!.pinnedData };
+  }
+  if (DRY_RUN_MOCKED_NODE_TYPES.includes(node.type)) {
+    return { source: 'mock', output: mockNodeOutput(node, input) };
+  }
+  return undefined;
+}
+
+export function hasPinnedData(node: DryRunNode): boolean {
+  return node.config?.pinnedData !== undefined && node.config.pinnedData !== null;
+}
+
+/**
+ * A stand-in output shaped like the node's real one. It is built from the
+ * node's config and input only, so the same run always mocks the same way.
+ */
+export function mockNodeOutput(node: DryRunNode, input: Record<string, any>): any {
+  const config = node.config || {};
+  const label = config.label || node.id;
+
+  switch (node.type) {
+    case 'agent':
+    case 'hybrid':
+      return {
+        response: `Mock response from ${label}`,
+        tokens: { input: 0, output: 0, total: 0 },
+        model: config.model,
+        agentId: config.agentId,
+        finishReason: 'stop',
+        ...(node.type === 'hybrid' ? { toolCalls: [], toolsUsed: [], rounds: 1 } : {}),
+        mock: true,
+      };
+
+    case 'tool':
+      return {
+        result: { input },
+        status: 200,
+        duration: 0,
+        attempts: 1,
+        toolId: config.toolId,
+        mock: true,
+      };
+
+    case 'api_call':
+      return {
+        data: { method: (config.method || 'GET').toUpperCase(), url: config.url, input },
+        status: 200,
+        headers: {},
+        duration: 0,
+        attempts: 1,
+        mock: true,
+      };
+
+    default:
+      return input;
+  }
+}
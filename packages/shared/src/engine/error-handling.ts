@@ -0,0 +1,90 @@
+import { ErrorClass, NodeErrorInfo, classifyError } from './retry';
+
+/** Source handle of the edges a node follows when it fails. */
+export const ERROR_HANDLE = 'error';
+
+export type WorkflowErrorAction = 'stop' | 'continue' | 'retry';
+
+export interface ErrorHandlingSettings {
+  onError?: WorkflowErrorAction;
+  fallbackWorkflow?: string;
+  notifyOnError?: boolean;
+}
+
+/**
+ * Where a failed node goes: down its error branch, on along its regular
+ * edges as if it had succeeded, or nowhere, failing the run.
+ */
+export type FailureRoute = 'branch' | 'continue' | 'stop';
+
+/** What a failed node hands to its error branch, under `error`. */
+export interface NodeFailure {
+  message: string;
+  nodeId: string;
+  nodeType: string;
+  errorClass: ErrorClass;
+  timedOut?: boolean;
+  retryCount?: number;
+}
+
+/** The input a fallback workflow is started with. */
+export interface FallbackInput {
+  failedWorkflowId: string;
+  failedExecutionId: string;
+  error: string;
+  input: Record<string, any>;
+  variables: Record<string, any>;
+  nodeOutputs: Record<string, any>;
+}
+
+export function isErrorEdge(edge: { sourceHandle?: string | null }): boolean {
+  return edge.sourceHandle === ERROR_HANDLE;
+}
+
+export function describeNodeFailure(
+  node: { id: string; type: string },
+  result: { error?: string; errorInfo?: NodeErrorInfo; timedOut?: string; retryCount?: number },
+): NodeFailure {
+  const message = result.error || 'Node execution failed';
+  return {
+    message,
+    nodeId: node.id,
+    nodeType: node.type,
+    errorClass: classifyError({ ...result.errorInfo, message, timedOut: !!result.timedOut }),
+    timedOut: !!result.timedOut,
+    retryCount: result.retryCount,
+  };
+}
+
+/**
+ * Decides what happens after a node has failed and used up its retries. A
+ * wired error handle always wins. Otherwise the node's `continueOnError`, or
+ * a workflow `onError` of `continue`, lets the run go on; `retry` leaves the
+ * work to the retry policy and, like `stop`, ends the run once it gives up.
+ */
+export function resolveFailureRoute(
+  hasErrorBranch: boolean,
+  continueOnError?: boolean,
+  settings: ErrorHandlingSettings = {},
+): FailureRoute {
+  if (hasErrorBranch) {
+    return 'branch';
+  }
+  return continueOnError || settings.onError === 'continue' ? 'continue' : 'stop';
+}
+
+/**
+ * The workflow to start when a run fails, if any. Fallback runs never start
+ * fallbacks of their own, so two workflows naming each other can't loop.
+ */
+export function resolveFallbackWorkflow(
+  workflowId: string,
+  settings: ErrorHandlingSettings = {},
+  isFallbackRun = false,
+): string | undefined {
+  const fallback = settings.fallbackWorkflow;
+  if (!fallback || isFallbackRun || fallback === workflowId) {
+    return undefined;
+  }
+  return fallback;
+}
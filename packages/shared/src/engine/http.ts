@@ -0,0 +1,112 @@
+import { ExpressionScope, renderTemplate, renderTemplateValue } from '../expressions';
+import { selectPath } from '../transform';
+
+/** How an API call node follows paginated responses. */
+export interface PaginationSettings {
+  pagination?: 'none' | 'page' | 'cursor' | 'link';
+  pageParam?: string;
+  cursorParam?: string;
+  cursorPath?: string;
+}
+
+/** The parts of a request that change from one page to the next. */
+export interface PagedRequest {
+  url: string;
+  query?: Record<string, any>;
+}
+
+export interface PagedResponse {
+  data: any;
+  headers: Record<string, string>;
+}
+
+/**
+ * Parses a list of statuses and ranges such as `200-299, 404` into a
+ * predicate. Returns undefined for an empty list.
+ */
+export function parseStatusRanges(spec?: string): ((status: number) => boolean) | undefined {
+  if (!spec || !spec.trim()) return undefined;
+
+  const ranges = spec.split(',').map(part => {
+    const match = /^\s*(\d{3})\s*(?:-\s*(\d{3})\s*)?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid status range '${part.trim()}', expected e.g. 200-299, 404`);
+    }
+    return [Number(match[1]), Number(match[2] || match[1])];
+  });
+  return status => ranges.some(([from, to]) => status >= from && status <= to);
+}
+
+/**
+ * Parses a JSON object typed into a node's settings and renders the `{{ }}`
+ * templates in its values. `name` says which setting it is in errors.
+ */
+export function renderJsonObject(
+  json: string | undefined,
+  name: string,
+  scope: ExpressionScope,
+): Record<string, any> {
+  if (!json || !json.trim()) return {};
+
+  let template: unknown;
+  try {
+    template = JSON.parse(json);
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+  if (!template || typeof template !== 'object' || Array.isArray(template)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  return renderTemplateValue(template, scope) as Record<string, any>;
+}
+
+// JSON bodies are rendered value by value, anything else as a text template
+export function renderRequestBody(body: string | undefined, scope: ExpressionScope): unknown {
+  if (!body || !body.trim()) return undefined;
+  try {
+    return renderTemplateValue(JSON.parse(body), scope);
+  } catch (error) {
+    if (error instanceof SyntaxError) return renderTemplate(body, scope);
+    throw error;
+  }
+}
+
+/**
+ * Points the request at the page after `response`, by page number, cursor
+ * or `Link` header. Returns false when there is no next page.
+ */
+export function nextPage(
+  request: PagedRequest,
+  response: PagedResponse,
+  settings: PaginationSettings,
+  pageItems: unknown,
+): boolean {
+  switch (settings.pagination) {
+    case 'page': {
+      if (!Array.isArray(pageItems) || pageItems.length === 0) return false;
+      const param = settings.pageParam || 'page';
+      const current = Number(request.query?.[param]) || 1;
+      request.query = { ...request.query, [param]: current + 1 };
+      return true;
+    }
+
+    case 'cursor': {
+      const cursor = settings.cursorPath ? selectPath(response.data, settings.cursorPath) : undefined;
+      if (cursor === undefined || cursor === null || cursor === '') return false;
+      request.query = { ...request.query, [settings.cursorParam || 'cursor']: cursor };
+      return true;
+    }
+
+    case 'link': {
+      const match = /<([^>]+)>\s*;\s*rel="?next"?/i.exec(response.headers.link || '');
+      if (!match) return false;
+      // The next link already carries the query string
+      request.url = new URL(match[1], request.url).toString();
+      request.query = {};
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,109 @@
+export type HumanInputType = 'text' | 'choice' | 'file';
+
+/**
+ * What happens when nobody answers in time: `fail` fails the execution,
+ * `escalate` completes the node with `{ timedOut: true }` so the workflow can
+ * route the run to whoever handles escalations.
+ */
+export type HumanInputTimeoutAction = 'fail' | 'escalate';
+
+export const DEFAULT_HUMAN_INPUT_TIMEOUT_MINUTES = 60;
+
+/** A human input node an execution is suspended on. */
+export interface HumanInputRequest {
+  nodeId: string;
+  prompt?: string;
+  inputType: HumanInputType;
+  choices?: string[];
+  required: boolean;
+  onTimeout: HumanInputTimeoutAction;
+  requestedAt: string;
+  expiresAt?: string;
+}
+
+/** The output of a human input node once it has been answered or timed out. */
+export interface HumanInputResponse {
+  input?: unknown;
+  inputType: HumanInputType;
+  timedOut: boolean;
+  respondedBy?: string;
+  respondedAt: string;
+}
+
+/** An uploaded file as sent by the client; either a URL or inline content. */
+export interface HumanInputFile {
+  name: string;
+  url?: string;
+  content?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+/** Choices are configured one per line; blank lines are ignored. */
+export function parseChoices(choices: string | string[] | undefined): string[] {
+  const list = Array.isArray(choices) ? choices : (choices || '').split('\n');
+  return list.map(choice => String(choice).trim()).filter(choice => choice.length > 0);
+}
+
+export function createHumanInputRequest(
+  nodeId: string,
+  config: Record<string, any>,
+  now: Date = new Date(),
+): HumanInputRequest {
+  const inputType: HumanInputType =
+    config.inputType === 'choice' || config.inputType === 'file' ? config.inputType : 'text';
+  const minutes =
+    typeof config.timeout === 'number' && config.timeout > 0
+      ? config.timeout
+      : DEFAULT_HUMAN_INPUT_TIMEOUT_MINUTES;
+
+  return {
+    nodeId,
+    prompt: config.prompt,
+    inputType,
+    choices: inputType === 'choice' ? parseChoices(config.choices) : undefined,
+    required: config.required !== false,
+    onTimeout: config.onTimeout === 'escalate' ? 'escalate' : 'fail',
+    requestedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + minutes * 60 * 1000).toISOString(),
+  };
+}
+
+/** Returns why `input` does not answer `request`, or undefined when it does. */
+export function validateHumanInput(request: HumanInputRequest, input: unknown): string | undefined {
+  const empty = input === undefined || input === null || (typeof input === 'string' && input.trim() === '');
+  if (empty) {
+    return request.required ? 'Input is required' : undefined;
+  }
+
+  switch (request.inputType) {
+    case 'text':
+      return typeof input === 'string' ? undefined : 'Input must be text';
+
+    case 'choice': {
+      const choices = request.choices || [];
+      if (typeof input !== 'string' || !choices.includes(input)) {
+        return `Input must be one of: ${choices.join(', ')}`;
+      }
+      return undefined;
+    }
+
+    case 'file': {
+      const file = input as HumanInputFile;
+      if (typeof input !== 'object' || Array.isArray(input) || typeof file.name !== 'string' || !file.name) {
+        return 'Input must be a file with a name';
+      }
+      if (typeof file.url !== 'string' && typeof file.content !== 'string') {
+        return 'File input needs either a url or content';
+      }
+      return undefined;
+    }
+
+    default:
+      return `Unsupported input type: ${request.inputType}`;
+  }
+}
+
+export function isHumanInputExpired(request: HumanInputRequest, now: Date = new Date()): boolean {
+  return !!request.expiresAt && new Date(request.expiresAt).getTime() <= now.getTime();
+}
@@ -0,0 +1,15 @@
+export * from './dag-scheduler';
+export * from './human-input';
+export * from './triggers';
+export * from './retry';
+export * from './error-handling';
+export * from './sub-workflow';
+export * from './notifications';
+export * from './delay';
+export * from './replay';
+export * from './debugger';
+export * from './dry-run';
+export * from './canvas';
+export * from './workflow-schema';
+export * from './http';
+export * from './tool-runtime';
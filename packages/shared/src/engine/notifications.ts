@@ -0,0 +1,89 @@
+import { renderTemplate } from '../expressions';
+
+export type NotificationEvent = 'start' | 'complete' | 'error';
+export type NotificationChannelType = 'email' | 'slack' | 'webhook';
+
+/**
+ * Where a notification goes. Email channels take `to` (comma separated or a
+ * list), Slack channels a `webhookUrl`, webhook channels a `url` and an
+ * optional `secret` to sign the body with. Any channel may override the
+ * `subject` and the body `template`.
+ */
+export interface NotificationChannelSettings {
+  type: NotificationChannelType;
+  config: Record<string, any>;
+}
+
+export interface NotificationSettings {
+  onStart?: boolean;
+  onComplete?: boolean;
+  onError?: boolean;
+  channels?: NotificationChannelSettings[];
+}
+
+/** The execution a notification is about, as templates see it. */
+export interface NotificationContext {
+  event: NotificationEvent;
+  workflow: { id: string; name: string };
+  execution: {
+    id: string;
+    status: string;
+    duration?: number;
+    error?: string;
+    output?: unknown;
+  };
+  timestamp: string;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+}
+
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationEvent, RenderedNotification> = {
+  start: {
+    subject: 'Workflow {{ workflow.name }} started',
+    text: 'Execution {{ execution.id }} of {{ workflow.name }} has started.',
+  },
+  complete: {
+    subject: 'Workflow {{ workflow.name }} completed',
+    text: 'Execution {{ execution.id }} of {{ workflow.name }} completed in {{ execution.duration }} ms.',
+  },
+  error: {
+    subject: 'Workflow {{ workflow.name }} failed',
+    text: 'Execution {{ execution.id }} of {{ workflow.name }} failed: {{ execution.error }}',
+  },
+};
+
+export function notificationEnabled(settings: NotificationSettings | undefined, event: NotificationEvent): boolean {
+  if (!settings || !settings.channels || settings.channels.length === 0) {
+    return false;
+  }
+  switch (event) {
+    case 'start':
+      return !!settings.onStart;
+    case 'complete':
+      return !!settings.onComplete;
+    default:
+      return !!settings.onError;
+  }
+}
+
+/** Renders the channel's subject and template, or the event's defaults. */
+export function renderNotification(
+  channel: NotificationChannelSettings,
+  context: NotificationContext,
+): RenderedNotification {
+  const defaults = DEFAULT_NOTIFICATION_TEMPLATES[context.event];
+  const scope = { ...context };
+  return {
+    subject: renderTemplate(channel.config?.subject || defaults.subject, scope),
+    text: renderTemplate(channel.config?.template || defaults.text, scope),
+  };
+}
+
+/** Email recipients, configured comma separated or as a list. */
+export function parseRecipients(to: string | string[] | undefined): string[] {
+  const list = Array.isArray(to) ? to : (to || '').split(',');
+  return list.map(address => String(address).trim()).filter(address => address.length > 0);
+}
@@ -0,0 +1,117 @@
+import { DagSchedulerSnapshot, SchedulerEdge, SchedulerNode } from './dag-scheduler';
+import { isErrorEdge } from './error-handling';
+
+export interface ReplayNode extends SchedulerNode {
+  type: string;
+}
+
+export interface ReplayEdge extends SchedulerEdge {
+  sourceHandle?: string;
+}
+
+/**
+ * Where a replay from a node starts: the original run's scheduler state and
+ * outputs, with the chosen node and everything downstream of it reset.
+ */
+export interface ReplayState {
+  scheduler: DagSchedulerSnapshot;
+  nodeOutputs: Record<string, any>;
+  // The chosen node and its descendants, which run again
+  rerun: string[];
+}
+
+/**
+ * The loop or parallel node that runs the given node in a nested region, if
+ * any, found the way the runners find their regions: a loop's body is what
+ * is reachable only through its 'body' handle, a parallel branch what is
+ * reachable through only one of the parallel node's edges.
+ */
+export function findRegionOwner(
+  nodes: ReplayNode[],
+  edges: ReplayEdge[],
+  nodeId: string,
+): ReplayNode | undefined {
+  const reach = (owner: ReplayNode, from: ReplayEdge[]) => {
+    const seen = new Set<string>();
+    const stack = from.map(edge => edge.target);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id) || id === owner.id) continue;
+      seen.add(id);
+      edges.filter(next => next.source === id).forEach(next => stack.push(next.target));
+    }
+    return seen;
+  };
+
+  return nodes.find(owner => {
+    const outgoing = edges.filter(edge => edge.source === owner.id);
+    if (owner.type === 'loop') {
+      const body = reach(owner, outgoing.filter(edge => edge.sourceHandle === 'body'));
+      const afterLoop = reach(owner, outgoing.filter(edge => edge.sourceHandle !== 'body'));
+      return body.has(nodeId) && !afterLoop.has(nodeId);
+    }
+    if (owner.type === 'parallel') {
+      const branches = outgoing.filter(edge => !isErrorEdge(edge)).map(edge => reach(owner, [edge]));
+      return branches.filter(branch => branch.has(nodeId)).length === 1;
+    }
+    return false;
+  });
+}
+
+/**
+ * Prepares re-running a finished execution from one of its nodes. Nodes
+ * upstream of it, and any side branches, keep the state and output they
+ * reached in the original run and act as pinned inputs; the node and
+ * everything reachable from it run again. The node must have been reached
+ * in the original run, outside any loop body or parallel branch, as only
+ * the top level of a run is checkpointed.
+ */
+export function replayFromNode(
+  nodes: ReplayNode[],
+  edges: ReplayEdge[],
+  snapshot: DagSchedulerSnapshot | undefined,
+  nodeOutputs: Record<string, any> | undefined,
+  fromNodeId: string,
+): { state?: ReplayState; error?: string } {
+  if (!nodes.some(node => node.id === fromNodeId)) {
+    return { error: `Node ${fromNodeId} is not in the workflow` };
+  }
+  const owner = findRegionOwner(nodes, edges, fromNodeId);
+  if (owner) {
+    return { error: `Node ${fromNodeId} runs inside ${owner.type} node ${owner.id}; replay from ${owner.id} instead` };
+  }
+  if (!snapshot) {
+    return { error: 'The execution has no recorded progress to replay from' };
+  }
+
+  const reached = snapshot.nodes[fromNodeId];
+  if (!reached || reached === 'pending') {
+    return { error: `Node ${fromNodeId} was not reached in the original run` };
+  }
+  if (reached === 'skipped') {
+    return { error: `Node ${fromNodeId} was skipped in the original run` };
+  }
+
+  const rerun = new Set([fromNodeId]);
+  const worklist = [fromNodeId];
+  while (worklist.length > 0) {
+    const id = worklist.shift()!;
+    edges
+      .filter(edge => edge.source === id && !rerun.has(edge.target))
+      .forEach(edge => {
+        rerun.add(edge.target);
+        worklist.push(edge.target);
+      });
+  }
+
+  const scheduler: DagSchedulerSnapshot = { nodes: { ...snapshot.nodes }, edges: { ...snapshot.edges } };
+  rerun.forEach(id => (scheduler.nodes[id] = id === fromNodeId ? 'ready' : 'pending'));
+  edges.filter(edge => rerun.has(edge.source)).forEach(edge => delete scheduler.edges[edge.id]);
+
+  const pinned: Record<string, any> = {};
+  Object.keys(nodeOutputs || {})
+    .filter(id => !rerun.has(id))
+    .forEach(id => (pinned[id] = nodeOutputs![id]));
+
+  return { state: { scheduler, nodeOutputs: pinned, rerun: Array.from(rerun) } };
+}
@@ -0,0 +1,185 @@
+export type BackoffStrategy = 'linear' | 'exponential' | 'fixed';
+
+/** Broad kinds of failure a retry policy can choose to retry. */
+export type ErrorClass =
+  | 'timeout'
+  | 'network'
+  | 'rate_limit'
+  | 'server'
+  | 'client'
+  | 'auth'
+  | 'validation'
+  | 'unknown';
+
+export const ERROR_CLASSES: ErrorClass[] = [
+  'timeout',
+  'network',
+  'rate_limit',
+  'server',
+  'client',
+  'auth',
+  'validation',
+  'unknown',
+];
+
+/**
+ * Retry settings as written in workflow settings or on a node. Delays are in
+ * milliseconds; `jitter` is the fraction of each delay that is randomised.
+ */
+export interface RetryPolicySettings {
+  maxRetries?: number;
+  backoffStrategy?: BackoffStrategy;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: number;
+  // Only failures of these classes are retried; every failure when empty
+  retryOn?: ErrorClass[];
+}
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicySettings, 'retryOn'>> &
+  Pick<RetryPolicySettings, 'retryOn'>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxRetries: 0,
+  backoffStrategy: 'exponential',
+  baseDelay: 1000,
+  maxDelay: 10000,
+  jitter: 0.2,
+};
+
+/** What is known about a failed attempt, for classifying it. */
+export interface NodeErrorInfo {
+  code?: string;
+  status?: number;
+  message?: string;
+  timedOut?: boolean;
+}
+
+/** Why a node's attempt was cut short. */
+export interface NodeDeadline {
+  ms: number;
+  reason: 'node' | 'workflow';
+}
+
+// Human input nodes wait for people; their own `timeout` decides how long
+const DEADLINE_EXEMPT_TYPES = ['human_input'];
+
+const NETWORK_CODES = ['NETWORK_ERROR', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * Combines the workflow's retry policy with the node's. Node settings win
+ * field by field, and the node's `retries` count wins over both.
+ */
+export function resolveRetryPolicy(
+  nodeConfig: { retries?: number; retryPolicy?: RetryPolicySettings } = {},
+  workflowPolicy: RetryPolicySettings = {},
+): ResolvedRetryPolicy {
+  const policy: ResolvedRetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const settings of [workflowPolicy, nodeConfig.retryPolicy || {}]) {
+    (Object.keys(settings) as (keyof RetryPolicySettings)[]).forEach(key => {
+      if (settings[key] !== undefined && settings[key] !== null) {
+        (policy as any)[key] = settings[key];
+      }
+    });
+  }
+  if (typeof nodeConfig.retries === 'number' && nodeConfig.retries > 0) {
+    policy.maxRetries = nodeConfig.retries;
+  }
+  policy.maxRetries = Math.max(0, Math.floor(policy.maxRetries));
+  return policy;
+}
+
+/**
+ * How long to wait before retry number `retry` (starting at 0). The delay
+ * grows with the strategy, is capped at `maxDelay` and then shortened by a
+ * random share of up to `jitter` so that failed runs don't retry in step.
+ */
+export function retryDelay(policy: ResolvedRetryPolicy, retry: number, random: () => number = Math.random): number {
+  let delay: number;
+  switch (policy.backoffStrategy) {
+    case 'fixed':
+      delay = policy.baseDelay;
+      break;
+    case 'linear':
+      delay = policy.baseDelay * (retry + 1);
+      break;
+    default:
+      delay = policy.baseDelay * Math.pow(2, retry);
+  }
+
+  const capped = Math.min(delay, policy.maxDelay);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.max(0, Math.round(capped * (1 - jitter * random())));
+}
+
+export function classifyError(error: NodeErrorInfo): ErrorClass {
+  const code = (error.code || '').toUpperCase();
+  const message = error.message || '';
+  const status = error.status;
+
+  if (error.timedOut || code === 'TIMEOUT' || code === 'ETIMEDOUT' || /timed? ?out/i.test(message)) {
+    return 'timeout';
+  }
+  if (status === 429 || code === 'RATE_LIMIT' || /rate.?limit/i.test(message)) {
+    return 'rate_limit';
+  }
+  if (code === 'AUTH_ERROR' || status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (code === 'INVALID_INPUT' || code === 'INVALID_OUTPUT') {
+    return 'validation';
+  }
+  if (status && status >= 500) {
+    return 'server';
+  }
+  if (status && status >= 400) {
+    return 'client';
+  }
+  if (NETWORK_CODES.includes(code) || /network|fetch failed|socket hang up/i.test(message)) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+export function shouldRetry(policy: ResolvedRetryPolicy, errorClass: ErrorClass): boolean {
+  return !policy.retryOn || policy.retryOn.length === 0 || policy.retryOn.includes(errorClass);
+}
+
+/**
+ * The time a node's attempt may take: its own `timeout` in seconds, or
+ * whatever is left of the workflow's time when that runs out first.
+ */
+export function nodeDeadline(
+  nodeType: string,
+  config: { timeout?: number } = {},
+  workflowRemainingMs?: number,
+): NodeDeadline | undefined {
+  if (DEADLINE_EXEMPT_TYPES.includes(nodeType)) {
+    return undefined;
+  }
+
+  const nodeMs = typeof config.timeout === 'number' && config.timeout > 0 ? config.timeout * 1000 : undefined;
+  if (workflowRemainingMs !== undefined && (nodeMs === undefined || workflowRemainingMs < nodeMs)) {
+    return { ms: Math.max(workflowRemainingMs, 0), reason: 'workflow' };
+  }
+  return nodeMs !== undefined ? { ms: nodeMs, reason: 'node' } : undefined;
+}
+
+/** Resolves after `ms`, or rejects as soon as `signal` is aborted. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
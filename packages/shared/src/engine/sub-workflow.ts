@@ -0,0 +1,81 @@
+import { ExpressionScope } from '../expressions';
+import { mapRecord, parseMappings } from '../transform';
+
+/** How deep sub-workflows may nest unless a node sets its own limit. */
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+export interface SubWorkflowNodeConfig {
+  subWorkflowId?: string;
+  // Fails the node when the called workflow has moved on to another version
+  subWorkflowVersion?: number;
+  // Field mappings building the child's input; without them it gets the node's input
+  mappings?: string;
+  // Defaults to true; otherwise the node completes as soon as the child starts
+  waitForCompletion?: boolean;
+  maxDepth?: number;
+}
+
+/** The execution and node a sub-workflow run was started from. */
+export interface ParentExecution {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+  // Nesting depth of the child; runs started any other way are at 0
+  depth: number;
+}
+
+/** The output of a sub-workflow node. */
+export interface SubWorkflowOutput {
+  workflowId: string;
+  executionId: string;
+  status: string;
+  // The child's end node output, once it has finished
+  output?: unknown;
+}
+
+/**
+ * The depth a child started from a run at `parentDepth` would be at, or an
+ * error once that goes past the limit. Workflows may call themselves, so
+ * the depth is what stops a recursion that never bottoms out.
+ */
+export function subWorkflowDepth(
+  parentDepth = 0,
+  maxDepth: number = MAX_SUB_WORKFLOW_DEPTH,
+): { depth: number; error?: string } {
+  const depth = parentDepth + 1;
+  if (depth > maxDepth) {
+    return { depth, error: `Sub-workflow depth limit of ${maxDepth} reached` };
+  }
+  return { depth };
+}
+
+/** An error when the workflow isn't the version the node was built against. */
+export function checkSubWorkflowVersion(
+  workflow: { id: string; version?: number },
+  expected?: number,
+): string | undefined {
+  if (expected === undefined || expected === null || workflow.version === expected) {
+    return undefined;
+  }
+  return `Workflow ${workflow.id} is at version ${workflow.version}, expected version ${expected}`;
+}
+
+/**
+ * The input a sub-workflow is started with: the node's mappings applied to
+ * its input, or the input itself when there are none. Inputs that aren't
+ * objects are wrapped under `input`.
+ */
+export function buildSubWorkflowInput(
+  config: SubWorkflowNodeConfig,
+  scope: ExpressionScope = {},
+): Record<string, any> {
+  if (config.mappings && config.mappings.trim()) {
+    return mapRecord(scope.input, parseMappings(config.mappings), scope);
+  }
+
+  const input = scope.input;
+  if (input !== null && typeof input === 'object' && !Array.isArray(input)) {
+    return { ...(input as Record<string, any>) };
+  }
+  return input === undefined ? {} : { input };
+}
@@ -0,0 +1,422 @@
+import { ParameterSchema, validateParameters } from './workflow-schema';
+import { sleep } from './retry';
+
+/** How a tool or API call authenticates, with the credentials it needs. */
+export interface AuthConfig {
+  type: 'none' | 'bearer' | 'basic' | 'api_key' | 'oauth2';
+  credentials: Record<string, string>;
+}
+
+/** The parts of a tool the HTTP runtime reads. */
+export interface HttpTool {
+  name: string;
+  config?: {
+    endpoint?: string;
+    method?: string;
+    headers?: Record<string, string>;
+    authentication?: AuthConfig;
+    timeout?: number;
+    retries?: number;
+  };
+  schema?: {
+    input?: Record<string, ParameterSchema>;
+    output?: Record<string, ParameterSchema>;
+  };
+}
+
+export type ToolErrorCode =
+  | 'UNSUPPORTED_TOOL'
+  | 'INVALID_INPUT'
+  | 'INVALID_OUTPUT'
+  | 'AUTH_ERROR'
+  | 'HTTP_ERROR'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR'
+  | 'CANCELLED';
+
+export class ToolExecutionError extends Error {
+  public code: ToolErrorCode;
+  public status?: number;
+  public details?: any;
+
+  constructor({ message, code, status, details }: {
+    message: string;
+    code: ToolErrorCode;
+    status?: number;
+    details?: any;
+  }) {
+    super(message);
+    this.name = 'ToolExecutionError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+
+  toJSON() {
+    return { message: this.message, code: this.code, status: this.status, details: this.details };
+  }
+}
+
+export interface ToolResult {
+  data: any;
+  status: number;
+  headers: Record<string, string>;
+  duration: number;
+  attempts: number;
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const RETRY_BASE_DELAY = 500;
+const MAX_RETRY_DELAY = 10000;
+
+/** A single HTTP call, as made for tools and API call nodes. */
+export interface HttpRequest {
+  method: string;
+  url: string;
+  query?: Record<string, any>;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON, strings as they are
+  body?: any;
+  auth?: AuthConfig;
+  timeout?: number;
+  retries?: number;
+  // Decides which statuses count as success; 2xx when not given
+  isSuccess?: (status: number) => boolean;
+  // Names the caller in error messages, e.g. `Tool weather`
+  label?: string;
+  // Cancels the request, including any pending retries
+  signal?: AbortSignal;
+}
+
+/**
+ * A request the in-browser engine asks the server to send with one of the
+ * user's integrations, whose credentials never leave the server.
+ */
+export interface CredentialedRequest
+  extends Pick<HttpRequest, 'method' | 'url' | 'query' | 'headers' | 'body' | 'timeout' | 'retries' | 'label'> {
+  credentialId: string;
+  authType: AuthConfig['type'];
+  // Statuses that count as success, e.g. `200-299, 404`; 2xx when not given
+  successStatuses?: string;
+}
+
+/**
+ * Calls API and webhook tools over HTTP as described by their ToolConfig,
+ * and sends the requests of API call nodes. Inputs are checked against the
+ * tool's input schema before the request is made and the response body
+ * against its output schema afterwards. Path placeholders such as
+ * `/users/{id}` are filled from the parameters; the rest go in the query
+ * string for GET and DELETE and in a JSON body otherwise.
+ */
+export class HttpToolRuntime {
+  private oauthTokens = new Map<string, { accessToken: string; expiresAt: number }>();
+
+  async execute(tool: HttpTool, params: Record<string, any> = {}, signal?: AbortSignal): Promise<ToolResult> {
+    const config = tool.config || {};
+    if (!config.endpoint) {
+      throw new ToolExecutionError({
+        message: `Tool ${tool.name} has no endpoint configured`,
+        code: 'UNSUPPORTED_TOOL',
+      });
+    }
+
+    const inputErrors: string[] = [];
+    const input = validateParameters(tool.schema?.input || {}, params, inputErrors);
+    if (inputErrors.length > 0) {
+      throw new ToolExecutionError({
+        message: `Invalid input for tool ${tool.name}: ${inputErrors.join('; ')}`,
+        code: 'INVALID_INPUT',
+        details: inputErrors,
+      });
+    }
+
+    const method = (config.method || 'POST').toUpperCase();
+    const { url, rest } = this.buildUrl(config.endpoint, input);
+    const inQuery = method === 'GET' || method === 'DELETE';
+
+    const result = await this.send({
+      method,
+      url,
+      query: inQuery ? rest : {},
+      headers: config.headers,
+      body: inQuery ? undefined : rest,
+      auth: config.authentication,
+      timeout: config.timeout,
+      retries: config.retries,
+      label: `Tool ${tool.name}`,
+      signal,
+    });
+    return { ...result, data: this.validateOutput(tool, result.data) };
+  }
+
+  /**
+   * Sends a request with authentication applied, retrying timeouts, network
+   * failures, 429s and 5xx responses with exponential backoff. Responses
+   * outside the accepted statuses fail with an HTTP_ERROR carrying the body.
+   */
+  async send(request: HttpRequest): Promise<ToolResult> {
+    const label = request.label || `Request to ${request.url}`;
+    const method = request.method.toUpperCase();
+    const headers: Record<string, string> = { Accept: 'application/json', ...request.headers };
+    const query = { ...request.query };
+
+    let body: string | undefined;
+    if (request.body !== undefined && request.body !== null && method !== 'GET' && method !== 'HEAD') {
+      body = typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+      if (typeof request.body !== 'string' && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    await this.applyAuthentication(request.auth, headers, query);
+
+    const fullUrl = this.appendQuery(request.url, query);
+    const timeout = request.timeout || DEFAULT_TIMEOUT;
+    const maxRetries = request.retries || 0;
+    const isSuccess = request.isSuccess || ((status: number) => status >= 200 && status < 300);
+    const startTime = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.request(fullUrl, { method, headers, body }, timeout, request.signal);
+        const data = await this.parseBody(response);
+
+        if (!isSuccess(response.status)) {
+          throw new ToolExecutionError({
+            message: `${label} returned ${response.status} ${response.statusText}`,
+            code: 'HTTP_ERROR',
+            status: response.status,
+            details: data,
+          });
+        }
+
+        return {
+          data,
+          status: response.status,
+          headers: this.readHeaders(response),
+          duration: Date.now() - startTime,
+          attempts: attempt,
+        };
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw this.cancelled(label);
+        }
+        const toolError = this.toToolError(label, timeout, error);
+        if (attempt > maxRetries || !this.shouldRetry(toolError)) {
+          throw toolError;
+        }
+        // A cancellation during the backoff ends the retries straight away
+        await sleep(
+          Math.min(RETRY_BASE_DELAY * Math.pow(2, attempt - 1), MAX_RETRY_DELAY),
+          request.signal,
+        ).catch(() => {
+          throw this.cancelled(label);
+        });
+      }
+    }
+  }
+
+  private buildUrl(endpoint: string, params: Record<string, any>): { url: string; rest: Record<string, any> } {
+    const rest = { ...params };
+    const url = endpoint.replace(/\{(\w+)\}/g, (match, name) => {
+      if (rest[name] === undefined) return match;
+      const value = encodeURIComponent(String(rest[name]));
+      delete rest[name];
+      return value;
+    });
+    return { url, rest };
+  }
+
+  private appendQuery(url: string, query: Record<string, any>): string {
+    const pairs = Object.keys(query)
+      .filter(key => query[key] !== undefined && query[key] !== null)
+      .map(key => {
+        const value = typeof query[key] === 'object' ? JSON.stringify(query[key]) : String(query[key]);
+        return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+      });
+    if (pairs.length === 0) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}${pairs.join('&')}`;
+  }
+
+  private async applyAuthentication(
+    auth: AuthConfig | undefined,
+    headers: Record<string, string>,
+    query: Record<string, any>,
+  ): Promise<void> {
+    if (!auth || auth.type === 'none') return;
+    const credentials = auth.credentials || {};
+
+    switch (auth.type) {
+      case 'bearer':
+        this.requireCredentials(auth, ['token']);
+        headers.Authorization = `Bearer ${credentials.token}`;
+        break;
+
+      case 'basic':
+        this.requireCredentials(auth, ['username', 'password']);
+        headers.Authorization = `Basic ${btoa(`${credentials.username}:${credentials.password}`)}`;
+        break;
+
+      case 'api_key':
+        this.requireCredentials(auth, ['apiKey']);
+        // Sent as a header unless the tool asks for a query parameter
+        if (credentials.in === 'query') {
+          query[credentials.paramName || 'api_key'] = credentials.apiKey;
+        } else {
+          headers[credentials.headerName || 'X-API-Key'] = credentials.apiKey;
+        }
+        break;
+
+      case 'oauth2':
+        headers.Authorization = `Bearer ${await this.getOAuthToken(auth)}`;
+        break;
+    }
+  }
+
+  /**
+   * Uses a configured access token if there is one, otherwise runs the
+   * client credentials grant and caches the token until shortly before it
+   * expires.
+   */
+  private async getOAuthToken(auth: AuthConfig): Promise<string> {
+    const credentials = auth.credentials || {};
+    if (credentials.accessToken) return credentials.accessToken;
+
+    this.requireCredentials(auth, ['tokenUrl', 'clientId', 'clientSecret']);
+    const cacheKey = `${credentials.tokenUrl}:${credentials.clientId}:${credentials.scope || ''}`;
+    const cached = this.oauthTokens.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) return cached.accessToken;
+
+    const form = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: credentials.clientId,
+      client_secret: credentials.clientSecret,
+    });
+    if (credentials.scope) form.set('scope', credentials.scope);
+
+    let response: Response;
+    try {
+      response = await this.request(
+        credentials.tokenUrl,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+          body: form.toString(),
+        },
+        DEFAULT_TIMEOUT,
+      );
+    } catch (error) {
+      throw new ToolExecutionError({
+        message: `OAuth token request failed: ${error instanceof Error ? error.message : error}`,
+        code: 'AUTH_ERROR',
+      });
+    }
+
+    const data = await this.parseBody(response);
+    if (!response.ok || !data?.access_token) {
+      throw new ToolExecutionError({
+        message: `OAuth token request failed with ${response.status}`,
+        code: 'AUTH_ERROR',
+        status: response.status,
+        details: data,
+      });
+    }
+
+    const expiresIn = Number(data.expires_in) || 3600;
+    this.oauthTokens.set(cacheKey, {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + Math.max(expiresIn - 30, 0) * 1000,
+    });
+    return data.access_token;
+  }
+
+  private requireCredentials(auth: AuthConfig, names: string[]): void {
+    const missing = names.filter(name => !auth.credentials?.[name]);
+    if (missing.length > 0) {
+      throw new ToolExecutionError({
+        message: `${auth.type} authentication is missing ${missing.join(', ')}`,
+        code: 'AUTH_ERROR',
+      });
+    }
+  }
+
+  private async request(url: string, init: RequestInit, timeout: number, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) controller.abort();
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async parseBody(response: Response): Promise<any> {
+    const text = await response.text();
+    if (!text) return null;
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+
+  private readHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    return headers;
+  }
+
+  private validateOutput(tool: HttpTool, data: any): any {
+    const schema = tool.schema?.output || {};
+    if (Object.keys(schema).length === 0) return data;
+
+    const errors: string[] = [];
+    const output = data && typeof data === 'object' && !Array.isArray(data)
+      ? validateParameters(schema, data, errors)
+      : (errors.push('response must be an object'), data);
+
+    if (errors.length > 0) {
+      throw new ToolExecutionError({
+        message: `Unexpected output from tool ${tool.name}: ${errors.join('; ')}`,
+        code: 'INVALID_OUTPUT',
+        details: { errors, data },
+      });
+    }
+    return output;
+  }
+
+  private toToolError(label: string, timeout: number, error: unknown): ToolExecutionError {
+    if (error instanceof ToolExecutionError) return error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new ToolExecutionError({
+        message: `${label} timed out after ${timeout}ms`,
+        code: 'TIMEOUT',
+      });
+    }
+    return new ToolExecutionError({
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'NETWORK_ERROR',
+    });
+  }
+
+  // Timeouts, network failures, 429s and 5xx responses are worth another try
+  private shouldRetry(error: ToolExecutionError): boolean {
+    if (error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR') return true;
+    return error.code === 'HTTP_ERROR' && (error.status === 429 || (error.status || 0) >= 500);
+  }
+
+  private cancelled(label: string): ToolExecutionError {
+    return new ToolExecutionError({ message: `${label} was cancelled`, code: 'CANCELLED' });
+  }
+}
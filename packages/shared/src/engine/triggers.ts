@@ -0,0 +1,119 @@
+import { SchedulerNode } from './dag-scheduler';
+
+/** Node types a run can start from. */
+export const TRIGGER_NODE_TYPES = ['start', 'webhook', 'schedule'];
+
+export type ExecutionTriggerType = 'manual' | 'webhook' | 'schedule' | 'fallback' | 'sub_workflow' | 'replay';
+
+/**
+ * Runs whose caller supplies the input, so it is checked against the
+ * workflow's input schema. Webhook and schedule runs start with the request
+ * or the schedule instead, fallbacks with the failure and replays with the
+ * input of the run they repeat.
+ */
+export const SCHEMA_INPUT_TRIGGER_TYPES: ExecutionTriggerType[] = ['manual', 'sub_workflow'];
+
+/** What started an execution, and from which trigger node. */
+export interface ExecutionTrigger {
+  type: ExecutionTriggerType;
+  nodeId?: string;
+  // The failed run a fallback execution was started for, the run whose
+  // sub-workflow node started this one, or the run being replayed
+  executionId?: string;
+  // The node a replay re-runs from; unset for a full replay
+  fromNodeId?: string;
+  // The sub-workflow node that started the run, and how deeply it is nested
+  parentNodeId?: string;
+  depth?: number;
+  // The loop iteration the sub-workflow node ran in, when inside a loop body
+  parentIteration?: number;
+}
+
+/**
+ * `immediate` answers the caller with the execution id as soon as the run is
+ * queued; `wait` holds the request until the run finishes and answers with
+ * the end node's output.
+ */
+export type WebhookResponseMode = 'immediate' | 'wait';
+
+export interface WebhookTriggerConfig {
+  // Generated by the backend when the workflow is saved
+  token?: string;
+  // When set, callers must sign the raw body with HMAC-SHA256
+  secret?: string;
+  method?: string;
+  responseMode?: WebhookResponseMode;
+  // Seconds to wait for the run in `wait` mode
+  responseTimeout?: number;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-axon-signature';
+export const DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_SECONDS = 30;
+
+export function webhookPath(workflowId: string, token: string): string {
+  return `/hooks/${workflowId}/${token}`;
+}
+
+export type ScheduleType = 'cron' | 'interval';
+export type ScheduleIntervalUnit = 'seconds' | 'minutes' | 'hours' | 'days';
+
+export interface ScheduleTriggerConfig {
+  scheduleType?: ScheduleType;
+  // Cron expression with optional seconds field, evaluated in `timezone`
+  cron?: string;
+  timezone?: string;
+  interval?: number;
+  intervalUnit?: ScheduleIntervalUnit;
+  // Skip a run while the previous one from this schedule is still going
+  noOverlap?: boolean;
+  // Run once on startup when runs were missed while the scheduler was down
+  catchUp?: boolean;
+}
+
+/** Runs that were due while no scheduler was up. */
+export interface MissedScheduleRun {
+  // When the first missed run was due
+  since: string;
+  // Known for intervals; cron schedules only record the first missed run
+  count?: number;
+  detectedAt: string;
+}
+
+const INTERVAL_UNIT_MS: Record<ScheduleIntervalUnit, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+export function intervalToMs(interval: number, unit: ScheduleIntervalUnit = 'minutes'): number {
+  return interval * INTERVAL_UNIT_MS[unit];
+}
+
+/**
+ * First interval slot strictly after `after`. Slots are counted from a fixed
+ * anchor so every scheduler instance agrees on when a run is due.
+ */
+export function nextIntervalRun(anchor: Date, intervalMs: number, after: Date): Date {
+  const elapsed = after.getTime() - anchor.getTime();
+  const slots = elapsed < 0 ? 0 : Math.floor(elapsed / intervalMs) + 1;
+  return new Date(anchor.getTime() + slots * intervalMs);
+}
+
+/**
+ * Picks the node a run starts from: the trigger node that fired, or the
+ * start node for manual runs. Every other trigger node is returned as
+ * skipped so branches only they lead to do not hold up joins.
+ */
+export function resolveEntryNodes(
+  nodes: Array<SchedulerNode & { type: string }>,
+  trigger?: ExecutionTrigger,
+): { entry?: string; skipped: string[] } {
+  const triggerNode = trigger?.nodeId ? nodes.find(node => node.id === trigger.nodeId) : undefined;
+  const entry = triggerNode || nodes.find(node => node.type === 'start');
+
+  const skipped = nodes
+    .filter(node => node !== entry && TRIGGER_NODE_TYPES.includes(node.type))
+    .map(node => node.id);
+  return { entry: entry?.id, skipped };
+}
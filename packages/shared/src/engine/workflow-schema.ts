@@ -0,0 +1,202 @@
+import { ExpressionScope } from '../expressions';
+import { mapRecord, parseMappings } from '../transform';
+
+/** Describes a value a tool or workflow takes or returns. */
+export interface ParameterSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  description?: string;
+  required?: boolean;
+  default?: any;
+  enum?: any[];
+  format?: string;
+  properties?: Record<string, ParameterSchema>;
+  items?: ParameterSchema;
+}
+
+/** The input a workflow takes and the output its End node returns, by field. */
+export interface WorkflowSchemas {
+  inputSchema?: Record<string, ParameterSchema>;
+  outputSchema?: Record<string, ParameterSchema>;
+}
+
+const PARAMETER_TYPES: ParameterSchema['type'][] = ['string', 'number', 'boolean', 'object', 'array'];
+
+/**
+ * Checks a value against a ParameterSchema and returns it with defaults
+ * filled in. Problems are collected with their path, e.g. `items[2].id`.
+ */
+export function validateParameter(
+  schema: ParameterSchema,
+  value: any,
+  path: string,
+  errors: string[],
+): any {
+  if (value === undefined || value === null) {
+    if (schema.default !== undefined) return schema.default;
+    if (schema.required) errors.push(`${path} is required`);
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') errors.push(`${path} must be a string`);
+      break;
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) errors.push(`${path} must be a number`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path} must be a boolean`);
+      break;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+      } else if (schema.items) {
+        return value.map((item, index) => validateParameter(schema.items!, item, `${path}[${index}]`, errors));
+      }
+      break;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+      } else if (schema.properties) {
+        return { ...value, ...validateParameters(schema.properties, value, errors, `${path}.`) };
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+  return value;
+}
+
+export function validateParameters(
+  schemas: Record<string, ParameterSchema>,
+  values: Record<string, any>,
+  errors: string[],
+  prefix = '',
+): Record<string, any> {
+  const result: Record<string, any> = { ...values };
+  Object.keys(schemas).forEach(name => {
+    const value = validateParameter(schemas[name], values[name], `${prefix}${name}`, errors);
+    if (value !== undefined) result[name] = value;
+  });
+  return result;
+}
+
+/**
+ * Checks a run's input before it starts. Returns the input with defaults
+ * filled in, or an error naming every field that doesn't match.
+ */
+export function validateWorkflowInput(
+  schema: Record<string, ParameterSchema> | undefined,
+  input: Record<string, any> | undefined,
+): { input: Record<string, any>; error?: string } {
+  if (!schema || Object.keys(schema).length === 0) {
+    return { input: input || {} };
+  }
+  if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+    return { input, error: 'Invalid workflow input: input must be an object' };
+  }
+
+  const errors: string[] = [];
+  const validated = validateParameters(schema, input || {}, errors);
+  return errors.length > 0
+    ? { input: validated, error: `Invalid workflow input: ${errors.join('; ')}` }
+    : { input: validated };
+}
+
+export interface EndNodeConfig {
+  // Field mappings shaping the run's output; without them it is every node's output by id
+  mappings?: string;
+}
+
+/**
+ * What a run returns from its End node: the node's mappings applied to its
+ * input, or every node's output keyed by node id when it has none.
+ */
+export function buildWorkflowOutput(config: EndNodeConfig, scope: ExpressionScope = {}): any {
+  if (config.mappings && config.mappings.trim()) {
+    return mapRecord(scope.input, parseMappings(config.mappings), scope);
+  }
+  return scope.nodeOutputs;
+}
+
+/** Checks what a run's End node returned against the output schema. */
+export function validateWorkflowOutput(
+  schema: Record<string, ParameterSchema> | undefined,
+  output: any,
+): string | undefined {
+  if (!schema || Object.keys(schema).length === 0) {
+    return undefined;
+  }
+  if (output !== undefined && output !== null && (typeof output !== 'object' || Array.isArray(output))) {
+    return 'Invalid workflow output: output must be an object';
+  }
+
+  const errors: string[] = [];
+  validateParameters(schema, output || {}, errors);
+  return errors.length > 0 ? `Invalid workflow output: ${errors.join('; ')}` : undefined;
+}
+
+/**
+ * Webhook and schedule runs start with the request or the schedule rather
+ * than input shaped by the schema, so a workflow with those trigger nodes
+ * can't require input fields.
+ */
+export function checkTriggerInputSchema(definition: {
+  nodes?: { type?: string }[];
+  inputSchema?: Record<string, ParameterSchema>;
+}): string | undefined {
+  const trigger = (definition.nodes || []).find(node => node.type === 'webhook' || node.type === 'schedule');
+  if (!trigger || !definition.inputSchema || typeof definition.inputSchema !== 'object') {
+    return undefined;
+  }
+
+  const required = Object.keys(definition.inputSchema).find(name => {
+    const field = definition.inputSchema![name];
+    return field && field.required && field.default === undefined;
+  });
+  return required
+    ? `Input schema: ${required} can't be required because ${trigger.type} runs start without it`
+    : undefined;
+}
+
+/** Checks a declared schema is well formed, e.g. before a workflow is saved. */
+export function checkParameterSchemas(
+  schemas: Record<string, ParameterSchema> | undefined,
+  label: string,
+): string | undefined {
+  if (schemas === undefined || schemas === null) {
+    return undefined;
+  }
+  if (typeof schemas !== 'object' || Array.isArray(schemas)) {
+    return `${label} must be an object of fields`;
+  }
+
+  const error = checkFields(schemas, '');
+  return error && `${label}: ${error}`;
+}
+
+function checkFields(schemas: Record<string, ParameterSchema>, prefix: string): string | undefined {
+  for (const name of Object.keys(schemas)) {
+    const error = checkField(schemas[name], `${prefix}${name}`);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+function checkField(schema: ParameterSchema, path: string): string | undefined {
+  if (!schema || !PARAMETER_TYPES.includes(schema.type)) {
+    return `${path} must have a type of ${PARAMETER_TYPES.join(', ')}`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    return `${path} enum must be a list`;
+  }
+  if (schema.type === 'array' && schema.items) {
+    return checkField(schema.items, `${path}[]`);
+  }
+  if (schema.type === 'object' && schema.properties) {
+    return checkFields(schema.properties, `${path}.`);
+  }
+  return undefined;
+}
@@ -0,0 +1,75 @@
+export type ExpressionNode =
+  | LiteralNode
+  | IdentifierNode
+  | MemberNode
+  | CallNode
+  | UnaryNode
+  | BinaryNode
+  | LogicalNode
+  | ConditionalNode
+  | ArrayNode;
+
+interface BaseNode {
+  position: number;
+}
+
+export interface LiteralNode extends BaseNode {
+  type: 'Literal';
+  value: string | number | boolean | null;
+}
+
+export interface IdentifierNode extends BaseNode {
+  type: 'Identifier';
+  name: string;
+}
+
+export interface MemberNode extends BaseNode {
+  type: 'Member';
+  object: ExpressionNode;
+  property: ExpressionNode;
+  computed: boolean;
+}
+
+export interface CallNode extends BaseNode {
+  type: 'Call';
+  callee: string;
+  args: ExpressionNode[];
+}
+
+export interface UnaryNode extends BaseNode {
+  type: 'Unary';
+  operator: '!' | '-' | '+';
+  argument: ExpressionNode;
+}
+
+export interface BinaryNode extends BaseNode {
+  type: 'Binary';
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface LogicalNode extends BaseNode {
+  type: 'Logical';
+  operator: '&&' | '||' | '??';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface ConditionalNode extends BaseNode {
+  type: 'Conditional';
+  test: ExpressionNode;
+  consequent: ExpressionNode;
+  alternate: ExpressionNode;
+}
+
+export interface ArrayNode extends BaseNode {
+  type: 'Array';
+  elements: ExpressionNode[];
+}
+
+export type BinaryOperator =
+  | '==' | '!=' | '===' | '!=='
+  | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/' | '%'
+  | 'in';
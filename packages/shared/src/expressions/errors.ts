@@ -0,0 +1,16 @@
+export class ExpressionError extends Error {
+  public position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position + 1})` : message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+export class ExpressionSyntaxError extends ExpressionError {
+  constructor(message: string, position: number) {
+    super(message, position);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
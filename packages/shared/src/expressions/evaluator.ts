@@ -0,0 +1,195 @@
+import { BinaryNode, ExpressionNode } from './ast';
+import { ExpressionError } from './errors';
+import { expressionHelpers } from './helpers';
+
+/**
+ * Values visible to an expression. `input` is the output of the node feeding
+ * the expression, `nodeOutputs` holds every completed node's output keyed by
+ * node id and `variables` the workflow variables. Bare identifiers that are
+ * not scope roots resolve to variables, and `result` is kept as an alias of
+ * `input` for conditions written against the old evaluator.
+ */
+export interface ExpressionScope {
+  input?: unknown;
+  nodeOutputs?: Record<string, unknown>;
+  variables?: Record<string, unknown>;
+  [name: string]: unknown;
+}
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+export function evaluateNode(node: ExpressionNode, scope: ExpressionScope): unknown {
+  switch (node.type) {
+    case 'Literal':
+      return node.value;
+
+    case 'Identifier':
+      return resolveIdentifier(node.name, scope);
+
+    case 'Array':
+      return node.elements.map(element => evaluateNode(element, scope));
+
+    case 'Member': {
+      const object = evaluateNode(node.object, scope);
+      const key = evaluateNode(node.property, scope);
+      return getMember(object, key, node.position);
+    }
+
+    case 'Call': {
+      if (!hasOwn(expressionHelpers, node.callee)) {
+        throw new ExpressionError(`Unknown function '${node.callee}'`, node.position);
+      }
+      const args = node.args.map(arg => evaluateNode(arg, scope));
+      try {
+        return expressionHelpers[node.callee](...args);
+      } catch (error) {
+        // Helpers don't know where they were called from; point at the call
+        if (error instanceof ExpressionError && error.position === undefined) {
+          throw new ExpressionError(error.message, node.position);
+        }
+        throw error;
+      }
+    }
+
+    case 'Unary': {
+      const value = evaluateNode(node.argument, scope);
+      if (node.operator === '!') return !value;
+      return node.operator === '-' ? -toNumber(value, node.position) : toNumber(value, node.position);
+    }
+
+    case 'Logical': {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === '&&') return left ? evaluateNode(node.right, scope) : left;
+      if (node.operator === '||') return left ? left : evaluateNode(node.right, scope);
+      return left !== null && left !== undefined ? left : evaluateNode(node.right, scope);
+    }
+
+    case 'Conditional':
+      return evaluateNode(node.test, scope)
+        ? evaluateNode(node.consequent, scope)
+        : evaluateNode(node.alternate, scope);
+
+    case 'Binary':
+      return evaluateBinary(node, evaluateNode(node.left, scope), evaluateNode(node.right, scope));
+  }
+}
+
+function resolveIdentifier(name: string, scope: ExpressionScope): unknown {
+  if (name === 'nodeOutputs') return scope.nodeOutputs ?? {};
+  if (name === 'variables') return scope.variables ?? {};
+  if (name === 'result') return scope.input;
+  if (hasOwn(scope, name)) return scope[name];
+  if (scope.variables && hasOwn(scope.variables, name)) return scope.variables[name];
+  return undefined;
+}
+
+function getMember(object: unknown, key: unknown, position: number): unknown {
+  if (typeof key !== 'string' && typeof key !== 'number') {
+    throw new ExpressionError('Property names must be strings or numbers', position);
+  }
+
+  const name = String(key);
+  if (BLOCKED_PROPERTIES.has(name)) {
+    throw new ExpressionError(`Access to '${name}' is not allowed`, position);
+  }
+
+  // Reading through a missing value yields undefined instead of throwing, so
+  // conditions over optional output fields stay simple.
+  if (object === null || object === undefined) return undefined;
+
+  if ((typeof object === 'string' || Array.isArray(object)) && name === 'length') {
+    return object.length;
+  }
+
+  if (typeof object === 'string' || typeof object === 'object') {
+    const value = hasOwn(object as object, name) ? (object as any)[name] : undefined;
+    return typeof value === 'function' ? undefined : value;
+  }
+
+  return undefined;
+}
+
+function evaluateBinary(node: BinaryNode, left: unknown, right: unknown): unknown {
+  switch (node.operator) {
+    case '==':
+      if ((left === null || left === undefined) && (right === null || right === undefined)) return true;
+      return isEqual(left, right);
+    case '===':
+      return isEqual(left, right);
+    case '!=':
+      if ((left === null || left === undefined) && (right === null || right === undefined)) return false;
+      return !isEqual(left, right);
+    case '!==':
+      return !isEqual(left, right);
+
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return compare(node.operator, left, right);
+
+    case 'in':
+      if (Array.isArray(right)) return right.some(item => isEqual(item, left));
+      if (typeof right === 'string') return right.includes(String(left));
+      if (right && typeof right === 'object') return hasOwn(right, String(left));
+      return false;
+
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') {
+        return `${left ?? ''}${right ?? ''}`;
+      }
+      return toNumber(left, node.position) + toNumber(right, node.position);
+    case '-':
+      if (left instanceof Date && right instanceof Date) return left.getTime() - right.getTime();
+      return toNumber(left, node.position) - toNumber(right, node.position);
+    case '*':
+      return toNumber(left, node.position) * toNumber(right, node.position);
+    case '/':
+      return toNumber(left, node.position) / toNumber(right, node.position);
+    case '%':
+      return toNumber(left, node.position) % toNumber(right, node.position);
+  }
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime();
+  }
+  return left === right;
+}
+
+function compare(operator: '<' | '<=' | '>' | '>=', rawLeft: unknown, rawRight: unknown): boolean {
+  let left = rawLeft instanceof Date ? rawLeft.getTime() : rawLeft;
+  let right = rawRight instanceof Date ? rawRight.getTime() : rawRight;
+
+  // Numeric strings coming from form input compare against numbers as numbers
+  if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '') right = Number(right);
+  if (typeof right === 'number' && typeof left === 'string' && left.trim() !== '') left = Number(left);
+
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+function toNumber(value: unknown, position: number): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+
+  const result = typeof value === 'number' ? value : Number(value);
+  if (value === null || value === undefined || value === '' || Number.isNaN(result)) {
+    throw new ExpressionError(`Expected a number but got ${JSON.stringify(value) ?? 'undefined'}`, position);
+  }
+  return result;
+}
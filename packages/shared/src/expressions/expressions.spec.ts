@@ -0,0 +1,256 @@
+import {
+  ExpressionError,
+  ExpressionSyntaxError,
+  evaluateCondition,
+  evaluateExpression,
+  parseTemplate,
+  renderTemplate,
+  renderTemplateValue,
+  validateExpression,
+  validateTemplate,
+} from './index';
+
+describe('expressions', () => {
+  describe('operator precedence', () => {
+    it.each([
+      ['1 + 2 * 3', 7],
+      ['(1 + 2) * 3', 9],
+      ['10 - 4 - 3', 3],
+      ['10 % 4 * 2', 4],
+      ['-2 * 3', -6],
+      ['2 * -3 + 1', -5],
+      ['"a" + 1 + 2', 'a12'],
+      ['1 + 2 + "a"', '3a'],
+    ])('evaluates %s to %p', (source, expected) => {
+      expect(evaluateExpression(source)).toBe(expected);
+    });
+
+    it.each([
+      ['true || false && false', true],
+      ['!false && false', false],
+      ['1 + 2 > 2 && 3 < 4', true],
+      ['1 < 2 == true', true],
+      ['2 in [1, 2] && 3 in [1, 2]', false],
+      ['null ?? false || "fallback"', 'fallback'],
+    ])('binds %s as %p', (source, expected) => {
+      expect(evaluateExpression(source)).toBe(expected);
+    });
+
+    it('nests conditionals to the right', () => {
+      expect(evaluateExpression('true ? 1 : false ? 2 : 3')).toBe(1);
+      expect(evaluateExpression('false ? 1 : false ? 2 : 3')).toBe(3);
+      expect(evaluateExpression('false ? 1 : true ? 2 : 3')).toBe(2);
+    });
+
+    it('short-circuits logical operators', () => {
+      // Would throw if the right-hand side were evaluated
+      expect(evaluateExpression('false && number("x")')).toBe(false);
+      expect(evaluateExpression('"set" || number("x")')).toBe('set');
+      expect(evaluateExpression('0 ?? number("x")')).toBe(0);
+    });
+  });
+
+  describe('scope', () => {
+    const scope = {
+      input: { user: { name: 'Ada', tags: ['admin'] } },
+      nodeOutputs: { fetch: { status: 200 } },
+      variables: { limit: 5 },
+    };
+
+    it('reads inputs, node outputs and variables', () => {
+      expect(evaluateExpression('input.user.name', scope)).toBe('Ada');
+      expect(evaluateExpression('nodeOutputs.fetch.status', scope)).toBe(200);
+      expect(evaluateExpression('nodeOutputs["fetch"].status', scope)).toBe(200);
+      expect(evaluateExpression('variables.limit', scope)).toBe(5);
+    });
+
+    it('resolves bare identifiers to variables and result to the input', () => {
+      expect(evaluateExpression('limit * 2', scope)).toBe(10);
+      expect(evaluateExpression('result.user.tags[0]', scope)).toBe('admin');
+    });
+
+    it('reads through missing values as undefined', () => {
+      expect(evaluateExpression('input.missing.deeper', scope)).toBeUndefined();
+      expect(evaluateExpression('input?.missing?.deeper', scope)).toBeUndefined();
+      expect(evaluateCondition('input.missing.deeper == null', scope)).toBe(true);
+    });
+
+    it('compares numeric strings against numbers as numbers', () => {
+      expect(evaluateCondition('"10" > 9')).toBe(true);
+      expect(evaluateCondition('"abc" > 9')).toBe(false);
+    });
+  });
+
+  describe('parse errors', () => {
+    it.each([
+      ['1 +', 'Unexpected end of expression', 3],
+      ['(1 + 2', "Expected ')' but found end of expression", 6],
+      ['a # b', "Unexpected character '#'", 2],
+      ['"abc', 'Unterminated string literal', 0],
+      ['1 2', "Unexpected '2'", 2],
+      ['input.(x)', "Expected a property name after '.'", 6],
+      ['input.run(1)', 'Only helper functions can be called', 9],
+      ['[1, 2', "Expected ']' but found end of expression", 5],
+      ['', 'Expression is empty', 0],
+    ])('reports %p with its position', (source, message, position) => {
+      expect(validateExpression(source)).toEqual({
+        valid: false,
+        error: `${message} (at position ${position + 1})`,
+        position,
+      });
+    });
+
+    it('throws syntax errors from evaluation', () => {
+      expect(() => evaluateExpression('1 +')).toThrow(ExpressionSyntaxError);
+    });
+
+    it('rejects unknown functions before running anything', () => {
+      expect(validateExpression('1 + launch(2)')).toEqual({
+        valid: false,
+        error: "Unknown function 'launch' (at position 5)",
+        position: 4,
+      });
+    });
+
+    it('accepts well-formed expressions', () => {
+      expect(validateExpression('upper(input.name) == "ADA" && length(input.tags) > 0')).toEqual({ valid: true });
+    });
+  });
+
+  describe('blocked properties', () => {
+    const scope = { input: { name: 'Ada' }, variables: { key: 'constructor' } };
+
+    it.each([
+      'input.__proto__',
+      'input.constructor',
+      'input.prototype',
+      'input["__proto__"]',
+      'input["__pro" + "to__"]',
+      'input[key]',
+      'nodeOutputs.__proto__.polluted',
+      'input.name.constructor',
+    ])('refuses %s', source => {
+      expect(() => evaluateExpression(source, scope)).toThrow(ExpressionError);
+      expect(() => evaluateExpression(source, scope)).toThrow(/is not allowed/);
+    });
+
+    it('hides inherited members and methods', () => {
+      expect(evaluateExpression('input.toString', scope)).toBeUndefined();
+      expect(evaluateExpression('input.hasOwnProperty', scope)).toBeUndefined();
+      expect(evaluateExpression('input.name.toUpperCase', scope)).toBeUndefined();
+    });
+
+    it('still exposes the length of strings and arrays', () => {
+      expect(evaluateExpression('input.name.length', scope)).toBe(3);
+      expect(evaluateExpression('[1, 2, 3].length')).toBe(3);
+    });
+  });
+
+  describe('helpers', () => {
+    it.each([
+      ['upper(" Ada ")', ' ADA '],
+      ['trim(lower(" Ada "))', 'ada'],
+      ['replace("a-b-c", "-", "+")', 'a+b+c'],
+      ['join(split("a,b,c", ","), " | ")', 'a | b | c'],
+      ['substring("workflow", 0, 4)', 'work'],
+      ['string(12)', '12'],
+      ['round(1.256, 2)', 1.26],
+      ['floor(1.9) + ceil(1.1)', 3],
+      ['abs(-4)', 4],
+      ['min(3, [1, 2])', 1],
+      ['max([3, 9], 4)', 9],
+      ['sum([1, 2, "3"])', 6],
+      ['number("42") + 1', 43],
+      ['length(keys(null))', 0],
+    ])('%s returns %p', (source, expected) => {
+      expect(evaluateExpression(source)).toEqual(expected);
+    });
+
+    it('checks membership and emptiness', () => {
+      expect(evaluateExpression('contains([1, 2], 2)')).toBe(true);
+      expect(evaluateExpression('contains("workflow", "flow")')).toBe(true);
+      expect(evaluateExpression('isEmpty("") && isEmpty([]) && !isEmpty(0)')).toBe(true);
+      expect(evaluateExpression('exists(input) || exists(null)')).toBe(false);
+      expect(evaluateExpression('coalesce(null, input, "x", "y")')).toBe('x');
+      expect(evaluateExpression('keys(input)', { input: { a: 1, b: 2 } })).toEqual(['a', 'b']);
+      expect(evaluateExpression('json(input)', { input: { a: [1] } })).toBe('{"a":[1]}');
+    });
+
+    it('works with dates', () => {
+      const scope = { input: { at: '2024-01-31T12:00:00Z' } };
+
+      expect(evaluateExpression('formatDate(dateAdd(input.at, 2, "days"))', scope)).toBe('2024-02-02T12:00:00.000Z');
+      expect(evaluateExpression('dateDiff("2024-01-01", input.at, "hours")', scope)).toBe(30 * 24 + 12);
+      expect(evaluateExpression('[year(input.at), month(input.at), day(input.at)]', scope)).toEqual([2024, 1, 31]);
+      expect(evaluateExpression('date(input.at) - date("2024-01-31T11:00:00Z")', scope)).toBe(60 * 60 * 1000);
+      expect(evaluateCondition('date(input.at) > date("2024-01-01")', scope)).toBe(true);
+    });
+
+    it('points helper errors at the call', () => {
+      expect(() => evaluateExpression('1 + number("abc")')).toThrow('number() cannot convert "abc" (at position 5)');
+      expect(() => evaluateExpression('dateAdd("2024-01-01", 1, "fortnights")')).toThrow(
+        /^dateAdd\(\) unit must be one of milliseconds, seconds, minutes, hours, days, weeks \(at position 1\)$/,
+      );
+      expect(() => evaluateExpression('date("soon")')).toThrow('date() received an invalid date: "soon"');
+    });
+
+    it('reports arithmetic on non-numbers', () => {
+      expect(() => evaluateExpression('input * 2', { input: 'many' })).toThrow(
+        'Expected a number but got "many" (at position 7)',
+      );
+    });
+  });
+
+  describe('templates', () => {
+    const scope = {
+      input: { name: 'Ada', count: 3, tags: ['a', 'b'], missing: null },
+      variables: { greeting: 'Hello' },
+    };
+
+    it('interpolates expressions into text', () => {
+      expect(renderTemplate('{{ greeting }}, {{ input.name }}!', scope)).toBe('Hello, Ada!');
+      expect(renderTemplate('{{input.count * 2}} items', scope)).toBe('6 items');
+    });
+
+    it('writes objects as JSON and null as nothing', () => {
+      expect(renderTemplate('tags={{ input.tags }}', scope)).toBe('tags=["a","b"]');
+      expect(renderTemplate('[{{ input.missing }}]', scope)).toBe('[]');
+      expect(renderTemplate('{{ date("2024-01-01T00:00:00Z") }}', scope)).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('leaves text without placeholders alone', () => {
+      expect(renderTemplate('no placeholders { here }', scope)).toBe('no placeholders { here }');
+    });
+
+    it('keeps the type of a value that is a single placeholder', () => {
+      expect(
+        renderTemplateValue(
+          { count: '{{ input.count }}', tags: '{{ input.tags }}', label: 'n={{ input.count }}', list: ['{{ input.name }}', 1] },
+          scope,
+        ),
+      ).toEqual({ count: 3, tags: ['a', 'b'], label: 'n=3', list: ['Ada', 1] });
+    });
+
+    it('splits templates into text and expressions', () => {
+      expect(parseTemplate('Hi {{ input.name }}!')).toEqual([
+        { text: 'Hi ', position: 0 },
+        { expression: 'input.name', position: 3 },
+        { text: '!', position: 19 },
+      ]);
+    });
+
+    it('reports the placeholder an error is in', () => {
+      expect(validateTemplate('Hi {{ input.name }} and {{ input. }}')).toEqual({
+        valid: false,
+        error: "Expected a property name after '.' (at position 7)",
+        position: 24,
+      });
+      expect(validateTemplate('Hi {{ }}')).toEqual({
+        valid: false,
+        error: 'Empty template expression (at position 4)',
+        position: 3,
+      });
+      expect(validateTemplate('Hi {{ input.name }}')).toEqual({ valid: true });
+    });
+  });
+});
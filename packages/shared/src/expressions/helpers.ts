@@ -0,0 +1,108 @@
+import { ExpressionError } from './errors';
+
+export type ExpressionHelper = (...args: any[]) => unknown;
+
+const DATE_UNITS: Record<string, number> = {
+  milliseconds: 1,
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function toDate(value: unknown, helper: string): Date {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) {
+    throw new ExpressionError(`${helper}() received an invalid date: ${JSON.stringify(value)}`);
+  }
+  return date;
+}
+
+function unitMs(unit: unknown, helper: string): number {
+  const ms = DATE_UNITS[String(unit ?? 'days')];
+  if (!ms) {
+    throw new ExpressionError(
+      `${helper}() unit must be one of ${Object.keys(DATE_UNITS).join(', ')}`,
+    );
+  }
+  return ms;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function lengthOf(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object') return Object.keys(value).length;
+  return 0;
+}
+
+export const expressionHelpers: Record<string, ExpressionHelper> = {
+  // Strings
+  lower: (value) => toText(value).toLowerCase(),
+  upper: (value) => toText(value).toUpperCase(),
+  trim: (value) => toText(value).trim(),
+  string: (value) => toText(value),
+  startsWith: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  replace: (value, search, replacement) =>
+    toText(value).split(toText(search)).join(toText(replacement)),
+  split: (value, separator) => toText(value).split(toText(separator)),
+  join: (values, separator = ',') =>
+    Array.isArray(values) ? values.map(toText).join(toText(separator)) : toText(values),
+  substring: (value, start, end) =>
+    toText(value).substring(Number(start), end === undefined ? undefined : Number(end)),
+  contains: (haystack, needle) => {
+    if (Array.isArray(haystack)) return haystack.includes(needle);
+    return toText(haystack).includes(toText(needle));
+  },
+  length: lengthOf,
+
+  // Numbers
+  number: (value) => {
+    const result = Number(value);
+    if (Number.isNaN(result)) {
+      throw new ExpressionError(`number() cannot convert ${JSON.stringify(value)}`);
+    }
+    return result;
+  },
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, Number(digits));
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value) => Math.floor(Number(value)),
+  ceil: (value) => Math.ceil(Number(value)),
+  abs: (value) => Math.abs(Number(value)),
+  min: (...values) => Math.min(...values.flat().map(Number)),
+  max: (...values) => Math.max(...values.flat().map(Number)),
+  sum: (values) => (Array.isArray(values) ? values : [values]).reduce((total, value) => total + Number(value), 0),
+
+  // Dates
+  now: () => new Date(),
+  date: (value) => toDate(value, 'date'),
+  dateAdd: (value, amount, unit) =>
+    new Date(toDate(value, 'dateAdd').getTime() + Number(amount) * unitMs(unit, 'dateAdd')),
+  dateDiff: (from, to, unit) =>
+    (toDate(to, 'dateDiff').getTime() - toDate(from, 'dateDiff').getTime()) / unitMs(unit, 'dateDiff'),
+  formatDate: (value) => toDate(value, 'formatDate').toISOString(),
+  year: (value) => toDate(value, 'year').getUTCFullYear(),
+  month: (value) => toDate(value, 'month').getUTCMonth() + 1,
+  day: (value) => toDate(value, 'day').getUTCDate(),
+
+  // General
+  exists: (value) => value !== undefined && value !== null,
+  isEmpty: (value) => {
+    if (value === undefined || value === null) return true;
+    if (value instanceof Date) return false;
+    if (typeof value === 'string' || typeof value === 'object') return lengthOf(value) === 0;
+    return false;
+  },
+  coalesce: (...values) => values.find(value => value !== undefined && value !== null) ?? null,
+  keys: (value) => (value && typeof value === 'object' ? Object.keys(value) : []),
+  json: (value) => JSON.stringify(value),
+};
@@ -0,0 +1,150 @@
+import { ExpressionNode } from './ast';
+import { ExpressionError } from './errors';
+import { ExpressionScope, evaluateNode } from './evaluator';
+import { expressionHelpers } from './helpers';
+import { parseExpression } from './parser';
+import { parseTemplate, stringifyTemplateValue } from './template';
+
+export * from './ast';
+export * from './errors';
+export type { ExpressionScope } from './evaluator';
+export { expressionHelpers } from './helpers';
+export { parseExpression, MAX_EXPRESSION_LENGTH } from './parser';
+export { parseTemplate } from './template';
+
+const MAX_CACHED_EXPRESSIONS = 500;
+const compiled = new Map<string, ExpressionNode>();
+
+/**
+ * Parses an expression and checks that every function it calls is a known
+ * helper. Results are cached since the same edge and node expressions are
+ * evaluated on every run.
+ */
+export function compileExpression(source: string): ExpressionNode {
+  const cached = compiled.get(source);
+  if (cached) return cached;
+
+  const ast = parseExpression(source);
+  assertKnownHelpers(ast);
+
+  if (compiled.size >= MAX_CACHED_EXPRESSIONS) {
+    compiled.clear();
+  }
+  compiled.set(source, ast);
+  return ast;
+}
+
+export function evaluateExpression(source: string, scope: ExpressionScope = {}): unknown {
+  return evaluateNode(compileExpression(source), scope);
+}
+
+export function evaluateCondition(source: string, scope: ExpressionScope = {}): boolean {
+  return Boolean(evaluateExpression(source, scope));
+}
+
+export type ExpressionValidationResult =
+  | { valid: true }
+  | { valid: false; error: string; position?: number };
+
+export function validateExpression(source: string): ExpressionValidationResult {
+  try {
+    compileExpression(source);
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return { valid: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Renders a text template, replacing each `{{ expression }}` with its value
+ * in the given scope. Objects are written as JSON, null and undefined as an
+ * empty string.
+ */
+export function renderTemplate(template: string, scope: ExpressionScope = {}): string {
+  return parseTemplate(template)
+    .map(part =>
+      part.expression === undefined
+        ? part.text
+        : stringifyTemplateValue(evaluateExpression(part.expression, scope)),
+    )
+    .join('');
+}
+
+/**
+ * Renders the templates inside a JSON-like value. A string that is nothing
+ * but a single `{{ expression }}` takes the expression's value as is, so
+ * numbers and objects keep their type; other strings are rendered as text.
+ */
+export function renderTemplateValue(value: unknown, scope: ExpressionScope = {}): unknown {
+  if (typeof value === 'string') {
+    const parts = parseTemplate(value);
+    if (parts.length === 1 && parts[0].expression !== undefined) {
+      return evaluateExpression(parts[0].expression, scope);
+    }
+    return renderTemplate(value, scope);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplateValue(item, scope));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = renderTemplateValue((value as Record<string, unknown>)[key], scope);
+    });
+    return result;
+  }
+  return value;
+}
+
+export function validateTemplate(template: string): ExpressionValidationResult {
+  try {
+    for (const part of parseTemplate(template)) {
+      if (part.expression !== undefined) {
+        const result = validateExpression(part.expression);
+        if (result.valid === false) {
+          return { valid: false, error: result.error, position: part.position };
+        }
+      }
+    }
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return { valid: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+function assertKnownHelpers(node: ExpressionNode): void {
+  switch (node.type) {
+    case 'Call':
+      if (!Object.prototype.hasOwnProperty.call(expressionHelpers, node.callee)) {
+        throw new ExpressionError(`Unknown function '${node.callee}'`, node.position);
+      }
+      node.args.forEach(assertKnownHelpers);
+      break;
+    case 'Member':
+      assertKnownHelpers(node.object);
+      assertKnownHelpers(node.property);
+      break;
+    case 'Unary':
+      assertKnownHelpers(node.argument);
+      break;
+    case 'Binary':
+    case 'Logical':
+      assertKnownHelpers(node.left);
+      assertKnownHelpers(node.right);
+      break;
+    case 'Conditional':
+      assertKnownHelpers(node.test);
+      assertKnownHelpers(node.consequent);
+      assertKnownHelpers(node.alternate);
+      break;
+    case 'Array':
+      node.elements.forEach(assertKnownHelpers);
+      break;
+  }
+}
@@ -0,0 +1,310 @@
+import { BinaryOperator, ExpressionNode } from './ast';
+import { ExpressionSyntaxError } from './errors';
+
+export const MAX_EXPRESSION_LENGTH = 4000;
+const MAX_NESTING_DEPTH = 64;
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+// Longest operators first so that e.g. '===' is not read as '==' + '='
+const OPERATORS = [
+  '===', '!==', '?.',
+  '==', '!=', '<=', '>=', '&&', '||', '??',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']',
+];
+
+const KEYWORDS: Record<string, string | number | boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index));
+      tokens.push({ type: 'number', value: match![0], position: index });
+      index += match![0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\') {
+          const escaped = source[index + 1];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+          value += escapes[escaped] ?? escaped ?? '';
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) {
+        throw new ExpressionSyntaxError('Unterminated string literal', start);
+      }
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index));
+      tokens.push({ type: 'identifier', value: match![0], position: index });
+      index += match![0].length;
+      continue;
+    }
+
+    // '?.5' is a ternary followed by a number, not optional chaining
+    const operator = OPERATORS.find(op =>
+      source.startsWith(op, index) && !(op === '?.' && /[0-9]/.test(source[index + 2] || '')),
+    );
+    if (!operator) {
+      throw new ExpressionSyntaxError(`Unexpected character '${char}'`, index);
+    }
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private parseExpression(): ExpressionNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new ExpressionSyntaxError('Expression is nested too deeply', this.peek().position);
+    }
+    const node = this.parseConditional();
+    this.depth--;
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseLogicalOr();
+    if (!this.matchOperator('?')) {
+      return test;
+    }
+    const consequent = this.parseExpression();
+    this.expectOperator(':');
+    const alternate = this.parseExpression();
+    return { type: 'Conditional', test, consequent, alternate, position: test.position };
+  }
+
+  private parseLogicalOr(): ExpressionNode {
+    let left = this.parseLogicalAnd();
+    let token = this.peek();
+    while (this.isOperator(token, '||', '??')) {
+      this.index++;
+      const right = this.parseLogicalAnd();
+      left = { type: 'Logical', operator: token.value as '||' | '??', left, right, position: token.position };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseLogicalAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    let token = this.peek();
+    while (this.isOperator(token, '&&')) {
+      this.index++;
+      const right = this.parseEquality();
+      left = { type: 'Logical', operator: '&&', left, right, position: token.position };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    return this.parseBinary(() => this.parseRelational(), ['==', '!=', '===', '!==']);
+  }
+
+  private parseRelational(): ExpressionNode {
+    return this.parseBinary(() => this.parseAdditive(), ['<', '<=', '>', '>=', 'in']);
+  }
+
+  private parseAdditive(): ExpressionNode {
+    return this.parseBinary(() => this.parseMultiplicative(), ['+', '-']);
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    return this.parseBinary(() => this.parseUnary(), ['*', '/', '%']);
+  }
+
+  private parseBinary(next: () => ExpressionNode, operators: BinaryOperator[]): ExpressionNode {
+    let left = next();
+    let token = this.peek();
+    while (
+      (token.type === 'operator' || (token.type === 'identifier' && token.value === 'in')) &&
+      operators.includes(token.value as BinaryOperator)
+    ) {
+      this.index++;
+      const right = next();
+      left = { type: 'Binary', operator: token.value as BinaryOperator, left, right, position: token.position };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (this.isOperator(token, '!', '-', '+')) {
+      this.index++;
+      const argument = this.parseUnary();
+      return { type: 'Unary', operator: token.value as '!' | '-' | '+', argument, position: token.position };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      const token = this.peek();
+
+      if (this.isOperator(token, '.', '?.')) {
+        this.index++;
+        const property = this.next();
+        if (property.type !== 'identifier') {
+          throw new ExpressionSyntaxError('Expected a property name after \'.\'', property.position);
+        }
+        node = {
+          type: 'Member',
+          object: node,
+          property: { type: 'Literal', value: property.value, position: property.position },
+          computed: false,
+          position: token.position,
+        };
+      } else if (this.isOperator(token, '[')) {
+        this.index++;
+        const property = this.parseExpression();
+        this.expectOperator(']');
+        node = { type: 'Member', object: node, property, computed: true, position: token.position };
+      } else if (this.isOperator(token, '(')) {
+        if (node.type !== 'Identifier') {
+          throw new ExpressionSyntaxError('Only helper functions can be called', token.position);
+        }
+        this.index++;
+        const args = this.parseList(')');
+        node = { type: 'Call', callee: node.name, args, position: node.position };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value), position: token.position };
+      case 'string':
+        return { type: 'Literal', value: token.value, position: token.position };
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'Literal', value: KEYWORDS[token.value], position: token.position };
+        }
+        return { type: 'Identifier', name: token.value, position: token.position };
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseExpression();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          return { type: 'Array', elements: this.parseList(']'), position: token.position };
+        }
+        throw new ExpressionSyntaxError(`Unexpected '${token.value}'`, token.position);
+      default:
+        throw new ExpressionSyntaxError('Unexpected end of expression', token.position);
+    }
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.matchOperator(closing)) {
+      return items;
+    }
+    do {
+      items.push(this.parseExpression());
+    } while (this.matchOperator(','));
+    this.expectOperator(closing);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isOperator(token: Token, ...operators: string[]): boolean {
+    return token.type === 'operator' && operators.includes(token.value);
+  }
+
+  private matchOperator(operator: string): boolean {
+    if (this.isOperator(this.peek(), operator)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    const token = this.peek();
+    if (!this.matchOperator(operator)) {
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+      throw new ExpressionSyntaxError(`Expected '${operator}' but found ${found}`, token.position);
+    }
+  }
+}
+
+export function parseExpression(source: string): ExpressionNode {
+  if (typeof source !== 'string' || source.trim() === '') {
+    throw new ExpressionSyntaxError('Expression is empty', 0);
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionSyntaxError(
+      `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`,
+      MAX_EXPRESSION_LENGTH,
+    );
+  }
+  return new Parser(tokenize(source)).parse();
+}
@@ -0,0 +1,47 @@
+import { ExpressionError } from './errors';
+
+export interface TemplatePart {
+  text?: string;
+  expression?: string;
+  // Offset of the expression within the template
+  position: number;
+}
+
+const PLACEHOLDER = /\{\{([\s\S]*?)\}\}/g;
+
+/**
+ * Splits a template such as `Summarise {{ input.text }}` into literal text
+ * and the `{{ ... }}` expressions embedded in it.
+ */
+export function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  PLACEHOLDER.lastIndex = 0;
+  while ((match = PLACEHOLDER.exec(template)) !== null) {
+    if (match.index > last) {
+      parts.push({ text: template.slice(last, match.index), position: last });
+    }
+    const expression = match[1].trim();
+    if (!expression) {
+      throw new ExpressionError('Empty template expression', match.index);
+    }
+    parts.push({ expression, position: match.index });
+    last = match.index + match[0].length;
+  }
+
+  if (last < template.length) {
+    parts.push({ text: template.slice(last), position: last });
+  }
+  return parts;
+}
+
+/** How an embedded value is written into the rendered text. */
+export function stringifyTemplateValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -2,4 +2,8 @@ export * from './types/workflow';
 export * from './types/auth';
 export * from './types/websocket';
 export * from './schemas/workflow';
-export * from './schemas/auth';
\ No newline at end of file
+export * from './schemas/auth';
+export * from './expressions';
+export * from './engine';
+export * from './transform';
+export * from './ai';
\ No newline at end of file
@@ -28,7 +28,7 @@ export const WorkflowNodeSchema = z.object({
 
 export const WorkflowExecutionSchema = z.object({
   id: z.string().uuid(),
-  status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']),
+  status: z.enum(['pending', 'running', 'waiting', 'completed', 'failed', 'cancelled']),
   input: z.record(z.any()).optional(),
   output: z.record(z.any()).optional(),
   logs: z.array(z.record(z.any())).optional(),
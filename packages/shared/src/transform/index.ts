@@ -0,0 +1,268 @@
+import {
+  ExpressionScope,
+  evaluateCondition,
+  evaluateExpression,
+  renderTemplate,
+  validateExpression,
+  validateTemplate,
+} from '../expressions';
+import { TransformError } from './errors';
+import { parsePath, selectPath, setPath } from './path';
+
+export { TransformError } from './errors';
+export { parsePath, selectPath, setPath } from './path';
+export type { PathSegment } from './path';
+
+export type CoercionType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'array' | 'json';
+
+const COERCION_TYPES: CoercionType[] = ['string', 'number', 'integer', 'boolean', 'date', 'array', 'json'];
+
+/**
+ * One output field of a transform. The value comes from exactly one of a
+ * selector into the record (`from`), a `{{ }}` template, an expression or a
+ * constant, and may then be coerced to a type.
+ */
+export interface FieldMapping {
+  to: string;
+  from?: string;
+  template?: string;
+  expression?: string;
+  value?: unknown;
+  type?: CoercionType;
+  // Used when the source is missing or null
+  default?: unknown;
+}
+
+export interface TransformNodeConfig {
+  // Mappings as JSON: an array of FieldMappings, or an object keyed by target
+  mappings?: string;
+  // Expression selecting the data to transform; defaults to `input`
+  source?: string;
+  // `each` maps every element of an array source instead of the whole value
+  transformMode?: 'object' | 'each';
+  // Copy fields that no mapping mentions; renamed fields are moved
+  keepUnmapped?: boolean;
+}
+
+export interface FilterNodeConfig {
+  // Expression selecting the array to filter; defaults to `input`
+  items?: string;
+  // Predicate evaluated per item; items where it is false are dropped
+  condition?: string;
+  itemVariable?: string;
+}
+
+export interface FilterResult {
+  items: unknown[];
+  count: number;
+  dropped: number;
+}
+
+const SIMPLE_FIELD = /^(?:\$\.)?([A-Za-z_$][A-Za-z0-9_$-]*)$/;
+
+/**
+ * Normalises mappings written either as an array of FieldMappings or as an
+ * object keyed by target field. In the object form a string value is a
+ * selector, or a template when it contains `{{`:
+ *
+ *   { "customer.name": "$.user.fullName",
+ *     "greeting": "Hello {{ item.user.firstName }}",
+ *     "total": { "from": "amount", "type": "number", "default": 0 } }
+ */
+export function parseMappings(spec: unknown): FieldMapping[] {
+  let parsed = spec;
+  if (typeof spec === 'string') {
+    try {
+      parsed = JSON.parse(spec);
+    } catch {
+      throw new TransformError('Mappings must be valid JSON');
+    }
+  }
+
+  let mappings: FieldMapping[];
+  if (Array.isArray(parsed)) {
+    mappings = parsed as FieldMapping[];
+  } else if (parsed && typeof parsed === 'object') {
+    mappings = Object.entries(parsed as Record<string, unknown>).map(([to, value]) => {
+      if (typeof value === 'string') {
+        return value.includes('{{') ? { to, template: value } : { to, from: value };
+      }
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return { ...(value as Omit<FieldMapping, 'to'>), to };
+      }
+      return { to, value };
+    });
+  } else {
+    throw new TransformError('Mappings must be a JSON array or object');
+  }
+
+  mappings.forEach(checkMapping);
+  return mappings;
+}
+
+function checkMapping(mapping: FieldMapping, index: number): void {
+  if (!mapping || typeof mapping !== 'object' || typeof mapping.to !== 'string' || !mapping.to) {
+    throw new TransformError(`Mapping ${index + 1} needs a target field`);
+  }
+
+  const sources = ['from', 'template', 'expression', 'value'].filter(key => key in mapping);
+  if (sources.length !== 1) {
+    throw new TransformError(
+      `Mapping for '${mapping.to}' needs exactly one of from, template, expression or value`,
+    );
+  }
+  if (mapping.type !== undefined && !COERCION_TYPES.includes(mapping.type)) {
+    throw new TransformError(
+      `Mapping for '${mapping.to}' has unknown type '${mapping.type}', expected one of ${COERCION_TYPES.join(', ')}`,
+    );
+  }
+
+  if (mapping.from !== undefined) {
+    parsePath(mapping.from);
+  }
+  const check = mapping.template !== undefined
+    ? validateTemplate(mapping.template)
+    : mapping.expression !== undefined
+      ? validateExpression(mapping.expression)
+      : { valid: true as const };
+  if (check.valid === false) {
+    throw new TransformError(`Mapping for '${mapping.to}': ${check.error}`);
+  }
+}
+
+export function coerceValue(value: unknown, type: CoercionType): unknown {
+  switch (type) {
+    case 'string':
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+      if (Number.isNaN(number)) {
+        throw new TransformError(`Cannot convert ${JSON.stringify(value)} to a number`);
+      }
+      return type === 'integer' ? Math.trunc(number) : number;
+    }
+
+    case 'boolean':
+      if (typeof value === 'string') {
+        const text = value.trim().toLowerCase();
+        if (['true', 'yes', 'y', 'on', '1'].includes(text)) return true;
+        if (['false', 'no', 'n', 'off', '0', ''].includes(text)) return false;
+      }
+      return Boolean(value);
+
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value as string | number);
+      if (Number.isNaN(date.getTime())) {
+        throw new TransformError(`Cannot convert ${JSON.stringify(value)} to a date`);
+      }
+      return date.toISOString();
+    }
+
+    case 'array':
+      return Array.isArray(value) ? value : [value];
+
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new TransformError(`Cannot parse ${JSON.stringify(value)} as JSON`);
+      }
+  }
+}
+
+/**
+ * Builds a new record from `record` by applying each mapping in turn.
+ * Templates and expressions see the node's scope plus the record as `item`
+ * and its position as `index`.
+ */
+export function mapRecord(
+  record: unknown,
+  mappings: FieldMapping[],
+  scope: ExpressionScope = {},
+  options: { keepUnmapped?: boolean; index?: number } = {},
+): Record<string, unknown> {
+  const isObject = record !== null && typeof record === 'object' && !Array.isArray(record);
+  const result: Record<string, unknown> = options.keepUnmapped && isObject
+    ? { ...(record as Record<string, unknown>) }
+    : {};
+  const recordScope: ExpressionScope = { ...scope, item: record, index: options.index ?? 0 };
+
+  for (const mapping of mappings) {
+    let value: unknown;
+    if ('value' in mapping) {
+      value = mapping.value;
+    } else if (mapping.expression !== undefined) {
+      value = evaluateExpression(mapping.expression, recordScope);
+    } else if (mapping.template !== undefined) {
+      value = renderTemplate(mapping.template, recordScope);
+    } else {
+      value = selectPath(record, mapping.from!);
+
+      // A plain field copied under a new name is a rename
+      const field = options.keepUnmapped ? SIMPLE_FIELD.exec(mapping.from!.trim()) : null;
+      if (field && field[1] !== mapping.to) {
+        delete result[field[1]];
+      }
+    }
+
+    if ((value === undefined || value === null) && mapping.default !== undefined) {
+      value = mapping.default;
+    }
+    if (value !== undefined && value !== null && mapping.type) {
+      try {
+        value = coerceValue(value, mapping.type);
+      } catch (error) {
+        throw new TransformError(`Field '${mapping.to}': ${(error as Error).message}`);
+      }
+    }
+    if (value !== undefined) {
+      setPath(result, mapping.to, value);
+    }
+  }
+
+  return result;
+}
+
+/** Runs a transform node's config against its scope. */
+export function runTransform(config: TransformNodeConfig, scope: ExpressionScope = {}): unknown {
+  if (!config.mappings || !config.mappings.trim()) {
+    throw new TransformError('At least one mapping is required');
+  }
+  const mappings = parseMappings(config.mappings);
+  const data = config.source ? evaluateExpression(config.source, scope) : scope.input;
+  const options = { keepUnmapped: config.keepUnmapped };
+
+  if (config.transformMode === 'each') {
+    if (!Array.isArray(data)) {
+      throw new TransformError(`Transform source must be an array in each mode, got ${describe(data)}`);
+    }
+    return data.map((record, index) => mapRecord(record, mappings, scope, { ...options, index }));
+  }
+  return mapRecord(data, mappings, scope, options);
+}
+
+/** Runs a filter node's config against its scope. */
+export function runFilter(config: FilterNodeConfig, scope: ExpressionScope = {}): FilterResult {
+  if (!config.condition) {
+    throw new TransformError('Filter condition is required');
+  }
+  const items = config.items ? evaluateExpression(config.items, scope) : scope.input;
+  if (!Array.isArray(items)) {
+    throw new TransformError(`Filter items must be an array, got ${describe(items)}`);
+  }
+
+  const itemVariable = config.itemVariable || 'item';
+  const kept = items.filter((item, index) =>
+    evaluateCondition(config.condition!, { ...scope, [itemVariable]: item, index }),
+  );
+  return { items: kept, count: kept.length, dropped: items.length - kept.length };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
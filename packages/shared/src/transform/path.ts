@@ -0,0 +1,129 @@
+import { TransformError } from './errors';
+
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+const BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+const NAME = /^[A-Za-z_$][A-Za-z0-9_$-]*/;
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+/**
+ * Parses a selector such as `$.orders[0].total`, `items[*].id`,
+ * `items[-1]` or `$['first name']`. The leading `$` is optional and stands
+ * for the value being selected from.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const source = path.trim();
+  const segments: PathSegment[] = [];
+  let index = source.startsWith('$') ? 1 : 0;
+  let expectName = index === 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (expectName || char === '.') {
+      if (char === '.') index++;
+      if (source[index] === '*') {
+        segments.push({ type: 'wildcard' });
+        index++;
+      } else {
+        const match = NAME.exec(source.slice(index));
+        if (!match) {
+          throw new TransformError(`Expected a field name at position ${index + 1} of '${path}'`);
+        }
+        segments.push({ type: 'key', key: match[0] });
+        index += match[0].length;
+      }
+      expectName = false;
+      continue;
+    }
+
+    if (char === '[') {
+      const close = source.indexOf(']', index);
+      if (close === -1) {
+        throw new TransformError(`Unclosed '[' in '${path}'`);
+      }
+      const inner = source.slice(index + 1, close).trim();
+      if (inner === '*') {
+        segments.push({ type: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ type: 'index', index: parseInt(inner, 10) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ type: 'key', key: inner.slice(1, -1) });
+      } else {
+        throw new TransformError(`Invalid selector '[${inner}]' in '${path}'`);
+      }
+      index = close + 1;
+      continue;
+    }
+
+    throw new TransformError(`Unexpected '${char}' at position ${index + 1} of '${path}'`);
+  }
+
+  return segments;
+}
+
+/**
+ * Reads a selector from a value. Missing fields give undefined rather than an
+ * error. After a wildcard the rest of the path is applied to every element
+ * and the matches are returned as an array, leaving out elements where
+ * nothing matched.
+ */
+export function selectPath(data: unknown, path: string): unknown {
+  let values: unknown[] = [data];
+  let projected = false;
+
+  for (const segment of parsePath(path)) {
+    if (segment.type === 'wildcard') {
+      values = values.reduce<unknown[]>((all, value) => {
+        if (Array.isArray(value)) return all.concat(value);
+        if (value && typeof value === 'object') return all.concat(Object.values(value));
+        return all;
+      }, []);
+      projected = true;
+      continue;
+    }
+
+    values = values
+      .map(value => step(value, segment))
+      .filter(value => !projected || value !== undefined);
+  }
+
+  return projected ? values : values[0];
+}
+
+function step(value: unknown, segment: PathSegment): unknown {
+  if (value === null || value === undefined) return undefined;
+
+  if (segment.type === 'index') {
+    if (!Array.isArray(value)) return undefined;
+    return value[segment.index < 0 ? value.length + segment.index : segment.index];
+  }
+
+  if (segment.type === 'key' && typeof value === 'object') {
+    if (BLOCKED_KEYS.has(segment.key) || !hasOwn(value, segment.key)) return undefined;
+    return (value as Record<string, unknown>)[segment.key];
+  }
+  return undefined;
+}
+
+/** Writes a value at a dotted path such as `customer.address.city`. */
+export function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  if (keys.some(key => !key || BLOCKED_KEYS.has(key))) {
+    throw new TransformError(`Invalid target field '${path}'`);
+  }
+
+  let current = target;
+  keys.slice(0, -1).forEach(key => {
+    const next = current[key];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  });
+  current[keys[keys.length - 1]] = value;
+}
@@ -17,7 +17,11 @@ export enum EventType {
   WORKFLOW_STARTED = 'workflow_started',
   WORKFLOW_COMPLETED = 'workflow_completed',
   WORKFLOW_FAILED = 'workflow_failed',
+  WORKFLOW_CANCELLED = 'workflow_cancelled',
+  WORKFLOW_PAUSED = 'workflow_paused',
+  WORKFLOW_RESUMED = 'workflow_resumed',
   NODE_EXECUTED = 'node_executed',
+  NODE_WAITING = 'node_waiting',
   USER_CONNECTED = 'user_connected',
   USER_DISCONNECTED = 'user_disconnected',
   COLLABORATION_UPDATE = 'collaboration_update',
@@ -1,3 +1,5 @@
+import { ParameterSchema } from '../engine/workflow-schema';
+
 export interface WorkflowNode {
   id: string;
   name: string;
@@ -20,6 +22,38 @@ export interface Workflow {
   updatedAt: Date;
 }
 
+export interface WorkflowDefinition {
+  nodes: WorkflowDefinitionNode[];
+  edges: WorkflowDefinitionEdge[];
+  variables?: Record<string, any>;
+  settings?: Record<string, any>;
+  // What runs take as input and what the End node returns
+  inputSchema?: Record<string, ParameterSchema>;
+  outputSchema?: Record<string, ParameterSchema>;
+}
+
+export interface WorkflowDefinitionNode {
+  id: string;
+  type: string;
+  position?: { x: number; y: number };
+  data: {
+    label?: string;
+    config: Record<string, any>;
+  };
+}
+
+export interface WorkflowDefinitionEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+  data?: {
+    condition?: string;
+    label?: string;
+  };
+}
+
 export interface WorkflowExecution {
   id: string;
   status: ExecutionStatus;
@@ -53,6 +87,8 @@ export enum WorkflowStatus {
 export enum ExecutionStatus {
   PENDING = 'pending',
   RUNNING = 'running',
+  WAITING = 'waiting',
+  PAUSED = 'paused',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
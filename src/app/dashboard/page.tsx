@@ -55,6 +55,7 @@ import {
   Copy,
   ExternalLink
 } from "lucide-react";
+import { workflowAPI } from "@/lib/api-client";
 
 // Mock data for dashboard
 const dashboardStats = {
@@ -175,14 +176,39 @@ const topWorkflows = [
 export default function DashboardPage() {
   const [timeRange, setTimeRange] = useState("7d");
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [schedules, setSchedules] = useState<any[]>([]);
+
+  const loadSchedules = async () => {
+    try {
+      const response = await workflowAPI.getSchedules();
+      setSchedules((response.data || []).filter((schedule: any) => schedule.enabled && schedule.nextRunAt));
+    } catch {
+      setSchedules([]);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // Stats are still mock data; only schedules come from the API
+    await Promise.all([loadSchedules(), new Promise(resolve => setTimeout(resolve, 1000))]);
     setIsRefreshing(false);
   };
 
+  const describeSchedule = (schedule: any) => {
+    if (schedule.scheduleType !== "interval") {
+      return `${schedule.cron}${schedule.timezone ? ` (${schedule.timezone})` : ""}`;
+    }
+    const seconds = schedule.intervalMs / 1000;
+    if (seconds % 86400 === 0) return `Every ${seconds / 86400}d`;
+    if (seconds % 3600 === 0) return `Every ${seconds / 3600}h`;
+    if (seconds % 60 === 0) return `Every ${seconds / 60}m`;
+    return `Every ${seconds}s`;
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "success":
@@ -447,6 +473,48 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Scheduled Runs */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Upcoming Scheduled Runs</CardTitle>
+          <CardDescription>
+            Next run times of your workflow schedules
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {schedules.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No active schedules</div>
+          ) : (
+            <div className="space-y-3">
+              {schedules.map((schedule) => (
+                <div key={schedule.id} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div className="flex items-center space-x-3">
+                    <Calendar className="w-4 h-4 text-primary" />
+                    <div>
+                      <div className="text-sm font-medium">{schedule.workflowName}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {describeSchedule(schedule)}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {schedule.missedRuns?.length > 0 && (
+                      <Badge variant="destructive">
+                        Missed since {new Date(schedule.missedRuns[schedule.missedRuns.length - 1].since).toLocaleString()}
+                      </Badge>
+                    )}
+                    <div className="text-right">
+                      <div className="text-sm font-medium">{new Date(schedule.nextRunAt).toLocaleString()}</div>
+                      <div className="text-xs text-muted-foreground">Next Run</div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Top Workflows */}
       <Card className="glass-card">
         <CardHeader>
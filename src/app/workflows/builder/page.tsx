@@ -5,6 +5,8 @@ import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/componen
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Save, 
@@ -24,7 +26,7 @@ import WorkflowCanvas from '@/components/workflows/WorkflowCanvas';
 import NodePalette from '@/components/workflows/NodePalette';
 import NodeConfigPanel from '@/components/workflows/NodeConfigPanel';
 import { getAxonPulsClient } from '@/lib/axon-puls';
-import { Workflow, WorkflowNode, WorkflowEdge } from '@/types/workflow';
+import { ErrorHandling, Workflow, WorkflowNode, WorkflowEdge } from '@/types/workflow';
 
 interface WorkflowBuilderProps {
   workflowId?: string;
@@ -273,6 +275,21 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
     } : null);
   };
 
+  const updateErrorHandling = (changes: Partial<ErrorHandling>) => {
+    setWorkflow(prev => prev ? {
+      ...prev,
+      settings: {
+        ...prev.settings,
+        errorHandling: {
+          onError: 'stop',
+          notifyOnError: true,
+          ...prev.settings.errorHandling,
+          ...changes
+        }
+      }
+    } : null);
+  };
+
   if (!workflow) {
     return (
       <div className="h-screen flex items-center justify-center">
@@ -380,6 +397,9 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
               workflowId={workflow.id}
               initialNodes={workflow.nodes}
               initialEdges={workflow.edges}
+              inputSchema={workflow.inputSchema}
+              outputSchema={workflow.outputSchema}
+              settings={workflow.settings}
             />
           </ResizablePanel>
 
@@ -399,6 +419,7 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
               <TabsContent value="properties" className="flex-1 m-0">
                 <NodeConfigPanel
                   selectedNode={selectedNode}
+                  workflowId={workflow?.id}
                   onUpdateNodeConfig={(nodeId, config) => {
                     setWorkflow(prev => prev ? {
                       ...prev,
@@ -428,10 +449,44 @@ const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({
                         Max {workflow.settings.retryPolicy?.maxRetries} retries
                       </p>
                     </div>
-                    <div>
+                    <div className="space-y-2">
                       <label className="text-sm font-medium">Error Handling</label>
-                      <p className="text-xs text-muted-foreground capitalize">
-                        {workflow.settings.errorHandling?.onError}
+                      <Select
+                        value={workflow.settings.errorHandling?.onError || 'stop'}
+                        onValueChange={(value) =>
+                          updateErrorHandling({ onError: value as ErrorHandling['onError'] })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="stop">Stop the workflow</SelectItem>
+                          <SelectItem value="continue">Continue past failed nodes</SelectItem>
+                          <SelectItem value="retry">Retry, then stop</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Nodes with a connected error output always route
+                        failures down that branch instead.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="fallbackWorkflow" className="text-sm font-medium">
+                        Fallback Workflow
+                      </label>
+                      <Input
+                        id="fallbackWorkflow"
+                        className="h-8 text-xs"
+                        placeholder="Workflow ID"
+                        value={workflow.settings.errorHandling?.fallbackWorkflow || ''}
+                        onChange={(e) =>
+                          updateErrorHandling({ fallbackWorkflow: e.target.value || undefined })
+                        }
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Started when a run fails, with the error and the failed
+                        run&apos;s input, variables and node outputs.
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { FastForward, SkipForward, StepForward } from "lucide-react";
+import { DebugCommand, DebugSnapshot } from "@shared/engine";
+
+interface DebuggerPanelProps {
+  // Where the run is stopped; unset while it runs
+  snapshot?: DebugSnapshot;
+  isDebugging: boolean;
+  onCommand: (command: DebugCommand) => void;
+}
+
+// Values are entered as JSON; anything that doesn't parse is kept as text
+const parseValue = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const StateView = ({ title, value }: { title: string; value: unknown }) => (
+  <div className="space-y-1">
+    <h4 className="font-medium text-sm">{title}</h4>
+    <pre className="text-xs bg-muted/40 border rounded p-2 overflow-auto max-h-48">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+const DebuggerPanel = ({ snapshot, isDebugging, onCommand }: DebuggerPanelProps) => {
+  const [variableName, setVariableName] = useState("");
+  const [variableValue, setVariableValue] = useState("");
+
+  if (!snapshot) {
+    return (
+      <div className="flex items-center justify-center h-full text-muted-foreground">
+        {isDebugging
+          ? "Running to the next breakpoint..."
+          : "Start a debug run to step through the workflow"}
+      </div>
+    );
+  }
+
+  const handleSetVariable = () => {
+    if (!variableName.trim()) return;
+    onCommand({
+      action: "set_variable",
+      name: variableName.trim(),
+      value: parseValue(variableValue),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <h3 className="text-lg font-medium">Stopped before {snapshot.nodeId}</h3>
+          <Badge variant="outline">{snapshot.nodeType}</Badge>
+          <Badge variant={snapshot.reason === "breakpoint" ? "destructive" : "secondary"}>
+            {snapshot.reason}
+          </Badge>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => onCommand({ action: "step" })}>
+            <StepForward className="h-4 w-4 mr-1" />
+            Step
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onCommand({ action: "continue" })}>
+            <FastForward className="h-4 w-4 mr-1" />
+            Continue
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onCommand({ action: "skip" })}>
+            <SkipForward className="h-4 w-4 mr-1" />
+            Skip
+          </Button>
+        </div>
+      </div>
+
+      <StateView title="Input" value={snapshot.input} />
+      <StateView title="Variables" value={snapshot.variables} />
+      <StateView title="Node Outputs" value={snapshot.nodeOutputs} />
+
+      <div className="space-y-2">
+        <Label>Edit Variable</Label>
+        <div className="flex space-x-2">
+          <Input
+            placeholder="name"
+            value={variableName}
+            onChange={(e) => setVariableName(e.target.value)}
+            className="w-[160px] font-mono"
+          />
+          <Input
+            placeholder='"text", 42 or {"key": "value"}'
+            value={variableValue}
+            onChange={(e) => setVariableValue(e.target.value)}
+            className="flex-1 font-mono"
+          />
+          <Button size="sm" variant="outline" onClick={handleSetVariable} disabled={!variableName.trim()}>
+            Set
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebuggerPanel;
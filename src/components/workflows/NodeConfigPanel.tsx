@@ -22,10 +22,32 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { AlertCircle, Check, Info, Settings, X } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { validateExpression, validateTemplate } from "@shared/expressions";
+import {
+  DEFAULT_DELAY_MAX_WAIT_MINUTES,
+  DEFAULT_DELAY_POLL_INTERVAL_SECONDS,
+  ERROR_CLASSES,
+  MAX_SUB_WORKFLOW_DEPTH,
+  parseChoices,
+  parseStatusRanges,
+  webhookPath,
+} from "@shared/engine";
+import { parseMappings, parsePath, runFilter, runTransform } from "@shared/transform";
+import { workflowAPI } from "@/lib/api-client";
+
+// String values anywhere inside parsed JSON, for template validation
+const collectStrings = (value: any): string[] => {
+  if (typeof value === "string") return [value];
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+};
 
 interface NodeConfigPanelProps {
   node?: any;
@@ -35,8 +57,14 @@ interface NodeConfigPanelProps {
   onClose?: () => void;
   availableAgents?: any[];
   availableTools?: any[];
+  workflowId?: string;
+  // Upstream data from the last execution, used for live previews
+  sampleData?: { input: any; nodeOutputs: Record<string, any> };
 }
 
+const formatPinnedData = (value: any) =>
+  value === undefined || value === null ? "" : JSON.stringify(value, null, 2);
+
 const NodeConfigPanel = ({
   node,
   selectedNode,
@@ -45,19 +73,80 @@ const NodeConfigPanel = ({
   onClose,
   availableAgents = [],
   availableTools = [],
+  workflowId,
+  sampleData,
 }: NodeConfigPanelProps) => {
   const currentNode = node || selectedNode;
   const [config, setConfig] = useState<any>({});
   const [activeTab, setActiveTab] = useState("general");
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [casesText, setCasesText] = useState("");
+  const [pinnedText, setPinnedText] = useState("");
+  const [pinnedError, setPinnedError] = useState<string | null>(null);
+  const [nextRunAt, setNextRunAt] = useState<string | null>(null);
+  const [sampleText, setSampleText] = useState("");
+  const [credentials, setCredentials] = useState<any[]>([]);
+  const [workflows, setWorkflows] = useState<any[]>([]);
 
   useEffect(() => {
     if (currentNode) {
       setConfig(currentNode.data?.config || {});
+      setCasesText((currentNode.data?.config?.cases || []).join("\n"));
+      setPinnedText(formatPinnedData(currentNode.data?.config?.pinnedData));
+      setPinnedError(null);
       validateConfig(currentNode.data?.config || {});
     }
   }, [currentNode]);
 
+  useEffect(() => {
+    setNextRunAt(null);
+    if (currentNode?.type !== "schedule" || !workflowId) return;
+
+    let cancelled = false;
+    workflowAPI
+      .getSchedules(workflowId)
+      .then((response) => {
+        const schedule = (response.data || []).find(
+          (item: any) => item.nodeId === currentNode.id
+        );
+        if (!cancelled) setNextRunAt(schedule?.enabled ? schedule.nextRunAt : null);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [currentNode?.id, currentNode?.type, workflowId]);
+
+  useEffect(() => {
+    if (currentNode?.type !== "api_call") return;
+
+    let cancelled = false;
+    workflowAPI
+      .getIntegrations()
+      .then((response) => {
+        if (!cancelled) setCredentials(response.data || []);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [currentNode?.type]);
+
+  useEffect(() => {
+    if (currentNode?.type !== "sub_workflow") return;
+
+    let cancelled = false;
+    workflowAPI
+      .getWorkflows()
+      .then((response) => {
+        if (!cancelled) setWorkflows(response.data || []);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [currentNode?.type]);
+
   const validateConfig = (configData: any) => {
     const errors: string[] = [];
 
@@ -65,16 +154,281 @@ const NodeConfigPanel = ({
     if (currentNode) {
       const nodeType = currentNode.type;
 
-      if (nodeType === "agent" && !configData.agentId) {
-        errors.push("Agent must be selected");
+      if (nodeType === "agent" || nodeType === "hybrid") {
+        if (!configData.agentId) {
+          errors.push(
+            nodeType === "agent" ? "Agent must be selected" : "Base agent must be selected"
+          );
+        }
+
+        for (const field of ["prompt", "systemPrompt"]) {
+          const result = configData[field]
+            ? validateTemplate(configData[field])
+            : { valid: true as const };
+          if (!result.valid) {
+            errors.push(
+              `Invalid ${field === "prompt" ? "prompt" : "system prompt"} template: ${result.error}`
+            );
+          }
+        }
+
+        const overrides = nodeType === "agent" ? configData.agentConfig : configData.hybridConfig;
+        if (overrides) {
+          try {
+            JSON.parse(overrides);
+          } catch {
+            errors.push(
+              `${nodeType === "agent" ? "Agent" : "Hybrid"} configuration must be valid JSON`
+            );
+          }
+        }
       }
 
-      if (nodeType === "tool" && !configData.toolId) {
-        errors.push("Tool must be selected");
+      if (nodeType === "tool") {
+        if (!configData.toolId) {
+          errors.push("Tool must be selected");
+        }
+
+        if (configData.toolParams) {
+          try {
+            const params = JSON.parse(configData.toolParams);
+            if (!params || typeof params !== "object" || Array.isArray(params)) {
+              errors.push("Tool parameters must be a JSON object");
+            } else {
+              for (const value of collectStrings(params)) {
+                const result = validateTemplate(value);
+                if (!result.valid) {
+                  errors.push(`Invalid tool parameter template: ${result.error}`);
+                }
+              }
+            }
+          } catch {
+            errors.push("Tool parameters must be valid JSON");
+          }
+        }
       }
 
-      if (nodeType === "condition" && !configData.condition) {
-        errors.push("Condition expression is required");
+      if (nodeType === "api_call") {
+        if (!configData.url) {
+          errors.push("URL is required");
+        } else {
+          const result = validateTemplate(configData.url);
+          if (!result.valid) {
+            errors.push(`Invalid URL template: ${result.error}`);
+          }
+        }
+
+        for (const [field, name] of [
+          ["queryParams", "Query parameters"],
+          ["headers", "Headers"],
+        ]) {
+          if (!configData[field]) continue;
+          try {
+            const value = JSON.parse(configData[field]);
+            if (!value || typeof value !== "object" || Array.isArray(value)) {
+              errors.push(`${name} must be a JSON object`);
+            }
+          } catch {
+            errors.push(`${name} must be valid JSON`);
+          }
+        }
+
+        if (configData.authType && configData.authType !== "none" && !configData.credentialId) {
+          errors.push("A stored credential is required for authentication");
+        }
+
+        try {
+          parseStatusRanges(configData.successStatuses);
+        } catch (error) {
+          errors.push((error as Error).message);
+        }
+
+        if (configData.pagination === "cursor" && !configData.cursorPath) {
+          errors.push("Cursor path is required for cursor pagination");
+        }
+
+        for (const field of ["itemsPath", "cursorPath"]) {
+          if (!configData[field]) continue;
+          try {
+            parsePath(configData[field]);
+          } catch (error) {
+            errors.push((error as Error).message);
+          }
+        }
+
+        if (configData.extract && configData.extract.trim()) {
+          try {
+            parseMappings(configData.extract);
+          } catch (error) {
+            errors.push(`Invalid extract mappings: ${(error as Error).message}`);
+          }
+        }
+      }
+
+      if (nodeType === "schedule") {
+        if (configData.scheduleType === "interval") {
+          if (!(configData.interval > 0)) {
+            errors.push("Interval must be a positive number");
+          }
+        } else {
+          const fields = (configData.cron || "").trim().split(/\s+/).filter(Boolean);
+          if (fields.length < 5 || fields.length > 6) {
+            errors.push("Cron expression must have 5 or 6 fields");
+          }
+        }
+      }
+
+      if (
+        nodeType === "webhook" &&
+        configData.responseMode === "wait" &&
+        configData.responseTimeout !== undefined &&
+        !(configData.responseTimeout > 0)
+      ) {
+        errors.push("Response timeout must be a positive number of seconds");
+      }
+
+      if (nodeType === "condition") {
+        if (!configData.condition) {
+          errors.push("Condition expression is required");
+        } else {
+          const result = validateExpression(configData.condition);
+          if (!result.valid) {
+            errors.push(`Invalid condition: ${result.error}`);
+          }
+        }
+      }
+
+      if (nodeType === "switch") {
+        if (!configData.expression) {
+          errors.push("Switch expression is required");
+        } else {
+          const result = validateExpression(configData.expression);
+          if (!result.valid) {
+            errors.push(`Invalid switch expression: ${result.error}`);
+          }
+        }
+
+        const cases: string[] = configData.cases || [];
+        if (cases.length === 0) {
+          errors.push("At least one case is required");
+        }
+        if (cases.includes("default")) {
+          errors.push("'default' is reserved for the default case");
+        }
+        if (new Set(cases).size !== cases.length) {
+          errors.push("Case values must be unique");
+        }
+      }
+
+      if (nodeType === "loop") {
+        const field = configData.loopType === "while" ? "condition" : "items";
+        const expression = configData[field];
+        if (!expression) {
+          errors.push(
+            field === "items"
+              ? "Items expression is required"
+              : "Loop condition is required"
+          );
+        } else {
+          const result = validateExpression(expression);
+          if (!result.valid) {
+            errors.push(`Invalid ${field} expression: ${result.error}`);
+          }
+        }
+      }
+
+      if (nodeType === "data_transform") {
+        if (!configData.mappings || !configData.mappings.trim()) {
+          errors.push("At least one mapping is required");
+        } else {
+          try {
+            parseMappings(configData.mappings);
+          } catch (error) {
+            errors.push(`Invalid mappings: ${(error as Error).message}`);
+          }
+        }
+      }
+
+      if (nodeType === "sub_workflow") {
+        if (!configData.subWorkflowId) {
+          errors.push("Workflow to call is required");
+        }
+        if (configData.mappings && configData.mappings.trim()) {
+          try {
+            parseMappings(configData.mappings);
+          } catch (error) {
+            errors.push(`Invalid input mappings: ${(error as Error).message}`);
+          }
+        }
+        if (configData.maxDepth !== undefined && configData.maxDepth < 1) {
+          errors.push("Max depth must be at least 1");
+        }
+      }
+
+      if (nodeType === "end" && configData.mappings && configData.mappings.trim()) {
+        try {
+          parseMappings(configData.mappings);
+        } catch (error) {
+          errors.push(`Invalid output mappings: ${(error as Error).message}`);
+        }
+      }
+
+      if (nodeType === "delay") {
+        if (configData.delayMode === "until") {
+          if (!configData.until) {
+            errors.push("Date and time to wait until is required");
+          } else {
+            const result = validateTemplate(configData.until);
+            if (!result.valid) {
+              errors.push(`Invalid wait until value: ${result.error}`);
+            }
+          }
+        } else if (configData.delayMode === "condition") {
+          if (!configData.condition) {
+            errors.push("Condition to wait for is required");
+          } else {
+            const result = validateExpression(configData.condition);
+            if (!result.valid) {
+              errors.push(`Invalid condition: ${result.error}`);
+            }
+          }
+          if (configData.pollInterval !== undefined && !(configData.pollInterval > 0)) {
+            errors.push("Poll interval must be a positive number of seconds");
+          }
+          if (configData.maxWait !== undefined && !(configData.maxWait > 0)) {
+            errors.push("Max wait must be a positive number of minutes");
+          }
+        }
+      }
+
+      if (nodeType === "filter") {
+        if (!configData.condition) {
+          errors.push("Filter condition is required");
+        } else {
+          const result = validateExpression(configData.condition);
+          if (!result.valid) {
+            errors.push(`Invalid filter condition: ${result.error}`);
+          }
+        }
+      }
+
+      if (
+        (nodeType === "data_transform" && configData.source) ||
+        (nodeType === "filter" && configData.items)
+      ) {
+        const field = nodeType === "filter" ? "items" : "source";
+        const result = validateExpression(configData[field]);
+        if (!result.valid) {
+          errors.push(`Invalid ${field} expression: ${result.error}`);
+        }
+      }
+
+      if (
+        nodeType === "human_input" &&
+        configData.inputType === "choice" &&
+        parseChoices(configData.choices).length === 0
+      ) {
+        errors.push("At least one choice is required");
       }
 
       if (!configData.label || configData.label.trim() === "") {
@@ -106,6 +460,33 @@ const NodeConfigPanel = ({
     return () => clearTimeout(timeoutId);
   };
 
+  const handleRetryPolicyChange = (field: string, value: any) => {
+    const retryPolicy: Record<string, any> = { ...config.retryPolicy, [field]: value };
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      delete retryPolicy[field];
+    }
+    handleChange(
+      "retryPolicy",
+      Object.keys(retryPolicy).length > 0 ? retryPolicy : undefined
+    );
+  };
+
+  // Pinned data is typed as JSON and only stored once it parses
+  const handlePinnedDataChange = (text: string) => {
+    setPinnedText(text);
+    if (!text.trim()) {
+      setPinnedError(null);
+      handleChange("pinnedData", undefined);
+      return;
+    }
+    try {
+      handleChange("pinnedData", JSON.parse(text));
+      setPinnedError(null);
+    } catch {
+      setPinnedError("Pinned data must be valid JSON");
+    }
+  };
+
   const handleSave = () => {
     if (validateConfig(config) && currentNode) {
       if (onUpdateNodeConfig) {
@@ -130,6 +511,63 @@ const NodeConfigPanel = ({
     );
   }
 
+  // Runs the node against sample data and shows the result as it is edited
+  const renderPreview = (run: (scope: Record<string, any>) => unknown) => {
+    let scope: Record<string, any> | null = null;
+    let sampleError: string | null = null;
+    if (sampleData) {
+      scope = { ...sampleData, variables: {} };
+    } else if (sampleText.trim()) {
+      try {
+        scope = { input: JSON.parse(sampleText), nodeOutputs: {}, variables: {} };
+      } catch {
+        sampleError = "Sample data must be valid JSON";
+      }
+    }
+
+    let preview: string | null = null;
+    let previewError: string | null = sampleError;
+    if (scope) {
+      try {
+        preview = JSON.stringify(run(scope), null, 2);
+      } catch (error) {
+        previewError = (error as Error).message;
+      }
+    }
+
+    return (
+      <div className="space-y-2">
+        <Label>Preview</Label>
+        {sampleData ? (
+          <p className="text-xs text-muted-foreground">
+            Using the upstream output from the last execution
+          </p>
+        ) : (
+          <Textarea
+            placeholder='Paste sample input JSON, e.g. {"items": [{"id": 1}]}'
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+            className="min-h-[80px] font-mono text-xs"
+          />
+        )}
+        {previewError ? (
+          <p className="text-xs text-destructive flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            {previewError}
+          </p>
+        ) : preview !== null ? (
+          <pre className="text-xs font-mono bg-muted p-2 rounded max-h-60 overflow-auto">
+            {preview}
+          </pre>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Run the workflow or paste sample data to preview the output
+          </p>
+        )}
+      </div>
+    );
+  };
+
   const renderNodeTypeSpecificConfig = () => {
     const nodeType = currentNode.type;
 
@@ -156,6 +594,32 @@ const NodeConfigPanel = ({
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="prompt">Prompt</Label>
+              <Textarea
+                id="prompt"
+                placeholder="Summarise the following: {{ input.text }}"
+                value={config.prompt || ""}
+                onChange={(e) => handleChange("prompt", e.target.value)}
+                className="min-h-[100px] font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                <code>{"{{ expression }}"}</code> inserts upstream outputs and
+                variables. Leave empty to send the previous node&apos;s output
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="systemPrompt">System Prompt</Label>
+              <Textarea
+                id="systemPrompt"
+                placeholder="Overrides the agent's system prompt"
+                value={config.systemPrompt || ""}
+                onChange={(e) => handleChange("systemPrompt", e.target.value)}
+                className="min-h-[80px]"
+              />
+            </div>
+
             {config.agentId && (
               <div className="space-y-2">
                 <Label htmlFor="agentConfig">Agent Configuration</Label>
@@ -167,7 +631,7 @@ const NodeConfigPanel = ({
                   className="min-h-[100px]"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Enter JSON configuration for the agent
+                  JSON overriding the agent&apos;s settings
                 </p>
               </div>
             )}
@@ -207,27 +671,309 @@ const NodeConfigPanel = ({
                   className="min-h-[100px]"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Enter JSON parameters for the tool
+                  JSON parameters for the tool. String values can use{" "}
+                  <code>{"{{ expression }}"}</code>; a value that is only a
+                  template keeps its type
                 </p>
               </div>
             )}
           </div>
         );
 
-      case "condition":
+      case "api_call": {
+        const pagination = config.pagination || "none";
+
+        return (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="method">Method</Label>
+                <Select
+                  value={config.method || "GET"}
+                  onValueChange={(value) => handleChange("method", value)}
+                >
+                  <SelectTrigger id="method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {["GET", "POST", "PUT", "PATCH", "DELETE"].map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {method}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="url">URL</Label>
+                <Input
+                  id="url"
+                  className="font-mono"
+                  placeholder="https://api.internal/users/{{ input.userId }}"
+                  value={config.url || ""}
+                  onChange={(e) => handleChange("url", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="queryParams">Query Parameters</Label>
+              <Textarea
+                id="queryParams"
+                placeholder='{"status": "active", "limit": 50}'
+                value={config.queryParams || ""}
+                onChange={(e) => handleChange("queryParams", e.target.value)}
+                className="min-h-[60px] font-mono"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="headers">Headers</Label>
+              <Textarea
+                id="headers"
+                placeholder='{"X-Request-Id": "{{ variables.requestId }}"}'
+                value={config.headers || ""}
+                onChange={(e) => handleChange("headers", e.target.value)}
+                className="min-h-[60px] font-mono"
+              />
+            </div>
+
+            {!["GET", "DELETE"].includes(config.method || "GET") && (
+              <div className="space-y-2">
+                <Label htmlFor="body">Body</Label>
+                <Textarea
+                  id="body"
+                  placeholder='{"name": "{{ input.name }}"}'
+                  value={config.body || ""}
+                  onChange={(e) => handleChange("body", e.target.value)}
+                  className="min-h-[100px] font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  JSON bodies are sent as JSON; anything else is sent as text.
+                </p>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              The URL, query parameters, headers and body can use{" "}
+              <code>{"{{ expression }}"}</code> templates over{" "}
+              <code>input</code>, <code>nodeOutputs</code> and{" "}
+              <code>variables</code>.
+            </p>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="authType">Authentication</Label>
+                <Select
+                  value={config.authType || "none"}
+                  onValueChange={(value) => handleChange("authType", value)}
+                >
+                  <SelectTrigger id="authType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="bearer">Bearer token</SelectItem>
+                    <SelectItem value="basic">Basic</SelectItem>
+                    <SelectItem value="api_key">API key</SelectItem>
+                    <SelectItem value="oauth2">OAuth 2.0</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {config.authType && config.authType !== "none" && (
+                <div className="space-y-2">
+                  <Label htmlFor="credentialId">Credential</Label>
+                  <Select
+                    value={config.credentialId || ""}
+                    onValueChange={(value) => handleChange("credentialId", value)}
+                  >
+                    <SelectTrigger id="credentialId">
+                      <SelectValue placeholder="Select a credential" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {credentials.map((credential) => (
+                        <SelectItem key={credential.id} value={credential.id}>
+                          {credential.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="successStatuses">Success Statuses</Label>
+                <Input
+                  id="successStatuses"
+                  placeholder="200-299"
+                  value={config.successStatuses || ""}
+                  onChange={(e) => handleChange("successStatuses", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="requestTimeout">Request Timeout (seconds)</Label>
+                <Input
+                  id="requestTimeout"
+                  type="number"
+                  min="1"
+                  value={config.requestTimeout || 30}
+                  onChange={(e) =>
+                    handleChange("requestTimeout", parseInt(e.target.value))
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Other statuses fail the node with the response body attached,
+              e.g. <code>200-299, 404</code> treats a missing record as a
+              result.
+            </p>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pagination">Pagination</Label>
+                <Select
+                  value={pagination}
+                  onValueChange={(value) => handleChange("pagination", value)}
+                >
+                  <SelectTrigger id="pagination">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="page">Page number</SelectItem>
+                    <SelectItem value="cursor">Cursor</SelectItem>
+                    <SelectItem value="link">Link header</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {pagination !== "none" && (
+                <div className="space-y-2">
+                  <Label htmlFor="maxPages">Max Pages</Label>
+                  <Input
+                    id="maxPages"
+                    type="number"
+                    min="1"
+                    value={config.maxPages || 10}
+                    onChange={(e) =>
+                      handleChange("maxPages", parseInt(e.target.value))
+                    }
+                  />
+                </div>
+              )}
+            </div>
+
+            {pagination !== "none" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="itemsPath">Items Path</Label>
+                  <Input
+                    id="itemsPath"
+                    className="font-mono"
+                    placeholder="$.data"
+                    value={config.itemsPath || ""}
+                    onChange={(e) => handleChange("itemsPath", e.target.value)}
+                  />
+                </div>
+                {pagination === "page" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="pageParam">Page Parameter</Label>
+                    <Input
+                      id="pageParam"
+                      placeholder="page"
+                      value={config.pageParam || ""}
+                      onChange={(e) => handleChange("pageParam", e.target.value)}
+                    />
+                  </div>
+                )}
+                {pagination === "cursor" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="cursorPath">Next Cursor Path</Label>
+                      <Input
+                        id="cursorPath"
+                        className="font-mono"
+                        placeholder="$.meta.nextCursor"
+                        value={config.cursorPath || ""}
+                        onChange={(e) => handleChange("cursorPath", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cursorParam">Cursor Parameter</Label>
+                      <Input
+                        id="cursorParam"
+                        placeholder="cursor"
+                        value={config.cursorParam || ""}
+                        onChange={(e) => handleChange("cursorParam", e.target.value)}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+            {pagination !== "none" && (
+              <p className="text-xs text-muted-foreground">
+                Items from every page are joined into <code>data</code>.
+                Paging stops on an empty page, a missing cursor or next link,
+                or the page limit.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="extract">Extract Fields</Label>
+              <Textarea
+                id="extract"
+                placeholder='{"userId": "$.user.id", "total": {"from": "$.meta.total", "type": "number"}}'
+                value={config.extract || ""}
+                onChange={(e) => handleChange("extract", e.target.value)}
+                className="min-h-[80px] font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Mappings over the response body, as in a Transform node. The
+                results appear in the output as <code>fields</code>.
+              </p>
+            </div>
+          </div>
+        );
+      }
+
+      case "condition": {
+        const expressionCheck = config.condition
+          ? validateExpression(config.condition)
+          : null;
+
         return (
           <div className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="condition">Condition Expression</Label>
               <Textarea
                 id="condition"
-                placeholder="result.success === true"
+                placeholder="input.success == true && length(input.items) > 0"
                 value={config.condition || ""}
                 onChange={(e) => handleChange("condition", e.target.value)}
-                className="min-h-[100px]"
+                className={`min-h-[100px] font-mono ${
+                  expressionCheck && !expressionCheck.valid
+                    ? "border-destructive"
+                    : ""
+                }`}
               />
+              {expressionCheck && !expressionCheck.valid && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {expressionCheck.error}
+                </p>
+              )}
               <p className="text-xs text-muted-foreground">
-                Enter a JavaScript expression that evaluates to true or false
+                Use <code>input</code>, <code>nodeOutputs</code> and{" "}
+                <code>variables</code> with comparison and logical operators,
+                plus helpers such as <code>lower()</code>,{" "}
+                <code>contains()</code> and <code>dateDiff()</code>
               </p>
             </div>
 
@@ -250,46 +996,419 @@ const NodeConfigPanel = ({
             </div>
           </div>
         );
+      }
+
+      case "parallel":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="aggregation">Result Aggregation</Label>
+              <Select
+                value={config.aggregation || "all"}
+                onValueChange={(value) => handleChange("aggregation", value)}
+              >
+                <SelectTrigger id="aggregation">
+                  <SelectValue placeholder="Select aggregation method" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Wait for all branches</SelectItem>
+                  <SelectItem value="any">
+                    Continue on first success
+                  </SelectItem>
+                  <SelectItem value="majority">
+                    Continue on majority success
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Each outgoing edge starts a branch. Branches still running
+                once the result is decided are cancelled.
+              </p>
+            </div>
+          </div>
+        );
+
+      case "switch": {
+        const expressionCheck = config.expression
+          ? validateExpression(config.expression)
+          : null;
+
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="expression">Switch Expression</Label>
+              <Input
+                id="expression"
+                className="font-mono"
+                placeholder="input.status"
+                value={config.expression || ""}
+                onChange={(e) => handleChange("expression", e.target.value)}
+              />
+              {expressionCheck && !expressionCheck.valid && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {expressionCheck.error}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cases">Cases</Label>
+              <Textarea
+                id="cases"
+                placeholder={"approved\nrejected\npending"}
+                value={casesText}
+                onChange={(e) => {
+                  setCasesText(e.target.value);
+                  handleChange(
+                    "cases",
+                    e.target.value
+                      .split("\n")
+                      .map((value) => value.trim())
+                      .filter(Boolean)
+                  );
+                }}
+                className="min-h-[100px] font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                One case value per line. Each case gets its own output handle;
+                values that match no case follow the Default handle.
+              </p>
+            </div>
+          </div>
+        );
+      }
+
+      case "loop": {
+        const isWhile = config.loopType === "while";
+        const field = isWhile ? "condition" : "items";
+        const expressionCheck = config[field]
+          ? validateExpression(config[field])
+          : null;
+
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="loopType">Loop Type</Label>
+              <Select
+                value={config.loopType || "forEach"}
+                onValueChange={(value) => handleChange("loopType", value)}
+              >
+                <SelectTrigger id="loopType">
+                  <SelectValue placeholder="Select loop type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="forEach">For each item</SelectItem>
+                  <SelectItem value="while">While condition holds</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={field}>
+                {isWhile ? "Condition" : "Items"}
+              </Label>
+              <Input
+                id={field}
+                className="font-mono"
+                placeholder={
+                  isWhile ? "index < 5 && input.hasMore" : "input.items"
+                }
+                value={config[field] || ""}
+                onChange={(e) => handleChange(field, e.target.value)}
+              />
+              {expressionCheck && !expressionCheck.valid && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {expressionCheck.error}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {isWhile
+                  ? "Checked before each iteration. input is the previous iteration's output."
+                  : "Expression that evaluates to an array, e.g. nodeOutputs.fetch.items"}
+              </p>
+            </div>
+
+            {!isWhile && (
+              <div className="space-y-2">
+                <Label htmlFor="itemVariable">Item Variable</Label>
+                <Input
+                  id="itemVariable"
+                  placeholder="item"
+                  value={config.itemVariable || ""}
+                  onChange={(e) => handleChange("itemVariable", e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxIterations">Max Iterations</Label>
+                <Input
+                  id="maxIterations"
+                  type="number"
+                  min="1"
+                  value={config.maxIterations || 100}
+                  onChange={(e) =>
+                    handleChange("maxIterations", parseInt(e.target.value))
+                  }
+                />
+              </div>
+              {!isWhile && (
+                <div className="space-y-2">
+                  <Label htmlFor="concurrency">Concurrency</Label>
+                  <Input
+                    id="concurrency"
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={config.concurrency || 1}
+                    onChange={(e) =>
+                      handleChange("concurrency", parseInt(e.target.value))
+                    }
+                  />
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Nodes connected to the Body handle run once per iteration; the
+              Done handle continues with the collected results.
+            </p>
+          </div>
+        );
+      }
+
+      case "data_transform": {
+        const sourceCheck = config.source
+          ? validateExpression(config.source)
+          : null;
+
+        return (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="source">Source</Label>
+                <Input
+                  id="source"
+                  className="font-mono"
+                  placeholder="input"
+                  value={config.source || ""}
+                  onChange={(e) => handleChange("source", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transformMode">Mode</Label>
+                <Select
+                  value={config.transformMode || "object"}
+                  onValueChange={(value) => handleChange("transformMode", value)}
+                >
+                  <SelectTrigger id="transformMode">
+                    <SelectValue placeholder="Select mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="object">Whole value</SelectItem>
+                    <SelectItem value="each">Each array item</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {sourceCheck && !sourceCheck.valid && (
+              <p className="text-xs text-destructive flex items-center gap-1">
+                <AlertCircle className="h-3 w-3" />
+                {sourceCheck.error}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="mappings">Mappings</Label>
+              <Textarea
+                id="mappings"
+                placeholder='{"name": "$.user.fullName", "ids": "orders[*].id", "total": {"from": "amount", "type": "number"}}'
+                value={config.mappings || ""}
+                onChange={(e) => handleChange("mappings", e.target.value)}
+                className="min-h-[160px] font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Keys are output fields (dotted for nesting). A string value is
+                a selector such as <code>$.a.b</code>, <code>items[0]</code>,{" "}
+                <code>items[-1]</code> or <code>items[*].id</code>, or a
+                template when it contains <code>{"{{ }}"}</code>. Objects take
+                one of <code>from</code>, <code>template</code>,{" "}
+                <code>expression</code> or <code>value</code>, plus an optional{" "}
+                <code>type</code> (string, number, integer, boolean, date,
+                array, json) and <code>default</code>. Templates see the
+                record as <code>item</code>.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="keepUnmapped">Keep unmapped fields</Label>
+              <Switch
+                id="keepUnmapped"
+                checked={!!config.keepUnmapped}
+                onCheckedChange={(checked) => handleChange("keepUnmapped", checked)}
+              />
+            </div>
+
+            {renderPreview((scope) => runTransform(config, scope))}
+          </div>
+        );
+      }
+
+      case "sub_workflow":
+        return (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="subWorkflowId">Workflow</Label>
+                <Select
+                  value={config.subWorkflowId || ""}
+                  onValueChange={(value) => handleChange("subWorkflowId", value)}
+                >
+                  <SelectTrigger id="subWorkflowId">
+                    <SelectValue placeholder="Select a workflow" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workflows.map((workflow) => (
+                      <SelectItem key={workflow.id} value={workflow.id}>
+                        {workflow.name}
+                        {workflow.id === workflowId ? " (this workflow)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="subWorkflowVersion">Version</Label>
+                <Input
+                  id="subWorkflowVersion"
+                  type="number"
+                  min="1"
+                  placeholder="Latest"
+                  value={config.subWorkflowVersion ?? ""}
+                  onChange={(e) =>
+                    handleChange(
+                      "subWorkflowVersion",
+                      e.target.value ? parseInt(e.target.value) : undefined
+                    )
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="mappings">Input Mappings</Label>
+              <Textarea
+                id="mappings"
+                placeholder='{"customerId": "$.customer.id", "total": {"from": "amount", "type": "number"}}'
+                value={config.mappings || ""}
+                onChange={(e) => handleChange("mappings", e.target.value)}
+                className="min-h-[120px] font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Builds the called workflow's input from this node's input,
+                using the same mappings as the Transform node. Leave empty to
+                pass the input through unchanged.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="waitForCompletion">Wait for completion</Label>
+                <Switch
+                  id="waitForCompletion"
+                  checked={config.waitForCompletion !== false}
+                  onCheckedChange={(checked) => handleChange("waitForCompletion", checked)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxDepth">Max Depth</Label>
+                <Input
+                  id="maxDepth"
+                  type="number"
+                  min="1"
+                  placeholder={String(MAX_SUB_WORKFLOW_DEPTH)}
+                  value={config.maxDepth ?? ""}
+                  onChange={(e) =>
+                    handleChange(
+                      "maxDepth",
+                      e.target.value ? parseInt(e.target.value) : undefined
+                    )
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              When waiting, the node outputs the called workflow's result
+              under <code>output</code> and fails if that run fails. Otherwise
+              it completes once the run has started, with its{" "}
+              <code>executionId</code>. Max depth limits how deeply
+              sub-workflows may nest, including a workflow calling itself.
+            </p>
+          </div>
+        );
+
+      case "filter": {
+        const conditionCheck = config.condition
+          ? validateExpression(config.condition)
+          : null;
 
-      case "parallel":
         return (
           <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="branches">Number of Parallel Branches</Label>
-              <Input
-                id="branches"
-                type="number"
-                min="2"
-                max="10"
-                value={config.branches || 2}
-                onChange={(e) =>
-                  handleChange("branches", parseInt(e.target.value))
-                }
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="items">Items</Label>
+                <Input
+                  id="items"
+                  className="font-mono"
+                  placeholder="input"
+                  value={config.items || ""}
+                  onChange={(e) => handleChange("items", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="itemVariable">Item Variable</Label>
+                <Input
+                  id="itemVariable"
+                  placeholder="item"
+                  value={config.itemVariable || ""}
+                  onChange={(e) => handleChange("itemVariable", e.target.value)}
+                />
+              </div>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="aggregation">Result Aggregation</Label>
-              <Select
-                value={config.aggregation || "all"}
-                onValueChange={(value) => handleChange("aggregation", value)}
-              >
-                <SelectTrigger id="aggregation">
-                  <SelectValue placeholder="Select aggregation method" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">Wait for all branches</SelectItem>
-                  <SelectItem value="any">
-                    Continue on first completion
-                  </SelectItem>
-                  <SelectItem value="majority">
-                    Continue on majority completion
-                  </SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="condition">Keep Items Where</Label>
+              <Textarea
+                id="condition"
+                placeholder="item.status == 'active' && item.total > 100"
+                value={config.condition || ""}
+                onChange={(e) => handleChange("condition", e.target.value)}
+                className={`min-h-[80px] font-mono ${
+                  conditionCheck && !conditionCheck.valid
+                    ? "border-destructive"
+                    : ""
+                }`}
+              />
+              {conditionCheck && !conditionCheck.valid && (
+                <p className="text-xs text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {conditionCheck.error}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Evaluated for every item, with its position as{" "}
+                <code>index</code>. The output lists the kept items with{" "}
+                <code>count</code> and <code>dropped</code> totals.
+              </p>
             </div>
+
+            {renderPreview((scope) => runFilter(config, scope))}
           </div>
         );
+      }
 
       case "human_input":
         return (
@@ -359,45 +1478,165 @@ Option 3"
                 }
               />
               <p className="text-xs text-muted-foreground">
-                Workflow will timeout after this period if no input is received
+                The execution waits this long for an answer before the timeout
+                action below applies
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="onTimeout">On Timeout</Label>
+              <Select
+                value={config.onTimeout || "fail"}
+                onValueChange={(value) => handleChange("onTimeout", value)}
+              >
+                <SelectTrigger id="onTimeout">
+                  <SelectValue placeholder="Select timeout action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fail">Fail the execution</SelectItem>
+                  <SelectItem value="escalate">Escalate and continue</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Escalating continues with <code>input.timedOut == true</code> so
+                a condition can route the run to a fallback
               </p>
             </div>
           </div>
         );
 
-      case "delay":
+      case "delay": {
+        const delayMode = config.delayMode || "duration";
+
         return (
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="delayTime">Delay Duration</Label>
-              <div className="flex space-x-2">
+              <Label htmlFor="delayMode">Wait</Label>
+              <Select
+                value={delayMode}
+                onValueChange={(value) => handleChange("delayMode", value)}
+              >
+                <SelectTrigger id="delayMode">
+                  <SelectValue placeholder="Select what to wait for" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="duration">For a duration</SelectItem>
+                  <SelectItem value="until">Until a date and time</SelectItem>
+                  <SelectItem value="condition">Until a condition is true</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {delayMode === "duration" && (
+              <div className="space-y-2">
+                <Label htmlFor="delayTime">Delay Duration</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="delayTime"
+                    type="number"
+                    min="1"
+                    value={config.delayTime || 5}
+                    onChange={(e) =>
+                      handleChange("delayTime", parseInt(e.target.value))
+                    }
+                    className="flex-1"
+                  />
+                  <Select
+                    value={config.delayUnit || "seconds"}
+                    onValueChange={(value) => handleChange("delayUnit", value)}
+                  >
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue placeholder="Unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="seconds">Seconds</SelectItem>
+                      <SelectItem value="minutes">Minutes</SelectItem>
+                      <SelectItem value="hours">Hours</SelectItem>
+                      <SelectItem value="days">Days</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {delayMode === "until" && (
+              <div className="space-y-2">
+                <Label htmlFor="until">Wait Until</Label>
                 <Input
-                  id="delayTime"
-                  type="number"
-                  min="1"
-                  value={config.delayTime || 5}
-                  onChange={(e) =>
-                    handleChange("delayTime", parseInt(e.target.value))
-                  }
-                  className="flex-1"
+                  id="until"
+                  placeholder="2025-01-01T09:00:00Z"
+                  value={config.until || ""}
+                  onChange={(e) => handleChange("until", e.target.value)}
+                  className="font-mono"
                 />
-                <Select
-                  value={config.delayUnit || "seconds"}
-                  onValueChange={(value) => handleChange("delayUnit", value)}
-                >
-                  <SelectTrigger className="w-[120px]">
-                    <SelectValue placeholder="Unit" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="seconds">Seconds</SelectItem>
-                    <SelectItem value="minutes">Minutes</SelectItem>
-                    <SelectItem value="hours">Hours</SelectItem>
-                  </SelectContent>
-                </Select>
+                <p className="text-xs text-muted-foreground">
+                  An ISO date and time, or a template such as{" "}
+                  <code>{"{{ input.sendAt }}"}</code>. Times already passed
+                  continue straight away
+                </p>
               </div>
-            </div>
+            )}
+
+            {delayMode === "condition" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="condition">Condition</Label>
+                  <Textarea
+                    id="condition"
+                    placeholder="variables.approved == true"
+                    value={config.condition || ""}
+                    onChange={(e) => handleChange("condition", e.target.value)}
+                    className="min-h-[80px] font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Checked every poll interval until it is true
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="pollInterval">Poll Interval (seconds)</Label>
+                    <Input
+                      id="pollInterval"
+                      type="number"
+                      min="1"
+                      placeholder={String(DEFAULT_DELAY_POLL_INTERVAL_SECONDS)}
+                      value={config.pollInterval ?? ""}
+                      onChange={(e) =>
+                        handleChange(
+                          "pollInterval",
+                          e.target.value ? parseInt(e.target.value) : undefined
+                        )
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxWait">Max Wait (minutes)</Label>
+                    <Input
+                      id="maxWait"
+                      type="number"
+                      min="1"
+                      placeholder={String(DEFAULT_DELAY_MAX_WAIT_MINUTES)}
+                      value={config.maxWait ?? ""}
+                      onChange={(e) =>
+                        handleChange(
+                          "maxWait",
+                          e.target.value ? parseInt(e.target.value) : undefined
+                        )
+                      }
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              On the server the run is suspended while it waits, so long
+              delays don't hold a worker and survive restarts
+            </p>
           </div>
         );
+      }
 
       case "hybrid":
         return (
@@ -443,17 +1682,278 @@ Option 3"
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="prompt">Prompt</Label>
+              <Textarea
+                id="prompt"
+                placeholder="Look up the order in {{ input.orderId }} and summarise its status"
+                value={config.prompt || ""}
+                onChange={(e) => handleChange("prompt", e.target.value)}
+                className="min-h-[100px] font-mono text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxToolCalls">Max Tool Calls</Label>
+              <Input
+                id="maxToolCalls"
+                type="number"
+                min="1"
+                max="50"
+                value={config.maxToolCalls || 10}
+                onChange={(e) =>
+                  handleChange("maxToolCalls", parseInt(e.target.value))
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Once used up the agent has to answer without tools
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="autoFallback"
+                checked={config.autoFallback === true}
+                onCheckedChange={(checked) => handleChange("autoFallback", checked)}
+              />
+              <Label htmlFor="autoFallback">
+                Let the agent continue when a tool fails
+              </Label>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="hybridConfig">Hybrid Configuration</Label>
               <Textarea
                 id="hybridConfig"
-                placeholder='{"max_tool_calls": 3, "auto_fallback": true}'
+                placeholder='{"temperature": 0.2}'
                 value={config.hybridConfig || ""}
                 onChange={(e) => handleChange("hybridConfig", e.target.value)}
                 className="min-h-[100px]"
               />
               <p className="text-xs text-muted-foreground">
-                Enter JSON configuration for the hybrid node
+                JSON overriding the base agent&apos;s settings
+              </p>
+            </div>
+          </div>
+        );
+
+      case "schedule":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduleType">Schedule Type</Label>
+              <Select
+                value={config.scheduleType || "cron"}
+                onValueChange={(value) => handleChange("scheduleType", value)}
+              >
+                <SelectTrigger id="scheduleType">
+                  <SelectValue placeholder="Select schedule type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cron">Cron expression</SelectItem>
+                  <SelectItem value="interval">Fixed interval</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {config.scheduleType === "interval" ? (
+              <div className="space-y-2">
+                <Label htmlFor="interval">Run Every</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="interval"
+                    type="number"
+                    min="1"
+                    value={config.interval || ""}
+                    onChange={(e) => handleChange("interval", parseInt(e.target.value))}
+                    className="flex-1"
+                  />
+                  <Select
+                    value={config.intervalUnit || "minutes"}
+                    onValueChange={(value) => handleChange("intervalUnit", value)}
+                  >
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue placeholder="Unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="seconds">Seconds</SelectItem>
+                      <SelectItem value="minutes">Minutes</SelectItem>
+                      <SelectItem value="hours">Hours</SelectItem>
+                      <SelectItem value="days">Days</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="cron">Cron Expression</Label>
+                  <Input
+                    id="cron"
+                    placeholder="0 9 * * 1-5"
+                    value={config.cron || ""}
+                    onChange={(e) => handleChange("cron", e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    minute hour day-of-month month day-of-week, with an
+                    optional leading seconds field
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Input
+                    id="timezone"
+                    placeholder="UTC"
+                    value={config.timezone || ""}
+                    onChange={(e) => handleChange("timezone", e.target.value || undefined)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    IANA name such as Europe/Berlin. Defaults to the server&apos;s timezone
+                  </p>
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="noOverlap"
+                checked={config.noOverlap === true}
+                onCheckedChange={(checked) => handleChange("noOverlap", checked)}
+              />
+              <Label htmlFor="noOverlap">Skip runs while the previous run is active</Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="catchUp"
+                checked={config.catchUp === true}
+                onCheckedChange={(checked) => handleChange("catchUp", checked)}
+              />
+              <Label htmlFor="catchUp">Run once after missed runs</Label>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {nextRunAt
+                ? `Next run: ${new Date(nextRunAt).toLocaleString()}`
+                : "The next run time is shown once the workflow is saved"}
+            </p>
+          </div>
+        );
+
+      case "webhook":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhookUrl">Webhook URL</Label>
+              <Input
+                id="webhookUrl"
+                readOnly
+                value={
+                  config.token
+                    ? webhookPath(workflowId || ":workflowId", config.token)
+                    : ""
+                }
+                placeholder="Generated when the workflow is saved"
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Requests to this path on the backend start the workflow with
+                the request&apos;s method, headers, query and body as input
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="method">HTTP Method</Label>
+              <Select
+                value={config.method || "any"}
+                onValueChange={(value) =>
+                  handleChange("method", value === "any" ? undefined : value)
+                }
+              >
+                <SelectTrigger id="method">
+                  <SelectValue placeholder="Select method" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any</SelectItem>
+                  <SelectItem value="POST">POST</SelectItem>
+                  <SelectItem value="GET">GET</SelectItem>
+                  <SelectItem value="PUT">PUT</SelectItem>
+                  <SelectItem value="PATCH">PATCH</SelectItem>
+                  <SelectItem value="DELETE">DELETE</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="secret">Signing Secret</Label>
+              <Input
+                id="secret"
+                type="password"
+                placeholder="Optional"
+                value={config.secret || ""}
+                onChange={(e) => handleChange("secret", e.target.value || undefined)}
+              />
+              <p className="text-xs text-muted-foreground">
+                When set, callers must send an X-Axon-Signature header of
+                sha256=&lt;HMAC-SHA256 of the raw body&gt;
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="responseMode">Response</Label>
+              <Select
+                value={config.responseMode || "immediate"}
+                onValueChange={(value) => handleChange("responseMode", value)}
+              >
+                <SelectTrigger id="responseMode">
+                  <SelectValue placeholder="Select response mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="immediate">Respond with the execution ID</SelectItem>
+                  <SelectItem value="wait">Wait for the workflow output</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {config.responseMode === "wait" && (
+              <div className="space-y-2">
+                <Label htmlFor="responseTimeout">Response Timeout (seconds)</Label>
+                <Input
+                  id="responseTimeout"
+                  type="number"
+                  min="1"
+                  value={config.responseTimeout || 30}
+                  onChange={(e) =>
+                    handleChange("responseTimeout", parseInt(e.target.value))
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Runs still going after this are answered with the execution ID
+                </p>
+              </div>
+            )}
+          </div>
+        );
+
+      case "end":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mappings">Output Mappings</Label>
+              <Textarea
+                id="mappings"
+                placeholder='{"orderId": "$.order.id", "total": {"from": "amount", "type": "number"}}'
+                value={config.mappings || ""}
+                onChange={(e) => handleChange("mappings", e.target.value)}
+                className="min-h-[120px] font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Builds what the workflow returns from this node's input, using
+                the same mappings as the Transform node. The result is checked
+                against the workflow's output schema. Leave empty to return
+                every node's output by node id.
               </p>
             </div>
           </div>
@@ -548,20 +2048,101 @@ Option 3"
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="backoffStrategy">Backoff</Label>
+                  <Select
+                    value={config.retryPolicy?.backoffStrategy || "workflow"}
+                    onValueChange={(value) =>
+                      handleRetryPolicyChange(
+                        "backoffStrategy",
+                        value === "workflow" ? undefined : value
+                      )
+                    }
+                  >
+                    <SelectTrigger id="backoffStrategy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="workflow">Workflow default</SelectItem>
+                      <SelectItem value="exponential">Exponential</SelectItem>
+                      <SelectItem value="linear">Linear</SelectItem>
+                      <SelectItem value="fixed">Fixed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="baseDelay">Base Delay (ms)</Label>
+                  <Input
+                    id="baseDelay"
+                    type="number"
+                    min="0"
+                    placeholder="Workflow default"
+                    value={config.retryPolicy?.baseDelay ?? ""}
+                    onChange={(e) =>
+                      handleRetryPolicyChange(
+                        "baseDelay",
+                        e.target.value ? parseInt(e.target.value) : undefined
+                      )
+                    }
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
-                <Label htmlFor="timeout">Timeout (seconds)</Label>
-                <Input
-                  id="timeout"
-                  type="number"
-                  min="1"
-                  max="300"
-                  value={config.timeout || 30}
-                  onChange={(e) =>
-                    handleChange("timeout", parseInt(e.target.value))
-                  }
-                />
+                <Label>Retry On</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {ERROR_CLASSES.map((errorClass) => (
+                    <div key={errorClass} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`retryOn-${errorClass}`}
+                        checked={(config.retryPolicy?.retryOn || []).includes(errorClass)}
+                        onCheckedChange={(checked) => {
+                          const retryOn: string[] = config.retryPolicy?.retryOn || [];
+                          handleRetryPolicyChange(
+                            "retryOn",
+                            checked
+                              ? [...retryOn, errorClass]
+                              : retryOn.filter((item) => item !== errorClass)
+                          );
+                        }}
+                      />
+                      <Label htmlFor={`retryOn-${errorClass}`} className="text-xs font-normal">
+                        {errorClass.replace("_", " ")}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leave all unchecked to retry every failure. Delays grow
+                  with the backoff up to the workflow&apos;s maximum, with
+                  some random jitter.
+                </p>
               </div>
 
+              {currentNode.type !== "human_input" && (
+                <div className="space-y-2">
+                  <Label htmlFor="timeout">Timeout (seconds)</Label>
+                  <Input
+                    id="timeout"
+                    type="number"
+                    min="1"
+                    placeholder="No limit"
+                    value={config.timeout || ""}
+                    onChange={(e) =>
+                      handleChange(
+                        "timeout",
+                        e.target.value ? parseInt(e.target.value) : undefined
+                      )
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Each attempt is stopped and marked as timed out after
+                    this long, cancelling in-flight model and tool calls.
+                  </p>
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <Switch
                   id="continueOnError"
@@ -574,6 +2155,44 @@ Option 3"
                   Continue workflow on error
                 </Label>
               </div>
+              <p className="text-xs text-muted-foreground">
+                Connect the node&apos;s red error output to handle failures in
+                their own branch; the error is passed on as{" "}
+                <code>input.error</code>.
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="joinMode">Incoming Branches</Label>
+                <Select
+                  value={config.joinMode || "all"}
+                  onValueChange={(value) => handleChange("joinMode", value)}
+                >
+                  <SelectTrigger id="joinMode">
+                    <SelectValue placeholder="Select join mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Wait for all branches</SelectItem>
+                    <SelectItem value="any">Run on first branch</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="joinCount"
+                  type="number"
+                  min="0"
+                  placeholder="Required branches (optional)"
+                  value={config.joinCount || ""}
+                  onChange={(e) =>
+                    handleChange(
+                      "joinCount",
+                      e.target.value ? parseInt(e.target.value) : undefined
+                    )
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  Only applies when several edges lead into this node. A
+                  branch count runs the node once that many have arrived.
+                </p>
+              </div>
 
               <div className="space-y-2">
                 <Label htmlFor="customId">Custom Node ID</Label>
@@ -587,6 +2206,51 @@ Option 3"
                   Used for referencing this node in expressions
                 </p>
               </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="pinnedData">Pinned Data</Label>
+                  <div className="flex gap-2">
+                    {currentNode.data?.output !== undefined && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          handlePinnedDataChange(formatPinnedData(currentNode.data.output))
+                        }
+                      >
+                        Pin last output
+                      </Button>
+                    )}
+                    {pinnedText && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePinnedDataChange("")}
+                      >
+                        Unpin
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <Textarea
+                  id="pinnedData"
+                  placeholder={'{"response": "sample output"}'}
+                  value={pinnedText}
+                  onChange={(e) => handlePinnedDataChange(e.target.value)}
+                  className="font-mono text-xs min-h-[100px]"
+                />
+                {pinnedError && (
+                  <p className="text-xs text-destructive flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {pinnedError}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Dry runs output this instead of running the node. Agent,
+                  tool and API nodes without pinned data answer with a mock.
+                </p>
+              </div>
             </div>
           </TabsContent>
         </div>
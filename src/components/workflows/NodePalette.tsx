@@ -29,7 +29,8 @@ import {
   Calendar,
   Image,
   Code,
-  Filter
+  Filter,
+  Workflow
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -62,6 +63,14 @@ const nodeTypes: NodeType[] = [
     category: 'core',
     color: 'bg-red-100 text-red-700 border-red-200',
   },
+  {
+    id: 'schedule',
+    name: 'Schedule',
+    description: 'Start the workflow on a cron schedule or fixed interval',
+    icon: Calendar,
+    category: 'core',
+    color: 'bg-sky-100 text-sky-700 border-sky-200',
+  },
 
   // AI nodes
   {
@@ -124,6 +133,14 @@ const nodeTypes: NodeType[] = [
     category: 'logic',
     color: 'bg-teal-100 text-teal-700 border-teal-200',
   },
+  {
+    id: 'sub_workflow',
+    name: 'Sub-workflow',
+    description: 'Call another workflow and use its output',
+    icon: Workflow,
+    category: 'logic',
+    color: 'bg-fuchsia-100 text-fuchsia-700 border-fuchsia-200',
+  },
 
   // I/O nodes
   {
@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Play } from "lucide-react";
+import { ParameterSchema, validateWorkflowInput } from "@shared/engine";
+
+interface RunInputDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The workflow's input schema; the form has a field for each entry
+  schema: Record<string, ParameterSchema>;
+  onRun: (input: Record<string, any>) => void;
+}
+
+// Form state as typed, before conversion to the schema's types
+type FieldValues = Record<string, string | boolean>;
+
+const initialValues = (schema: Record<string, ParameterSchema>): FieldValues => {
+  const values: FieldValues = {};
+  Object.keys(schema).forEach((name) => {
+    const field = schema[name];
+    if (field.type === "boolean") {
+      values[name] = field.default === true;
+    } else if (field.default === undefined) {
+      values[name] = "";
+    } else if (field.type === "object" || field.type === "array") {
+      values[name] = JSON.stringify(field.default, null, 2);
+    } else {
+      values[name] = String(field.default);
+    }
+  });
+  return values;
+};
+
+const toValue = (field: ParameterSchema, raw: string | boolean, name: string): any => {
+  if (field.type === "boolean") return raw;
+  const text = String(raw);
+  if (!text.trim()) return undefined;
+
+  if (field.enum) {
+    return field.enum.find((option) => String(option) === text);
+  }
+  switch (field.type) {
+    case "number":
+      return Number(text);
+    case "object":
+    case "array":
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new Error(`${name} must be valid JSON`);
+      }
+    default:
+      return text;
+  }
+};
+
+const RunInputDialog = ({ open, onOpenChange, schema, onRun }: RunInputDialogProps) => {
+  const [values, setValues] = useState<FieldValues>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setValues(initialValues(schema));
+      setError(null);
+    }
+  }, [open, schema]);
+
+  const setValue = (name: string, value: string | boolean) =>
+    setValues((prev) => ({ ...prev, [name]: value }));
+
+  const handleRun = () => {
+    const input: Record<string, any> = {};
+    try {
+      Object.keys(schema).forEach((name) => {
+        const value = toValue(schema[name], values[name], name);
+        if (value !== undefined) input[name] = value;
+      });
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+      return;
+    }
+
+    const checked = validateWorkflowInput(schema, input);
+    if (checked.error) {
+      setError(checked.error);
+      return;
+    }
+    onRun(checked.input);
+    onOpenChange(false);
+  };
+
+  const renderField = (name: string, field: ParameterSchema) => {
+    const value = values[name];
+
+    if (field.type === "boolean") {
+      return (
+        <Switch
+          id={`input-${name}`}
+          checked={value === true}
+          onCheckedChange={(checked) => setValue(name, checked)}
+        />
+      );
+    }
+    if (field.enum) {
+      return (
+        <Select value={String(value ?? "")} onValueChange={(option) => setValue(name, option)}>
+          <SelectTrigger id={`input-${name}`}>
+            <SelectValue placeholder={`Select ${name}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.enum.map((option) => (
+              <SelectItem key={String(option)} value={String(option)}>
+                {String(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    if (field.type === "object" || field.type === "array") {
+      return (
+        <Textarea
+          id={`input-${name}`}
+          placeholder={field.type === "array" ? "[]" : "{}"}
+          value={String(value ?? "")}
+          onChange={(e) => setValue(name, e.target.value)}
+          className="font-mono text-xs"
+        />
+      );
+    }
+    return (
+      <Input
+        id={`input-${name}`}
+        type={field.type === "number" ? "number" : "text"}
+        value={String(value ?? "")}
+        onChange={(e) => setValue(name, e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Run Workflow</DialogTitle>
+          <DialogDescription>
+            Fill in the input this workflow expects
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-auto">
+          {Object.keys(schema).map((name) => {
+            const field = schema[name];
+            return (
+              <div key={name} className="space-y-2">
+                <Label htmlFor={`input-${name}`}>
+                  {name}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                {renderField(name, field)}
+                {field.description && (
+                  <p className="text-xs text-muted-foreground">{field.description}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleRun}>
+            <Play className="h-4 w-4 mr-1" />
+            Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RunInputDialog;
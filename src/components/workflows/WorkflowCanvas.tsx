@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect } from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import ReactFlow, {
   ReactFlowProvider,
   Background,
@@ -20,19 +20,35 @@ import ReactFlow, {
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { PlusCircle, Save, Play, Trash2, ZoomIn, ZoomOut, Square } from "lucide-react";
+import { PlusCircle, Save, Play, Pause, RotateCcw, Trash2, ZoomIn, ZoomOut, Square, Bug, CircleDot, FlaskConical } from "lucide-react";
 import NodeConfigPanel from "./NodeConfigPanel";
-import { AgentNode, ToolNode, ConditionNode, ParallelNode, HumanInputNode, StartNode, EndNode, DefaultEdge   } from './nodes/WorkflowNodes';
+import DebuggerPanel from "./DebuggerPanel";
+import RunInputDialog from "./RunInputDialog";
+import WorkflowSchemaEditor from "./WorkflowSchemaEditor";
+import { AgentNode, ToolNode, ApiCallNode, ConditionNode, ParallelNode, HumanInputNode, LoopNode, SwitchNode, DataTransformNode, FilterNode, SubWorkflowNode, StartNode, EndNode, DefaultEdge   } from './nodes/WorkflowNodes';
 import { useAxonPuls } from '@/lib/axon-puls';
+import { workflowAPI } from '@/lib/api-client';
+import { NodeType, Workflow, WorkflowSettings } from '@/types/workflow';
+import { DebugCommand, DebugSnapshot, ParameterSchema, WorkflowSchemas, fromCanvasEdge, isErrorEdge } from '@shared/engine';
 import { Badge } from "../ui/badge";
 
+// The in-browser engine is only needed for debugging and dry runs, so it is
+// loaded the first time one starts instead of with the canvas
+const loadWorkflowEngine = () => import('@/lib/workflow-engine').then(module => module.workflowEngine);
+
 // Define custom node types
 const nodeTypes = {
   agent: AgentNode,
   tool: ToolNode,
+  api_call: ApiCallNode,
   condition: ConditionNode,
   parallel: ParallelNode, 
   human_input: HumanInputNode,
+  loop: LoopNode,
+  switch: SwitchNode,
+  data_transform: DataTransformNode,
+  filter: FilterNode,
+  sub_workflow: SubWorkflowNode,
   start: StartNode,
   end: EndNode,
 };
@@ -47,30 +63,51 @@ interface WorkflowCanvasProps {
   initialNodes?: Node[];
   initialEdges?: Edge[];
   readOnly?: boolean;
+  inputSchema?: Record<string, ParameterSchema>;
+  outputSchema?: Record<string, ParameterSchema>;
+  // Timeouts, retry policy and error handling for runs in the in-browser engine
+  settings?: WorkflowSettings;
 }
 
+// How a run started from the input form is carried out
+type RunMode = "run" | "debug" | "dry_run";
+
 const WorkflowCanvas = ({
   workflowId,
   initialNodes = [],
   initialEdges = [],
   readOnly = false,
+  inputSchema,
+  outputSchema,
+  settings,
 }: WorkflowCanvasProps) => {
   // State for nodes and edges
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState("canvas");
   const [executionId, setExecutionId] = useState<string | null>(null);
+  // Kept once the run finishes so it can be replayed
+  const [lastExecutionId, setLastExecutionId] = useState<string | null>(null);
   const [nodeStatuses, setNodeStatuses] = useState<Record<string, any>>({});
+  // Node ids a debug run stops at; with none it stops before every node
+  const [breakpoints, setBreakpoints] = useState<string[]>([]);
+  const [isDebugging, setIsDebugging] = useState(false);
+  const [debugSnapshot, setDebugSnapshot] = useState<DebugSnapshot | undefined>(undefined);
+  const [isDryRunning, setIsDryRunning] = useState(false);
+  const [schemas, setSchemas] = useState<WorkflowSchemas>({ inputSchema, outputSchema });
+  // Set while the input form is open for a run
+  const [runMode, setRunMode] = useState<RunMode | null>(null);
 
   // Reference to the ReactFlow instance
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
 
   // AxonPuls integration
-  const { subscribeToWorkflow, executeWorkflow, cancelWorkflow } = useAxonPuls();
+  const { subscribeToWorkflow, executeWorkflow, cancelWorkflow, pauseWorkflow, resumeWorkflow, sendDebugCommand } = useAxonPuls();
 
   // Handle node selection
   const onNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
@@ -81,11 +118,29 @@ const WorkflowCanvas = ({
   // Handle edge connection
   const onConnect = useCallback(
     (connection: Connection) => {
-      setEdges((eds) => addEdge({ ...connection, animated: true }, eds));
+      // Error branches are drawn in red so they stand apart from the happy path
+      const style = isErrorEdge(connection) ? { stroke: "#ef4444" } : undefined;
+      setEdges((eds) => addEdge({ ...connection, animated: true, style }, eds));
     },
     [setEdges],
   );
 
+  // Outputs of the last execution, as the selected node would have seen them
+  const sampleData = useMemo(() => {
+    if (!selectedNode) return undefined;
+
+    const nodeOutputs: Record<string, any> = {};
+    Object.entries(nodeStatuses).forEach(([nodeId, status]) => {
+      if (status?.output !== undefined) nodeOutputs[nodeId] = status.output;
+    });
+
+    const upstream = edges.find(
+      (edge) => edge.target === selectedNode.id && nodeOutputs[edge.source] !== undefined,
+    );
+    if (!upstream) return undefined;
+    return { input: nodeOutputs[upstream.source], nodeOutputs };
+  }, [selectedNode, edges, nodeStatuses]);
+
   // Handle node deletion
   const handleDeleteNode = useCallback(() => {
     if (selectedNode) {
@@ -107,7 +162,7 @@ const WorkflowCanvas = ({
     setIsSaving(true);
     try {
       // Get the current flow data
-      const flowData = reactFlowInstance.toObject();
+      const flowData = { ...reactFlowInstance.toObject(), ...schemas };
 
       // TODO: Implement API call to save workflow
       // Example: await fetch('/api/workflows', { method: 'POST', body: JSON.stringify(flowData) });
@@ -120,7 +175,7 @@ const WorkflowCanvas = ({
     } finally {
       setIsSaving(false);
     }
-  }, [reactFlowInstance]);
+  }, [reactFlowInstance, schemas]);
 
   // Subscribe to workflow events
   useEffect(() => {
@@ -133,14 +188,33 @@ const WorkflowCanvas = ({
         case 'workflow.started':
           setIsExecuting(true);
           setExecutionId(event.data.executionId);
+          setLastExecutionId(event.data.executionId);
           break;
           
         case 'workflow.completed':
         case 'workflow.failed':
         case 'workflow.cancelled':
           setIsExecuting(false);
+          setIsPaused(false);
           setExecutionId(null);
           break;
+
+        case 'workflow.paused':
+          setIsPaused(true);
+          break;
+
+        case 'workflow.resumed':
+          setIsPaused(false);
+          break;
+
+        case 'debug.paused':
+          setDebugSnapshot(event.data as DebugSnapshot);
+          setActiveTab("debugger");
+          break;
+
+        case 'debug.resumed':
+          setDebugSnapshot(undefined);
+          break;
           
         case 'node.started':
           updateNodeStatus(event.nodeId!, { status: 'running', progress: 0 });
@@ -157,7 +231,7 @@ const WorkflowCanvas = ({
           
         case 'node.failed':
           updateNodeStatus(event.nodeId!, { 
-            status: 'error', 
+            status: event.data.cancelled ? 'cancelled' : event.data.timedOut ? 'timeout' : 'error', 
             error: event.data.error,
             executionTime: event.data.duration 
           });
@@ -201,7 +275,7 @@ const WorkflowCanvas = ({
   }, [setNodes]);
 
   // Enhanced workflow execution
-  const handleRunWorkflow = useCallback(async () => {
+  const handleRunWorkflow = useCallback(async (input: Record<string, any> = {}) => {
     if (!workflowId) return;
 
     try {
@@ -220,13 +294,153 @@ const WorkflowCanvas = ({
       })));
 
       // Execute workflow via AxonPuls
-      executeWorkflow(workflowId, {});
+      executeWorkflow(workflowId, input);
       
     } catch (error) {
       console.error('Error executing workflow:', error);
     }
   }, [workflowId, executeWorkflow, setNodes]);
 
+  // Re-runs the last execution in full, or from a node with the outputs
+  // recorded upstream of it pinned
+  const handleReplay = useCallback(async (fromNodeId?: string) => {
+    if (!workflowId || !lastExecutionId) return;
+
+    const rerun = new Set<string>();
+    if (fromNodeId) {
+      const worklist = [fromNodeId];
+      while (worklist.length > 0) {
+        const id = worklist.shift()!;
+        if (rerun.has(id)) continue;
+        rerun.add(id);
+        edges.filter(edge => edge.source === id).forEach(edge => worklist.push(edge.target));
+      }
+    }
+
+    try {
+      setNodes(nds => nds.map(node => fromNodeId && !rerun.has(node.id) ? node : {
+        ...node,
+        data: {
+          ...node.data,
+          status: 'idle',
+          progress: undefined,
+          error: undefined,
+          executionTime: undefined,
+          streaming: false,
+          streamContent: undefined
+        }
+      }));
+      await workflowAPI.replayExecution(workflowId, lastExecutionId, fromNodeId);
+    } catch (error) {
+      console.error('Error replaying workflow:', error);
+    }
+  }, [workflowId, lastExecutionId, edges, setNodes]);
+
+  // The workflow as drawn, for runs in the in-browser engine
+  const buildWorkflow = useCallback((id: string): Workflow => ({
+    id,
+    name: id,
+    version: 1,
+    nodes: nodes.map(node => ({
+      id: node.id,
+      type: node.type as NodeType,
+      position: node.position,
+      data: node.data,
+    })),
+    edges: edges.map(fromCanvasEdge),
+    inputSchema: schemas.inputSchema,
+    outputSchema: schemas.outputSchema,
+    settings: settings || {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: 'current-user',
+    status: 'draft',
+  }), [nodes, edges, schemas, settings]);
+
+  // Runs the workflow as drawn in the in-browser engine, stopping at
+  // breakpoints (or before every node) so it can be stepped through
+  const handleDebugWorkflow = useCallback(async (input: Record<string, any> = {}) => {
+    if (!workflowId) return;
+
+    setIsDebugging(true);
+    setDebugSnapshot(undefined);
+    try {
+      const workflowEngine = await loadWorkflowEngine();
+      await workflowEngine.executeWorkflow(buildWorkflow(workflowId), input, { debugMode: true, breakpoints });
+    } catch (error) {
+      console.error('Error debugging workflow:', error);
+    } finally {
+      setIsDebugging(false);
+      setDebugSnapshot(undefined);
+    }
+  }, [workflowId, buildWorkflow, breakpoints]);
+
+  // Runs the workflow with pinned data and mocks standing in for agent, tool
+  // and API nodes, then shows how each node came out
+  const handleDryRun = useCallback(async (input: Record<string, any> = {}) => {
+    if (!workflowId) return;
+
+    setIsDryRunning(true);
+    try {
+      setNodes(nds => nds.map(node => ({
+        ...node,
+        data: {
+          ...node.data,
+          status: 'idle',
+          progress: undefined,
+          error: undefined,
+          executionTime: undefined,
+          streaming: false,
+          streamContent: undefined
+        }
+      })));
+
+      const workflowEngine = await loadWorkflowEngine();
+      const execution = await workflowEngine.executeWorkflow(buildWorkflow(workflowId), input, { dryRun: true });
+      execution.nodeExecutions.forEach(nodeExecution => {
+        updateNodeStatus(nodeExecution.nodeId, {
+          status: nodeExecution.status,
+          executionTime: nodeExecution.duration,
+          output: nodeExecution.output,
+          error: nodeExecution.error,
+        });
+      });
+    } catch (error) {
+      console.error('Error dry running workflow:', error);
+    } finally {
+      setIsDryRunning(false);
+    }
+  }, [workflowId, buildWorkflow, setNodes, updateNodeStatus]);
+
+  const startRun = useCallback((mode: RunMode, input: Record<string, any>) => {
+    if (mode === "debug") handleDebugWorkflow(input);
+    else if (mode === "dry_run") handleDryRun(input);
+    else handleRunWorkflow(input);
+  }, [handleRunWorkflow, handleDebugWorkflow, handleDryRun]);
+
+  // Workflows with an input schema ask for their input first
+  const requestRun = useCallback((mode: RunMode) => {
+    if (schemas.inputSchema && Object.keys(schemas.inputSchema).length > 0) {
+      setRunMode(mode);
+    } else {
+      startRun(mode, {});
+    }
+  }, [schemas, startRun]);
+
+  const handleDebugCommand = useCallback((command: DebugCommand) => {
+    if (!workflowId || !debugSnapshot) return;
+    sendDebugCommand(workflowId, debugSnapshot.executionId, command);
+  }, [workflowId, debugSnapshot, sendDebugCommand]);
+
+  const handleToggleBreakpoint = useCallback((nodeId: string) => {
+    const enabled = !breakpoints.includes(nodeId);
+    setBreakpoints(prev => enabled ? [...prev, nodeId] : prev.filter(id => id !== nodeId));
+    setNodes(nds => nds.map(node => node.id === nodeId
+      ? { ...node, data: { ...node.data, breakpoint: enabled } }
+      : node
+    ));
+  }, [breakpoints, setNodes]);
+
   // Enhanced workflow cancellation
   const handleCancelWorkflow = useCallback(async () => {
     if (!workflowId || !executionId) return;
@@ -238,6 +452,17 @@ const WorkflowCanvas = ({
     }
   }, [workflowId, executionId, cancelWorkflow]);
 
+  // Paused executions finish their running nodes and hold before the next ones
+  const handleTogglePause = useCallback(() => {
+    if (!workflowId || !executionId) return;
+
+    if (isPaused) {
+      resumeWorkflow(workflowId, executionId);
+    } else {
+      pauseWorkflow(workflowId, executionId);
+    }
+  }, [workflowId, executionId, isPaused, pauseWorkflow, resumeWorkflow]);
+
   // Handle node configuration update
   const handleNodeConfigUpdate = useCallback(
     (nodeId: string, config: any) => {
@@ -318,6 +543,8 @@ const WorkflowCanvas = ({
             <TabsTrigger value="config">Configuration</TabsTrigger>
             <TabsTrigger value="execution">Execution</TabsTrigger>
             <TabsTrigger value="logs">Logs</TabsTrigger>
+            <TabsTrigger value="debugger">Debugger</TabsTrigger>
+            <TabsTrigger value="schema">Schema</TabsTrigger>
           </TabsList>
           <div className="flex gap-2">
             <Button
@@ -330,24 +557,68 @@ const WorkflowCanvas = ({
               {isSaving ? "Saving..." : "Save"}
             </Button>
             {!isExecuting ? (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleRunWorkflow}
-                disabled={!workflowId}
-              >
-                <Play className="h-4 w-4 mr-1" />
-                Run
-              </Button>
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => requestRun("run")}
+                  disabled={!workflowId}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Run
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => requestRun("debug")}
+                  disabled={!workflowId || isDebugging}
+                >
+                  <Bug className="h-4 w-4 mr-1" />
+                  {isDebugging ? "Debugging..." : "Debug"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => requestRun("dry_run")}
+                  disabled={!workflowId || isDryRunning}
+                >
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                  {isDryRunning ? "Dry running..." : "Dry Run"}
+                </Button>
+                {lastExecutionId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleReplay()}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Replay
+                  </Button>
+                )}
+              </>
             ) : (
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={handleCancelWorkflow}
-              >
-                <Square className="h-4 w-4 mr-1" />
-                Cancel
-              </Button>
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTogglePause}
+                >
+                  {isPaused ? (
+                    <Play className="h-4 w-4 mr-1" />
+                  ) : (
+                    <Pause className="h-4 w-4 mr-1" />
+                  )}
+                  {isPaused ? "Resume" : "Pause"}
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleCancelWorkflow}
+                >
+                  <Square className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -428,6 +699,26 @@ const WorkflowCanvas = ({
                   >
                     <PlusCircle className="h-4 w-4" />
                   </Button>
+                  {selectedNode && (
+                    <Button
+                      variant={breakpoints.includes(selectedNode.id) ? "secondary" : "outline"}
+                      size="sm"
+                      onClick={() => handleToggleBreakpoint(selectedNode.id)}
+                    >
+                      <CircleDot className="h-4 w-4 mr-1 text-red-500" />
+                      {breakpoints.includes(selectedNode.id) ? "Remove breakpoint" : "Add breakpoint"}
+                    </Button>
+                  )}
+                  {selectedNode && lastExecutionId && !isExecuting && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReplay(selectedNode.id)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Retry from here
+                    </Button>
+                  )}
                   {selectedNode && (
                     <Button
                       variant="destructive"
@@ -463,6 +754,8 @@ const WorkflowCanvas = ({
             {selectedNode ? (
               <NodeConfigPanel
                 node={selectedNode}
+                workflowId={workflowId}
+                sampleData={sampleData}
                 onUpdate={(config) =>
                   handleNodeConfigUpdate(selectedNode.id, config)
                 }
@@ -533,7 +826,30 @@ const WorkflowCanvas = ({
             </div>
           </Card>
         </TabsContent>
+
+        <TabsContent value="debugger" className="flex-1">
+          <Card className="h-full overflow-auto p-4">
+            <DebuggerPanel
+              snapshot={debugSnapshot}
+              isDebugging={isDebugging}
+              onCommand={handleDebugCommand}
+            />
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="schema" className="flex-1">
+          <Card className="h-full overflow-auto p-4">
+            <WorkflowSchemaEditor schemas={schemas} nodes={nodes} onChange={setSchemas} />
+          </Card>
+        </TabsContent>
       </Tabs>
+
+      <RunInputDialog
+        open={runMode !== null}
+        onOpenChange={(open) => !open && setRunMode(null)}
+        schema={schemas.inputSchema || {}}
+        onRun={(input) => runMode && startRun(runMode, input)}
+      />
     </div>
   );
 };
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle } from "lucide-react";
+import {
+  ParameterSchema,
+  WorkflowSchemas,
+  checkParameterSchemas,
+  checkTriggerInputSchema,
+} from "@shared/engine";
+
+interface WorkflowSchemaEditorProps {
+  schemas: WorkflowSchemas;
+  // The workflow's nodes, whose trigger types limit what the input schema may require
+  nodes: { type?: string }[];
+  onChange: (schemas: WorkflowSchemas) => void;
+}
+
+const SCHEMA_PLACEHOLDER = `{
+  "email": { "type": "string", "required": true },
+  "count": { "type": "number", "default": 1 }
+}`;
+
+const formatSchema = (schema?: Record<string, ParameterSchema>) =>
+  schema && Object.keys(schema).length > 0 ? JSON.stringify(schema, null, 2) : "";
+
+// Schemas are typed as JSON and only passed on once they parse and check out
+const parseSchema = (
+  text: string,
+  label: string
+): { schema?: Record<string, ParameterSchema>; error?: string } => {
+  if (!text.trim()) return {};
+  let schema: Record<string, ParameterSchema>;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    return { error: `${label} must be valid JSON` };
+  }
+  const error = checkParameterSchemas(schema, label);
+  return error ? { error } : { schema };
+};
+
+const WorkflowSchemaEditor = ({ schemas, nodes, onChange }: WorkflowSchemaEditorProps) => {
+  const [inputText, setInputText] = useState(formatSchema(schemas.inputSchema));
+  const [outputText, setOutputText] = useState(formatSchema(schemas.outputSchema));
+  const [inputError, setInputError] = useState<string | undefined>();
+  const [outputError, setOutputError] = useState<string | undefined>();
+
+  const handleInputChange = (text: string) => {
+    setInputText(text);
+    const parsed = parseSchema(text, "Input schema");
+    const { schema } = parsed;
+    const error = parsed.error || checkTriggerInputSchema({ nodes, inputSchema: schema });
+    setInputError(error);
+    if (!error) onChange({ ...schemas, inputSchema: schema });
+  };
+
+  const handleOutputChange = (text: string) => {
+    setOutputText(text);
+    const { schema, error } = parseSchema(text, "Output schema");
+    setOutputError(error);
+    if (!error) onChange({ ...schemas, outputSchema: schema });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="inputSchema">Input Schema</Label>
+        <Textarea
+          id="inputSchema"
+          placeholder={SCHEMA_PLACEHOLDER}
+          value={inputText}
+          onChange={(e) => handleInputChange(e.target.value)}
+          className="font-mono text-xs min-h-[160px]"
+        />
+        {inputError && (
+          <p className="text-xs text-destructive flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            {inputError}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Runs started from the Run button, the API or a sub-workflow node
+          are checked against it before they start, and the Run button asks
+          for these fields. Webhook and schedule runs start with their own
+          payload, so their workflows can't require fields.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="outputSchema">Output Schema</Label>
+        <Textarea
+          id="outputSchema"
+          placeholder={SCHEMA_PLACEHOLDER}
+          value={outputText}
+          onChange={(e) => handleOutputChange(e.target.value)}
+          className="font-mono text-xs min-h-[160px]"
+        />
+        {outputError && (
+          <p className="text-xs text-destructive flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            {outputError}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          A run whose End node returns anything else fails.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowSchemaEditor;
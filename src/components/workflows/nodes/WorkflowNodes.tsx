@@ -1,7 +1,7 @@
 "use client";
 
 import React, { memo, useState, useEffect } from 'react';
-import { Handle, Position, NodeProps, BaseEdge, EdgeProps, getBezierPath } from 'reactflow';
+import { Handle, Position, NodeProps, BaseEdge, EdgeProps, getBezierPath, useUpdateNodeInternals } from 'reactflow';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -22,8 +22,16 @@ import {
   MessageSquare,
   Settings,
   Eye,
-  EyeOff
+  EyeOff,
+  RotateCcw,
+  Shuffle,
+  Code,
+  Filter,
+  Globe,
+  Workflow,
+  Pin
 } from 'lucide-react';
+import { ERROR_HANDLE } from '@shared/engine';
 import { NodeData, NodeStatus } from '@/types/workflow';
 import { cn } from '@/lib/utils';
 
@@ -36,18 +44,27 @@ interface BaseNodeProps extends NodeProps {
     streaming?: boolean;
     streamContent?: string;
     isMinimized?: boolean;
+    // A debug run stops before this node
+    breakpoint?: boolean;
   };
+  sourceHandles?: { id: string; label: string }[];
 }
 
 const getNodeIcon = (type: string) => {
   switch (type) {
     case 'agent': return Bot;
     case 'tool': return Wrench;
+    case 'api_call': return Globe;
     case 'condition': return GitBranch;
     case 'parallel': return GitBranch;
     case 'human_input': return Users;
     case 'delay': return Clock;
     case 'hybrid': return Zap;
+    case 'loop': return RotateCcw;
+    case 'switch': return Shuffle;
+    case 'data_transform': return Code;
+    case 'filter': return Filter;
+    case 'sub_workflow': return Workflow;
     default: return Settings;
   }
 };
@@ -57,8 +74,10 @@ const getStatusColor = (status?: NodeStatus) => {
     case 'running': return 'border-blue-500 bg-blue-50 dark:bg-blue-950';
     case 'success': return 'border-green-500 bg-green-50 dark:bg-green-950';
     case 'error': return 'border-red-500 bg-red-50 dark:bg-red-950';
+    case 'timeout': return 'border-orange-500 bg-orange-50 dark:bg-orange-950';
     case 'waiting': return 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950';
     case 'skipped': return 'border-gray-400 bg-gray-50 dark:bg-gray-950';
+    case 'cancelled': return 'border-gray-500 bg-gray-50 dark:bg-gray-950';
     default: return 'border-border bg-background';
   }
 };
@@ -68,13 +87,15 @@ const getStatusIcon = (status?: NodeStatus) => {
     case 'running': return <Loader2 className="h-3 w-3 animate-spin text-blue-500" />;
     case 'success': return <CheckCircle className="h-3 w-3 text-green-500" />;
     case 'error': return <AlertCircle className="h-3 w-3 text-red-500" />;
+    case 'timeout': return <Clock className="h-3 w-3 text-orange-500" />;
     case 'waiting': return <Clock className="h-3 w-3 text-yellow-500" />;
     case 'skipped': return <Square className="h-3 w-3 text-gray-400" />;
+    case 'cancelled': return <Square className="h-3 w-3 text-gray-500" />;
     default: return null;
   }
 };
 
-const BaseNode: React.FC<BaseNodeProps> = ({ data, selected, type }) => {
+const BaseNode: React.FC<BaseNodeProps> = ({ data, selected, type, sourceHandles }) => {
   const [isMinimized, setIsMinimized] = useState(data.isMinimized || false);
   const [showStream, setShowStream] = useState(false);
 
@@ -128,6 +149,12 @@ const BaseNode: React.FC<BaseNodeProps> = ({ data, selected, type }) => {
           </div>
 
           <div className="flex items-center space-x-1">
+            {data.breakpoint && (
+              <span className="h-2 w-2 rounded-full bg-red-500" title="Breakpoint" />
+            )}
+            {data.config?.pinnedData !== undefined && data.config?.pinnedData !== null && (
+              <Pin className="h-3 w-3 text-muted-foreground" aria-label="Pinned data" />
+            )}
             {statusIcon}
             {data.streaming && data.streamContent && (
               <Button
@@ -219,10 +246,36 @@ const BaseNode: React.FC<BaseNodeProps> = ({ data, selected, type }) => {
         </CardContent>
       )}
 
+      {sourceHandles ? (
+        <div className="flex justify-around px-2 pb-1">
+          {sourceHandles.map((handle, index) => (
+            <span key={handle.id} className="text-[10px] text-muted-foreground">
+              {handle.label}
+              <Handle
+                type="source"
+                id={handle.id}
+                position={Position.Bottom}
+                style={{ left: `${((index + 1) / (sourceHandles.length + 1)) * 100}%` }}
+                className="w-3 h-3 !bg-primary border-2 border-background"
+              />
+            </span>
+          ))}
+        </div>
+      ) : (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          className="w-3 h-3 !bg-primary border-2 border-background"
+        />
+      )}
+
+      {/* Failures are routed here, with the error as the next node's input */}
       <Handle
         type="source"
-        position={Position.Bottom}
-        className="w-3 h-3 !bg-primary border-2 border-background"
+        id={ERROR_HANDLE}
+        position={Position.Right}
+        title="On error"
+        className="w-3 h-3 !bg-red-500 border-2 border-background"
       />
     </Card>
   );
@@ -262,6 +315,22 @@ const renderNodeSpecificContent = (type: string, data: NodeData) => {
         </div>
       );
 
+    case 'api_call':
+      return (
+        <div className="space-y-1">
+          {data.config.url && (
+            <div className="text-xs font-mono bg-muted p-1 rounded truncate">
+              {(data.config.method || 'GET').toUpperCase()} {data.config.url}
+            </div>
+          )}
+          {data.config.pagination && data.config.pagination !== 'none' && (
+            <div className="text-xs">
+              <span className="text-muted-foreground">Pagination:</span> {data.config.pagination}
+            </div>
+          )}
+        </div>
+      );
+
     case 'condition':
       return (
         <div className="space-y-1">
@@ -276,9 +345,6 @@ const renderNodeSpecificContent = (type: string, data: NodeData) => {
     case 'parallel':
       return (
         <div className="space-y-1">
-          <div className="text-xs">
-            <span className="text-muted-foreground">Branches:</span> {data.config.branches || 2}
-          </div>
           <div className="text-xs">
             <span className="text-muted-foreground">Aggregation:</span> {data.config.aggregation || 'all'}
           </div>
@@ -304,8 +370,86 @@ const renderNodeSpecificContent = (type: string, data: NodeData) => {
     case 'delay':
       return (
         <div className="space-y-1">
+          {data.config.delayMode === 'until' ? (
+            <div className="text-xs">
+              <span className="text-muted-foreground">Until:</span> {data.config.until}
+            </div>
+          ) : data.config.delayMode === 'condition' ? (
+            <div className="text-xs">
+              <span className="text-muted-foreground">Until:</span> {data.config.condition}
+            </div>
+          ) : (
+            <div className="text-xs">
+              <span className="text-muted-foreground">Duration:</span> {data.config.delayTime} {data.config.delayUnit}
+            </div>
+          )}
+        </div>
+      );
+
+    case 'loop':
+      return (
+        <div className="space-y-1">
+          <div className="text-xs">
+            <span className="text-muted-foreground">Mode:</span> {data.config.loopType === 'while' ? 'while' : 'for each'}
+          </div>
+          {(data.config.loopType === 'while' ? data.config.condition : data.config.items) && (
+            <div className="text-xs font-mono bg-muted p-1 rounded truncate">
+              {data.config.loopType === 'while' ? data.config.condition : data.config.items}
+            </div>
+          )}
+        </div>
+      );
+
+    case 'switch':
+      return (
+        <div className="space-y-1">
+          {data.config.expression && (
+            <div className="text-xs font-mono bg-muted p-1 rounded truncate">
+              {data.config.expression}
+            </div>
+          )}
           <div className="text-xs">
-            <span className="text-muted-foreground">Duration:</span> {data.config.delayTime} {data.config.delayUnit}
+            <span className="text-muted-foreground">Cases:</span> {(data.config.cases || []).length}
+          </div>
+        </div>
+      );
+
+    case 'data_transform':
+      return (
+        <div className="space-y-1">
+          <div className="text-xs">
+            <span className="text-muted-foreground">Mode:</span> {data.config.transformMode === 'each' ? 'each item' : 'object'}
+          </div>
+          {data.config.source && (
+            <div className="text-xs font-mono bg-muted p-1 rounded truncate">
+              {data.config.source}
+            </div>
+          )}
+        </div>
+      );
+
+    case 'filter':
+      return (
+        <div className="space-y-1">
+          {data.config.condition && (
+            <div className="text-xs font-mono bg-muted p-1 rounded truncate">
+              {data.config.condition}
+            </div>
+          )}
+        </div>
+      );
+
+    case 'sub_workflow':
+      return (
+        <div className="space-y-1">
+          {data.config.subWorkflowId && (
+            <div className="text-xs truncate">
+              <span className="text-muted-foreground">Workflow:</span> {data.config.subWorkflowId}
+              {data.config.subWorkflowVersion !== undefined && ` v${data.config.subWorkflowVersion}`}
+            </div>
+          )}
+          <div className="text-xs">
+            <span className="text-muted-foreground">Mode:</span> {data.config.waitForCompletion === false ? 'fire and forget' : 'wait'}
           </div>
         </div>
       );
@@ -340,6 +484,10 @@ export const ToolNode = memo((props: NodeProps) => (
   <BaseNode {...props} />
 ));
 
+export const ApiCallNode = memo((props: NodeProps) => (
+  <BaseNode {...props} />
+));
+
 export const ConditionNode = memo((props: NodeProps) => (
   <BaseNode {...props} />
 ));
@@ -360,6 +508,48 @@ export const HybridNode = memo((props: NodeProps) => (
   <BaseNode {...props} />
 ));
 
+export const DataTransformNode = memo((props: NodeProps) => (
+  <BaseNode {...props} />
+));
+
+export const FilterNode = memo((props: NodeProps) => (
+  <BaseNode {...props} />
+));
+
+export const SubWorkflowNode = memo((props: NodeProps) => (
+  <BaseNode {...props} />
+));
+
+export const LoopNode = memo((props: NodeProps) => (
+  <BaseNode
+    {...props}
+    sourceHandles={[
+      { id: 'body', label: 'Body' },
+      { id: 'done', label: 'Done' },
+    ]}
+  />
+));
+
+export const SwitchNode = memo((props: NodeProps) => {
+  const cases: string[] = props.data.config?.cases || [];
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // ReactFlow caches handle positions, so refresh them when cases change
+  useEffect(() => {
+    updateNodeInternals(props.id);
+  }, [cases.join('\u0000'), props.id, updateNodeInternals]);
+
+  return (
+    <BaseNode
+      {...props}
+      sourceHandles={[
+        ...cases.map(value => ({ id: value, label: value })),
+        { id: 'default', label: 'Default' },
+      ]}
+    />
+  );
+});
+
 // Start and End nodes
 export const StartNode = memo((props: NodeProps) => (
   <Card className="workflow-node w-24 h-24 flex items-center justify-center bg-green-50 dark:bg-green-950 border-green-500">
@@ -428,21 +618,33 @@ export const DefaultEdge = ({
 export const nodeTypes = {
   agent: AgentNode,
   tool: ToolNode,
+  api_call: ApiCallNode,
   condition: ConditionNode,
   parallel: ParallelNode,
   human_input: HumanInputNode,
   delay: DelayNode,
   hybrid: HybridNode,
+  loop: LoopNode,
+  switch: SwitchNode,
+  data_transform: DataTransformNode,
+  filter: FilterNode,
+  sub_workflow: SubWorkflowNode,
   start: StartNode,
   end: EndNode,
 };
 
 AgentNode.displayName = 'AgentNode';
 ToolNode.displayName = 'ToolNode';
+ApiCallNode.displayName = 'ApiCallNode';
 ConditionNode.displayName = 'ConditionNode';
 ParallelNode.displayName = 'ParallelNode';
 HumanInputNode.displayName = 'HumanInputNode';
 DelayNode.displayName = 'DelayNode';
 HybridNode.displayName = 'HybridNode';
+LoopNode.displayName = 'LoopNode';
+SwitchNode.displayName = 'SwitchNode';
+DataTransformNode.displayName = 'DataTransformNode';
+FilterNode.displayName = 'FilterNode';
+SubWorkflowNode.displayName = 'SubWorkflowNode';
 StartNode.displayName = 'StartNode';
 EndNode.displayName = 'EndNode';
\ No newline at end of file
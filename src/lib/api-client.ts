@@ -432,14 +432,28 @@ export const workflowAPI = {
   createWorkflow: (data: any) => apiClient.post('/workflows', data),
   updateWorkflow: (id: string, data: any) => apiClient.put(`/workflows/${id}`, data),
   deleteWorkflow: (id: string) => apiClient.delete(`/workflows/${id}`),
+  getWorkflowSchema: (id: string) => apiClient.get(`/workflows/${id}/schema`),
   
   // Workflow execution
   executeWorkflow: (id: string, input?: any) => apiClient.post(`/workflows/${id}/execute`, { input }),
   getExecution: (workflowId: string, executionId: string) => 
     apiClient.get(`/workflows/${workflowId}/executions/${executionId}`),
   getExecutions: (workflowId: string) => apiClient.get(`/workflows/${workflowId}/executions`),
+  getChildExecutions: (workflowId: string, executionId: string) =>
+    apiClient.get(`/workflows/${workflowId}/executions/${executionId}/children`),
   cancelExecution: (workflowId: string, executionId: string) => 
     apiClient.post(`/workflows/${workflowId}/executions/${executionId}/cancel`),
+  pauseExecution: (workflowId: string, executionId: string) =>
+    apiClient.post(`/workflows/${workflowId}/executions/${executionId}/pause`),
+  resumeExecution: (workflowId: string, executionId: string) =>
+    apiClient.post(`/workflows/${workflowId}/executions/${executionId}/resume`),
+  // Runs a finished execution again, from `fromNodeId` when given
+  replayExecution: (workflowId: string, executionId: string, fromNodeId?: string) =>
+    apiClient.post(`/workflows/${workflowId}/executions/${executionId}/replay`, { fromNodeId }),
+
+  // Schedules
+  getSchedules: (workflowId?: string) =>
+    apiClient.get(workflowId ? `/schedules?workflowId=${encodeURIComponent(workflowId)}` : '/schedules'),
   
   // Agents
   getAgents: () => apiClient.get('/agents'),
@@ -469,6 +483,8 @@ export const workflowAPI = {
   updateIntegration: (id: string, data: any) => apiClient.put(`/integrations/${id}`, data),
   deleteIntegration: (id: string) => apiClient.delete(`/integrations/${id}`),
   testIntegration: (id: string) => apiClient.post(`/integrations/${id}/test`),
+  // Sent by the server with the integration's credentials, which never reach the browser
+  sendIntegrationRequest: (id: string, request: any) => apiClient.post(`/integrations/${id}/request`, request),
 };
 
 export { APIError };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import { AxonPulsEvent, EventType } from '@/types/workflow';
+import { DebugCommand } from '@shared/engine';
 
 export class AxonPulsClient {
   private socket: Socket | null = null;
@@ -113,10 +114,14 @@ export class AxonPulsClient {
       'workflow.completed',
       'workflow.failed',
       'workflow.cancelled',
+      'workflow.paused',
+      'workflow.resumed',
       'node.started',
       'node.completed',
       'node.failed',
       'node.waiting',
+      'debug.paused',
+      'debug.resumed',
     ];
 
     workflowEvents.forEach(eventType => {
@@ -176,10 +181,11 @@ export class AxonPulsClient {
   }
 
   // Send user input for human input nodes
-  sendUserInput(nodeId: string, workflowId: string, input: any): void {
+  sendUserInput(nodeId: string, workflowId: string, input: any, executionId?: string): void {
     this.emit('user:input', {
       nodeId,
       workflowId,
+      executionId,
       input,
       timestamp: new Date(),
     });
@@ -221,6 +227,29 @@ export class AxonPulsClient {
     });
   }
 
+  /**
+   * Hands an event to this tab's handlers and forwards it to the server, for
+   * events raised in the browser such as those of a run being debugged here.
+   */
+  publish(event: AxonPulsEvent): void {
+    this.handleEvent(event);
+    if (this.socket && this.isConnected) {
+      this.socket.emit('axon:event', event);
+    }
+  }
+
+  // Step, continue, skip or edit a variable of a run stopped in the debugger
+  sendDebugCommand(workflowId: string, executionId: string, command: DebugCommand): void {
+    this.publish({
+      id: `debug-${Date.now()}`,
+      type: 'debug.command',
+      timestamp: new Date(),
+      source: 'debugger',
+      workflowId,
+      data: { executionId, command },
+    });
+  }
+
   private handleEvent(event: AxonPulsEvent): void {
     const handlers = this.eventHandlers.get(event.type);
     if (handlers) {
@@ -298,6 +327,9 @@ export const useAxonPuls = () => {
     emit: client.emit.bind(client),
     executeWorkflow: client.executeWorkflow.bind(client),
     cancelWorkflow: client.cancelWorkflow.bind(client),
+    pauseWorkflow: client.pauseWorkflow.bind(client),
+    resumeWorkflow: client.resumeWorkflow.bind(client),
+    sendDebugCommand: client.sendDebugCommand.bind(client),
     sendUserInput: client.sendUserInput.bind(client),
     getConnectionStatus: client.getConnectionStatus.bind(client),
   };
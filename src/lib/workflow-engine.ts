@@ -7,10 +7,74 @@ import {
   ExecutionLog,
   NodeStatus,
   ExecutionStatus,
-  AxonPulsEvent 
+  AxonPulsEvent,
+  EventType,
+  Agent,
+  NodeConfig,
+  Tool
 } from '@/types/workflow';
+import {
+  CredentialedRequest,
+  DagScheduler,
+  DebugCommand,
+  DebugSnapshot,
+  DryRunOutputSource,
+  FallbackInput,
+  ScheduledNodeState,
+  HumanInputRequest,
+  HttpRequest,
+  HttpToolRuntime,
+  HumanInputResponse,
+  NodeDeadline,
+  NodeErrorInfo,
+  ParentExecution,
+  RetryPolicySettings,
+  SubWorkflowOutput,
+  ToolExecutionError,
+  ToolResult,
+  buildSubWorkflowInput,
+  buildWorkflowOutput,
+  checkSubWorkflowVersion,
+  classifyError,
+  createHumanInputRequest,
+  debugBreakReason,
+  describeNodeFailure,
+  dryRunOutput,
+  isErrorEdge,
+  nextPage,
+  nodeDeadline,
+  parseStatusRanges,
+  renderJsonObject,
+  renderRequestBody,
+  resolveFailureRoute,
+  resolveFallbackWorkflow,
+  resolveRetryPolicy,
+  retryDelay,
+  shouldRetry,
+  sleep,
+  stepDelay,
+  subWorkflowDepth,
+  validateDebugCommand,
+  validateHumanInput,
+  validateWorkflowInput,
+  validateWorkflowOutput
+} from '@shared/engine';
+import {
+  ChatRouter,
+  TokenUsage,
+  ToolCall,
+  addUsage,
+  buildAgentRequest,
+  completeAgent,
+  formatTokens,
+  parseAgentOverrides,
+  toToolDefinition
+} from '@shared/ai';
+import { evaluateCondition, evaluateExpression, renderTemplate } from '@shared/expressions';
+import { mapRecord, parseMappings, runFilter, runTransform, selectPath } from '@shared/transform';
 import { errorMonitoring } from './error-monitoring';
 import { getAxonPulsClient } from './axon-puls';
+import { workflowAPI } from './api-client';
 
 export interface ExecutionContext {
   workflowId: string;
@@ -20,13 +84,26 @@ export interface ExecutionContext {
   variables: Record<string, any>;
   nodeOutputs: Record<string, any>;
   startTime: Date;
+  // Milliseconds the whole execution may take
   timeout?: number;
+  retryPolicy?: RetryPolicySettings;
+  // Aborted when the execution is cancelled
+  signal?: AbortSignal;
+  // How many sub-workflow nodes deep the execution was started
+  depth?: number;
+  iteration?: { loopNodeId: string; index: number };
 }
 
 export interface NodeExecutionResult {
   success: boolean;
   output?: any;
   error?: string;
+  // Code and status of the failure, used to pick which errors to retry
+  errorInfo?: NodeErrorInfo;
+  // Set when the attempt hit the node's or the workflow's deadline
+  timedOut?: NodeDeadline['reason'];
+  // Set when the attempt was stopped because the execution was cancelled
+  cancelled?: boolean;
   logs: ExecutionLog[];
   duration: number;
   retryCount: number;
@@ -37,17 +114,140 @@ export interface ExecutionOptions {
   maxRetries?: number;
   continueOnError?: boolean;
   variables?: Record<string, any>;
+  // Stops before every node, or only at `breakpoints` when any are set, until
+  // a debug command moves the execution on
   debugMode?: boolean;
+  breakpoints?: string[];
+  // Nodes with pinned data output it instead of running, and agent, tool and
+  // API nodes answer with mocks, so nothing outside the run is called
+  dryRun?: boolean;
+  // Id of the failed execution this run is the fallback for
+  fallbackFor?: string;
+  // The sub-workflow node this run was started from
+  parent?: ParentExecution;
+  // Cancels the run when aborted, e.g. together with the parent that waits on it
+  signal?: AbortSignal;
+  // Called with the execution as soon as it has been created
+  onStart?: (execution: WorkflowExecution) => void;
 }
 
+export interface SubgraphResult {
+  success: boolean;
+  output?: any;
+  error?: string;
+}
+
+/** One outgoing branch of a parallel node, started by the node's executor. */
+export interface ParallelBranch {
+  // Id of the branch's edge; labels needn't be unique, so results are keyed by it
+  key: string;
+  label: string;
+  run(signal: AbortSignal): Promise<SubgraphResult>;
+}
+
+/** The nodes behind a loop node's body handle, run once per iteration. */
+export interface LoopBody {
+  run(iteration: { index: number; variables: Record<string, any> }): Promise<SubgraphResult>;
+}
+
+export type NodeExecutorOptions = ExecutionOptions & {
+  attempt: number;
+  maxRetries: number;
+  // Aborted when the attempt runs past its deadline
+  signal?: AbortSignal;
+  branches?: ParallelBranch[];
+  loopBody?: LoopBody;
+  // Suspends the node until the request is answered through submitUserInput
+  requestInput?: (request: HumanInputRequest) => Promise<HumanInputResponse>;
+  // Publishes an event about the running node over AxonPuls
+  emit?: (type: EventType, data: Record<string, any>) => void;
+};
+
+/**
+ * Where agent nodes look up their agents and send their completions. The
+ * browser holds no provider keys, so the host supplies the router.
+ */
+export interface AgentRuntime {
+  getAgent(agentId: string): Promise<Agent>;
+  getRouter(): ChatRouter;
+}
+
+/**
+ * Where tool and hybrid nodes look up their tools and run them, and where
+ * API call nodes send their requests. Requests that authenticate with a
+ * stored credential are sent by the server, which alone reads credentials.
+ */
+export interface ToolRuntime {
+  getTool(toolId: string): Promise<Tool>;
+  invoke(tool: Tool, params: Record<string, any>, signal?: AbortSignal): Promise<ToolResult>;
+  send(request: HttpRequest): Promise<ToolResult>;
+  sendWithCredential(request: CredentialedRequest): Promise<ToolResult>;
+}
+
+/** Where fallback workflows and sub-workflows are loaded from. */
+export interface WorkflowRuntime {
+  getWorkflow(workflowId: string): Promise<Workflow>;
+}
+
+interface RegionResult {
+  failure?: NodeExecutionResult;
+  output?: any;
+  states: Record<string, ScheduledNodeState>;
+  takenEdges: string[];
+}
+
+interface PendingInput {
+  executionId: string;
+  request: HumanInputRequest;
+  respond(response: HumanInputResponse): void;
+  abort(error: Error): void;
+}
+
+interface ExecutionControl {
+  controller: AbortController;
+  execution: WorkflowExecution;
+  // Set while the execution is paused; settles when it is resumed or cancelled
+  paused?: { promise: Promise<void>; release: () => void };
+  debug?: DebugSession;
+}
+
+interface DebugSession {
+  stepping: boolean;
+  breakpoints: string[];
+  // Breaks are taken one at a time, so concurrent branches stop in turn
+  queue: Promise<unknown>;
+  stopped?: { snapshot: DebugSnapshot; proceed: (decision: 'run' | 'skip') => void };
+}
+
+interface RegionOutcome {
+  states: Record<string, 'completed' | 'failed' | 'skipped'>;
+  takenEdges: string[];
+}
+
+export const SWITCH_DEFAULT_CASE = 'default';
+
 export class WorkflowExecutionEngine {
   private static instance: WorkflowExecutionEngine;
   private activeExecutions = new Map<string, ExecutionContext>();
   private nodeExecutors = new Map<string, NodeExecutor>();
+  private pendingInputs = new Map<string, PendingInput>();
+  private executionControls = new Map<string, ExecutionControl>();
   private eventEmitter = getAxonPulsClient();
+  private agentRuntime = createDefaultAgentRuntime();
+  private toolRuntime = createDefaultToolRuntime();
+  private workflowRuntime = createDefaultWorkflowRuntime();
 
   private constructor() {
     this.registerDefaultNodeExecutors();
+
+    // Debugger panels send their commands as AxonPuls events
+    this.eventEmitter.subscribe('debug.command', event => {
+      try {
+        this.debugExecution(event.data.executionId, event.data.command);
+      } catch (error) {
+        console.warn('Rejected debug command:', error);
+      }
+    });
   }
 
   static getInstance(): WorkflowExecutionEngine {
@@ -58,24 +258,60 @@ export class WorkflowExecutionEngine {
   }
 
   private registerDefaultNodeExecutors(): void {
-    this.nodeExecutors.set('agent', new AgentNodeExecutor());
-    this.nodeExecutors.set('tool', new ToolNodeExecutor());
+    this.nodeExecutors.set('agent', new AgentNodeExecutor(() => this.agentRuntime));
+    this.nodeExecutors.set('tool', new ToolNodeExecutor(() => this.toolRuntime));
+    this.nodeExecutors.set('api_call', new ApiCallNodeExecutor(() => this.toolRuntime));
     this.nodeExecutors.set('condition', new ConditionNodeExecutor());
     this.nodeExecutors.set('parallel', new ParallelNodeExecutor());
     this.nodeExecutors.set('human_input', new HumanInputNodeExecutor());
     this.nodeExecutors.set('delay', new DelayNodeExecutor());
-    this.nodeExecutors.set('hybrid', new HybridNodeExecutor());
+    this.nodeExecutors.set('hybrid', new HybridNodeExecutor(() => this.agentRuntime, () => this.toolRuntime));
+    this.nodeExecutors.set('loop', new LoopNodeExecutor());
+    this.nodeExecutors.set('switch', new SwitchNodeExecutor());
+    this.nodeExecutors.set('data_transform', new DataTransformNodeExecutor());
+    this.nodeExecutors.set('filter', new FilterNodeExecutor());
+    this.nodeExecutors.set('sub_workflow', new SubWorkflowNodeExecutor(
+      () => this.workflowRuntime,
+      (workflow, input, options) => this.executeWorkflow(workflow, input, options)
+    ));
     this.nodeExecutors.set('start', new StartNodeExecutor());
     this.nodeExecutors.set('end', new EndNodeExecutor());
   }
 
+  /**
+   * Replaces how agents are resolved or which router they call. Agent and
+   * hybrid nodes only run in the browser once the host has set a router.
+   */
+  configureAgentRuntime(runtime: Partial<AgentRuntime>): void {
+    this.agentRuntime = { ...this.agentRuntime, ...runtime };
+  }
+
+  configureToolRuntime(runtime: Partial<ToolRuntime>): void {
+    this.toolRuntime = { ...this.toolRuntime, ...runtime };
+  }
+
+  configureWorkflowRuntime(runtime: Partial<WorkflowRuntime>): void {
+    this.workflowRuntime = { ...this.workflowRuntime, ...runtime };
+  }
+
   async executeWorkflow(
     workflow: Workflow,
     input: Record<string, any> = {},
     options: ExecutionOptions = {}
   ): Promise<WorkflowExecution> {
+    // Input that doesn't match the workflow's schema never starts a run; a
+    // fallback run starts with the failure it handles instead
+    if (!options.fallbackFor) {
+      const checked = validateWorkflowInput(workflow.inputSchema, input);
+      if (checked.error) {
+        throw new Error(checked.error);
+      }
+      input = checked.input;
+    }
+
     const executionId = this.generateExecutionId();
     const startTime = new Date();
+    const controller = new AbortController();
 
     const context: ExecutionContext = {
       workflowId: workflow.id,
@@ -85,7 +321,11 @@ export class WorkflowExecutionEngine {
       variables: { ...workflow.variables, ...options.variables },
       nodeOutputs: {},
       startTime,
-      timeout: options.timeout || workflow.settings.maxExecutionTime,
+      // maxExecutionTime is in seconds
+      timeout: options.timeout || (workflow.settings.maxExecutionTime ? workflow.settings.maxExecutionTime * 1000 : undefined),
+      retryPolicy: workflow.settings.retryPolicy,
+      signal: controller.signal,
+      depth: options.parent?.depth || 0,
     };
 
     this.activeExecutions.set(executionId, context);
@@ -99,7 +339,34 @@ export class WorkflowExecutionEngine {
       input,
       nodeExecutions: [],
       logs: [],
+      parentExecutionId: options.parent?.executionId,
+      parentNodeId: options.parent?.nodeId,
+      dryRun: options.dryRun,
     };
+    this.executionControls.set(executionId, {
+      controller,
+      execution,
+      debug: options.debugMode
+        ? {
+            stepping: !options.breakpoints?.length,
+            breakpoints: options.breakpoints || [],
+            queue: Promise.resolve(),
+          }
+        : undefined,
+    });
+
+    const parent = options.parent && this.executionControls.get(options.parent.executionId);
+    if (parent) {
+      parent.execution.childExecutionIds = [...(parent.execution.childExecutionIds || []), executionId];
+    }
+
+    // Already registered, so this can't fail for want of the execution
+    const cancel = () => void this.cancelExecution(executionId);
+    if (options.signal?.aborted) {
+      cancel();
+    }
+    options.signal?.addEventListener('abort', cancel);
+    options.onStart?.(execution);
 
     try {
       // Emit workflow started event
@@ -119,18 +386,25 @@ export class WorkflowExecutionEngine {
       }
 
       // Execute workflow
-      const result = await this.executeNode(startNode, workflow, context, options);
-      
-      execution.status = result.success ? 'completed' : 'failed';
+      const result = await this.runGraph(workflow, startNode, context, options, execution);
+      if (controller.signal.aborted) {
+        throw new Error('Execution cancelled');
+      }
+
+      // What the End node returned has to match the output schema
+      const outputError = result.success ? validateWorkflowOutput(workflow.outputSchema, result.output) : undefined;
+      const success = result.success && !outputError;
+
+      execution.status = success ? 'completed' : 'failed';
       execution.completedAt = new Date();
       execution.duration = execution.completedAt.getTime() - startTime.getTime();
       execution.output = result.output;
-      execution.error = result.error;
+      execution.error = outputError || result.error;
 
       // Emit workflow completed event
       this.emitEvent({
         id: this.generateEventId(),
-        type: result.success ? 'workflow.completed' : 'workflow.failed',
+        type: success ? 'workflow.completed' : 'workflow.failed',
         timestamp: new Date(),
         source: 'execution-engine',
         workflowId: workflow.id,
@@ -143,11 +417,23 @@ export class WorkflowExecutionEngine {
       });
 
     } catch (error) {
-      execution.status = 'failed';
+      execution.status = controller.signal.aborted ? 'cancelled' : 'failed';
       execution.completedAt = new Date();
       execution.duration = execution.completedAt.getTime() - startTime.getTime();
       execution.error = error instanceof Error ? error.message : 'Unknown error';
 
+      if (execution.status === 'cancelled') {
+        this.emitEvent({
+          id: this.generateEventId(),
+          type: 'workflow.cancelled',
+          timestamp: new Date(),
+          source: 'execution-engine',
+          workflowId: workflow.id,
+          data: { executionId, duration: execution.duration },
+        });
+        return execution;
+      }
+
       errorMonitoring.captureWorkflowError(
         error as Error,
         workflow.id,
@@ -165,33 +451,576 @@ export class WorkflowExecutionEngine {
       });
 
     } finally {
+      options.signal?.removeEventListener('abort', cancel);
       this.activeExecutions.delete(executionId);
+      this.executionControls.delete(executionId);
+    }
+
+    if (execution.status === 'failed') {
+      await this.runFallback(workflow, context, execution, options);
     }
 
     return execution;
   }
 
-  private async executeNode(
-    node: WorkflowNode,
+  /**
+   * Starts the workflow's fallback after a failed run, handing it the error
+   * together with the failed run's input, variables and node outputs.
+   */
+  private async runFallback(
+    workflow: Workflow,
+    context: ExecutionContext,
+    execution: WorkflowExecution,
+    options: ExecutionOptions
+  ): Promise<void> {
+    const fallbackId = resolveFallbackWorkflow(
+      workflow.id,
+      workflow.settings.errorHandling,
+      !!options.fallbackFor
+    );
+    if (!fallbackId) {
+      return;
+    }
+
+    const input: FallbackInput = {
+      failedWorkflowId: workflow.id,
+      failedExecutionId: execution.id,
+      error: execution.error || 'Workflow execution failed',
+      input: context.input,
+      variables: context.variables,
+      nodeOutputs: context.nodeOutputs,
+    };
+
+    try {
+      const fallback = await this.workflowRuntime.getWorkflow(fallbackId);
+      const fallbackExecution = await this.executeWorkflow(fallback, input, {
+        fallbackFor: execution.id,
+        dryRun: options.dryRun,
+      });
+      execution.fallbackExecutionId = fallbackExecution.id;
+      execution.logs.push({
+        id: this.generateLogId(),
+        timestamp: new Date(),
+        level: 'info',
+        message: `Fallback workflow ${fallbackId} ${fallbackExecution.status}`,
+        data: { executionId: fallbackExecution.id },
+      });
+    } catch (error) {
+      execution.logs.push({
+        id: this.generateLogId(),
+        timestamp: new Date(),
+        level: 'error',
+        message: `Fallback workflow ${fallbackId} could not be started: ${error instanceof Error ? error.message : error}`,
+      });
+    }
+  }
+
+  private async runGraph(
     workflow: Workflow,
+    startNode: WorkflowNode,
     context: ExecutionContext,
     options: ExecutionOptions,
-    visitedNodes = new Set<string>()
+    execution: WorkflowExecution
   ): Promise<NodeExecutionResult> {
-    // Prevent infinite loops
-    if (visitedNodes.has(node.id)) {
-      throw new Error(`Circular dependency detected at node ${node.id}`);
+    const cyclicNode = new DagScheduler(workflow.nodes, workflow.edges).findCycle();
+    if (cyclicNode) {
+      throw new Error(`Circular dependency detected at node ${cyclicNode}`);
     }
-    visitedNodes.add(node.id);
 
     const startTime = Date.now();
-    const logs: ExecutionLog[] = [];
+    const region = await this.runRegion(
+      workflow,
+      workflow.nodes,
+      [startNode.id],
+      context,
+      options,
+      execution
+    );
+
+    if (region.failure) {
+      return region.failure;
+    }
+
+    return {
+      success: true,
+      output: region.output,
+      logs: [],
+      duration: Date.now() - startTime,
+      retryCount: 0,
+    };
+  }
+
+  /**
+   * Runs part of the workflow graph from the given entry nodes. Independent
+   * branches run concurrently; a node only becomes ready once its inbound
+   * edges satisfy its join mode. Parallel nodes run their branches as nested
+   * regions. Once `signal` is aborted no further nodes are started.
+   */
+  private async runRegion(
+    workflow: Workflow,
+    nodes: WorkflowNode[],
+    entryIds: string[],
+    context: ExecutionContext,
+    options: ExecutionOptions,
+    execution: WorkflowExecution,
+    signal?: AbortSignal
+  ): Promise<RegionResult> {
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges = workflow.edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+    const scheduler = new DagScheduler(nodes, edges);
+    const nodesById = new Map(nodes.map(node => [node.id, node] as [string, WorkflowNode]));
+    const running = new Map<string, Promise<void>>();
+    const takenEdges: string[] = [];
+    let failure: NodeExecutionResult | undefined;
+    let lastOutput: any;
+    let endOutput: any;
+
+    const launch = (node: WorkflowNode) => {
+      const input = this.collectNodeInput(node, scheduler, context);
+      const region = node.type === 'parallel'
+        ? this.prepareBranches(node, workflow, nodeIds, context, options, execution)
+        : node.type === 'loop'
+          ? this.prepareLoopBody(node, workflow, nodeIds, context, options, execution)
+          : undefined;
+
+      return this.debugBreak(node, context, input).then(decision =>
+        decision === 'skip'
+          ? this.skipNode(node, context, execution, input)
+          : this.executeNode(node, context, options, execution, input, region?.extras)
+      ).then(result => {
+        if (result.cancelled) {
+          return;
+        }
+
+        // Failures go down the node's error branch when it has one
+        const errorEdges = result.success
+          ? []
+          : edges.filter(edge => edge.source === node.id && isErrorEdge(edge)).map(edge => edge.id);
+        const route = result.success
+          ? undefined
+          : resolveFailureRoute(
+              errorEdges.length > 0,
+              options.continueOnError || node.data.config.continueOnError,
+              workflow.settings.errorHandling
+            );
+
+        if (route === 'stop') {
+          scheduler.fail(node.id);
+          failure = failure || result;
+          return;
+        }
+
+        if (result.success) {
+          lastOutput = result.output;
+          if (node.type === 'end') endOutput = result.output;
+        }
+
+        let transition;
+        if (route === 'branch') {
+          context.nodeOutputs[node.id] = { error: describeNodeFailure(node, result) };
+          takenEdges.push(...errorEdges);
+          transition = region
+            ? scheduler.completeRegion(node.id, region.settle().states, errorEdges)
+            : scheduler.complete(node.id, errorEdges, 'failed');
+        } else if (region) {
+          const outcome = region.settle();
+          takenEdges.push(...outcome.takenEdges);
+          transition = scheduler.completeRegion(node.id, outcome.states, outcome.takenEdges);
+        } else {
+          const taken = this.getTakenEdges(node, workflow, context).map(edge => edge.id);
+          takenEdges.push(...taken);
+          transition = scheduler.complete(node.id, taken, result.success ? 'completed' : 'failed');
+        }
+        transition.skipped.forEach(skippedId => this.recordSkippedNode(execution, skippedId));
+      });
+    };
+
+    scheduler.start(entryIds);
+
+    for (;;) {
+      // A paused execution holds here, between nodes, until it is resumed
+      await this.executionControls.get(context.executionId)?.paused?.promise;
+
+      if (!failure && !signal?.aborted && !context.signal?.aborted) {
+        for (const nodeId of scheduler.takeReady()) {
+          if (context.timeout && Date.now() - context.startTime.getTime() > context.timeout) {
+            throw new Error('Workflow execution timeout');
+          }
+          running.set(nodeId, launch(nodesById.get(nodeId)!).then(() => {
+            running.delete(nodeId);
+          }));
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(Array.from(running.values()));
+    }
+
+    return {
+      failure,
+      output: endOutput !== undefined ? endOutput : lastOutput,
+      states: scheduler.snapshot().nodes,
+      takenEdges,
+    };
+  }
+
+  /**
+   * Splits the graph below a parallel node into one branch per outgoing edge.
+   * A branch holds the nodes reachable only through its edge; nodes reachable
+   * from several branches are where they merge and stay with the enclosing
+   * region, which schedules them once the parallel node has completed.
+   */
+  private prepareBranches(
+    node: WorkflowNode,
+    workflow: Workflow,
+    regionIds: Set<string>,
+    context: ExecutionContext,
+    options: ExecutionOptions,
+    execution: WorkflowExecution
+  ): { extras: Partial<NodeExecutorOptions>; settle: () => RegionOutcome } {
+    const branchEdges = workflow.edges.filter(
+      edge => edge.source === node.id && regionIds.has(edge.target) && !isErrorEdge(edge)
+    );
+
+    const reachable = branchEdges.map(edge => {
+      const seen = new Set<string>();
+      const stack = [edge.target];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (seen.has(id) || !regionIds.has(id)) continue;
+        seen.add(id);
+        workflow.edges.filter(next => next.source === id).forEach(next => stack.push(next.target));
+      }
+      return seen;
+    });
+
+    const branchNodes = reachable.map((seen, index) =>
+      workflow.nodes.filter(candidate =>
+        seen.has(candidate.id) &&
+        !reachable.some((other, otherIndex) => otherIndex !== index && other.has(candidate.id))
+      )
+    );
+
+    const runs: Array<{ signal: AbortSignal; result?: RegionResult }> = [];
+
+    const branches: ParallelBranch[] = branchEdges.map((edge, index) => ({
+      key: edge.id,
+      label: edge.data?.label || edge.target,
+      run: async (signal: AbortSignal) => {
+        const run: { signal: AbortSignal; result?: RegionResult } = { signal };
+        runs[index] = run;
+        try {
+          run.result = await this.runRegion(
+            workflow,
+            branchNodes[index],
+            [edge.target],
+            context,
+            options,
+            execution,
+            signal
+          );
+          return run.result.failure
+            ? { success: false, error: run.result.failure.error }
+            : { success: true, output: run.result.output };
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : 'Branch failed' };
+        }
+      },
+    }));
+
+    // Branches that were cancelled, or never started, count as skipped so
+    // their exits don't trigger the merge node
+    const settle = (): RegionOutcome => {
+      const states: RegionOutcome['states'] = {};
+      const takenEdges: string[] = [];
+
+      branchEdges.forEach((edge, index) => {
+        const run = runs[index];
+        const counted = run?.result && !run.signal.aborted ? run.result : undefined;
+        if (counted) {
+          takenEdges.push(edge.id, ...counted.takenEdges);
+        }
+        branchNodes[index].forEach(branchNode => {
+          const state = counted?.states[branchNode.id];
+          states[branchNode.id] = state === 'completed' || state === 'failed' ? state : 'skipped';
+        });
+      });
+
+      return { states, takenEdges };
+    };
+
+    return { extras: { branches }, settle };
+  }
+
+  /**
+   * Collects the body of a loop node: the nodes reachable only through edges
+   * leaving its 'body' handle. Each iteration runs the body as a region with
+   * its own copy of node outputs, so concurrent iterations don't overwrite
+   * each other. Edges from any other handle leave the loop once it is done.
+   */
+  private prepareLoopBody(
+    node: WorkflowNode,
+    workflow: Workflow,
+    regionIds: Set<string>,
+    context: ExecutionContext,
+    options: ExecutionOptions,
+    execution: WorkflowExecution
+  ): { extras: Partial<NodeExecutorOptions>; settle: () => RegionOutcome } {
+    const outgoing = workflow.edges.filter(edge => edge.source === node.id && regionIds.has(edge.target));
+    const bodyEdges = outgoing.filter(edge => edge.sourceHandle === 'body');
+    const exitEdges = outgoing.filter(edge => edge.sourceHandle !== 'body');
+
+    const reach = (edges: WorkflowEdge[]) => {
+      const seen = new Set<string>();
+      const stack = edges.map(edge => edge.target);
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (seen.has(id) || id === node.id || !regionIds.has(id)) continue;
+        seen.add(id);
+        workflow.edges.filter(next => next.source === id).forEach(next => stack.push(next.target));
+      }
+      return seen;
+    };
+
+    const afterLoop = reach(exitEdges);
+    const bodyIds = reach(bodyEdges);
+    const bodyNodes = workflow.nodes.filter(candidate => bodyIds.has(candidate.id) && !afterLoop.has(candidate.id));
+    const entryIds = bodyEdges.map(edge => edge.target).filter(id => bodyNodes.some(body => body.id === id));
+    // How each body node ended across iterations; a failure in any of them sticks
+    const outcomes: Record<string, 'completed' | 'failed'> = {};
+
+    const loopBody: LoopBody = {
+      run: async ({ index, variables }) => {
+        if (entryIds.length === 0) {
+          return { success: true };
+        }
+
+        const iterationContext: ExecutionContext = {
+          ...context,
+          variables: { ...context.variables, ...variables },
+          nodeOutputs: { ...context.nodeOutputs },
+          iteration: { loopNodeId: node.id, index },
+        };
+
+        try {
+          const result = await this.runRegion(workflow, bodyNodes, entryIds, iterationContext, options, execution);
+          bodyNodes.forEach(bodyNode => {
+            const state = result.states[bodyNode.id];
+            if (state === 'failed' || (state === 'completed' && outcomes[bodyNode.id] !== 'failed')) {
+              outcomes[bodyNode.id] = state;
+            }
+          });
+          return result.failure
+            ? { success: false, error: result.failure.error }
+            : { success: true, output: result.output };
+        } catch (error) {
+          return { success: false, error: error instanceof Error ? error.message : 'Iteration failed' };
+        }
+      },
+    };
+
+    const settle = (): RegionOutcome => {
+      const states: RegionOutcome['states'] = {};
+      bodyNodes.forEach(bodyNode => (states[bodyNode.id] = outcomes[bodyNode.id] || 'skipped'));
+      const exitIds = new Set(exitEdges.map(edge => edge.id));
+      const takenEdges = this.getTakenEdges(node, workflow, context)
+        .filter(edge => exitIds.has(edge.id))
+        .map(edge => edge.id);
+      return { states, takenEdges };
+    };
+
+    return { extras: { loopBody }, settle };
+  }
+
+  private collectNodeInput(
+    node: WorkflowNode,
+    scheduler: DagScheduler,
+    context: ExecutionContext
+  ): Record<string, any> {
+    const input: Record<string, any> = {};
+    for (const edge of scheduler.getIncomingEdges(node.id)) {
+      if (scheduler.isEdgeTaken(edge.id)) {
+        input[edge.source] = context.nodeOutputs[edge.source];
+      }
+    }
+    return input;
+  }
+
+  private async executeNode(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: ExecutionOptions,
+    execution: WorkflowExecution,
+    input: Record<string, any>,
+    extras?: Partial<NodeExecutorOptions>
+  ): Promise<NodeExecutionResult> {
+    const nodeExecution: NodeExecution = {
+      id: this.generateNodeExecutionId(),
+      nodeId: node.id,
+      status: 'running',
+      startedAt: new Date(),
+      input,
+      retryCount: 0,
+      logs: [],
+      loopNodeId: context.iteration?.loopNodeId,
+      iteration: context.iteration?.index,
+    };
+    execution.nodeExecutions.push(nodeExecution);
+
+    const standIn = options.dryRun
+      ? dryRunOutput({ id: node.id, type: node.type, config: node.data.config }, input)
+      : undefined;
+
+    const result = await this.runNode(node, context, options, {
+      ...extras,
+      requestInput: request => this.waitForInput(request, context, execution, nodeExecution),
+      emit: (type, data) => this.emitEvent({
+        id: this.generateEventId(),
+        type,
+        timestamp: new Date(),
+        source: 'execution-engine',
+        workflowId: context.workflowId,
+        nodeId: node.id,
+        data: { executionId: context.executionId, ...data },
+      })
+    }, standIn && new DryRunNodeExecutor(standIn.source, standIn.output));
+
+    nodeExecution.status = result.success
+      ? 'success'
+      : result.cancelled ? 'cancelled' : result.timedOut ? 'timeout' : 'error';
+    nodeExecution.completedAt = new Date();
+    nodeExecution.duration = result.duration;
+    nodeExecution.output = result.output;
+    nodeExecution.error = result.error;
+    nodeExecution.retryCount = result.retryCount;
+    nodeExecution.logs = result.logs;
+    execution.logs.push(...result.logs);
+
+    return result;
+  }
+
+  /**
+   * Parks a node until someone answers its request. The execution reports
+   * `waiting` while any of its nodes do; a request that expires either fails
+   * the node or, when configured to escalate, completes it as timed out.
+   */
+  private waitForInput(
+    request: HumanInputRequest,
+    context: ExecutionContext,
+    execution: WorkflowExecution,
+    nodeExecution: NodeExecution
+  ): Promise<HumanInputResponse> {
+    const key = this.pendingInputKey(context.executionId, request.nodeId);
+
+    nodeExecution.status = 'waiting';
+    execution.status = 'waiting';
+
+    this.emitEvent({
+      id: this.generateEventId(),
+      type: 'node.waiting',
+      timestamp: new Date(),
+      source: 'execution-engine',
+      workflowId: context.workflowId,
+      nodeId: request.nodeId,
+      data: { executionId: context.executionId, ...request },
+    });
+
+    return new Promise<HumanInputResponse>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        this.pendingInputs.delete(key);
+        nodeExecution.status = 'running';
+        if (!this.getPendingInputs(context.executionId).length) {
+          execution.status = 'running';
+        }
+      };
+
+      const timer = setTimeout(() => {
+        settle();
+        if (request.onTimeout === 'escalate') {
+          resolve({ inputType: request.inputType, timedOut: true, respondedAt: new Date().toISOString() });
+        } else {
+          reject(new Error(`Timed out waiting for input on node ${request.nodeId}`));
+        }
+      }, Math.max(new Date(request.expiresAt || 0).getTime() - Date.now(), 0));
+
+      this.pendingInputs.set(key, {
+        executionId: context.executionId,
+        request,
+        respond: response => {
+          settle();
+          resolve(response);
+        },
+        abort: error => {
+          settle();
+          reject(error);
+        },
+      });
+    });
+  }
+
+  /**
+   * Answers a human input node the execution is waiting on. Throws when the
+   * node isn't waiting or the input doesn't fit the node's input type.
+   */
+  submitUserInput(executionId: string, nodeId: string, input: any): void {
+    const pending = this.pendingInputs.get(this.pendingInputKey(executionId, nodeId));
+    if (!pending) {
+      throw new Error(`Execution is not waiting for input on node ${nodeId}`);
+    }
 
-    // Check timeout
-    if (context.timeout && Date.now() - context.startTime.getTime() > context.timeout) {
-      throw new Error('Workflow execution timeout');
+    const error = validateHumanInput(pending.request, input);
+    if (error) {
+      throw new Error(error);
     }
 
+    const context = this.activeExecutions.get(executionId);
+    pending.respond({
+      input,
+      inputType: pending.request.inputType,
+      timedOut: false,
+      respondedBy: context?.userId,
+      respondedAt: new Date().toISOString(),
+    });
+  }
+
+  getPendingInputs(executionId?: string): HumanInputRequest[] {
+    return Array.from(this.pendingInputs.values())
+      .filter(pending => !executionId || pending.executionId === executionId)
+      .map(pending => pending.request);
+  }
+
+  private pendingInputKey(executionId: string, nodeId: string): string {
+    return `${executionId}:${nodeId}`;
+  }
+
+  private recordSkippedNode(execution: WorkflowExecution, nodeId: string): void {
+    const now = new Date();
+    execution.nodeExecutions.push({
+      id: this.generateNodeExecutionId(),
+      nodeId,
+      status: 'skipped',
+      startedAt: now,
+      completedAt: now,
+      duration: 0,
+      retryCount: 0,
+      logs: [],
+    });
+  }
+
+  private async runNode(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: ExecutionOptions,
+    extras?: Partial<NodeExecutorOptions>,
+    // Runs in place of the node's own executor, as in dry runs
+    standIn?: NodeExecutor
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+
     try {
       // Emit node started event
       this.emitEvent({
@@ -205,24 +1034,30 @@ export class WorkflowExecutionEngine {
       });
 
       // Get node executor
-      const executor = this.nodeExecutors.get(node.type);
+      const executor = standIn || this.nodeExecutors.get(node.type);
       if (!executor) {
         throw new Error(`No executor found for node type: ${node.type}`);
       }
 
-      // Execute node with retries
-      const maxRetries = node.data.config.retries || options.maxRetries || 0;
+      // Node settings win over the workflow's retry policy
+      const policy = resolveRetryPolicy(node.data.config, {
+        ...context.retryPolicy,
+        ...(options.maxRetries !== undefined ? { maxRetries: options.maxRetries } : {}),
+      });
+      const maxRetries = policy.maxRetries;
       let lastError: Error | null = null;
+      let lastResult: NodeExecutionResult | undefined;
       let retryCount = 0;
 
       for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          const result = await executor.execute(node, context, {
-            ...options,
-            attempt,
-            maxRetries,
-          });
-
+        const result = await this.runAttempt(executor, node, context, {
+          ...options,
+          ...extras,
+          attempt,
+          maxRetries,
+        });
+
+        if (result.success) {
           // Store node output
           context.nodeOutputs[node.id] = result.output;
 
@@ -244,57 +1079,39 @@ export class WorkflowExecutionEngine {
             },
           });
 
-          // Execute next nodes
-          const nextNodes = this.getNextNodes(node, workflow, context);
-          if (nextNodes.length === 0) {
-            // End of workflow
-            return {
-              success: true,
-              output: result.output,
-              logs: [...logs, ...result.logs],
-              duration,
-              retryCount: attempt,
-            };
-          }
+          return {
+            success: true,
+            output: result.output,
+            logs: [...logs, ...result.logs],
+            duration,
+            retryCount: attempt,
+          };
+        }
 
-          // Execute next nodes
-          let finalResult = result;
-          for (const nextNode of nextNodes) {
-            const nextResult = await this.executeNode(
-              nextNode,
-              workflow,
-              context,
-              options,
-              new Set(visitedNodes)
-            );
-            
-            if (!nextResult.success && !options.continueOnError) {
-              return nextResult;
-            }
-            
-            finalResult = nextResult;
-          }
+        logs.push(...result.logs);
+        lastError = new Error(result.error || 'Node execution failed');
+        lastResult = result;
+        retryCount = attempt;
 
-          return finalResult;
+        if (result.cancelled) {
+          break;
+        }
 
-        } catch (error) {
-          lastError = error as Error;
-          retryCount = attempt;
-
-          if (attempt < maxRetries) {
-            // Wait before retry with exponential backoff
-            const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-            await this.sleep(delay);
-            
-            logs.push({
-              id: this.generateLogId(),
-              timestamp: new Date(),
-              level: 'warn',
-              message: `Node execution failed, retrying (${attempt + 1}/${maxRetries + 1}): ${error.message}`,
-              nodeId: node.id,
-            });
-          }
+        const errorClass = classifyError({ ...result.errorInfo, message: result.error, timedOut: !!result.timedOut });
+        if (attempt >= maxRetries || result.timedOut === 'workflow' || !shouldRetry(policy, errorClass)) {
+          break;
         }
+
+        const delay = retryDelay(policy, attempt);
+        logs.push({
+          id: this.generateLogId(),
+          timestamp: new Date(),
+          level: 'warn',
+          message: `Node execution failed with ${errorClass} error, retrying in ${delay}ms (${attempt + 1}/${maxRetries + 1}): ${lastError.message}`,
+          nodeId: node.id,
+        });
+        // Cut short by a cancellation, which the next attempt then reports
+        await sleep(delay, context.signal).catch(() => undefined);
       }
 
       // All retries failed
@@ -313,16 +1130,21 @@ export class WorkflowExecutionEngine {
           executionId: context.executionId,
           error: errorMessage,
           duration,
-          retryCount
+          retryCount,
+          timedOut: lastResult?.timedOut,
+          cancelled: lastResult?.cancelled
         },
       });
 
       return {
         success: false,
         error: errorMessage,
+        errorInfo: lastResult?.errorInfo,
         logs,
         duration,
         retryCount,
+        timedOut: lastResult?.timedOut,
+        cancelled: lastResult?.cancelled,
       };
 
     } catch (error) {
@@ -346,80 +1168,315 @@ export class WorkflowExecutionEngine {
     }
   }
 
-  private getNextNodes(
+  /**
+   * Runs one attempt of a node. When the node has a timeout, or the workflow
+   * one is running out, the attempt is abandoned at the deadline and its
+   * signal aborted so in-flight provider and tool calls stop too. Cancelling
+   * the execution abandons it the same way.
+   */
+  private async runAttempt(
+    executor: NodeExecutor,
+    node: WorkflowNode,
+    context: ExecutionContext,
+    executorOptions: NodeExecutorOptions
+  ): Promise<NodeExecutionResult> {
+    const attemptStart = Date.now();
+    const remaining = context.timeout
+      ? context.timeout - (attemptStart - context.startTime.getTime())
+      : undefined;
+    const deadline = nodeDeadline(node.type, node.data.config, remaining);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const attempt = executor
+      .execute(node, context, { ...executorOptions, signal: controller.signal })
+      .catch((error): NodeExecutionResult => ({
+        success: false,
+        error: error instanceof Error ? error.message : 'Node execution failed',
+        errorInfo: describeError(error),
+        logs: [],
+        duration: Date.now() - attemptStart,
+        retryCount: 0,
+      }));
+
+    let onCancel = () => {};
+    const cancelled = new Promise<NodeExecutionResult>(resolve => {
+      onCancel = () => {
+        controller.abort();
+        resolve({
+          success: false,
+          error: 'Execution cancelled',
+          cancelled: true,
+          logs: [],
+          duration: Date.now() - attemptStart,
+          retryCount: 0,
+        });
+      };
+      if (context.signal?.aborted) {
+        onCancel();
+      } else {
+        context.signal?.addEventListener('abort', onCancel, { once: true });
+      }
+    });
+
+    const racers = [attempt, cancelled];
+    if (deadline) {
+      racers.push(new Promise<NodeExecutionResult>(resolve => {
+        timer = setTimeout(() => {
+          controller.abort();
+          const message = deadline.reason === 'workflow'
+            ? 'Workflow execution timeout'
+            : `Node timed out after ${node.data.config.timeout}s`;
+          resolve({
+            success: false,
+            error: message,
+            timedOut: deadline.reason,
+            logs: [{
+              id: this.generateLogId(),
+              timestamp: new Date(),
+              level: 'error',
+              message,
+              nodeId: node.id,
+            }],
+            duration: Date.now() - attemptStart,
+            retryCount: 0,
+          });
+        }, deadline.ms);
+      }));
+    }
+
+    try {
+      return await Promise.race(racers);
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  private getTakenEdges(
     currentNode: WorkflowNode,
     workflow: Workflow,
     context: ExecutionContext
-  ): WorkflowNode[] {
-    const outgoingEdges = workflow.edges.filter(edge => edge.source === currentNode.id);
-    const nextNodes: WorkflowNode[] = [];
+  ): WorkflowEdge[] {
+    // Error edges are only followed when the node fails
+    let outgoingEdges = workflow.edges.filter(edge => edge.source === currentNode.id && !isErrorEdge(edge));
+
+    // A switch only follows the handle of the case it matched
+    if (currentNode.type === 'switch') {
+      const matchedCase = context.nodeOutputs[currentNode.id]?.matchedCase;
+      outgoingEdges = outgoingEdges.filter(edge => (edge.sourceHandle || SWITCH_DEFAULT_CASE) === matchedCase);
+    }
 
-    for (const edge of outgoingEdges) {
+    return outgoingEdges.filter(edge => {
       // Check edge condition if present
-      if (edge.data?.condition) {
-        try {
-          const conditionResult = this.evaluateCondition(
-            edge.data.condition,
-            context.nodeOutputs[currentNode.id],
-            context.variables
-          );
-          
-          if (!conditionResult) {
-            continue;
-          }
-        } catch (error) {
-          console.error(`Error evaluating edge condition: ${error}`);
-          continue;
-        }
-      }
-
-      const nextNode = workflow.nodes.find(node => node.id === edge.target);
-      if (nextNode) {
-        nextNodes.push(nextNode);
+      if (!edge.data?.condition) {
+        return true;
       }
-    }
-
-    return nextNodes;
+      return this.evaluateCondition(
+        edge.data.condition,
+        context.nodeOutputs[currentNode.id],
+        context
+      );
+    });
   }
 
   private evaluateCondition(
     condition: string,
     nodeOutput: any,
-    variables: Record<string, any>
+    context: ExecutionContext
   ): boolean {
     try {
-      // Create a safe evaluation context
-      const context = {
+      return evaluateCondition(condition, {
+        input: nodeOutput,
         output: nodeOutput,
-        result: nodeOutput,
-        variables,
-        ...variables,
-      };
-
-      // Simple expression evaluation (in production, use a proper expression engine)
-      const func = new Function(...Object.keys(context), `return ${condition}`);
-      return Boolean(func(...Object.values(context)));
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
     } catch (error) {
       console.error('Condition evaluation error:', error);
       return false;
     }
   }
 
+  /**
+   * Stops an execution: running nodes are aborted along with their provider
+   * and tool calls, and no further nodes start. `workflow.cancelled` is
+   * emitted once the execution has wound down.
+   */
   async cancelExecution(executionId: string): Promise<void> {
+    const control = this.executionControls.get(executionId);
+    if (!control) {
+      throw new Error('Execution not found');
+    }
+
+    control.controller.abort();
+    control.paused?.release();
+    control.debug?.stopped?.proceed('run');
+
+    Array.from(this.pendingInputs.values())
+      .filter(pending => pending.executionId === executionId)
+      .forEach(pending => pending.abort(new Error('Execution cancelled')));
+  }
+
+  /**
+   * Holds an execution between nodes. Nodes already running finish; the
+   * nodes after them wait until the execution is resumed.
+   */
+  pauseExecution(executionId: string): void {
+    const control = this.executionControls.get(executionId);
+    if (!control) {
+      throw new Error('Execution not found');
+    }
+    if (control.paused) {
+      return;
+    }
+
+    let release = () => {};
+    const promise = new Promise<void>(resolve => (release = resolve));
+    control.paused = { promise, release };
+    control.execution.status = 'paused';
+    this.emitControlEvent('workflow.paused', control);
+  }
+
+  resumeExecution(executionId: string): void {
+    const control = this.executionControls.get(executionId);
+    if (!control) {
+      throw new Error('Execution not found');
+    }
+    if (!control.paused) {
+      return;
+    }
+
+    control.paused.release();
+    control.paused = undefined;
+    control.execution.status = this.getPendingInputs(executionId).length ? 'waiting' : 'running';
+    this.emitControlEvent('workflow.resumed', control);
+  }
+
+  /**
+   * Moves on an execution started in debug mode that is stopped before a
+   * node. Commands also arrive as `debug.command` AxonPuls events.
+   */
+  debugExecution(executionId: string, command: DebugCommand): void {
+    const control = this.executionControls.get(executionId);
     const context = this.activeExecutions.get(executionId);
-    if (!context) {
+    if (!control || !context) {
       throw new Error('Execution not found');
     }
+    const session = control.debug;
+    if (!session?.stopped) {
+      throw new Error('Execution is not stopped in the debugger');
+    }
+    const error = validateDebugCommand(command);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const stopped = session.stopped;
+    if (command.action === 'set_variable') {
+      context.variables[command.name!] = command.value;
+      stopped.snapshot = { ...stopped.snapshot, variables: { ...context.variables } };
+      this.emitDebugEvent('debug.paused', control, stopped.snapshot);
+      return;
+    }
+
+    session.stepping = command.action !== 'continue';
+    session.stopped = undefined;
+    this.emitDebugEvent('debug.resumed', control, {
+      executionId,
+      nodeId: stopped.snapshot.nodeId,
+      action: command.action,
+    });
+    stopped.proceed(command.action === 'skip' ? 'skip' : 'run');
+  }
+
+  /**
+   * Holds a debugged execution before a node when it is stepping or the
+   * node has a breakpoint, until a debug command says whether to run it.
+   */
+  private debugBreak(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    input: Record<string, any>
+  ): Promise<'run' | 'skip'> {
+    const control = this.executionControls.get(context.executionId);
+    const session = control?.debug;
+    if (!control || !session) {
+      return Promise.resolve('run');
+    }
+
+    const decision = session.queue.then(() => {
+      const reason = debugBreakReason(session.stepping, session.breakpoints, node.id);
+      if (!reason || context.signal?.aborted) {
+        return 'run' as const;
+      }
+
+      return new Promise<'run' | 'skip'>(proceed => {
+        const snapshot: DebugSnapshot = {
+          executionId: context.executionId,
+          nodeId: node.id,
+          nodeType: node.type,
+          reason,
+          input,
+          variables: { ...context.variables },
+          nodeOutputs: { ...context.nodeOutputs },
+        };
+        session.stopped = { snapshot, proceed };
+        this.emitDebugEvent('debug.paused', control, snapshot);
+      });
+    });
+    session.queue = decision;
+    return decision;
+  }
+
+  /** Passes a node skipped in the debugger by, handing on its input as output. */
+  private async skipNode(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    execution: WorkflowExecution,
+    input: Record<string, any>
+  ): Promise<NodeExecutionResult> {
+    const values = Object.values(input);
+    const output = values.length === 1 ? values[0] : input;
+    context.nodeOutputs[node.id] = output;
+    this.recordSkippedNode(execution, node.id);
+
+    return {
+      success: true,
+      output,
+      logs: [{
+        id: this.generateLogId(),
+        timestamp: new Date(),
+        level: 'info',
+        message: 'Skipped in the debugger',
+        nodeId: node.id,
+      }],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
 
-    this.activeExecutions.delete(executionId);
+  private emitDebugEvent(type: EventType, control: ExecutionControl, data: Record<string, any>): void {
+    // Published to this tab as well, where the debugger panel usually is
+    this.eventEmitter.publish({
+      id: this.generateEventId(),
+      type,
+      timestamp: new Date(),
+      source: 'execution-engine',
+      workflowId: control.execution.workflowId,
+      nodeId: data.nodeId,
+      data,
+    });
+  }
 
+  private emitControlEvent(type: EventType, control: ExecutionControl): void {
     this.emitEvent({
       id: this.generateEventId(),
-      type: 'workflow.cancelled',
+      type,
       timestamp: new Date(),
       source: 'execution-engine',
-      workflowId: context.workflowId,
-      data: { executionId },
+      workflowId: control.execution.workflowId,
+      data: { executionId: control.execution.id },
     });
   }
 
@@ -435,10 +1492,6 @@ export class WorkflowExecutionEngine {
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   private generateExecutionId(): string {
     return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -447,6 +1500,10 @@ export class WorkflowExecutionEngine {
     return `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private generateNodeExecutionId(): string {
+    return `nexec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   private generateLogId(): string {
     return `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -457,7 +1514,7 @@ export abstract class NodeExecutor {
   abstract execute(
     node: WorkflowNode,
     context: ExecutionContext,
-    options: ExecutionOptions & { attempt: number; maxRetries: number }
+    options: NodeExecutorOptions
   ): Promise<NodeExecutionResult>;
 
   protected createLog(
@@ -477,6 +1534,27 @@ export abstract class NodeExecutor {
   }
 }
 
+/** Outputs a dry run's pinned data or mock for a node that doesn't run. */
+class DryRunNodeExecutor extends NodeExecutor {
+  constructor(
+    private readonly source: DryRunOutputSource,
+    private readonly output: any
+  ) {
+    super();
+  }
+
+  async execute(node: WorkflowNode): Promise<NodeExecutionResult> {
+    const message = this.source === 'pinned' ? 'Dry run: used pinned data' : `Dry run: mocked ${node.type} output`;
+    return {
+      success: true,
+      output: this.output,
+      logs: [this.createLog('info', message, node.id)],
+      duration: 0,
+      retryCount: 0,
+    };
+  }
+}
+
 // Specific node executors
 class StartNodeExecutor extends NodeExecutor {
   async execute(
@@ -493,25 +1571,108 @@ class StartNodeExecutor extends NodeExecutor {
   }
 }
 
+// Shapes the run's output with the node's mappings, or returns every node's output
 class EndNodeExecutor extends NodeExecutor {
   async execute(
     node: WorkflowNode,
     context: ExecutionContext
   ): Promise<NodeExecutionResult> {
-    return {
-      success: true,
-      output: context.nodeOutputs,
-      logs: [this.createLog('info', 'Workflow completed', node.id)],
-      duration: 0,
-      retryCount: 0,
-    };
+    const startTime = Date.now();
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      const output = buildWorkflowOutput(node.data.config || {}, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      return {
+        success: true,
+        output,
+        logs: [this.createLog('info', 'Workflow completed', node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    } catch (error) {
+      const message = `Output mapping failed: ${error instanceof Error ? error.message : error}`;
+      return {
+        success: false,
+        error: message,
+        logs: [this.createLog('error', message, node.id)],
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+function createDefaultAgentRuntime(): AgentRuntime {
+  return {
+    getAgent: async agentId => (await workflowAPI.getAgent(agentId)).data,
+    getRouter: () => {
+      throw new Error('No AI router configured; agent nodes run on the server unless the host sets one');
+    },
+  };
+}
+
+// Shared by every engine so OAuth tokens are cached across runs
+const httpToolRuntime = new HttpToolRuntime();
+
+function createDefaultToolRuntime(): ToolRuntime {
+  return {
+    getTool: async toolId => (await workflowAPI.getTool(toolId)).data,
+    invoke: (tool, params, signal) => httpToolRuntime.execute(tool, params, signal),
+    send: request => httpToolRuntime.send(request),
+    sendWithCredential: async request => {
+      try {
+        return (await workflowAPI.sendIntegrationRequest(request.credentialId, request)).data;
+      } catch (error) {
+        // A failed request comes back as the ToolExecutionError the server raised
+        const details = (error as { details?: any }).details;
+        throw details?.code ? new ToolExecutionError(details) : error;
+      }
+    },
+  };
+}
+
+function createDefaultWorkflowRuntime(): WorkflowRuntime {
+  return {
+    getWorkflow: async workflowId => (await workflowAPI.getWorkflow(workflowId)).data,
+  };
+}
+
+async function resolveAgent(runtime: AgentRuntime, agentId: string): Promise<Agent> {
+  const agent = await runtime.getAgent(agentId);
+  if (!agent) {
+    throw new Error(`Agent not found: ${agentId}`);
   }
+  if (agent.isActive === false) {
+    throw new Error(`Agent ${agent.name} is not active`);
+  }
+  return agent;
+}
+
+// Code and status carried by tool, HTTP and provider SDK errors
+function describeError(error: unknown): NodeErrorInfo | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const { code, status } = error as { code?: unknown; status?: unknown };
+  return {
+    code: typeof code === 'string' ? code : undefined,
+    status: typeof status === 'number' ? status : undefined,
+  };
 }
 
 class AgentNodeExecutor extends NodeExecutor {
+  constructor(private readonly getRuntime: () => AgentRuntime) {
+    super();
+  }
+
   async execute(
     node: WorkflowNode,
-    context: ExecutionContext
+    context: ExecutionContext,
+    options: NodeExecutorOptions
   ): Promise<NodeExecutionResult> {
     const startTime = Date.now();
     const logs: ExecutionLog[] = [];
@@ -523,19 +1684,39 @@ class AgentNodeExecutor extends NodeExecutor {
         throw new Error('Agent ID is required');
       }
 
-      // TODO: Implement actual agent execution
-      // This would integrate with the AI providers
-      logs.push(this.createLog('info', `Executing agent: ${config.agentId}`, node.id));
-
-      // Simulate agent execution
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const runtime = this.getRuntime();
+      const agent = await resolveAgent(runtime, config.agentId);
+      const overrides = parseAgentOverrides(config.agentConfig);
+      const request = { ...buildAgentRequest(config, context, agent, overrides), signal: options.signal };
+
+      logs.push(this.createLog('info', `Executing agent ${agent.name} with ${agent.provider}/${request.model}`, node.id));
+
+      const streaming = { ...agent.config, ...overrides }.streaming !== false;
+      const completion = await completeAgent(
+        runtime.getRouter(),
+        request,
+        agent.provider,
+        streaming
+          ? chunk => options.emit?.('agent.stream', {
+              agentId: agent.id,
+              type: chunk.type,
+              delta: chunk.delta,
+              content: chunk.type === 'error' ? chunk.content : undefined,
+            })
+          : undefined
+      );
 
       const output = {
-        response: 'Agent response placeholder',
-        tokens: { input: 100, output: 50 },
-        model: config.model || 'gpt-4',
+        response: completion.text,
+        tokens: formatTokens(completion.usage),
+        model: request.model,
+        provider: agent.provider,
+        agentId: agent.id,
+        finishReason: completion.finishReason,
       };
 
+      logs.push(this.createLog('info', `Agent ${agent.name} responded`, node.id, { tokens: output.tokens }));
+
       return {
         success: true,
         output,
@@ -550,6 +1731,7 @@ class AgentNodeExecutor extends NodeExecutor {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Agent execution failed',
+        errorInfo: describeError(error),
         logs,
         duration: Date.now() - startTime,
         retryCount: 0,
@@ -558,10 +1740,20 @@ class AgentNodeExecutor extends NodeExecutor {
   }
 }
 
+/**
+ * Runs a single tool. `toolParams` is a JSON object whose string values may
+ * be `{{ }}` templates over the upstream outputs; the rendered parameters
+ * are validated against the tool's schema before the call is made.
+ */
 class ToolNodeExecutor extends NodeExecutor {
+  constructor(private readonly getToolRuntime: () => ToolRuntime) {
+    super();
+  }
+
   async execute(
     node: WorkflowNode,
-    context: ExecutionContext
+    context: ExecutionContext,
+    options: NodeExecutorOptions
   ): Promise<NodeExecutionResult> {
     const startTime = Date.now();
     const logs: ExecutionLog[] = [];
@@ -573,37 +1765,208 @@ class ToolNodeExecutor extends NodeExecutor {
         throw new Error('Tool ID is required');
       }
 
-      logs.push(this.createLog('info', `Executing tool: ${config.toolId}`, node.id));
+      const runtime = this.getToolRuntime();
+      const tool = await runtime.getTool(config.toolId);
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const params = renderJsonObject(config.toolParams, 'Tool parameters', {
+        input: previousOutputs[previousOutputs.length - 1],
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables
+      });
+
+      logs.push(this.createLog('info', `Executing tool: ${tool.name}`, node.id, { toolId: tool.id, params }));
 
-      // TODO: Implement actual tool execution
-      // This would call the tool API or function
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const result = await runtime.invoke(tool, params, options.signal);
 
-      const output = {
-        result: 'Tool execution result placeholder',
-        metadata: { toolId: config.toolId },
-      };
+      logs.push(this.createLog('info', `Tool responded with status ${result.status}`, node.id, {
+        duration: result.duration,
+        attempts: result.attempts,
+      }));
 
       return {
         success: true,
-        output,
+        output: {
+          result: result.data,
+          status: result.status,
+          duration: result.duration,
+          attempts: result.attempts,
+          toolId: tool.id,
+        },
         logs,
         duration: Date.now() - startTime,
-        retryCount: 0,
+        retryCount: result.attempts - 1,
       };
 
     } catch (error) {
-      logs.push(this.createLog('error', `Tool execution failed: ${error}`, node.id));
+      const message = error instanceof ToolExecutionError
+        ? `[${error.code}] ${error.message}`
+        : error instanceof Error ? error.message : 'Tool execution failed';
+      logs.push(this.createLog(
+        'error',
+        `Tool execution failed: ${message}`,
+        node.id,
+        error instanceof ToolExecutionError ? error.toJSON() : undefined
+      ));
       
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Tool execution failed',
+        error: message,
+        errorInfo: describeError(error),
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * Calls an HTTP endpoint described directly on the node. The URL, query,
+ * headers and body are `{{ }}` templates over the upstream outputs, and
+ * authentication comes from a stored credential. Paginated responses are
+ * followed by page number, cursor or `Link` header and their items joined;
+ * `extract` mappings then pull fields out of the response body.
+ */
+class ApiCallNodeExecutor extends NodeExecutor {
+  constructor(private readonly getToolRuntime: () => ToolRuntime) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: NodeExecutorOptions
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+
+    try {
+      const config = node.data.config;
+
+      if (!config.url) {
+        throw new Error('URL is required');
+      }
+
+      const runtime = this.getToolRuntime();
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const lastOutput = previousOutputs[previousOutputs.length - 1];
+      const scope = {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      };
+
+      const request: HttpRequest = {
+        method: config.method || 'GET',
+        url: renderTemplate(config.url, scope),
+        query: renderJsonObject(config.queryParams, 'Query parameters', scope),
+        headers: renderJsonObject(config.headers, 'Headers', scope),
+        body: renderRequestBody(config.body, scope),
+        timeout: config.requestTimeout ? config.requestTimeout * 1000 : undefined,
+        isSuccess: parseStatusRanges(config.successStatuses),
+        label: `API call ${config.label || node.id}`,
+        signal: options.signal,
+      };
+
+      const credential = this.resolveCredential(config);
+      const extract = config.extract && config.extract.trim() ? parseMappings(config.extract) : null;
+      const pagination = config.pagination || 'none';
+      const maxPages = config.maxPages || DEFAULT_MAX_PAGES;
+      const items: any[] = [];
+      let pages = 0;
+      let attempts = 0;
+      let result: ToolResult;
+
+      for (;;) {
+        logs.push(this.createLog('info', `${request.method.toUpperCase()} ${request.url}`, node.id, {
+          query: request.query,
+        }));
+
+        result = credential
+          ? await runtime.sendWithCredential({
+              ...credential,
+              method: request.method,
+              url: request.url,
+              query: request.query,
+              headers: request.headers,
+              body: request.body,
+              timeout: request.timeout,
+              label: request.label,
+              successStatuses: config.successStatuses,
+            })
+          : await runtime.send(request);
+        pages++;
+        attempts += result.attempts;
+
+        if (pagination === 'none') break;
+
+        const pageItems = config.itemsPath ? selectPath(result.data, config.itemsPath) : result.data;
+        if (Array.isArray(pageItems)) items.push(...pageItems);
+        else if (pageItems !== undefined && pageItems !== null) items.push(pageItems);
+
+        if (pages >= maxPages) {
+          logs.push(this.createLog('warn', `Stopped after ${maxPages} pages`, node.id));
+          break;
+        }
+        if (!nextPage(request, result, config, pageItems)) break;
+      }
+
+      const data = pagination === 'none' ? result!.data : items;
+
+      logs.push(this.createLog('info', `Responded with status ${result!.status}`, node.id, {
+        duration: Date.now() - startTime,
+        pages,
+      }));
+
+      return {
+        success: true,
+        output: {
+          data,
+          status: result!.status,
+          headers: result!.headers,
+          ...(extract ? { fields: mapRecord(data, extract, scope) } : {}),
+          ...(pagination !== 'none' ? { pages } : {}),
+          duration: Date.now() - startTime,
+          attempts,
+        },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: attempts - pages,
+      };
+
+    } catch (error) {
+      const message = error instanceof ToolExecutionError
+        ? `[${error.code}] ${error.message}`
+        : error instanceof Error ? error.message : 'API call failed';
+      logs.push(this.createLog(
+        'error',
+        `API call failed: ${message}`,
+        node.id,
+        error instanceof ToolExecutionError ? error.toJSON() : undefined
+      ));
+
+      return {
+        success: false,
+        error: message,
+        errorInfo: describeError(error),
         logs,
         duration: Date.now() - startTime,
         retryCount: 0,
       };
     }
   }
+
+  private resolveCredential(
+    config: NodeConfig
+  ): Pick<CredentialedRequest, 'credentialId' | 'authType'> | undefined {
+    if (!config.authType || config.authType === 'none') return undefined;
+    if (!config.credentialId) {
+      throw new Error(`${config.authType} authentication needs a stored credential`);
+    }
+    return { credentialId: config.credentialId, authType: config.authType };
+  }
 }
 
 class ConditionNodeExecutor extends NodeExecutor {
@@ -627,7 +1990,11 @@ class ConditionNodeExecutor extends NodeExecutor {
       const previousOutputs = Object.values(context.nodeOutputs);
       const lastOutput = previousOutputs[previousOutputs.length - 1];
 
-      const result = this.evaluateCondition(config.condition, lastOutput, context.variables);
+      const result = evaluateCondition(config.condition, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
 
       return {
         success: true,
@@ -649,23 +2016,107 @@ class ConditionNodeExecutor extends NodeExecutor {
       };
     }
   }
+}
 
-  private evaluateCondition(
-    condition: string,
-    input: any,
-    variables: Record<string, any>
-  ): boolean {
-    try {
-      const context = { input, result: input, variables, ...variables };
-      const func = new Function(...Object.keys(context), `return ${condition}`);
-      return Boolean(func(...Object.values(context)));
-    } catch (error) {
-      throw new Error(`Invalid condition expression: ${error}`);
+class ParallelNodeExecutor extends NodeExecutor {
+  async execute(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: NodeExecutorOptions
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config;
+    const aggregation = config.aggregation || 'all';
+    const branches = options.branches || [];
+
+    if (branches.length === 0) {
+      logs.push(this.createLog('warn', 'Parallel node has no outgoing branches', node.id));
+      return {
+        success: true,
+        output: { aggregation, branches: {}, succeeded: 0, failed: 0 },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+
+    // 'any' needs one success, 'majority' more than half, 'all' every branch
+    const required = aggregation === 'any'
+      ? 1
+      : aggregation === 'majority'
+        ? Math.floor(branches.length / 2) + 1
+        : branches.length;
+
+    logs.push(this.createLog(
+      'info',
+      `Starting ${branches.length} branches (aggregation: ${aggregation})`,
+      node.id
+    ));
+
+    const controllers = branches.map(() => new AbortController());
+    // A parallel node that times out stops starting nodes in its branches
+    options.signal?.addEventListener('abort', () => controllers.forEach(controller => controller.abort()));
+    const results: Record<string, SubgraphResult> = {};
+    let succeeded = 0;
+    let failed = 0;
+
+    await new Promise<void>(resolve => {
+      branches.forEach((branch, index) => {
+        branch.run(controllers[index].signal).then(result => {
+          results[branch.key] = result;
+          if (result.success) {
+            succeeded++;
+          } else {
+            failed++;
+            logs.push(this.createLog('warn', `Branch ${branch.label} failed: ${result.error}`, node.id));
+          }
+
+          // Settle as soon as the outcome can no longer change
+          if (succeeded >= required || branches.length - failed < required) {
+            resolve();
+          }
+        });
+      });
+    });
+
+    const branchOutputs: Record<string, any> = {};
+    branches.forEach((branch, index) => {
+      const result = results[branch.key];
+      if (!result) {
+        controllers[index].abort();
+        branchOutputs[branch.key] = { label: branch.label, status: 'cancelled' };
+        return;
+      }
+      branchOutputs[branch.key] = result.success
+        ? { label: branch.label, status: 'success', output: result.output }
+        : { label: branch.label, status: 'error', error: result.error };
+    });
+
+    const cancelled = branches.length - succeeded - failed;
+    if (cancelled > 0) {
+      logs.push(this.createLog('info', `Cancelled ${cancelled} remaining branches`, node.id));
+    }
+
+    const output = { aggregation, branches: branchOutputs, succeeded, failed };
+
+    if (succeeded < required) {
+      const error = `Parallel aggregation '${aggregation}' not satisfied: ${succeeded}/${branches.length} branches succeeded`;
+      logs.push(this.createLog('error', error, node.id));
+      return { success: false, output, error, logs, duration: Date.now() - startTime, retryCount: 0 };
     }
+
+    return {
+      success: true,
+      output,
+      logs,
+      duration: Date.now() - startTime,
+      retryCount: 0,
+    };
   }
 }
 
-class ParallelNodeExecutor extends NodeExecutor {
+class SwitchNodeExecutor extends NodeExecutor {
   async execute(
     node: WorkflowNode,
     context: ExecutionContext
@@ -675,77 +2126,220 @@ class ParallelNodeExecutor extends NodeExecutor {
 
     try {
       const config = node.data.config;
-      const branches = config.branches || 2;
-      const aggregation = config.aggregation || 'all';
-
-      logs.push(this.createLog('info', `Starting parallel execution with ${branches} branches`, node.id));
-
-      // TODO: Implement actual parallel execution
-      // This would execute multiple branches concurrently
-      const results = await Promise.allSettled(
-        Array.from({ length: branches }, async (_, i) => {
-          await new Promise(resolve => setTimeout(resolve, Math.random() * 1000));
-          return { branch: i, result: `Branch ${i} result` };
-        })
-      );
 
-      const successfulResults = results
-        .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-        .map(result => result.value);
+      if (!config.expression) {
+        throw new Error('Switch expression is required');
+      }
 
-      const output = {
-        aggregation,
-        branches: successfulResults.length,
-        results: successfulResults,
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+      const value = evaluateExpression(config.expression, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      // Case values are handle ids, so compare on the string form
+      const key = value === null || value === undefined ? '' : String(value);
+      const matchedCase = (config.cases || []).includes(key) ? key : SWITCH_DEFAULT_CASE;
+
+      logs.push(this.createLog('info', `Switch value ${JSON.stringify(value)} matched case '${matchedCase}'`, node.id));
+
+      return {
+        success: true,
+        output: { value, matchedCase },
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+
+    } catch (error) {
+      logs.push(this.createLog('error', `Switch evaluation failed: ${error}`, node.id));
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Switch evaluation failed',
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
       };
+    }
+  }
+}
+
+const DEFAULT_MAX_ITERATIONS = 100;
+
+class LoopNodeExecutor extends NodeExecutor {
+  async execute(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: NodeExecutorOptions
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+    const config = node.data.config;
+    const body = options.loopBody;
+    const maxIterations = config.maxIterations || DEFAULT_MAX_ITERATIONS;
+    const itemVariable = config.itemVariable || 'item';
+
+    const previousOutputs = Object.values(context.nodeOutputs);
+    const input = previousOutputs[previousOutputs.length - 1];
+
+    try {
+      if (!body) {
+        throw new Error('Loop body is not available');
+      }
+
+      let results: any[];
+      if (config.loopType === 'while') {
+        if (!config.condition) {
+          throw new Error('Loop condition is required');
+        }
+        results = await this.runWhile(node, context, body, config.condition, maxIterations, logs);
+      } else {
+        if (!config.items) {
+          throw new Error('Loop items expression is required');
+        }
+        const items = evaluateExpression(config.items, {
+          input,
+          nodeOutputs: context.nodeOutputs,
+          variables: context.variables,
+        });
+        if (!Array.isArray(items)) {
+          throw new Error(`Loop items must evaluate to an array, got ${items === null ? 'null' : typeof items}`);
+        }
+
+        let selected = items;
+        if (items.length > maxIterations) {
+          logs.push(this.createLog(
+            'warn',
+            `Loop limited to the first ${maxIterations} of ${items.length} items`,
+            node.id
+          ));
+          selected = items.slice(0, maxIterations);
+        }
+
+        results = await this.runForEach(node, body, selected, itemVariable, config.concurrency || 1, logs);
+      }
+
+      logs.push(this.createLog('info', `Loop completed after ${results.length} iterations`, node.id));
 
       return {
         success: true,
-        output,
+        output: { results, iterations: results.length },
         logs,
         duration: Date.now() - startTime,
         retryCount: 0,
       };
 
     } catch (error) {
-      logs.push(this.createLog('error', `Parallel execution failed: ${error}`, node.id));
-      
+      logs.push(this.createLog('error', `Loop execution failed: ${error}`, node.id));
+
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Parallel execution failed',
+        error: error instanceof Error ? error.message : 'Loop execution failed',
         logs,
         duration: Date.now() - startTime,
         retryCount: 0,
       };
     }
   }
+
+  private async runForEach(
+    node: WorkflowNode,
+    body: LoopBody,
+    items: any[],
+    itemVariable: string,
+    concurrency: number,
+    logs: ExecutionLog[]
+  ): Promise<any[]> {
+    const results = new Array(items.length);
+    let next = 0;
+    let failure: string | undefined;
+
+    // A small worker pool keeps at most `concurrency` iterations in flight
+    const worker = async () => {
+      while (next < items.length && !failure) {
+        const index = next++;
+        const result = await body.run({ index, variables: { [itemVariable]: items[index], index } });
+        if (!result.success) {
+          failure = failure || `Iteration ${index} failed: ${result.error}`;
+          return;
+        }
+        results[index] = result.output;
+      }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, items.length));
+    logs.push(this.createLog('info', `Iterating over ${items.length} items (concurrency ${workers})`, node.id));
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    if (failure) {
+      throw new Error(failure);
+    }
+    return results;
+  }
+
+  private async runWhile(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    body: LoopBody,
+    condition: string,
+    maxIterations: number,
+    logs: ExecutionLog[]
+  ): Promise<any[]> {
+    const results: any[] = [];
+    let previous: any;
+
+    for (let index = 0; ; index++) {
+      const proceed = evaluateCondition(condition, {
+        input: previous,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+        index,
+        results,
+      });
+      if (!proceed) {
+        return results;
+      }
+
+      if (index >= maxIterations) {
+        throw new Error(`Loop condition still true after ${maxIterations} iterations`);
+      }
+
+      const result = await body.run({ index, variables: { index } });
+      if (!result.success) {
+        throw new Error(`Iteration ${index} failed: ${result.error}`);
+      }
+      logs.push(this.createLog('debug', `Iteration ${index} completed`, node.id));
+      results.push(result.output);
+      previous = result.output;
+    }
+  }
 }
 
 class HumanInputNodeExecutor extends NodeExecutor {
   async execute(
     node: WorkflowNode,
-    context: ExecutionContext
+    context: ExecutionContext,
+    options: NodeExecutorOptions
   ): Promise<NodeExecutionResult> {
     const startTime = Date.now();
     const logs: ExecutionLog[] = [];
 
     try {
-      const config = node.data.config;
-      
-      logs.push(this.createLog('info', 'Waiting for human input', node.id));
+      if (!options.requestInput) {
+        throw new Error('Human input is not available for this execution');
+      }
 
-      // TODO: Implement actual human input waiting
-      // This would emit an event and wait for user response
-      const timeout = (config.timeout || 60) * 60 * 1000; // Convert minutes to ms
-      
-      // Simulate waiting for input
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      const request = createHumanInputRequest(node.id, node.data.config);
+      logs.push(this.createLog('info', 'Waiting for human input', node.id, { expiresAt: request.expiresAt }));
 
-      const output = {
-        userInput: 'Simulated user input',
-        inputType: config.inputType || 'text',
-        receivedAt: new Date(),
-      };
+      const output = await options.requestInput(request);
+      logs.push(output.timedOut
+        ? this.createLog('warn', 'No input received before the timeout, escalating', node.id)
+        : this.createLog('info', `Received ${output.inputType} input`, node.id));
 
       return {
         success: true,
@@ -772,27 +2366,42 @@ class HumanInputNodeExecutor extends NodeExecutor {
 class DelayNodeExecutor extends NodeExecutor {
   async execute(
     node: WorkflowNode,
-    context: ExecutionContext
+    context: ExecutionContext,
+    options: NodeExecutorOptions
   ): Promise<NodeExecutionResult> {
     const startTime = Date.now();
     const logs: ExecutionLog[] = [];
 
     try {
       const config = node.data.config;
-      const delayTime = config.delayTime || 5;
-      const delayUnit = config.delayUnit || 'seconds';
-      
-      let delayMs = delayTime * 1000; // Default to seconds
-      if (delayUnit === 'minutes') delayMs = delayTime * 60 * 1000;
-      if (delayUnit === 'hours') delayMs = delayTime * 60 * 60 * 1000;
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const scope = {
+        input: previousOutputs[previousOutputs.length - 1],
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      };
 
-      logs.push(this.createLog('info', `Delaying for ${delayTime} ${delayUnit}`, node.id));
+      // Runs in the browser stay in memory, so the timer is simply slept on
+      let step = stepDelay(node.id, config, scope);
+      while (step.status === 'waiting') {
+        logs.push(this.createLog('info', `Sleeping until ${step.timer.wakeAt}`, node.id));
+        await sleep(Math.max(0, new Date(step.timer.wakeAt).getTime() - Date.now()), options.signal);
+        step = stepDelay(node.id, config, scope, step.timer);
+      }
 
-      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (step.status === 'failed') {
+        throw new Error(step.error);
+      }
 
       return {
         success: true,
-        output: { delayTime, delayUnit, actualDelay: Date.now() - startTime },
+        output: {
+          delayMode: config.delayMode || 'duration',
+          delayTime: config.delayTime,
+          delayUnit: config.delayUnit,
+          polls: step.polls,
+          actualDelay: Date.now() - startTime,
+        },
         logs,
         duration: Date.now() - startTime,
         retryCount: 0,
@@ -812,7 +2421,7 @@ class DelayNodeExecutor extends NodeExecutor {
   }
 }
 
-class HybridNodeExecutor extends NodeExecutor {
+class DataTransformNodeExecutor extends NodeExecutor {
   async execute(
     node: WorkflowNode,
     context: ExecutionContext
@@ -822,23 +2431,173 @@ class HybridNodeExecutor extends NodeExecutor {
 
     try {
       const config = node.data.config;
-      
-      if (!config.agentId) {
-        throw new Error('Base agent ID is required for hybrid node');
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+      logs.push(this.createLog('info', `Transforming ${config.source || 'input'}`, node.id));
+
+      const output = runTransform(config, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      return {
+        success: true,
+        output,
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+
+    } catch (error) {
+      logs.push(this.createLog('error', `Data transform failed: ${error}`, node.id));
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Data transform failed',
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+class FilterNodeExecutor extends NodeExecutor {
+  async execute(
+    node: WorkflowNode,
+    context: ExecutionContext
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+
+    try {
+      const config = node.data.config;
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const lastOutput = previousOutputs[previousOutputs.length - 1];
+
+      const output = runFilter(config, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+
+      logs.push(this.createLog('info', `Kept ${output.count} items, dropped ${output.dropped}`, node.id));
+
+      return {
+        success: true,
+        output,
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+
+    } catch (error) {
+      logs.push(this.createLog('error', `Filter failed: ${error}`, node.id));
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Filter failed',
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+type RunWorkflow = (
+  workflow: Workflow,
+  input: Record<string, any>,
+  options: ExecutionOptions
+) => Promise<WorkflowExecution>;
+
+/**
+ * Calls another workflow with the node's input, or with its mappings applied
+ * to it. The node either waits for the child and outputs what its end node
+ * produced, or completes as soon as the child has started.
+ */
+class SubWorkflowNodeExecutor extends NodeExecutor {
+  constructor(
+    private readonly getWorkflowRuntime: () => WorkflowRuntime,
+    private readonly runWorkflow: RunWorkflow
+  ) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: NodeExecutorOptions
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+
+    try {
+      const config = node.data.config;
+
+      if (!config.subWorkflowId) {
+        throw new Error('Workflow to call is required');
       }
 
-      logs.push(this.createLog('info', `Executing hybrid node with agent: ${config.agentId}`, node.id));
+      const { depth, error } = subWorkflowDepth(context.depth, config.maxDepth || undefined);
+      if (error) {
+        throw new Error(error);
+      }
 
-      // TODO: Implement actual hybrid execution
-      // This would combine agent and tool capabilities
-      const toolIds = config.toolIds || [];
-      
-      const output = {
-        agentResponse: 'Hybrid agent response',
-        toolsUsed: toolIds,
-        hybridConfig: config.hybridConfig,
+      const workflow = await this.getWorkflowRuntime().getWorkflow(config.subWorkflowId);
+      const versionError = checkSubWorkflowVersion(workflow, config.subWorkflowVersion);
+      if (versionError) {
+        throw new Error(versionError);
+      }
+
+      const previousOutputs = Object.values(context.nodeOutputs);
+      const lastOutput = previousOutputs[previousOutputs.length - 1];
+      const input = buildSubWorkflowInput(config, {
+        input: lastOutput,
+        nodeOutputs: context.nodeOutputs,
+        variables: context.variables,
+      });
+      const parent: ParentExecution = {
+        executionId: context.executionId,
+        workflowId: context.workflowId,
+        nodeId: node.id,
+        depth,
       };
 
+      if (config.waitForCompletion === false) {
+        // Left to run on its own, so cancelling this run doesn't stop it
+        const child = await new Promise<WorkflowExecution>((resolve, reject) => {
+          this.runWorkflow(workflow, input, { parent, onStart: resolve, dryRun: options.dryRun }).catch(reject);
+        });
+        logs.push(this.createLog('info', `Started sub-workflow ${workflow.name}`, node.id, { executionId: child.id }));
+
+        const output: SubWorkflowOutput = { workflowId: workflow.id, executionId: child.id, status: child.status };
+        return {
+          success: true,
+          output,
+          logs,
+          duration: Date.now() - startTime,
+          retryCount: 0,
+        };
+      }
+
+      logs.push(this.createLog('info', `Running sub-workflow ${workflow.name}`, node.id));
+      const child = await this.runWorkflow(workflow, input, { parent, signal: options.signal, dryRun: options.dryRun });
+
+      if (child.status !== 'completed') {
+        throw new Error(`Sub-workflow ${workflow.name} ${child.status}: ${child.error || 'no output'}`);
+      }
+
+      const output: SubWorkflowOutput = {
+        workflowId: workflow.id,
+        executionId: child.id,
+        status: child.status,
+        output: child.output,
+      };
+      logs.push(this.createLog('info', `Sub-workflow ${workflow.name} completed`, node.id, { executionId: child.id }));
+
       return {
         success: true,
         output,
@@ -847,18 +2606,218 @@ class HybridNodeExecutor extends NodeExecutor {
         retryCount: 0,
       };
 
+    } catch (error) {
+      logs.push(this.createLog('error', `Sub-workflow failed: ${error}`, node.id));
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Sub-workflow failed',
+        logs,
+        duration: Date.now() - startTime,
+        retryCount: 0,
+      };
+    }
+  }
+}
+
+const DEFAULT_MAX_TOOL_CALLS = 10;
+
+interface ToolCallRecord {
+  id: string;
+  toolId?: string;
+  name: string;
+  arguments: Record<string, any>;
+  result?: any;
+  error?: string;
+  duration: number;
+}
+
+/**
+ * Runs an agent that may call the node's tools. Each round the model either
+ * answers or asks for tool calls; the calls are run and their results fed
+ * back until it answers or `maxToolCalls` is used up, after which it has to
+ * answer without tools.
+ */
+class HybridNodeExecutor extends NodeExecutor {
+  constructor(
+    private readonly getAgentRuntime: () => AgentRuntime,
+    private readonly getToolRuntime: () => ToolRuntime
+  ) {
+    super();
+  }
+
+  async execute(
+    node: WorkflowNode,
+    context: ExecutionContext,
+    options: NodeExecutorOptions
+  ): Promise<NodeExecutionResult> {
+    const startTime = Date.now();
+    const logs: ExecutionLog[] = [];
+
+    try {
+      const config = node.data.config;
+      
+      if (!config.agentId) {
+        throw new Error('Base agent ID is required for hybrid node');
+      }
+
+      const agentRuntime = this.getAgentRuntime();
+      const toolRuntime = this.getToolRuntime();
+      const agent = await resolveAgent(agentRuntime, config.agentId);
+
+      // max_tool_calls and auto_fallback in the JSON config predate the dedicated fields
+      const { max_tool_calls, auto_fallback, ...overrides } = parseAgentOverrides(config.hybridConfig);
+      const maxToolCalls = config.maxToolCalls ?? max_tool_calls ?? DEFAULT_MAX_TOOL_CALLS;
+      const autoFallback = config.autoFallback ?? auto_fallback ?? false;
+
+      const tools = await this.resolveTools(toolRuntime, config.toolIds || []);
+      const definitions = Array.from(tools.entries()).map(([name, tool]) => ({ ...toToolDefinition(tool), name }));
+
+      const request = buildAgentRequest(config, context, agent, overrides);
+      const messages = request.messages;
+      const router = agentRuntime.getRouter();
+      const toolCalls: ToolCallRecord[] = [];
+      let usage: TokenUsage | undefined;
+      let rounds = 0;
+
+      logs.push(this.createLog('info', `Executing hybrid node with agent ${agent.name} and ${tools.size} tools`, node.id));
+
+      for (;;) {
+        rounds++;
+        const canCallTools = definitions.length > 0 && toolCalls.length < maxToolCalls;
+        const response = await router.chatCompletion(
+          { ...request, messages, tools: canCallTools ? definitions : undefined, signal: options.signal },
+          agent.provider
+        );
+        usage = addUsage(usage, response.usage);
+
+        const choice = response.choices[0];
+        const requested = canCallTools ? choice?.message.toolCalls || [] : [];
+
+        if (requested.length === 0) {
+          const output = {
+            response: choice?.message.content || '',
+            toolCalls,
+            toolsUsed: Array.from(new Set(toolCalls.map(call => call.toolId).filter(Boolean))),
+            rounds,
+            tokens: formatTokens(usage),
+            model: request.model,
+            provider: agent.provider,
+            agentId: agent.id,
+            finishReason: choice?.finishReason,
+          };
+
+          logs.push(this.createLog('info', `Hybrid agent answered after ${toolCalls.length} tool calls`, node.id, { tokens: output.tokens }));
+
+          return {
+            success: true,
+            output,
+            logs,
+            duration: Date.now() - startTime,
+            retryCount: 0,
+          };
+        }
+
+        messages.push({ role: 'assistant', content: choice.message.content || '', toolCalls: requested });
+
+        for (const call of requested) {
+          const record = toolCalls.length < maxToolCalls
+            ? await this.callTool(call, tools, toolRuntime, options, autoFallback)
+            : { id: call.id, name: call.name, arguments: call.arguments, error: 'Tool call limit reached', duration: 0 };
+
+          toolCalls.push(record);
+          logs.push(record.error
+            ? this.createLog('warn', `Tool ${call.name} failed: ${record.error}`, node.id)
+            : this.createLog('info', `Called tool ${call.name}`, node.id, { duration: record.duration }));
+
+          messages.push({
+            role: 'tool',
+            toolCallId: call.id,
+            name: call.name,
+            content: JSON.stringify(record.error ? { error: record.error } : record.result ?? null),
+          });
+        }
+      }
+
     } catch (error) {
       logs.push(this.createLog('error', `Hybrid execution failed: ${error}`, node.id));
       
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Hybrid execution failed',
+        errorInfo: describeError(error),
         logs,
         duration: Date.now() - startTime,
         retryCount: 0,
       };
     }
   }
+
+  // Keyed by the name the model sees, which has to be unique
+  private async resolveTools(runtime: ToolRuntime, toolIds: string[]): Promise<Map<string, Tool>> {
+    const tools = new Map<string, Tool>();
+
+    for (const toolId of toolIds) {
+      const tool = await runtime.getTool(toolId);
+      if (!tool) {
+        throw new Error(`Tool not found: ${toolId}`);
+      }
+      if (tool.isActive === false) continue;
+
+      const base = toToolDefinition(tool).name;
+      let name = base;
+      for (let suffix = 2; tools.has(name); suffix++) {
+        name = `${base}_${suffix}`;
+      }
+      tools.set(name, tool);
+    }
+
+    return tools;
+  }
+
+  /**
+   * Runs one requested call. A failing tool fails the node unless
+   * `autoFallback` is set, in which case the error is handed back to the
+   * model so it can recover or answer without it.
+   */
+  private async callTool(
+    call: ToolCall,
+    tools: Map<string, Tool>,
+    runtime: ToolRuntime,
+    options: NodeExecutorOptions,
+    autoFallback: boolean
+  ): Promise<ToolCallRecord> {
+    const startTime = Date.now();
+    const tool = tools.get(call.name);
+    const record: ToolCallRecord = { id: call.id, toolId: tool?.id, name: call.name, arguments: call.arguments, duration: 0 };
+
+    options.emit?.('tool.called', { callId: call.id, toolId: tool?.id, name: call.name, arguments: call.arguments });
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+      record.result = (await runtime.invoke(tool, call.arguments, options.signal)).data;
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+    }
+    record.duration = Date.now() - startTime;
+
+    options.emit?.('tool.response', {
+      callId: call.id,
+      toolId: tool?.id,
+      name: call.name,
+      success: !record.error,
+      result: record.result,
+      error: record.error,
+      duration: record.duration,
+    });
+
+    if (record.error && !autoFallback) {
+      throw new Error(`Tool ${call.name} failed: ${record.error}`);
+    }
+    return record;
+  }
 }
 
 // Export singleton instance
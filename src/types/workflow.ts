@@ -1,3 +1,5 @@
+import type { ErrorClass, ParameterSchema } from '@shared/engine';
+
 export interface WorkflowNode {
   id: string;
   type: NodeType;
@@ -38,9 +40,18 @@ export interface NodeConfig {
   label: string;
   description?: string;
   retries?: number;
+  // Overrides the workflow's retry policy field by field
+  retryPolicy?: Partial<RetryPolicy>;
+  // Seconds an attempt may run; human input nodes use it for the wait instead
   timeout?: number;
   continueOnError?: boolean;
   customId?: string;
+  // Output the node gives in dry runs instead of running
+  pinnedData?: any;
+
+  // Join behaviour when several edges lead into the node
+  joinMode?: 'all' | 'any';
+  joinCount?: number;
 
   // Agent-specific
   agentId?: string;
@@ -56,26 +67,88 @@ export interface NodeConfig {
   
   // Condition-specific
   condition?: string;
+
+  // Switch-specific
+  expression?: string;
+  cases?: string[];
   
   // Parallel-specific
-  branches?: number;
   aggregation?: 'all' | 'any' | 'majority';
+
+  // Loop-specific
+  loopType?: 'forEach' | 'while';
+  items?: string;
+  itemVariable?: string;
+  maxIterations?: number;
+  concurrency?: number;
   
-  // Human input-specific
+  // Agent prompt template, or the question a human input node asks
   prompt?: string;
+
+  // Human input-specific
   inputType?: 'text' | 'choice' | 'file';
   choices?: string;
   required?: boolean;
+  onTimeout?: 'fail' | 'escalate';
   
   // Delay-specific
+  delayMode?: 'duration' | 'until' | 'condition';
   delayTime?: number;
-  delayUnit?: 'seconds' | 'minutes' | 'hours';
+  delayUnit?: 'seconds' | 'minutes' | 'hours' | 'days';
+  until?: string;
+  pollInterval?: number;
+  maxWait?: number;
   
   // Hybrid-specific
   toolIds?: string[];
   hybridConfig?: string;
   maxToolCalls?: number;
   autoFallback?: boolean;
+
+  // Webhook-specific
+  token?: string;
+  secret?: string;
+  method?: string;
+  responseMode?: 'immediate' | 'wait';
+  responseTimeout?: number;
+
+  // Schedule-specific
+  scheduleType?: 'cron' | 'interval';
+  cron?: string;
+  timezone?: string;
+  interval?: number;
+  intervalUnit?: 'seconds' | 'minutes' | 'hours' | 'days';
+  noOverlap?: boolean;
+  catchUp?: boolean;
+
+  // API call-specific; the method field is shared with webhooks
+  url?: string;
+  queryParams?: string;
+  headers?: string;
+  body?: string;
+  authType?: AuthConfig['type'];
+  credentialId?: string;
+  requestTimeout?: number;
+  successStatuses?: string;
+  pagination?: 'none' | 'page' | 'cursor' | 'link';
+  pageParam?: string;
+  cursorParam?: string;
+  cursorPath?: string;
+  itemsPath?: string;
+  maxPages?: number;
+  extract?: string;
+
+  // Data transform-specific; filter nodes reuse items, condition and itemVariable
+  mappings?: string;
+  source?: string;
+  transformMode?: 'object' | 'each';
+  keepUnmapped?: boolean;
+
+  // Sub-workflow-specific; mappings build the child's input
+  subWorkflowId?: string;
+  subWorkflowVersion?: number;
+  waitForCompletion?: boolean;
+  maxDepth?: number;
 }
 
 export type NodeType = 
@@ -89,10 +162,13 @@ export type NodeType =
   | 'start'
   | 'end'
   | 'webhook'
+  | 'schedule'
   | 'api_call'
   | 'data_transform'
+  | 'filter'
   | 'loop'
-  | 'switch';
+  | 'switch'
+  | 'sub_workflow';
 
 export type NodeStatus = 
   | 'idle'
@@ -101,7 +177,8 @@ export type NodeStatus =
   | 'error'
   | 'waiting'
   | 'skipped'
-  | 'timeout';
+  | 'timeout'
+  | 'cancelled';
 
 export interface Workflow {
   id: string;
@@ -111,6 +188,9 @@ export interface Workflow {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
   variables?: Record<string, any>;
+  // What runs take as input and what the End node returns, checked on each run
+  inputSchema?: Record<string, ParameterSchema>;
+  outputSchema?: Record<string, ParameterSchema>;
   settings: WorkflowSettings;
   createdAt: Date;
   updatedAt: Date;
@@ -133,6 +213,10 @@ export interface RetryPolicy {
   backoffStrategy: 'linear' | 'exponential' | 'fixed';
   baseDelay: number;
   maxDelay: number;
+  // Share of each delay that is randomised, from 0 to 1
+  jitter?: number;
+  // Error classes worth retrying; every failure when empty
+  retryOn?: ErrorClass[];
 }
 
 export interface ErrorHandling {
@@ -173,11 +257,22 @@ export interface WorkflowExecution {
   error?: string;
   nodeExecutions: NodeExecution[];
   logs: ExecutionLog[];
+  // Run of the fallback workflow started after this one failed
+  fallbackExecutionId?: string;
+  // Set on runs started by a sub-workflow node
+  parentExecutionId?: string;
+  parentNodeId?: string;
+  // Runs started by this one's sub-workflow nodes
+  childExecutionIds?: string[];
+  // Pinned data and mocks stood in for nodes that call out
+  dryRun?: boolean;
 }
 
 export type ExecutionStatus = 
   | 'pending'
   | 'running'
+  | 'waiting'
+  | 'paused'
   | 'completed'
   | 'failed'
   | 'cancelled'
@@ -195,6 +290,9 @@ export interface NodeExecution {
   error?: string;
   retryCount: number;
   logs: ExecutionLog[];
+  // Set on nodes run inside a loop body
+  loopNodeId?: string;
+  iteration?: number;
 }
 
 export interface ExecutionLog {
@@ -282,16 +380,7 @@ export interface ToolSchema {
   output: Record<string, ParameterSchema>;
 }
 
-export interface ParameterSchema {
-  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
-  description?: string;
-  required?: boolean;
-  default?: any;
-  enum?: any[];
-  format?: string;
-  properties?: Record<string, ParameterSchema>;
-  items?: ParameterSchema;
-}
+export type { ParameterSchema } from '@shared/engine';
 
 export interface AxonPulsEvent {
   id: string;
@@ -311,6 +400,8 @@ export type EventType =
   | 'workflow.completed'
   | 'workflow.failed'
   | 'workflow.cancelled'
+  | 'workflow.paused'
+  | 'workflow.resumed'
   | 'node.started'
   | 'node.completed'
   | 'node.failed'
@@ -321,15 +412,12 @@ export type EventType =
   | 'tool.response'
   | 'user.input'
   | 'system.error'
-  | 'system.warning';
+  | 'system.warning'
+  | 'debug.paused'
+  | 'debug.resumed'
+  | 'debug.command';
 
-export interface StreamingResponse {
-  id: string;
-  type: 'text' | 'function_call' | 'error' | 'complete';
-  content: string;
-  delta?: string;
-  metadata?: Record<string, any>;
-}
+export type { StreamingResponse } from '@shared/ai';
 
 export interface WorkflowTemplate {
   id: string;